@@ -0,0 +1,333 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import clsx from "clsx";
+import { SESSION_COOKIE, sessionFromCookie } from "@/lib/auth";
+import {
+  ADMIN_COOKIE,
+  isAdminToken,
+  listUsage,
+  summarizeUsage,
+  usageQuotas,
+  type UsageStatus,
+  type UsageTotals
+} from "@/lib/usage";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Usage · LeadGen Agent",
+  robots: { index: false, follow: false }
+};
+
+interface UsagePageProps {
+  searchParams: { days?: string; invalid?: string };
+}
+
+const rangeOptions = [7, 30, 90];
+
+const statusStyles: Record<UsageStatus, string> = {
+  ok: "text-emerald-300",
+  invalid: "text-amber-300",
+  error: "text-rose-300",
+  "no-provider": "text-slate-400",
+  "over-quota": "text-amber-300",
+  "rate-limited": "text-rose-300",
+  cancelled: "text-slate-400"
+};
+
+const timeFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "UTC"
+});
+
+function usd(value: number) {
+  return value < 1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function tokens(value: number) {
+  return value.toLocaleString("en-US");
+}
+
+function AdminTokenForm({ invalid }: { invalid: boolean }) {
+  if (!process.env.ADMIN_TOKEN) {
+    return (
+      <main className="mx-auto max-w-md px-4 py-20">
+        <p className="text-sm text-slate-400">
+          Set <code>ADMIN_TOKEN</code> on the server to open the usage report.
+        </p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto max-w-md px-4 py-20">
+      <form
+        method="post"
+        action="/api/usage/session"
+        className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/50 p-6"
+      >
+        <h1 className="text-lg font-semibold text-slate-100">Usage and spend</h1>
+        <label className="grid gap-1">
+          <span className="text-sm font-medium text-slate-200">Admin token</span>
+          <input
+            type="password"
+            name="token"
+            autoComplete="off"
+            className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/30"
+          />
+        </label>
+        {invalid && <p className="text-sm text-rose-300">That token is not valid.</p>}
+        <button
+          type="submit"
+          className="w-full rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400"
+        >
+          Open report
+        </button>
+      </form>
+    </main>
+  );
+}
+
+export default async function UsagePage({ searchParams }: UsagePageProps) {
+  // Usage spans every workspace, so it needs an owner session and the admin token.
+  const session = await sessionFromCookie(cookies().get(SESSION_COOKIE)?.value);
+  if (!session) redirect("/sign-in");
+  if (session.role !== "owner") {
+    return (
+      <main className="mx-auto max-w-md px-4 py-20">
+        <p className="text-sm text-slate-400">
+          The usage report is for workspace owners. You are a {session.role} in {session.workspace.name}.
+        </p>
+      </main>
+    );
+  }
+  if (!isAdminToken(cookies().get(ADMIN_COOKIE)?.value)) {
+    return <AdminTokenForm invalid={Boolean(searchParams.invalid)} />;
+  }
+
+  const days = rangeOptions.includes(Number(searchParams.days)) ? Number(searchParams.days) : 30;
+  const events = await listUsage(days);
+  const summary = summarizeUsage(events, days);
+  const quotas = usageQuotas();
+  const today = summary.daily[summary.daily.length - 1];
+  const maxSpend = Math.max(...summary.daily.map((day) => day.costUsd), 0);
+  const maxRequests = Math.max(...summary.daily.map((day) => day.requests), 1);
+  const recent = events.slice(-25).reverse();
+
+  const cards: { label: string; value: string }[] = [
+    { label: "Requests", value: tokens(summary.totals.requests) },
+    { label: "Generated", value: tokens(summary.totals.generated) },
+    { label: "Fallbacks", value: tokens(summary.totals.fallbacks) },
+    { label: "Failures", value: tokens(summary.totals.failures) },
+    { label: "Rate limited", value: tokens(summary.totals.rateLimited) },
+    { label: "Tokens", value: tokens(summary.totals.inputTokens + summary.totals.outputTokens) },
+    { label: "Spend", value: usd(summary.totals.costUsd) }
+  ];
+
+  return (
+    <main className="mx-auto max-w-6xl space-y-8 px-4 py-12 md:py-20">
+      <header className="space-y-2">
+        <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">
+          ← Back to the planner
+        </Link>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <h1 className="text-3xl font-semibold tracking-tight text-white">Usage and spend</h1>
+          <nav className="flex gap-1 text-sm">
+            {rangeOptions.map((option) => (
+              <Link
+                key={option}
+                href={`/admin/usage?days=${option}`}
+                className={clsx(
+                  "rounded-md border px-3 py-1.5",
+                  option === days
+                    ? "border-indigo-400 bg-indigo-500/20 text-indigo-100"
+                    : "border-slate-700 text-slate-400 hover:text-slate-200"
+                )}
+              >
+                {option} days
+              </Link>
+            ))}
+          </nav>
+        </div>
+        <p className="text-base text-slate-400">
+          Every call to the plan, section, batch and translate APIs, with token
+          counts and estimated cost. Days are in UTC.
+        </p>
+      </header>
+
+      <section className="grid grid-cols-2 gap-3 sm:grid-cols-4 lg:grid-cols-7">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-xl border border-slate-800 bg-slate-900/50 p-4">
+            <p className="text-xs uppercase tracking-wide text-slate-500">{card.label}</p>
+            <p className="mt-1 text-xl font-semibold text-slate-100">{card.value}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h2 className="text-lg font-semibold text-slate-100">Today&apos;s quotas</h2>
+        <QuotaBar
+          label="Tokens"
+          used={today.inputTokens + today.outputTokens}
+          quota={quotas.dailyTokens}
+          format={tokens}
+        />
+        <QuotaBar label="Spend" used={today.costUsd} quota={quotas.dailySpendUsd} format={usd} />
+      </section>
+
+      <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h2 className="text-lg font-semibold text-slate-100">By day</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[40rem] text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-2 pr-3 font-medium">Day</th>
+                <th className="py-2 pr-3 font-medium">Requests</th>
+                <th className="py-2 pr-3 font-medium">Fallbacks</th>
+                <th className="py-2 pr-3 font-medium">Failures</th>
+                <th className="py-2 pr-3 font-medium">Tokens</th>
+                <th className="w-1/3 py-2 font-medium">Spend</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {summary.daily
+                .slice()
+                .reverse()
+                .map((day) => (
+                  <tr key={day.date} className="border-t border-slate-800">
+                    <td className="py-1.5 pr-3 text-slate-400">{day.date}</td>
+                    <td className="py-1.5 pr-3">
+                      <span
+                        className="mr-2 inline-block h-2 rounded-full bg-indigo-400/60 align-middle"
+                        style={{ width: `${(day.requests / maxRequests) * 4}rem` }}
+                      />
+                      {day.requests}
+                    </td>
+                    <td className="py-1.5 pr-3">{day.fallbacks}</td>
+                    <td className={clsx("py-1.5 pr-3", day.failures > 0 && "text-rose-300")}>{day.failures}</td>
+                    <td className="py-1.5 pr-3">{tokens(day.inputTokens + day.outputTokens)}</td>
+                    <td className="py-1.5">
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-800">
+                          <div
+                            className="h-full bg-emerald-400/70"
+                            style={{ width: `${maxSpend > 0 ? (day.costUsd / maxSpend) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="w-20 text-right tabular-nums">{usd(day.costUsd)}</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Breakdown title="By model" rows={summary.models} />
+        <Breakdown title="By API" rows={summary.routes} />
+        <Breakdown title="Top clients" rows={summary.clients} />
+      </div>
+
+      <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h2 className="text-lg font-semibold text-slate-100">Recent requests</h2>
+        {recent.length === 0 ? (
+          <p className="text-sm text-slate-400">No requests in this range yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[40rem] text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-medium">Time (UTC)</th>
+                  <th className="py-2 pr-3 font-medium">API</th>
+                  <th className="py-2 pr-3 font-medium">Model</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Tokens</th>
+                  <th className="py-2 pr-3 font-medium">Cost</th>
+                  <th className="py-2 font-medium">Duration</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {recent.map((event) => (
+                  <tr key={event.id} className="border-t border-slate-800">
+                    <td className="py-1.5 pr-3 text-slate-400">{timeFormatter.format(new Date(event.at))}</td>
+                    <td className="py-1.5 pr-3">{event.route}</td>
+                    <td className="py-1.5 pr-3">{event.model ?? "heuristic"}</td>
+                    <td className={clsx("py-1.5 pr-3", statusStyles[event.status])}>
+                      {event.status}
+                      {event.fallback && event.status !== "no-provider" && " · fallback"}
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      {tokens(event.inputTokens + event.outputTokens)}
+                      {event.estimated && <span className="text-slate-500"> (est.)</span>}
+                    </td>
+                    <td className="py-1.5 pr-3 tabular-nums">{usd(event.costUsd)}</td>
+                    <td className="py-1.5">{(event.durationMs / 1000).toFixed(1)}s</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
+
+function QuotaBar({
+  label,
+  used,
+  quota,
+  format
+}: {
+  label: string;
+  used: number;
+  quota: number | null;
+  format: (value: number) => string;
+}) {
+  const share = quota ? Math.min(1, used / quota) : 0;
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex justify-between text-slate-300">
+        <span>{label}</span>
+        <span className="tabular-nums">
+          {format(used)} {quota === null ? "· no quota set" : `of ${format(quota)}`}
+        </span>
+      </div>
+      {quota !== null && (
+        <div className="h-2 overflow-hidden rounded-full bg-slate-800">
+          <div
+            className={clsx("h-full", share >= 1 ? "bg-rose-400" : share >= 0.8 ? "bg-amber-400" : "bg-emerald-400")}
+            style={{ width: `${share * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Breakdown({ title, rows }: { title: string; rows: (UsageTotals & { name: string })[] }) {
+  return (
+    <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-lg font-semibold text-slate-100">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400">Nothing yet.</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {rows.map((row) => (
+            <li key={row.name} className="flex items-baseline justify-between gap-3">
+              <span className="truncate text-slate-300">{row.name}</span>
+              <span className="shrink-0 text-xs text-slate-500">
+                {row.requests} req · {usd(row.costUsd)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { sessionCookie, signInWithToken } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/** Target of emailed sign-in links: signs the user in and opens the planner. */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const result = await signInWithToken(url.searchParams.get("token") ?? "");
+
+  if (!result.ok) {
+    const failed = new URL("/sign-in", url.origin);
+    failed.searchParams.set("error", result.error);
+    return NextResponse.redirect(failed, 303);
+  }
+
+  const response = NextResponse.redirect(new URL("/", url.origin), 303);
+  response.headers.set("Set-Cookie", sessionCookie(result.user.id, result.workspace.id));
+  return response;
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { magicLinkSchema } from "@/lib/schemas";
+import { requestMagicLink } from "@/lib/auth";
+import { appUrl, canSendMail } from "@/lib/mail";
+import { rateLimitHeaders, takeAuthRateLimit } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+/** Emails a sign-in link. Answers the same whether or not the address may sign in. */
+export async function POST(request: Request) {
+  const parsed = magicLinkSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  // Per account and per address, so the form cannot be used to flood an inbox.
+  const limit = takeAuthRateLimit(request, parsed.data.email);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Too many requests. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const origin = appUrl();
+  if (!origin) {
+    return NextResponse.json({ error: "Set APP_URL to send sign-in links." }, { status: 500 });
+  }
+  if (!canSendMail()) {
+    return NextResponse.json({ error: "Set SMTP_URL to send sign-in links." }, { status: 500 });
+  }
+
+  try {
+    await requestMagicLink(parsed.data.email, origin);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not send the sign-in email." }, { status: 502 });
+  }
+
+  return NextResponse.json(
+    { message: `If ${parsed.data.email} can sign in, a link is on its way.` },
+    { status: 202, headers: rateLimitHeaders(limit) }
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { switchWorkspaceSchema } from "@/lib/schemas";
+import {
+  authorize,
+  describeSession,
+  findMembership,
+  sessionCookie
+} from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { user, workspace } = auth.session;
+  return NextResponse.json(await describeSession(user, workspace), { status: 200 });
+}
+
+/** Switches the session to another workspace the user belongs to. */
+export async function PUT(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = switchWorkspaceSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { user } = auth.session;
+  const workspace = await findMembership(user, parsed.data.workspaceId);
+
+  if (!workspace) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await describeSession(user, workspace), {
+    status: 200,
+    headers: { "Set-Cookie": sessionCookie(user.id, workspace.id) }
+  });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { signInSchema } from "@/lib/schemas";
+import { describeSession, sessionCookie, signInWithPassword } from "@/lib/auth";
+import { rateLimitHeaders, takeAuthRateLimit } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const parsed = signInSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  // Slows down password guessing, per account and per address.
+  const limit = takeAuthRateLimit(request, parsed.data.email);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Too many attempts. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const result = await signInWithPassword(parsed.data);
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json(await describeSession(result.user, result.workspace), {
+    status: 200,
+    headers: { "Set-Cookie": sessionCookie(result.user.id, result.workspace.id) }
+  });
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { clearedSessionCookie } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: { "Set-Cookie": clearedSessionCookie() }
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { signUpSchema } from "@/lib/schemas";
+import { describeSession, sessionCookie, signUpWithPassword } from "@/lib/auth";
+import { appUrl } from "@/lib/mail";
+import { rateLimitHeaders, takeAuthRateLimit } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const parsed = signUpSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  // Per account and per address, so sign-ups cannot flood an inbox with confirmation links.
+  const limit = takeAuthRateLimit(request, parsed.data.email);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Too many attempts. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const origin = appUrl();
+  if (!origin) {
+    return NextResponse.json({ error: "Set APP_URL to send confirmation links." }, { status: 500 });
+  }
+
+  let result: Awaited<ReturnType<typeof signUpWithPassword>>;
+  try {
+    result = await signUpWithPassword(parsed.data, origin);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Could not send the confirmation email." }, { status: 502 });
+  }
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  if ("pending" in result) {
+    return NextResponse.json(
+      { message: `Check ${parsed.data.email} for a link to confirm your address and finish signing up.` },
+      { status: 202 }
+    );
+  }
+
+  return NextResponse.json(await describeSession(result.user, result.workspace), {
+    status: 201,
+    headers: { "Set-Cookie": sessionCookie(result.user.id, result.workspace.id) }
+  });
+}
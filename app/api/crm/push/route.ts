@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import {
+  createCrmConnector,
+  isCrmConfigured,
+  pushOperations,
+  resolveCrmConfig
+} from "@/lib/crm";
+import { crmPushSchema } from "@/lib/schemas";
+import { getPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = crmPushSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { connector: connectorId, planId, dryRun } = parsed.data;
+  const stored = planId ? await getPlan(planId, auth.session.workspace.id) : null;
+  const plan = parsed.data.plan ?? stored?.plan;
+
+  if (!plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const config = resolveCrmConfig(connectorId);
+  const connector = createCrmConnector(config);
+  const operations = connector.plan(plan, {
+    name: parsed.data.name || stored?.name || "Lead generation plan"
+  });
+
+  if (dryRun) {
+    return NextResponse.json({
+      connector: connectorId,
+      dryRun: true,
+      baseUrl: config.baseUrl,
+      operations
+    });
+  }
+
+  if (!isCrmConfigured(config)) {
+    return NextResponse.json(
+      {
+        error: `${connector.label} is not configured. Set its credentials or CRM_MOCK=1, or run a dry run instead.`
+      },
+      { status: 400 }
+    );
+  }
+
+  const results = await pushOperations(config, connector, operations, request.signal);
+  const failed = results.filter((result) => !result.ok).length;
+
+  return NextResponse.json(
+    {
+      connector: connectorId,
+      dryRun: false,
+      operations,
+      results,
+      ...(failed ? { error: `${failed} of ${results.length} records failed to sync.` } : {})
+    },
+    { status: failed === results.length && failed > 0 ? 502 : 200 }
+  );
+}
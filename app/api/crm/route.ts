@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import {
+  createCrmConnector,
+  crmConnectorIds,
+  isCrmConfigured,
+  resolveCrmConfig
+} from "@/lib/crm";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/** Lists connectors and whether each can push live (dry runs always work). */
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({
+    connectors: crmConnectorIds.map((id) => {
+      const config = resolveCrmConfig(id);
+      return {
+        id,
+        label: createCrmConnector(config).label,
+        configured: isCrmConfigured(config),
+        mock: config.mock
+      };
+    })
+  });
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { isoDatePattern } from "@/lib/calendar";
+import { exportFormatOptions, exportPlan, type ExportFile } from "@/lib/export";
+import { exportRequestSchema } from "@/lib/schemas";
+import { getPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+function fileResponse(file: ExportFile) {
+  return new NextResponse(file.body, {
+    status: 200,
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`
+    }
+  });
+}
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const format = exportFormatOptions.find(
+    (option) => option === searchParams.get("format")
+  );
+
+  if (!id || !format) {
+    return NextResponse.json(
+      {
+        error: `Provide a plan id and one of these formats: ${exportFormatOptions.join(", ")}`
+      },
+      { status: 400 }
+    );
+  }
+
+  const stored = await getPlan(id, auth.session.workspace.id);
+
+  if (!stored?.plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const start = searchParams.get("start");
+
+  if (start && !isoDatePattern.test(start)) {
+    return NextResponse.json({ error: "start must be a YYYY-MM-DD date" }, { status: 400 });
+  }
+
+  return fileResponse(
+    exportPlan(stored.plan, format, stored.name, {
+      timeframe: stored.request.timeframe,
+      startDate: start ?? undefined
+    })
+  );
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = exportRequestSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { plan, format, title, timeframe, startDate, owners } = parsed.data;
+  return fileResponse(exportPlan(plan, format, title, { timeframe, startDate, owners }));
+}
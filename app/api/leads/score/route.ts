@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { parseCsvRecords } from "@/lib/csv";
+import { scoreLeadsSchema } from "@/lib/schemas";
+import { guessColumnMapping, scoreLeads, scoredLeadsToCsv } from "@/lib/scoring";
+import { getPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ROWS = 10000;
+
+export async function POST(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = scoreLeadsSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { planId, csv, mapping } = parsed.data;
+  const profile =
+    parsed.data.profile ??
+    (planId ? (await getPlan(planId, auth.session.workspace.id))?.plan?.idealCustomerProfile : undefined);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const { columns, records } = parseCsvRecords(csv);
+  if (records.length > MAX_ROWS) {
+    return NextResponse.json(
+      { error: `Score at most ${MAX_ROWS} rows per request` },
+      { status: 413 }
+    );
+  }
+
+  const columnMapping = mapping ?? guessColumnMapping(columns);
+  const leads = scoreLeads(profile, records, columnMapping);
+
+  if (new URL(request.url).searchParams.get("format") === "csv") {
+    return new NextResponse(scoredLeadsToCsv(columns, leads), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="scored-leads.csv"'
+      }
+    });
+  }
+
+  return NextResponse.json({ columns, mapping: columnMapping, leads });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { crmConnectorIds, isMockCrmEnabled, type CrmConnectorId } from "@/lib/crm";
+import {
+  listMockRequests,
+  recordMockRequest,
+  resetMockCrm
+} from "@/lib/crm/mock";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { path: string[] };
+}
+
+function connectorFrom(params: RouteContext["params"]): CrmConnectorId | null {
+  return crmConnectorIds.find((id) => id === params.path[0]) ?? null;
+}
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+/** Lists requests the mock CRM has received, optionally for one connector. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  if (!isMockCrmEnabled()) return notFound();
+
+  const connector = params.path[0] === "requests" ? undefined : connectorFrom(params);
+  if (connector === null) {
+    return NextResponse.json({ error: "Unknown connector" }, { status: 404 });
+  }
+  return NextResponse.json({ requests: listMockRequests(connector) });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isMockCrmEnabled()) return notFound();
+
+  const connector = connectorFrom(params);
+  if (!connector) {
+    return NextResponse.json({ error: "Unknown connector" }, { status: 404 });
+  }
+
+  if (!request.headers.get("authorization")?.startsWith("Bearer ")) {
+    return NextResponse.json(
+      connector === "salesforce"
+        ? [{ errorCode: "INVALID_SESSION_ID", message: "Session expired or invalid" }]
+        : { status: "error", message: "Authentication credentials not found." },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Malformed JSON body" }, { status: 400 });
+  }
+
+  const path = `/${params.path.slice(1).join("/")}`;
+  return NextResponse.json(recordMockRequest(connector, "POST", path, body), {
+    status: 201
+  });
+}
+
+export async function DELETE() {
+  if (!isMockCrmEnabled()) return notFound();
+
+  resetMockCrm();
+  return new NextResponse(null, { status: 204 });
+}
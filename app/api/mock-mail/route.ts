@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { isMockMailEnabled, listMockMail, resetMockMail } from "@/lib/mail";
+
+export const dynamic = "force-dynamic";
+
+/** Lists messages the mock mailer has "sent", newest first. */
+export async function GET() {
+  if (!isMockMailEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ messages: listMockMail() });
+}
+
+export async function DELETE() {
+  if (!isMockMailEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  resetMockMail();
+  return new NextResponse(null, { status: 204 });
+}
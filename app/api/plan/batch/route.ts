@@ -0,0 +1,220 @@
+import { NextResponse } from "next/server";
+import { batchRequestSchema, type LeadRequest } from "@/lib/schemas";
+import { loadProvider, type LLMProvider } from "@/lib/providers";
+import { generatePlan } from "@/lib/generate";
+import { buildFallbackPlan, fallbackWarning } from "@/lib/fallback";
+import { savePlan, type NewStoredPlan } from "@/lib/store";
+import { clientKey, rateLimitHeaders, rateLimitPerMinute, takeRateLimit } from "@/lib/rateLimit";
+import { authorize } from "@/lib/auth";
+import {
+  checkQuota,
+  createUsageMeter,
+  recordRateLimited,
+  type UsageMeter,
+  type UsageStatus
+} from "@/lib/usage";
+import {
+  batchConcurrency,
+  expandBatch,
+  mapWithConcurrency,
+  variantLabel,
+  type BatchStreamEvent
+} from "@/lib/batch";
+
+export const dynamic = "force-dynamic";
+
+const FALLBACK_MODEL = "heuristic";
+const encoder = new TextEncoder();
+
+async function record(
+  workspaceId: string,
+  payload: LeadRequest,
+  label: string,
+  result: Omit<NewStoredPlan, "workspaceId" | "request" | "name" | "usage">,
+  meter: UsageMeter,
+  status: UsageStatus
+) {
+  let planId: string | null = null;
+  try {
+    const stored = await savePlan({
+      ...result,
+      workspaceId,
+      request: payload,
+      name: `${payload.businessName} · ${label}`,
+      usage: meter.totals()
+    });
+    planId = stored.id;
+  } catch (error) {
+    console.error("Failed to persist batch plan", error);
+  }
+  await meter.record(status, result.fallback, planId);
+  return planId;
+}
+
+async function runVariant(
+  configured: LLMProvider | null,
+  workspaceId: string,
+  client: string,
+  payload: LeadRequest,
+  label: string,
+  index: number,
+  signal: AbortSignal
+): Promise<BatchStreamEvent> {
+  // Checked per variant so a batch stops calling the model once a quota runs out.
+  const exhausted = configured && (await checkQuota());
+  const provider = exhausted ? null : configured;
+  const meter = createUsageMeter("batch", client, provider);
+
+  const fallback = async (warning: string, status: UsageStatus): Promise<BatchStreamEvent> => {
+    const plan = buildFallbackPlan(payload);
+    const planId = await record(workspaceId, payload, label, { model: FALLBACK_MODEL, fallback: true, plan, raw: null }, meter, status);
+    return { type: "result", index, plan, planId, fallback: true, warning: fallbackWarning(payload, warning) };
+  };
+
+  if (exhausted) return fallback(`${exhausted} This is a heuristic fallback plan.`, "over-quota");
+  if (!provider) return fallback("No LLM provider is configured, so this is a heuristic fallback plan.", "no-provider");
+
+  try {
+    const { value: plan, raw, message } = await generatePlan(provider, payload, { signal, onUsage: meter.add });
+    const planId = await record(
+      workspaceId,
+      payload,
+      label,
+      { model: provider.label, fallback: false, plan, raw: plan ? null : raw },
+      meter,
+      plan ? "ok" : "invalid"
+    );
+    if (!plan) {
+      return { type: "failed", index, message: message ?? "The model did not return a usable plan.", planId };
+    }
+    return { type: "result", index, plan, planId, fallback: false };
+  } catch (error) {
+    if (signal.aborted) {
+      await meter.record("cancelled", false);
+      throw error;
+    }
+    console.error(error);
+    return fallback("The LLM provider failed, so this is a heuristic fallback plan.", "error");
+  }
+}
+
+/**
+ * Generates one plan per variant with bounded concurrency, streaming
+ * newline-delimited progress events as each variant starts and finishes.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const raw = await request.json();
+  const parsed = batchRequestSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { base, variants } = parsed.data;
+
+  const expanded = expandBatch(base, variants);
+  const invalid = expanded.findIndex((result) => !result.success);
+  const invalidResult = expanded[invalid];
+  if (invalidResult && !invalidResult.success) {
+    return NextResponse.json(
+      {
+        error: `Variant ${invalid + 1} is not a valid request`,
+        issues: invalidResult.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  // Each variant is a generation, so a batch spends one slot per variant and
+  // cannot be larger than a minute's worth of them.
+  const perMinute = rateLimitPerMinute();
+  if (perMinute > 0 && variants.length > perMinute) {
+    return NextResponse.json(
+      { error: `A batch can have at most ${perMinute} variants, the per-minute plan limit.` },
+      { status: 400 }
+    );
+  }
+
+  const client = clientKey(request, auth.session.user.id);
+  const limit = takeRateLimit(client, variants.length, perMinute);
+  if (!limit.allowed) {
+    await recordRateLimited("batch", client);
+    return NextResponse.json(
+      { error: `Too many plan requests. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const payloads = expanded.flatMap((result) => (result.success ? [result.data] : []));
+  const labels = variants.map(variantLabel);
+  const provider = loadProvider();
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  request.signal.addEventListener("abort", abort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: BatchStreamEvent) => {
+        if (!controller.signal.aborted) {
+          streamController.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      let completed = 0;
+      let failed = 0;
+      send({ type: "start", total: payloads.length, labels });
+
+      try {
+        await mapWithConcurrency(
+          payloads,
+          batchConcurrency(),
+          async (payload, index) => {
+            send({ type: "running", index });
+            const event = await runVariant(provider, auth.session.workspace.id, client, payload, labels[index], index, controller.signal);
+            if (event.type === "failed") failed += 1;
+            else completed += 1;
+            send(event);
+          },
+          controller.signal
+        );
+        send({ type: "done", completed, failed });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error(error);
+          send({ type: "error", message: "Batch stream failed unexpectedly." });
+        }
+      } finally {
+        request.signal.removeEventListener("abort", abort);
+        try {
+          streamController.close();
+        } catch {
+          // Stream was already cancelled by the client.
+        }
+      }
+    },
+    cancel() {
+      abort();
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      ...rateLimitHeaders(limit)
+    }
+  });
+}
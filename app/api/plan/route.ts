@@ -1,99 +1,227 @@
 import { NextResponse } from "next/server";
-import { buildLeadPlanPrompt } from "@/lib/prompt";
 import { leadRequestSchema, type LeadRequest } from "@/lib/schemas";
-import { getOpenAIClient } from "@/lib/openai";
-import { tryParsePlan } from "@/lib/types";
-
-function buildFallbackPlan(payload: LeadRequest) {
-  return {
-    campaignSummary: {
-      northStar: `Generate qualified pipeline for ${payload.businessName} within ${payload.timeframe}.`,
-      successMetrics: [
-        "Meetings booked per week",
-        "Reply rate %",
-        "Pipeline value influenced"
-      ],
-      positioningTheme: `Position as the ${payload.uniqueValue.toLowerCase()}`
-    },
-    idealCustomerProfile: {
-      companyTraits: [
-        `Operates in ${payload.industry}`,
-        "Mid-market to enterprise accounts",
-        "Teams with urgent need for modernization"
-      ],
-      buyerPersona: [
-        "Economic buyer: VP / Director level stakeholder",
-        "Technical champion: hands-on practitioner",
-        "Influencer: adjacent department peer"
-      ],
-      painPoints: [
-        "Manual workflows causing wasted spend",
-        "Pressure to show ROI quickly",
-        "Need to differentiate in competitive market"
-      ]
-    },
-    messagingPillars: [
-      {
-        title: "Value driver",
-        angle: `Highlight how ${payload.productDescription.toLowerCase()} unlocks measurable ROI.`,
-        proofPoints: [
-          "Quantify time or cost savings",
-          "Reference a key customer win",
-          "Mention implementation support"
-        ]
-      },
-      {
-        title: "Risk reducer",
-        angle:
-          "Show how the offer reduces risk compared to current status quo.",
-        proofPoints: [
-          "Share guarantee or SLA",
-          "Provide social proof snippet",
-          "Emphasize ease-of-adoption"
-        ]
+import { loadProvider, type LLMProvider } from "@/lib/providers";
+import { planSectionKeys } from "@/lib/types";
+import { describeAttempts, generatePlan } from "@/lib/generate";
+import { buildFallbackPlan, fallbackWarning } from "@/lib/fallback";
+import { savePlan, type NewStoredPlan } from "@/lib/store";
+import { clientKey, rateLimitHeaders, takeRateLimit, type RateLimitResult } from "@/lib/rateLimit";
+import { authorize } from "@/lib/auth";
+import {
+  checkQuota,
+  createUsageMeter,
+  recordRateLimited,
+  type UsageMeter,
+  type UsageStatus
+} from "@/lib/usage";
+import {
+  createSectionParser,
+  encodeEvent,
+  parseSection,
+  type PlanStreamEvent
+} from "@/lib/stream";
+
+const FALLBACK_MODEL = "heuristic";
+const NO_PROVIDER_WARNING =
+  "No LLM provider is configured. Responding with a heuristic fallback plan.";
+const PROVIDER_FAILED_WARNING =
+  "Failed to generate plan with the configured LLM provider. Provided a fallback strategy instead.";
+
+async function recordGeneration(
+  workspaceId: string,
+  payload: LeadRequest,
+  result: Omit<NewStoredPlan, "workspaceId" | "request" | "usage">,
+  meter: UsageMeter,
+  status: UsageStatus
+) {
+  let planId: string | null = null;
+  try {
+    const stored = await savePlan({ ...result, workspaceId, request: payload, usage: meter.totals() });
+    planId = stored.id;
+  } catch (error) {
+    console.error("Failed to persist generated plan", error);
+  }
+  await meter.record(status, result.fallback, planId);
+  return planId;
+}
+
+type ResolvedProvider =
+  | { provider: LLMProvider }
+  | { provider: null; status: UsageStatus; warning: string };
+
+/** The provider to call, or why the fallback planner answers instead. */
+async function resolveProvider(): Promise<ResolvedProvider> {
+  const provider = loadProvider();
+  if (!provider) {
+    return { provider: null, status: "no-provider", warning: NO_PROVIDER_WARNING };
+  }
+  const exhausted = await checkQuota();
+  if (exhausted) {
+    return {
+      provider: null,
+      status: "over-quota",
+      warning: `${exhausted} Responding with a heuristic fallback plan until it resets at midnight UTC.`
+    };
+  }
+  return { provider };
+}
+
+function streamResponse(
+  run: (send: (event: PlanStreamEvent) => void, signal: AbortSignal) => Promise<void>,
+  requestSignal: AbortSignal,
+  limit: RateLimitResult
+) {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  requestSignal.addEventListener("abort", abort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: PlanStreamEvent) => {
+        if (!controller.signal.aborted) {
+          streamController.enqueue(encodeEvent(event));
+        }
+      };
+
+      try {
+        await run(send, controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error(error);
+          send({ type: "error", message: "Plan stream failed unexpectedly." });
+        }
+      } finally {
+        requestSignal.removeEventListener("abort", abort);
+        try {
+          streamController.close();
+        } catch {
+          // Stream was already cancelled by the client.
+        }
       }
-    ],
-    channelStrategy: payload.channels.map((channel) => ({
-      channel,
-      objective: `Drive ${payload.offer.toLowerCase()} conversions.`,
-      play: `Run a ${payload.budgetLevel} budget program combining intent data and manual research.`,
-      cadence: payload.timeframe === "2 weeks" ? "3x weekly" : "Weekly",
-      sampleCopy: `Hi {{first_name}}, ${payload.offer}`
-    })),
-    automationWorkflow: [
-      {
-        name: "Prompt follow-up sequence",
-        trigger: "Form submission or positive reply",
-        steps: [
-          "Send tailored follow-up within 4 hours",
-          "Share relevant asset on day 3",
-          "Escalate to call invite on day 5 if no response"
-        ]
+    },
+    cancel() {
+      abort();
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      ...rateLimitHeaders(limit)
+    }
+  });
+}
+
+async function streamFallbackPlan(
+  workspaceId: string,
+  payload: LeadRequest,
+  send: (event: PlanStreamEvent) => void,
+  warning: string,
+  meter: UsageMeter,
+  status: UsageStatus
+) {
+  const plan = buildFallbackPlan(payload);
+  warning = fallbackWarning(payload, warning);
+  for (const key of planSectionKeys) {
+    send({ type: "section", key, value: plan[key] });
+  }
+  const planId = await recordGeneration(
+    workspaceId,
+    payload,
+    { model: FALLBACK_MODEL, fallback: true, plan, raw: null },
+    meter,
+    status
+  );
+  send({ type: "done", plan, raw: null, warning, planId });
+}
+
+function streamPlan(
+  workspaceId: string,
+  payload: LeadRequest,
+  requestSignal: AbortSignal,
+  client: string,
+  limit: RateLimitResult
+) {
+  return streamResponse(async (send, signal) => {
+    const resolved = await resolveProvider();
+    const meter = createUsageMeter("plan", client, resolved.provider);
+    if (!resolved.provider) {
+      await streamFallbackPlan(workspaceId, payload, send, resolved.warning, meter, resolved.status);
+      return;
+    }
+    const provider = resolved.provider;
+
+    const parser = createSectionParser((key, valueText) => {
+      send(parseSection(key, valueText));
+    });
+
+    let result;
+    try {
+      result = await generatePlan(provider, payload, {
+        signal,
+        onUsage: meter.add,
+        firstAttempt: async (request) => {
+          for await (const delta of provider.stream(request)) {
+            parser.push(delta);
+          }
+          return parser.text();
+        }
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        await meter.record("cancelled", false);
+        return;
       }
-    ],
-    experiments: [
-      {
-        hypothesis:
-          "Referencing a mutual connection increases cold outreach replies.",
-        experiment: "Test LinkedIn InMail templates with social proof block.",
-        metric: "Positive reply rate"
-      },
-      {
-        hypothesis: "Offering a quick teardown boosts meeting bookings.",
-        experiment: "Cold email variant offering 15-min audit.",
-        metric: "Meetings booked"
+      console.error(error);
+      await streamFallbackPlan(workspaceId, payload, send, PROVIDER_FAILED_WARNING, meter, "error");
+      return;
+    }
+
+    const { value: plan, raw, message, attempts } = result;
+    if (plan && attempts.length > 1) {
+      for (const key of planSectionKeys) {
+        send({ type: "section", key, value: plan[key] });
       }
-    ],
-    nextSteps: [
-      "Finalize lead list with top 200 accounts",
-      "Draft channel-specific outreach scripts",
-      "Enable experiment tracking dashboard",
-      "Launch in waves and optimize weekly"
-    ]
-  };
+    }
+
+    const planId = await recordGeneration(
+      workspaceId,
+      payload,
+      { model: provider.label, fallback: false, plan, raw: plan ? null : raw },
+      meter,
+      plan ? "ok" : "invalid"
+    );
+    send({
+      type: "done",
+      plan,
+      raw: plan ? null : raw,
+      notice: message ?? describeAttempts(attempts),
+      planId,
+      attempts,
+      usage: meter.totals()
+    });
+  }, requestSignal, limit);
 }
 
 export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const workspaceId = auth.session.workspace.id;
+  const client = clientKey(request, auth.session.user.id);
+  const limit = takeRateLimit(client);
+  if (!limit.allowed) {
+    await recordRateLimited("plan", client);
+    return NextResponse.json(
+      { error: `Too many plan requests. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
   const raw = await request.json();
   const parsed = leadRequestSchema.safeParse(raw);
 
@@ -109,60 +237,75 @@ export async function POST(request: Request) {
 
   const payload = parsed.data;
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (new URL(request.url).searchParams.get("stream") === "1") {
+    return streamPlan(workspaceId, payload, request.signal, client, limit);
+  }
+
+  const resolved = await resolveProvider();
+  const meter = createUsageMeter("plan", client, resolved.provider);
+
+  if (!resolved.provider) {
+    const plan = buildFallbackPlan(payload);
     return NextResponse.json(
       {
-        plan: buildFallbackPlan(payload),
+        plan,
         raw: null,
-        warning:
-          "OPENAI_API_KEY is not configured. Responding with a heuristic fallback plan."
+        planId: await recordGeneration(
+          workspaceId,
+          payload,
+          { model: FALLBACK_MODEL, fallback: true, plan, raw: null },
+          meter,
+          resolved.status
+        ),
+        warning: fallbackWarning(payload, resolved.warning)
       },
-      { status: 200 }
+      { status: 200, headers: rateLimitHeaders(limit) }
     );
   }
+  const provider = resolved.provider;
 
   try {
-    const client = getOpenAIClient();
-    const prompt = buildLeadPlanPrompt(payload);
-
-    const completion = await client.chat.completions.create({
-      model: "gpt-4o-mini",
-      temperature: 0.4,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are Pipeline Pilot, a senior demand generation strategist. Always respond with strictly valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ]
-    });
-
-    const responseText =
-      completion.choices?.[0]?.message?.content ?? "";
-    const { plan, raw: rawPlan, message } = tryParsePlan(responseText);
+    const {
+      value: plan,
+      raw: rawPlan,
+      message,
+      attempts
+    } = await generatePlan(provider, payload, { signal: request.signal, onUsage: meter.add });
 
     return NextResponse.json(
       {
-        plan: plan ?? null,
+        plan,
         raw: plan ? null : rawPlan,
-        notice: message ?? null
+        planId: await recordGeneration(
+          workspaceId,
+          payload,
+          { model: provider.label, fallback: false, plan, raw: plan ? null : rawPlan },
+          meter,
+          plan ? "ok" : "invalid"
+        ),
+        notice: message ?? describeAttempts(attempts),
+        usage: meter.totals(),
+        attempts
       },
-      { status: 200 }
+      { status: 200, headers: rateLimitHeaders(limit) }
     );
   } catch (error) {
     console.error(error);
+    const plan = buildFallbackPlan(payload);
     return NextResponse.json(
       {
-        plan: buildFallbackPlan(payload),
+        plan,
         raw: null,
-        warning:
-          "Failed to generate plan with OpenAI. Provided a fallback strategy instead."
+        planId: await recordGeneration(
+          workspaceId,
+          payload,
+          { model: FALLBACK_MODEL, fallback: true, plan, raw: null },
+          meter,
+          "error"
+        ),
+        warning: fallbackWarning(payload, PROVIDER_FAILED_WARNING)
       },
-      { status: 200 }
+      { status: 200, headers: rateLimitHeaders(limit) }
     );
   }
 }
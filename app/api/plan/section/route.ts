@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { sectionRequestSchema } from "@/lib/schemas";
+import { loadProvider } from "@/lib/providers";
+import { buildFallbackPlan } from "@/lib/fallback";
+import { getPlan, saveGeneratedSection } from "@/lib/store";
+import { generateSection } from "@/lib/generate";
+import type { LeadPlan, PlanSectionKey } from "@/lib/types";
+import { clientKey, rateLimitHeaders, takeRateLimit } from "@/lib/rateLimit";
+import { authorize } from "@/lib/auth";
+import { checkQuota, createUsageMeter, recordRateLimited } from "@/lib/usage";
+
+async function persistSection(
+  planId: string | undefined,
+  plan: LeadPlan,
+  section: PlanSectionKey
+) {
+  if (!planId) return;
+  try {
+    await saveGeneratedSection(planId, plan, section);
+  } catch (error) {
+    console.error("Failed to persist regenerated section", error);
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const client = clientKey(request, auth.session.user.id);
+  const limit = takeRateLimit(client);
+  if (!limit.allowed) {
+    await recordRateLimited("section", client);
+    return NextResponse.json(
+      { error: `Too many requests. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const raw = await request.json();
+  const parsed = sectionRequestSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { request: payload, plan, section, instruction, planId } = parsed.data;
+
+  if (planId && !(await getPlan(planId, auth.session.workspace.id))) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const configured = loadProvider();
+  const exhausted = configured && (await checkQuota());
+  const provider = exhausted ? null : configured;
+  const meter = createUsageMeter("section", client, provider);
+
+  if (!provider) {
+    const value = buildFallbackPlan(payload)[section];
+    const merged = { ...plan, [section]: value };
+    await persistSection(planId, merged, section);
+    await meter.record(exhausted ? "over-quota" : "no-provider", true, planId);
+    return NextResponse.json(
+      {
+        section,
+        value,
+        plan: merged,
+        warning: exhausted
+          ? `${exhausted} Replaced the section with the heuristic fallback.`
+          : "No LLM provider is configured. Replaced the section with the heuristic fallback."
+      },
+      { status: 200, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  try {
+    const {
+      value,
+      raw: responseText,
+      message,
+      attempts
+    } = await generateSection(provider, payload, plan, section, instruction, { onUsage: meter.add });
+    await meter.record(value ? "ok" : "invalid", false, planId);
+
+    if (!value) {
+      return NextResponse.json(
+        {
+          error: message ?? "The model did not return a usable section.",
+          raw: responseText,
+          attempts
+        },
+        { status: 502 }
+      );
+    }
+
+    const merged = { ...plan, [section]: value };
+    await persistSection(planId, merged, section);
+    return NextResponse.json(
+      {
+        section,
+        value,
+        plan: merged,
+        attempts
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(error);
+    await meter.record("error", false, planId);
+    return NextResponse.json(
+      { error: "Failed to regenerate the section with the configured LLM provider." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { translateRequestSchema } from "@/lib/schemas";
+import { loadProvider } from "@/lib/providers";
+import { describeAttempts, translatePlan } from "@/lib/generate";
+import { clientKey, rateLimitHeaders, takeRateLimit } from "@/lib/rateLimit";
+import { authorize } from "@/lib/auth";
+import { checkQuota, createUsageMeter, recordRateLimited } from "@/lib/usage";
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const client = clientKey(request, auth.session.user.id);
+  const limit = takeRateLimit(client);
+  if (!limit.allowed) {
+    await recordRateLimited("translate", client);
+    return NextResponse.json(
+      { error: `Too many requests. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const raw = await request.json();
+  const parsed = translateRequestSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { plan, locale } = parsed.data;
+
+  const provider = loadProvider();
+
+  if (!provider) {
+    return NextResponse.json(
+      { error: "Translation needs an LLM provider. Configure one to translate plans." },
+      { status: 503 }
+    );
+  }
+
+  const meter = createUsageMeter("translate", client, provider);
+  const exhausted = await checkQuota();
+  if (exhausted) {
+    await meter.record("over-quota", false);
+    return NextResponse.json(
+      { error: `${exhausted} Translation resumes after midnight UTC.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  try {
+    const { value, raw: responseText, message, attempts } = await translatePlan(provider, plan, locale, {
+      onUsage: meter.add
+    });
+    await meter.record(value ? "ok" : "invalid", false);
+
+    if (!value) {
+      return NextResponse.json(
+        {
+          error: message ?? "The model did not return a usable translation.",
+          raw: responseText,
+          attempts
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        locale,
+        plan: value,
+        warning: describeAttempts(attempts) ?? undefined,
+        attempts
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(error);
+    await meter.record("error", false);
+    return NextResponse.json(
+      { error: "Failed to translate the plan with the configured LLM provider." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { budgetAllocationUpdateSchema } from "@/lib/schemas";
+import { getPlan, saveEditedPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = budgetAllocationUpdateSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const stored = await getPlan(params.id, auth.session.workspace.id);
+
+  if (!stored?.plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const updated = await saveEditedPlan(params.id, {
+    ...stored.plan,
+    budgetAllocation: parsed.data.budgetAllocation
+  });
+
+  return NextResponse.json({ plan: updated }, { status: 200 });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { untrackedExperiments } from "@/lib/experiments";
+import { trackedExperimentsSchema } from "@/lib/schemas";
+import { getPlan, updatePlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const stored = await getPlan(params.id, auth.session.workspace.id);
+
+  if (!stored) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  // Plans without saved tracker state start with a draft per plan experiment.
+  const experiments =
+    stored.trackedExperiments ??
+    (stored.plan ? untrackedExperiments(stored.plan, []) : []);
+
+  return NextResponse.json(
+    { experiments, saved: stored.trackedExperiments !== undefined },
+    { status: 200 }
+  );
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = trackedExperimentsSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const stored =
+    (await getPlan(params.id, auth.session.workspace.id)) &&
+    (await updatePlan(params.id, { trackedExperiments: parsed.data.experiments }));
+
+  if (!stored) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    { experiments: stored.trackedExperiments, saved: true },
+    { status: 200 }
+  );
+}
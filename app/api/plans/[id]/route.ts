@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { updatePlanSchema } from "@/lib/schemas";
+import { authorize } from "@/lib/auth";
+import { deletePlan, getPlan, saveEditedPlan, updatePlan } from "@/lib/store";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const stored = await getPlan(params.id, auth.session.workspace.id);
+
+  if (!stored) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ plan: stored }, { status: 200 });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = updatePlanSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { name, plan } = parsed.data;
+  let stored = await getPlan(params.id, auth.session.workspace.id);
+  if (stored && plan) {
+    stored = await saveEditedPlan(params.id, plan);
+  }
+  if (stored && name !== undefined) {
+    stored = await updatePlan(params.id, { name });
+  }
+
+  if (!stored) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ plan: stored }, { status: 200 });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const deleted =
+    (await getPlan(params.id, auth.session.workspace.id)) !== null &&
+    (await deletePlan(params.id));
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { revokeShare, shareStatus } from "@/lib/shares";
+import { getPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string; token: string };
+}
+
+export const dynamic = "force-dynamic";
+
+/** Revokes a share link. The record is kept so the link reports "revoked" rather than "not found". */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const link =
+    (await getPlan(params.id, auth.session.workspace.id)) &&
+    (await revokeShare(params.id, params.token));
+
+  if (!link) {
+    return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    { link: { ...link, status: shareStatus(link), path: `/plans/${link.token}` } },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createShareSchema } from "@/lib/schemas";
+import { createShare, listShares, shareStatus, type ShareLink } from "@/lib/shares";
+import { getPlan } from "@/lib/store";
+import { authorize } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+function withStatus(link: ShareLink) {
+  return { ...link, status: shareStatus(link), path: `/plans/${link.token}` };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const stored = await getPlan(params.id, auth.session.workspace.id);
+
+  if (!stored) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const links = await listShares(params.id);
+  return NextResponse.json(
+    { links: links.map(withStatus), comments: stored.comments?.length ?? 0 },
+    { status: 200 }
+  );
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = createShareSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const stored = await getPlan(params.id, auth.session.workspace.id);
+
+  if (!stored?.plan) {
+    return NextResponse.json(
+      { error: stored ? "Only plans that parsed into a full blueprint can be shared" : "Plan not found" },
+      { status: stored ? 400 : 404 }
+    );
+  }
+
+  const link = await createShare(params.id, parsed.data.expiresInDays);
+  return NextResponse.json({ link: withStatus(link) }, { status: 201 });
+}
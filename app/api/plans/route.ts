@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { listPlans } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    return NextResponse.json(
+      { plans: await listPlans(auth.session.workspace.id) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Could not load saved plans." },
+      { status: 500 }
+    );
+  }
+}
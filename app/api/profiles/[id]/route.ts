@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { brandProfileInputSchema } from "@/lib/schemas";
+import { deleteProfile, getProfile, updateProfile } from "@/lib/profileStore";
+import { authorize } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const profile = await getProfile(params.id, auth.session.workspace.id);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ profile }, { status: 200 });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = brandProfileInputSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const profile = await updateProfile(params.id, auth.session.workspace.id, parsed.data);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ profile }, { status: 200 });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const deleted = await deleteProfile(params.id, auth.session.workspace.id);
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
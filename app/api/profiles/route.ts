@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { brandProfileInputSchema } from "@/lib/schemas";
+import { createProfile, listProfiles } from "@/lib/profileStore";
+import { authorize } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    return NextResponse.json(
+      { profiles: await listProfiles(auth.session.workspace.id) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Could not load brand profiles." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "editor");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = brandProfileInputSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ profile: await createProfile(auth.session.workspace.id, parsed.data) }, { status: 201 });
+}
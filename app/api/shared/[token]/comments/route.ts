@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { newCommentSchema } from "@/lib/schemas";
+import { resolveShare, shareErrors } from "@/lib/shares";
+import { addPlanComment } from "@/lib/store";
+
+interface RouteContext {
+  params: { token: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const parsed = newCommentSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const resolved = await resolveShare(params.token);
+
+  if (resolved.status !== "active") {
+    const { error, status } = shareErrors[resolved.status];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const result = await addPlanComment(resolved.link.planId, parsed.data);
+
+  if (!result) {
+    return NextResponse.json({ error: shareErrors.missing.error }, { status: 404 });
+  }
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ comment: result.comment }, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { resolveShare, shareErrors } from "@/lib/shares";
+
+interface RouteContext {
+  params: { token: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const resolved = await resolveShare(params.token);
+
+  if (resolved.status !== "active") {
+    const { error, status } = shareErrors[resolved.status];
+    return NextResponse.json({ error }, { status });
+  }
+
+  const { link, stored } = resolved;
+  return NextResponse.json(
+    {
+      name: stored.name,
+      plan: stored.plan,
+      timeframe: stored.request.timeframe,
+      updatedAt: stored.updatedAt,
+      expiresAt: link.expiresAt,
+      comments: stored.comments ?? []
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,35 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { ADMIN_COOKIE, isAdminToken, listUsage, summarizeUsage, usageQuotas } from "@/lib/usage";
+
+export const dynamic = "force-dynamic";
+
+const MAX_DAYS = 90;
+
+/**
+ * Usage covers every workspace, and anyone can own a workspace of their own,
+ * so the report needs both an owner session and the admin token.
+ */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!isAdminToken(bearer || cookies().get(ADMIN_COOKIE)?.value)) {
+    return NextResponse.json({ error: "Admin token required" }, { status: 401 });
+  }
+
+  const requested = Number(new URL(request.url).searchParams.get("days") ?? 30);
+  const days = Number.isInteger(requested) && requested >= 1 ? Math.min(requested, MAX_DAYS) : 30;
+
+  try {
+    const events = await listUsage(days);
+    return NextResponse.json({ days, quotas: usageQuotas(), ...summarizeUsage(events, days) });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to read usage" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { rateLimitHeaders, takeAuthRateLimit } from "@/lib/rateLimit";
+import { adminCookie, isAdminToken } from "@/lib/usage";
+
+export const dynamic = "force-dynamic";
+
+function backToUsage(query = "") {
+  // A relative Location keeps the redirect on whatever host served the form.
+  return new NextResponse(null, { status: 303, headers: { Location: `/admin/usage${query}` } });
+}
+
+/** Form target of the usage page: remembers a valid admin token in a cookie. */
+export async function POST(request: Request) {
+  // Counts as a credential check to slow down token guessing.
+  const limit = takeAuthRateLimit(request, "admin");
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Too many attempts. Try again in ${limit.retryAfter} seconds.` },
+      { status: 429, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  const form = await request.formData().catch(() => null);
+  const token = form?.get("token");
+
+  if (typeof token !== "string" || !token || !isAdminToken(token)) {
+    return backToUsage("?invalid=1");
+  }
+
+  const response = backToUsage();
+  response.headers.set("Set-Cookie", adminCookie(token));
+  return response;
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { memberRoleSchema } from "@/lib/schemas";
+import { authorize, changeMemberRole, hasRole, removeMember } from "@/lib/auth";
+
+interface RouteContext {
+  params: { id: string; memberId: string };
+}
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { workspace } = auth.session;
+  if (workspace.id !== params.id) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  const parsed = memberRoleSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = await changeMemberRole(workspace, params.memberId, parsed.data.role);
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ member: result.member, members: result.workspace.members }, { status: 200 });
+}
+
+/** Owners remove anyone; other members may only remove themselves to leave. */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { user, workspace, role } = auth.session;
+  if (workspace.id !== params.id) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  const leaving = workspace.members.some(
+    (member) => member.id === params.memberId && member.userId === user.id
+  );
+  if (!leaving && !hasRole(role, "owner")) {
+    return NextResponse.json(
+      { error: "Only owners can remove other members." },
+      { status: 403 }
+    );
+  }
+
+  const result = await removeMember(workspace, params.memberId);
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ members: result.workspace.members }, { status: 200 });
+}
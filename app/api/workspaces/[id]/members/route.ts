@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { inviteMemberSchema } from "@/lib/schemas";
+import { authorize, inviteMember } from "@/lib/auth";
+import { appUrl, canSendMail } from "@/lib/mail";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const dynamic = "force-dynamic";
+
+/** Members of the caller's current workspace; other workspaces read as missing. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { workspace } = auth.session;
+  if (workspace.id !== params.id) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ members: workspace.members }, { status: 200 });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await authorize(request, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { user, workspace } = auth.session;
+  if (workspace.id !== params.id) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  const parsed = inviteMemberSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const origin = appUrl();
+  if (!origin) {
+    return NextResponse.json({ error: "Set APP_URL to send invitations." }, { status: 500 });
+  }
+  if (!canSendMail()) {
+    return NextResponse.json({ error: "Set SMTP_URL to send invitations." }, { status: 500 });
+  }
+
+  const result = await inviteMember(workspace, parsed.data, origin, user);
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ member: result.member, members: result.workspace.members }, { status: 201 });
+}
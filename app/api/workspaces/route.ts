@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { workspaceInputSchema } from "@/lib/schemas";
+import { authorize, createWorkspace, describeSession, sessionCookie } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/** Creates a workspace owned by the caller and switches the session to it. */
+export async function POST(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const parsed = workspaceInputSchema.safeParse(await request.json());
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid input",
+        issues: parsed.error.flatten()
+      },
+      { status: 400 }
+    );
+  }
+
+  const { user } = auth.session;
+  const workspace = await createWorkspace(parsed.data.name, user);
+
+  return NextResponse.json(await describeSession(user, workspace), {
+    status: 201,
+    headers: { "Set-Cookie": sessionCookie(user.id, workspace.id) }
+  });
+}
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import type { ReactNode } from "react";
+import { SESSION_COOKIE, sessionFromCookie } from "@/lib/auth";
+import { PlanCompare } from "@/components/PlanCompare";
+import { diffPlans } from "@/lib/diff";
+import { getPlan } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+interface ComparePageProps {
+  searchParams: { a?: string; b?: string };
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const session = await sessionFromCookie(cookies().get(SESSION_COOKIE)?.value);
+  if (!session) redirect("/sign-in");
+
+  const workspaceId = session.workspace.id;
+  const [before, after] = await Promise.all([
+    searchParams.a ? getPlan(searchParams.a, workspaceId) : null,
+    searchParams.b ? getPlan(searchParams.b, workspaceId) : null
+  ]);
+
+  let content: ReactNode;
+  if (!before || !after) {
+    content = "Pick two saved plans from the history panel to compare them.";
+  } else if (!before.plan || !after.plan) {
+    content = "Only plans that parsed into a full blueprint can be compared.";
+  } else {
+    content = (
+      <PlanCompare
+        diff={diffPlans(before.plan, after.plan)}
+        beforeLabel={before.name}
+        afterLabel={after.name}
+      />
+    );
+  }
+
+  return (
+    <main className="mx-auto max-w-6xl space-y-8 px-4 py-12 md:py-20">
+      <header className="space-y-2">
+        <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">
+          ← Back to the planner
+        </Link>
+        <h1 className="text-3xl font-semibold tracking-tight text-white">
+          Compare plan versions
+        </h1>
+        <p className="text-base text-slate-400">
+          Sections are aligned side by side. Channels, pillars and workflows are
+          matched by name so you can see exactly what each iteration changed.
+        </p>
+      </header>
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        {typeof content === "string" ? (
+          <p className="text-sm text-slate-400">{content}</p>
+        ) : (
+          content
+        )}
+      </div>
+    </main>
+  );
+}
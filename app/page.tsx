@@ -1,6 +1,6 @@
 'use client';
 
-import { FormEvent, ReactNode, useMemo, useState } from "react";
+import { FormEvent, ReactNode, useMemo, useRef, useState } from "react";
 import { z } from "zod";
 import clsx from "clsx";
 import {
@@ -9,8 +9,38 @@ import {
   leadRequestSchema,
   toneOptions
 } from "@/lib/schemas";
-import type { LeadPlan } from "@/lib/types";
+import {
+  leadPlanSchema,
+  type LeadPlan,
+  type PartialLeadPlan,
+  type PlanSectionKey
+} from "@/lib/types";
+import { applySection, readPlanStream } from "@/lib/stream";
 import { PlanPreview } from "@/components/PlanPreview";
+import { PlanTranslations } from "@/components/PlanTranslations";
+import { PlanHistory } from "@/components/PlanHistory";
+import { PersonalizationPreview } from "@/components/PersonalizationPreview";
+import { LeadScoring } from "@/components/LeadScoring";
+import { CrmPush } from "@/components/CrmPush";
+import { WorkflowSimulator } from "@/components/WorkflowSimulator";
+import { ExperimentTracker } from "@/components/ExperimentTracker";
+import { PipelineForecast } from "@/components/PipelineForecast";
+import { BudgetPlanner } from "@/components/BudgetPlanner";
+import { SharePanel } from "@/components/SharePanel";
+import { BrandProfiles } from "@/components/BrandProfiles";
+import { BatchGenerator } from "@/components/BatchGenerator";
+import { WorkspaceBar } from "@/components/WorkspaceBar";
+import { WorkspaceMembers } from "@/components/WorkspaceMembers";
+import { hasRole } from "@/lib/auth/types";
+import type { SessionInfo } from "@/lib/auth";
+import {
+  localeOptions,
+  localeProfiles,
+  regionOptions,
+  regionProfiles
+} from "@/lib/locales";
+import type { StoredPlan } from "@/lib/store";
+import type { AttemptDiagnostic } from "@/lib/generate";
 import { RocketIcon } from "@radix-ui/react-icons";
 
 type LeadFormState = z.infer<typeof leadRequestSchema>;
@@ -31,7 +61,9 @@ const defaultState: LeadFormState = {
   notes:
     "We recently partnered with Gong and have a customer story from Segment. We collaborate closely with RevOps teams.",
   budgetLevel: "balanced",
-  timeframe: "30 days"
+  timeframe: "30 days",
+  locale: "en-US",
+  region: "North America"
 };
 
 const timeframeOptions: LeadFormState["timeframe"][] = [
@@ -48,15 +80,33 @@ export default function Page() {
   const [form, setForm] = useState<LeadFormState>(defaultState);
   const [errors, setErrors] = useState<ErrorMap>({});
   const [loading, setLoading] = useState(false);
-  const [plan, setPlan] = useState<LeadPlan | null>(null);
+  const [plan, setPlan] = useState<PartialLeadPlan | null>(null);
+  const [generatedPlan, setGeneratedPlan] = useState<LeadPlan | null>(null);
   const [rawPlan, setRawPlan] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<AttemptDiagnostic[]>([]);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [submittedRequest, setSubmittedRequest] =
+    useState<LeadFormState | null>(null);
+  const [busySection, setBusySection] = useState<PlanSectionKey | null>(null);
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const goalSelections = useMemo(() => new Set(form.goals), [form.goals]);
   const channelSelections = useMemo(
     () => new Set(form.channels),
     [form.channels]
   );
+  const batchBase = useMemo(() => {
+    const parsed = leadRequestSchema.safeParse(form);
+    return parsed.success ? parsed.data : null;
+  }, [form]);
+  const canEdit = session !== null && hasRole(session.workspace.role, "editor");
+  const completePlan = useMemo(
+    () => (plan && !loading ? leadPlanSchema.safeParse(plan) : null),
+    [plan, loading]
+  );
 
   const updateField = <K extends keyof LeadFormState>(
     key: K,
@@ -83,12 +133,112 @@ export default function Page() {
     updateField(key, Array.from(next) as LeadFormState[typeof key]);
   };
 
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
   const resetForm = () => {
+    cancelGeneration();
     setForm(defaultState);
     setErrors({});
     setPlan(null);
+    setGeneratedPlan(null);
     setRawPlan(null);
     setStatusMessage(null);
+    setSubmittedRequest(null);
+    setPlanId(null);
+  };
+
+  const openStoredPlan = (stored: StoredPlan) => {
+    cancelGeneration();
+    setForm(stored.request);
+    setErrors({});
+    setPlan(stored.plan);
+    setGeneratedPlan(stored.generatedPlan ?? stored.plan);
+    setRawPlan(stored.raw);
+    setSubmittedRequest(stored.request);
+    setPlanId(stored.id);
+    setStatusMessage(`Loaded "${stored.name}".`);
+  };
+
+  const handleStoredPlanDeleted = (id: string) => {
+    if (id === planId) {
+      setPlanId(null);
+    }
+  };
+
+  const regenerateSection = async (
+    section: PlanSectionKey,
+    instruction?: string
+  ) => {
+    const current = leadPlanSchema.safeParse(plan);
+    if (!current.success || !submittedRequest) return;
+
+    setBusySection(section);
+    setStatusMessage(null);
+
+    try {
+      const response = await fetch("/api/plan/section", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          request: submittedRequest,
+          plan: current.data,
+          section,
+          instruction,
+          planId: planId ?? undefined
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatusMessage(
+          data?.error ?? "Could not regenerate that section. Try again."
+        );
+        return;
+      }
+
+      setPlan((prev) => ({ ...(prev ?? {}), [section]: data.value }));
+      setGeneratedPlan((prev) => prev && { ...prev, [section]: data.value });
+      setStatusMessage(
+        data.warning ??
+          (instruction ? "Section refined." : "Section regenerated.")
+      );
+    } catch (error) {
+      console.error(error);
+      setStatusMessage(
+        "Network error. Check your connection and try regenerating again."
+      );
+    } finally {
+      setBusySection(null);
+    }
+  };
+
+  const savePlanEdits = async (edited: LeadPlan) => {
+    setPlan(edited);
+    if (!planId) {
+      setStatusMessage("Edits applied. This plan was not saved, so they last until you leave the page.");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/plans/${planId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ plan: edited })
+      });
+      const data = await response.json();
+      setStatusMessage(
+        response.ok ? "Edits saved." : data?.error ?? "Could not save your edits. Try again."
+      );
+    } catch (error) {
+      console.error(error);
+      setStatusMessage("Network error. Your edits are applied here but were not saved.");
+    }
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -117,15 +267,24 @@ export default function Page() {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setPlan(null);
+    setGeneratedPlan(null);
+    setRawPlan(null);
+    setAttempts([]);
+    setSubmittedRequest(payload);
+    setPlanId(null);
 
     try {
-      const response = await fetch("/api/plan", {
+      const response = await fetch("/api/plan?stream=1", {
         method: "POST",
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify(payload)
+        body: JSON.stringify(payload),
+        signal: controller.signal
       });
 
       if (!response.ok) {
@@ -139,22 +298,44 @@ export default function Page() {
         return;
       }
 
-      const data = await response.json();
-      setPlan(data.plan);
-      setRawPlan(data.raw);
-      if (data.warning) {
-        setStatusMessage(data.warning);
-      } else if (data.notice) {
-        setStatusMessage(data.notice);
-      } else {
-        setStatusMessage("Campaign blueprint generated!");
-      }
+      await readPlanStream(response, (event) => {
+        switch (event.type) {
+          case "section":
+            setPlan((prev) => applySection(prev, event));
+            break;
+          case "done":
+            setPlan(event.plan);
+            setGeneratedPlan(event.plan);
+            setRawPlan(event.raw);
+            setAttempts(event.attempts ?? []);
+            setPlanId(event.planId ?? null);
+            setHistoryVersion((prev) => prev + 1);
+            if (event.warning) {
+              setStatusMessage(event.warning);
+            } else if (event.notice) {
+              setStatusMessage(event.notice);
+            } else {
+              setStatusMessage("Campaign blueprint generated!");
+            }
+            break;
+          case "error":
+            setStatusMessage(event.message);
+            break;
+        }
+      });
     } catch (error) {
+      if (controller.signal.aborted) {
+        setStatusMessage("Generation cancelled.");
+        return;
+      }
       console.error(error);
       setStatusMessage(
         "Network error. Check your connection and try generating again."
       );
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setLoading(false);
     }
   };
@@ -162,7 +343,9 @@ export default function Page() {
   return (
     <main className="mx-auto flex max-w-6xl flex-col gap-8 px-4 py-12 md:flex-row md:gap-10 md:py-20">
       <section className="w-full md:w-[46%]">
-        <header className="space-y-4">
+        <WorkspaceBar session={session} onSession={setSession} />
+
+        <header className="mt-6 space-y-4">
           <div className="inline-flex items-center gap-2 rounded-full border border-indigo-500/30 bg-indigo-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-300">
             <RocketIcon className="h-4 w-4" />
             Lead Generation AI Agent
@@ -177,6 +360,8 @@ export default function Page() {
           </p>
         </header>
 
+        <BrandProfiles form={form} onChange={setForm} />
+
         <form
           onSubmit={handleSubmit}
           className="mt-8 space-y-6 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur"
@@ -393,6 +578,81 @@ export default function Page() {
             />
           </div>
 
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Field
+              label="Market"
+              error={errors.region}
+              children={
+                <select
+                  value={form.region}
+                  onChange={(event) => {
+                    const region = event.target.value as LeadFormState["region"];
+                    // Follow the market's language unless one was picked by hand.
+                    const followsRegion =
+                      form.locale === regionProfiles[form.region].defaultLocale;
+                    setForm((prev) => ({
+                      ...prev,
+                      region,
+                      ...(followsRegion && { locale: regionProfiles[region].defaultLocale })
+                    }));
+                  }}
+                  className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/30"
+                >
+                  {regionOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {regionProfiles[option].label}
+                    </option>
+                  ))}
+                </select>
+              }
+            />
+
+            <Field
+              label="Copy language"
+              error={errors.locale}
+              children={
+                <select
+                  value={form.locale}
+                  onChange={(event) =>
+                    updateField(
+                      "locale",
+                      event.target.value as LeadFormState["locale"]
+                    )
+                  }
+                  className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/30"
+                >
+                  {localeOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {localeProfiles[option].label}
+                    </option>
+                  ))}
+                </select>
+              }
+            />
+          </div>
+
+          <Field
+            label="Budget for the window (USD)"
+            error={errors.budgetAmount}
+            hint="Optional. Leave blank to estimate from the budget posture."
+            children={
+              <input
+                type="number"
+                min={100}
+                step={100}
+                value={form.budgetAmount ?? ""}
+                placeholder="e.g. 8000"
+                onChange={(event) =>
+                  updateField(
+                    "budgetAmount",
+                    event.target.value === "" ? undefined : Number(event.target.value)
+                  )
+                }
+                className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/30"
+              />
+            }
+          />
+
           <Field
             label="Notes for the agent"
             error={errors.notes}
@@ -413,17 +673,33 @@ export default function Page() {
             </p>
           )}
 
+          {session && !canEdit && (
+            <p className="text-xs text-slate-500">
+              Viewers can open, compare and export saved plans. Ask an owner
+              for the editor role to generate new ones.
+            </p>
+          )}
+
           <div className="flex flex-col gap-2 sm:flex-row">
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !canEdit}
               className={clsx(
                 "inline-flex w-full items-center justify-center rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 focus:outline-none focus:ring-2 focus:ring-indigo-400/50",
-                loading && "cursor-not-allowed opacity-70"
+                (loading || !canEdit) && "cursor-not-allowed opacity-70"
               )}
             >
               {loading ? "Orchestrating..." : "Generate pipeline plan"}
             </button>
+            {loading && (
+              <button
+                type="button"
+                onClick={cancelGeneration}
+                className="inline-flex w-full items-center justify-center rounded-lg border border-rose-500/40 bg-rose-500/10 px-4 py-2 text-sm font-semibold text-rose-200 transition hover:border-rose-400 hover:text-rose-100"
+              >
+                Stop generating
+              </button>
+            )}
             <button
               type="button"
               onClick={resetForm}
@@ -433,10 +709,68 @@ export default function Page() {
             </button>
           </div>
         </form>
+
+        {session && (
+          <div className="mt-8">
+            <WorkspaceMembers session={session} />
+          </div>
+        )}
       </section>
 
-      <section className="w-full md:w-[54%]">
-        <PlanPreview plan={plan} raw={rawPlan} />
+      <section className="w-full space-y-6 md:w-[54%]">
+        <PlanHistory
+          activeId={planId}
+          refreshKey={historyVersion}
+          onOpen={openStoredPlan}
+          onDeleted={handleStoredPlanDeleted}
+        />
+        {canEdit && (
+          <BatchGenerator
+            base={batchBase}
+            onOpen={openStoredPlan}
+            onSaved={() => setHistoryVersion((prev) => prev + 1)}
+          />
+        )}
+        <PlanPreview
+          plan={plan}
+          raw={rawPlan}
+          streaming={loading}
+          title={submittedRequest?.businessName}
+          attempts={attempts}
+          generatedPlan={generatedPlan}
+          onPlanEdit={savePlanEdits}
+          timeframe={submittedRequest?.timeframe}
+          request={submittedRequest}
+          busySection={busySection}
+          onRegenerateSection={submittedRequest ? regenerateSection : undefined}
+        />
+        {completePlan?.success && (
+          <>
+            <SharePanel planId={planId} />
+            {submittedRequest && <PipelineForecast request={submittedRequest} />}
+            {submittedRequest && (
+              <BudgetPlanner
+                allocation={completePlan.data.budgetAllocation}
+                request={submittedRequest}
+                planId={planId}
+                onApply={(budgetAllocation) =>
+                  setPlan((prev) => ({ ...(prev ?? {}), budgetAllocation }))
+                }
+              />
+            )}
+            <PersonalizationPreview plan={completePlan.data} />
+            <LeadScoring profile={completePlan.data.idealCustomerProfile} />
+            <CrmPush
+              plan={completePlan.data}
+              title={submittedRequest?.businessName}
+            />
+            {submittedRequest && (
+              <PlanTranslations plan={completePlan.data} locale={submittedRequest.locale} />
+            )}
+            <WorkflowSimulator plan={completePlan.data} />
+            <ExperimentTracker plan={completePlan.data} planId={planId} />
+          </>
+        )}
       </section>
     </main>
   );
@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { SharedPlanView } from "@/components/SharedPlanView";
+import { resolveShare, shareErrors } from "@/lib/shares";
+
+export const dynamic = "force-dynamic";
+
+// Share links are private to whoever holds them.
+export const metadata: Metadata = {
+  title: "Shared plan · LeadGen Agent",
+  robots: { index: false, follow: false }
+};
+
+interface SharedPlanPageProps {
+  params: { id: string };
+}
+
+export default async function SharedPlanPage({ params }: SharedPlanPageProps) {
+  const resolved = await resolveShare(params.id);
+
+  return (
+    <main className="mx-auto max-w-4xl space-y-8 px-4 py-12 md:py-20">
+      <header className="space-y-2">
+        <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">
+          ← Pipeline Pilot
+        </Link>
+        <h1 className="text-3xl font-semibold tracking-tight text-white">
+          {resolved.status === "active" ? resolved.stored.name : "Shared plan"}
+        </h1>
+        {resolved.status === "active" && (
+          <p className="text-base text-slate-400">
+            Last updated{" "}
+            {new Date(resolved.stored.updatedAt).toLocaleDateString("en-US", { dateStyle: "long" })}
+            {resolved.link.expiresAt &&
+              ` · link expires ${new Date(resolved.link.expiresAt).toLocaleDateString("en-US", {
+                dateStyle: "long"
+              })}`}
+          </p>
+        )}
+      </header>
+
+      {resolved.status === "active" && resolved.stored.plan ? (
+        <SharedPlanView
+          token={params.id}
+          name={resolved.stored.name}
+          plan={resolved.stored.plan}
+          timeframe={resolved.stored.request.timeframe}
+          comments={resolved.stored.comments ?? []}
+        />
+      ) : (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+          {shareErrors[resolved.status === "active" ? "missing" : resolved.status].error}. Ask the
+          plan owner for a new link.
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import { RocketIcon } from "@radix-ui/react-icons";
+import { SignInForm } from "@/components/SignInForm";
+
+export const metadata: Metadata = {
+  title: "Sign in · LeadGen Agent"
+};
+
+interface SignInPageProps {
+  searchParams: { error?: string };
+}
+
+export default function SignInPage({ searchParams }: SignInPageProps) {
+  return (
+    <main className="mx-auto max-w-md space-y-8 px-4 py-20">
+      <header className="space-y-4">
+        <div className="inline-flex items-center gap-2 rounded-full border border-indigo-500/30 bg-indigo-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-300">
+          <RocketIcon className="h-4 w-4" />
+          Pipeline Pilot
+        </div>
+        <h1 className="text-3xl font-semibold tracking-tight text-white">Sign in to your workspace</h1>
+        <p className="text-base text-slate-400">
+          Plans, brand profiles and generation budgets belong to a team
+          workspace. New accounts need an invitation from a workspace owner.
+        </p>
+      </header>
+
+      <SignInForm initialError={searchParams.error ?? null} />
+    </main>
+  );
+}
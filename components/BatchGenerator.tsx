@@ -0,0 +1,501 @@
+'use client';
+
+import {
+  expandBatch,
+  exportBatch,
+  variantLabel,
+  type BatchExportFormat,
+  type BatchItem,
+  type BatchStreamEvent
+} from "@/lib/batch";
+import { countFindings, lintPlan } from "@/lib/copyLint";
+import { downloadFile } from "@/lib/download";
+import {
+  batchRequestSchema,
+  channelOptions,
+  toneOptions,
+  type BatchVariant,
+  type Channel,
+  type LeadRequest,
+  type Tone
+} from "@/lib/schemas";
+import type { StoredPlan } from "@/lib/store";
+import { readNdjson } from "@/lib/stream";
+import type { LeadPlan } from "@/lib/types";
+import { DownloadIcon, LayersIcon, PlusIcon, TrashIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import Link from "next/link";
+import { useRef, useState } from "react";
+
+interface BatchGeneratorProps {
+  /** The form's request, or null while it does not validate. */
+  base: LeadRequest | null;
+  onOpen: (stored: StoredPlan) => void;
+  /** Called once the batch has saved its plans, e.g. to refresh the history. */
+  onSaved: () => void;
+}
+
+interface VariantDraft {
+  key: number;
+  label: string;
+  industry: string;
+  targetCustomer: string;
+  tone: Tone | "";
+  channels: Channel[];
+}
+
+type RunStatus = "queued" | "running" | "done" | "failed";
+
+interface RunState {
+  label: string;
+  request: LeadRequest;
+  status: RunStatus;
+  plan?: LeadPlan;
+  planId?: string | null;
+  fallback?: boolean;
+  message?: string | null;
+}
+
+const statusStyles: Record<RunStatus, string> = {
+  queued: "border-slate-700 text-slate-400",
+  running: "border-indigo-500/40 bg-indigo-500/10 text-indigo-200",
+  done: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200",
+  failed: "border-rose-500/40 bg-rose-500/10 text-rose-200"
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+let nextKey = 0;
+
+function emptyVariant(): VariantDraft {
+  nextKey += 1;
+  return { key: nextKey, label: "", industry: "", targetCustomer: "", tone: "", channels: [] };
+}
+
+/** Blank cells inherit from the base request. */
+function toVariant(draft: VariantDraft): BatchVariant {
+  return {
+    ...(draft.label.trim() && { label: draft.label.trim() }),
+    ...(draft.industry.trim() && { industry: draft.industry.trim() }),
+    ...(draft.targetCustomer.trim() && { targetCustomer: draft.targetCustomer.trim() }),
+    ...(draft.tone && { tone: draft.tone }),
+    ...(draft.channels.length > 0 && { channels: draft.channels })
+  };
+}
+
+function money(value: number) {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+export function BatchGenerator({ base, onOpen, onSaved }: BatchGeneratorProps) {
+  const [drafts, setDrafts] = useState<VariantDraft[]>(() => [emptyVariant(), emptyVariant()]);
+  const [runs, setRuns] = useState<RunState[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateDraft = (key: number, patch: Partial<VariantDraft>) =>
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)));
+
+  const toggleChannel = (draft: VariantDraft, channel: Channel) =>
+    updateDraft(draft.key, {
+      channels: draft.channels.includes(channel)
+        ? draft.channels.filter((selected) => selected !== channel)
+        : [...draft.channels, channel]
+    });
+
+  const run = async () => {
+    if (!base) return;
+    setError(null);
+    const variants = drafts.map(toVariant);
+    const parsed = batchRequestSchema.safeParse({ base, variants });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Check the variants.");
+      return;
+    }
+    const expanded = expandBatch(base, variants);
+    const invalid = expanded.findIndex((result) => !result.success);
+    const invalidResult = expanded[invalid];
+    if (invalidResult && !invalidResult.success) {
+      setError(`Variant ${invalid + 1}: ${invalidResult.error.issues[0]?.message ?? "invalid override"}`);
+      return;
+    }
+
+    setRuns(
+      expanded.flatMap((result, index) =>
+        result.success
+          ? [{ label: variantLabel(variants[index], index), request: result.data, status: "queued" as const }]
+          : []
+      )
+    );
+    setCompareIds([]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(true);
+
+    const patchRun = (index: number, patch: Partial<RunState>) =>
+      setRuns((prev) => prev.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item)));
+
+    try {
+      const response = await fetch("/api/plan/batch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(parsed.data),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data?.error ?? "The batch could not start.");
+        return;
+      }
+
+      await readNdjson<BatchStreamEvent>(response, (event) => {
+        switch (event.type) {
+          case "running":
+            patchRun(event.index, { status: "running" });
+            break;
+          case "result":
+            patchRun(event.index, {
+              status: "done",
+              plan: event.plan,
+              planId: event.planId,
+              fallback: event.fallback,
+              message: event.warning
+            });
+            break;
+          case "failed":
+            patchRun(event.index, { status: "failed", planId: event.planId, message: event.message });
+            break;
+          case "done":
+            onSaved();
+            break;
+          case "error":
+            setError(event.message);
+            break;
+        }
+      });
+    } catch (runError) {
+      if (controller.signal.aborted) {
+        setError("Batch cancelled. Finished plans are kept.");
+        onSaved();
+        return;
+      }
+      console.error(runError);
+      setError("Network error. Check your connection and try the batch again.");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setBusy(false);
+    }
+  };
+
+  const openPlan = async (id: string) => {
+    try {
+      const response = await fetch(`/api/plans/${id}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data?.error ?? "Could not open that plan.");
+        return;
+      }
+      onOpen(data.plan);
+    } catch (openError) {
+      console.error(openError);
+      setError("Could not open that plan.");
+    }
+  };
+
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id].slice(-2)
+    );
+
+  const finished: BatchItem[] = runs.flatMap((item) =>
+    item.plan ? [{ label: item.label, request: item.request, plan: item.plan }] : []
+  );
+  const settled = runs.filter((item) => item.status === "done" || item.status === "failed").length;
+
+  const download = (format: BatchExportFormat) =>
+    downloadFile(exportBatch(finished, format, base?.businessName));
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div>
+        <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <LayersIcon className="h-4 w-4 text-indigo-300" />
+          Batch mode
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Generate the form&apos;s campaign for several segments at once. Each row
+          overrides the industry, target customer, tone or channels; blank cells
+          keep the form&apos;s value.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div key={draft.key} className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/40 p-3">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold text-slate-500">{index + 1}</span>
+              <input
+                value={draft.label}
+                onChange={(event) => updateDraft(draft.key, { label: event.target.value })}
+                placeholder="Label (optional)"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                disabled={drafts.length <= 1}
+                onClick={() => setDrafts((prev) => prev.filter((item) => item.key !== draft.key))}
+                className="rounded p-1 text-slate-500 transition hover:text-rose-300 disabled:opacity-40"
+                aria-label={`Remove variant ${index + 1}`}
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <input
+                value={draft.industry}
+                onChange={(event) => updateDraft(draft.key, { industry: event.target.value })}
+                placeholder={base?.industry ?? "Industry"}
+                className={inputClass}
+              />
+              <select
+                value={draft.tone}
+                onChange={(event) => updateDraft(draft.key, { tone: event.target.value as Tone | "" })}
+                className={inputClass}
+              >
+                <option value="">Tone: {base?.tone ?? "same as form"}</option>
+                {toneOptions.map((tone) => (
+                  <option key={tone} value={tone}>
+                    {tone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={draft.targetCustomer}
+              onChange={(event) => updateDraft(draft.key, { targetCustomer: event.target.value })}
+              placeholder="Target customer & pain (blank keeps the form's)"
+              rows={2}
+              className={inputClass}
+            />
+            <div className="flex flex-wrap gap-1">
+              {channelOptions.map((channel) => (
+                <button
+                  key={channel}
+                  type="button"
+                  onClick={() => toggleChannel(draft, channel)}
+                  className={clsx(
+                    "rounded-full border px-2 py-0.5 text-[11px] transition",
+                    draft.channels.includes(channel)
+                      ? "border-indigo-400 bg-indigo-500/20 text-indigo-100"
+                      : "border-slate-700 text-slate-400 hover:border-slate-500"
+                  )}
+                >
+                  {channel}
+                </button>
+              ))}
+              {draft.channels.length === 0 && (
+                <span className="px-1 text-[11px] text-slate-500">Form channels</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={drafts.length >= 12}
+          onClick={() => setDrafts((prev) => [...prev, emptyVariant()])}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add variant
+        </button>
+        <button
+          type="button"
+          disabled={busy || !base}
+          onClick={run}
+          className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? "Generating..." : `Generate ${drafts.length} plans`}
+        </button>
+        {busy && (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="rounded-md border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-sm font-semibold text-rose-200 transition hover:border-rose-400"
+          >
+            Stop
+          </button>
+        )}
+        {!base && <span className="text-xs text-slate-500">Complete the form to use it as the base.</span>}
+      </div>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {runs.length > 0 && (
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-slate-400">
+              <span>
+                {settled} of {runs.length} finished
+              </span>
+              <div className="flex items-center gap-2">
+                {compareIds.length === 2 && (
+                  <Link
+                    href={`/compare?a=${compareIds[0]}&b=${compareIds[1]}`}
+                    className="text-indigo-300 hover:text-indigo-200"
+                  >
+                    Compare selected
+                  </Link>
+                )}
+                {finished.length > 0 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => download("csv")}
+                      className="inline-flex items-center gap-1 text-slate-300 hover:text-indigo-200"
+                    >
+                      <DownloadIcon className="h-3.5 w-3.5" />
+                      Comparison CSV
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => download("markdown")}
+                      className="inline-flex items-center gap-1 text-slate-300 hover:text-indigo-200"
+                    >
+                      <DownloadIcon className="h-3.5 w-3.5" />
+                      All plans (Markdown)
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+              <div
+                className="h-full bg-indigo-400 transition-all"
+                style={{ width: `${(settled / runs.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[36rem] table-fixed border-collapse text-left text-xs">
+              <thead>
+                <tr>
+                  <th className="w-28 px-2 py-2" />
+                  {runs.map((item, index) => (
+                    <th key={index} className="px-2 py-2 align-top">
+                      <p className="font-semibold text-slate-100">{item.label}</p>
+                      <span
+                        className={clsx(
+                          "mt-1 inline-block rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide",
+                          statusStyles[item.status]
+                        )}
+                      >
+                        {item.status === "done" && item.fallback ? "fallback" : item.status}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                <GridRow label="North star" runs={runs} cell={(plan) => plan.campaignSummary.northStar} />
+                <GridRow label="Positioning" runs={runs} cell={(plan) => plan.campaignSummary.positioningTheme} />
+                <GridRow
+                  label="Budget"
+                  runs={runs}
+                  cell={(plan) =>
+                    `${money(plan.budgetAllocation.total)}: ${plan.budgetAllocation.channels
+                      .map((channel) => `${channel.channel} ${channel.share}%`)
+                      .join(", ")}`
+                  }
+                />
+                <GridRow
+                  label="Pillars"
+                  runs={runs}
+                  cell={(plan) => plan.messagingPillars.map((pillar) => pillar.title).join(" · ")}
+                />
+                <GridRow
+                  label="First touch"
+                  runs={runs}
+                  cell={(plan) => {
+                    const step = plan.outreachSequences[0]?.steps[0];
+                    return step ? step.subject || step.body.slice(0, 120) : "—";
+                  }}
+                />
+                <GridRow
+                  label="Copy check"
+                  runs={runs}
+                  cell={(plan, item) => {
+                    const counts = countFindings(lintPlan(plan, item.request));
+                    return `${counts.error} to fix · ${counts.warning} to check`;
+                  }}
+                />
+                <tr className="border-t border-slate-800 align-top">
+                  <td className="px-2 py-2 text-slate-500" />
+                  {runs.map((item, index) => (
+                    <td key={index} className="space-y-1 px-2 py-2">
+                      {item.message && <p className="text-[11px] text-amber-200">{item.message}</p>}
+                      {item.planId && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => item.planId && openPlan(item.planId)}
+                            className="text-indigo-300 hover:text-indigo-200"
+                          >
+                            Open
+                          </button>
+                          {item.plan && (
+                            <label className="inline-flex items-center gap-1 text-slate-400">
+                              <input
+                                type="checkbox"
+                                checked={compareIds.includes(item.planId)}
+                                onChange={() => item.planId && toggleCompare(item.planId)}
+                              />
+                              Compare
+                            </label>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GridRow({
+  label,
+  runs,
+  cell
+}: {
+  label: string;
+  runs: RunState[];
+  cell: (plan: LeadPlan, item: RunState) => string;
+}) {
+  return (
+    <tr className="border-t border-slate-800 align-top">
+      <td className="px-2 py-2 font-medium text-slate-500">{label}</td>
+      {runs.map((item, index) => (
+        <td key={index} className="px-2 py-2">
+          {item.plan ? cell(item.plan, item) : <span className="text-slate-600">—</span>}
+        </td>
+      ))}
+    </tr>
+  );
+}
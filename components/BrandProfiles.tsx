@@ -0,0 +1,490 @@
+'use client';
+
+import { applyProfile, findProduct, profileFromRequest } from "@/lib/profiles";
+import {
+  brandProfileInputSchema,
+  type BrandProfile,
+  type BrandProfileInput,
+  type LeadRequest
+} from "@/lib/schemas";
+import { Cross2Icon, IdCardIcon, PlusIcon } from "@radix-ui/react-icons";
+import { ReactNode, useEffect, useState } from "react";
+
+interface BrandProfilesProps {
+  form: LeadRequest;
+  onChange: (next: LeadRequest) => void;
+}
+
+type ProfileDraft = BrandProfileInput & { id?: string };
+
+type ListKey = "approvedClaims" | "bannedPhrases" | "competitors";
+
+const listFields: { key: ListKey; label: string; hint: string }[] = [
+  {
+    key: "approvedClaims",
+    label: "Approved claims",
+    hint: "One per line. The only numbers and comparisons the agent may use."
+  },
+  {
+    key: "bannedPhrases",
+    label: "Banned phrases",
+    hint: "One per line. Kept out of every piece of copy."
+  },
+  { key: "competitors", label: "Competitors", hint: "One per line." }
+];
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+const emptyProduct: BrandProfileInput["products"][number] = {
+  name: "",
+  productDescription: "",
+  uniqueValue: "",
+  targetCustomer: "",
+  offer: ""
+};
+
+const emptyDraft: ProfileDraft = {
+  companyName: "",
+  industry: "",
+  notes: "",
+  caseStudies: [],
+  approvedClaims: [],
+  bannedPhrases: [],
+  competitors: [],
+  products: [emptyProduct]
+};
+
+/** Drops blank lines and rows left over from editing before the draft is validated. */
+function cleanDraft(draft: ProfileDraft): ProfileDraft {
+  const lines = (values: string[]) => values.map((value) => value.trim()).filter(Boolean);
+  return {
+    ...draft,
+    caseStudies: draft.caseStudies.filter((study) => study.customer.trim() || study.outcome.trim()),
+    approvedClaims: lines(draft.approvedClaims),
+    bannedPhrases: lines(draft.bannedPhrases),
+    competitors: lines(draft.competitors)
+  };
+}
+
+function describeIssue(draft: ProfileDraft, path: (string | number)[], message: string) {
+  if (path[0] === "products" && typeof path[1] === "number") {
+    return `${draft.products[path[1]]?.name.trim() || `Product ${path[1] + 1}`}: ${message}`;
+  }
+  if (path[0] === "caseStudies" && typeof path[1] === "number") {
+    return `Case study ${path[1] + 1}: ${message}`;
+  }
+  return message;
+}
+
+export function BrandProfiles({ form, onChange }: BrandProfilesProps) {
+  const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+  const [profileId, setProfileId] = useState(form.brand?.profileId ?? "");
+  const [productId, setProductId] = useState(form.brand?.productId ?? "");
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/profiles", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => setProfiles(data.profiles ?? []))
+      .catch((loadError) => console.error(loadError));
+  }, []);
+
+  // Follow the form when a saved plan (and its profile) is opened.
+  useEffect(() => {
+    setProfileId(form.brand?.profileId ?? "");
+    setProductId(form.brand?.productId ?? "");
+  }, [form.brand?.profileId, form.brand?.productId]);
+
+  const selected = profiles.find((profile) => profile.id === profileId);
+  const applied = form.brand?.profileId
+    ? profiles.find((profile) => profile.id === form.brand?.profileId)
+    : undefined;
+
+  const apply = () => {
+    if (!selected) return;
+    onChange(applyProfile(form, selected, productId || undefined));
+    setMessage(null);
+  };
+
+  const detach = () => {
+    onChange({ ...form, brand: undefined });
+  };
+
+  const updateDraft = (patch: Partial<ProfileDraft>) =>
+    setDraft((prev) => prev && { ...prev, ...patch });
+
+  const updateProduct = (index: number, patch: Partial<ProfileDraft["products"][number]>) =>
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          products: prev.products.map((product, position) =>
+            position === index ? { ...product, ...patch } : product
+          )
+        }
+    );
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const cleaned = cleanDraft(draft);
+    const parsed = brandProfileInputSchema.safeParse(cleaned);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      setMessage(describeIssue(cleaned, issue.path, issue.message));
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(draft.id ? `/api/profiles/${draft.id}` : "/api/profiles", {
+        method: draft.id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(parsed.data)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.error ?? "Could not save the profile.");
+        return;
+      }
+      const saved: BrandProfile = data.profile;
+      setProfiles((prev) =>
+        [...prev.filter((profile) => profile.id !== saved.id), saved].sort((a, b) =>
+          a.companyName.localeCompare(b.companyName)
+        )
+      );
+      setProfileId(saved.id);
+      setProductId(findProduct(saved, productId)?.id ?? "");
+      setDraft(null);
+      setMessage("Profile saved. Apply it to prefill the form.");
+    } catch (saveError) {
+      console.error(saveError);
+      setMessage("Network error. Try saving again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (!selected || !window.confirm(`Delete the "${selected.companyName}" profile?`)) return;
+    try {
+      const res = await fetch(`/api/profiles/${selected.id}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        setMessage("Could not delete the profile.");
+        return;
+      }
+      setProfiles((prev) => prev.filter((profile) => profile.id !== selected.id));
+      setProfileId("");
+      setProductId("");
+    } catch (deleteError) {
+      console.error(deleteError);
+      setMessage("Network error. Try deleting again.");
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-4 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div>
+        <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <IdCardIcon className="h-4 w-4 text-indigo-300" />
+          Brand profiles
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Save your company and products once. Applying a profile fills in the
+          form and sends its case studies, approved claims, banned phrases and
+          competitors with every plan.
+        </p>
+      </div>
+
+      {!draft && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={profileId}
+              onChange={(event) => {
+                setProfileId(event.target.value);
+                setProductId("");
+              }}
+              className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+            >
+              <option value="">{profiles.length ? "Choose a profile" : "No saved profiles yet"}</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.companyName}
+                </option>
+              ))}
+            </select>
+            {selected && selected.products.length > 1 && (
+              <select
+                value={productId || selected.products[0].id}
+                onChange={(event) => setProductId(event.target.value)}
+                className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+              >
+                {selected.products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              disabled={!selected}
+              onClick={apply}
+              className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Apply
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            <button
+              type="button"
+              onClick={() => setDraft(emptyDraft)}
+              className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+            >
+              New profile
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(profileFromRequest(form))}
+              className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+            >
+              Save form as profile
+            </button>
+            {selected && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setDraft(selected)}
+                  className="rounded-md border border-slate-700 px-2 py-1 text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+                >
+                  Edit profile
+                </button>
+                <button
+                  type="button"
+                  onClick={deleteSelected}
+                  className="rounded-md border border-rose-500/40 px-2 py-1 text-rose-200 transition hover:bg-rose-500/10"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+
+          {form.brand && (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-indigo-500/30 bg-indigo-500/10 px-3 py-2 text-xs text-indigo-200">
+              <span>
+                Using {applied ? applied.companyName : "a brand profile"}
+                {applied && ` · ${findProduct(applied, form.brand.productId)?.name}`}:{" "}
+                {form.brand.caseStudies.length} case studies, {form.brand.approvedClaims.length} approved
+                claims, {form.brand.bannedPhrases.length} banned phrases, {form.brand.competitors.length}{" "}
+                competitors.
+              </span>
+              <button type="button" onClick={detach} className="text-indigo-300 hover:text-indigo-100">
+                Detach
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {draft && (
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <ProfileField label="Company name">
+              <input
+                value={draft.companyName}
+                onChange={(event) => updateDraft({ companyName: event.target.value })}
+                className={inputClass}
+              />
+            </ProfileField>
+            <ProfileField label="Industry / segment">
+              <input
+                value={draft.industry}
+                onChange={(event) => updateDraft({ industry: event.target.value })}
+                className={inputClass}
+              />
+            </ProfileField>
+          </div>
+          <ProfileField label="Notes for the agent" hint="Partnerships and other proof, as on the main form.">
+            <textarea
+              value={draft.notes}
+              onChange={(event) => updateDraft({ notes: event.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </ProfileField>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-200">Case studies</p>
+            {draft.caseStudies.map((study, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <input
+                  value={study.customer}
+                  placeholder="Customer"
+                  onChange={(event) =>
+                    updateDraft({
+                      caseStudies: draft.caseStudies.map((item, position) =>
+                        position === index ? { ...item, customer: event.target.value } : item
+                      )
+                    })
+                  }
+                  className={`${inputClass} max-w-[35%]`}
+                />
+                <input
+                  value={study.outcome}
+                  placeholder="Result, e.g. cut reporting time by 40%"
+                  onChange={(event) =>
+                    updateDraft({
+                      caseStudies: draft.caseStudies.map((item, position) =>
+                        position === index ? { ...item, outcome: event.target.value } : item
+                      )
+                    })
+                  }
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  aria-label="Remove case study"
+                  onClick={() =>
+                    updateDraft({ caseStudies: draft.caseStudies.filter((_, position) => position !== index) })
+                  }
+                  className="mt-2 text-slate-500 hover:text-rose-300"
+                >
+                  <Cross2Icon className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ caseStudies: [...draft.caseStudies, { customer: "", outcome: "" }] })}
+              className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-indigo-200"
+            >
+              <PlusIcon className="h-3 w-3" />
+              Add case study
+            </button>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            {listFields.map((field) => (
+              <ProfileField key={field.key} label={field.label} hint={field.hint}>
+                <textarea
+                  value={draft[field.key].join("\n")}
+                  onChange={(event) => updateDraft({ [field.key]: event.target.value.split("\n") })}
+                  rows={4}
+                  className={inputClass}
+                />
+              </ProfileField>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-slate-200">Products</p>
+            {draft.products.map((product, index) => (
+              <div key={product.id ?? index} className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/40 p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={product.name}
+                    placeholder="Product name"
+                    onChange={(event) => updateProduct(index, { name: event.target.value })}
+                    className={inputClass}
+                  />
+                  {draft.products.length > 1 && (
+                    <button
+                      type="button"
+                      aria-label="Remove product"
+                      onClick={() =>
+                        updateDraft({ products: draft.products.filter((_, position) => position !== index) })
+                      }
+                      className="text-slate-500 hover:text-rose-300"
+                    >
+                      <Cross2Icon className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+                <ProfileField label="Product snapshot">
+                  <textarea
+                    value={product.productDescription}
+                    onChange={(event) => updateProduct(index, { productDescription: event.target.value })}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </ProfileField>
+                <ProfileField label="Why you win">
+                  <textarea
+                    value={product.uniqueValue}
+                    onChange={(event) => updateProduct(index, { uniqueValue: event.target.value })}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </ProfileField>
+                <ProfileField label="Target customer & pain" hint="Optional. Leave blank to keep the form's.">
+                  <textarea
+                    value={product.targetCustomer}
+                    onChange={(event) => updateProduct(index, { targetCustomer: event.target.value })}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </ProfileField>
+                <ProfileField label="Offer / CTA" hint="Optional. Leave blank to keep the form's.">
+                  <input
+                    value={product.offer}
+                    onChange={(event) => updateProduct(index, { offer: event.target.value })}
+                    className={inputClass}
+                  />
+                </ProfileField>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ products: [...draft.products, emptyProduct] })}
+              className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-indigo-200"
+            >
+              <PlusIcon className="h-3 w-3" />
+              Add product
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={saveDraft}
+              className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {saving ? "Saving..." : draft.id ? "Save profile" : "Create profile"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setMessage(null);
+              }}
+              className="rounded-md border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:text-slate-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-slate-300">{message}</p>}
+    </div>
+  );
+}
+
+function ProfileField({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <label className="grid gap-1">
+      <span className="text-xs font-medium text-slate-300">{label}</span>
+      {hint && <span className="text-[11px] text-slate-500">{hint}</span>}
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import {
+  allocateBudget,
+  allocationOutcomes,
+  budgetGuardrails,
+  guardrailIssues,
+  rebalanceAllocation,
+  setAllocationTotal
+} from "@/lib/budget";
+import { formatCurrency } from "@/lib/forecast";
+import type { LeadRequest } from "@/lib/schemas";
+import type { BudgetAllocation } from "@/lib/types";
+import { ResetIcon, TokensIcon } from "@radix-ui/react-icons";
+import { useEffect, useMemo, useState } from "react";
+
+interface BudgetPlannerProps {
+  allocation: BudgetAllocation;
+  request: LeadRequest;
+  planId: string | null;
+  onApply: (allocation: BudgetAllocation) => void;
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+function formatCount(value: number) {
+  return value >= 10 ? Math.round(value).toLocaleString() : value.toFixed(1);
+}
+
+export function BudgetPlanner({ allocation, request, planId, onApply }: BudgetPlannerProps) {
+  // Plans saved before budgets existed carry an empty allocation.
+  const initial = useMemo(
+    () => (allocation.channels.length ? allocation : allocateBudget(request)),
+    [allocation, request]
+  );
+  const [draft, setDraft] = useState<BudgetAllocation>(initial);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(initial);
+    setMessage(null);
+  }, [initial]);
+
+  const rules = budgetGuardrails[request.budgetLevel];
+  const outcomes = useMemo(() => allocationOutcomes(draft, request), [draft, request]);
+  const issues = useMemo(() => guardrailIssues(draft, request.budgetLevel), [draft, request.budgetLevel]);
+  const dirty = draft !== allocation;
+
+  const apply = async () => {
+    setMessage(null);
+    if (!planId) {
+      onApply(draft);
+      setMessage("Applied to the plan.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/plans/${planId}/budget`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ budgetAllocation: draft })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.error ?? "Could not save the budget.");
+        return;
+      }
+      onApply(draft);
+      setMessage("Budget saved to the plan.");
+    } catch (saveError) {
+      console.error(saveError);
+      setMessage("Could not save the budget.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <TokensIcon className="h-4 w-4 text-indigo-300" />
+            Budget allocation
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Drag a channel&apos;s share and the others rebalance within the{" "}
+            {request.budgetLevel} guardrails. Expected results update as you go.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(allocateBudget(request))}
+            className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+          >
+            <ResetIcon className="h-4 w-4" />
+            Suggested split
+          </button>
+          <button
+            type="button"
+            disabled={!dirty || saving}
+            onClick={apply}
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Apply to plan"}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-slate-400">{message}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-4">
+        <label className="grid gap-1 rounded-lg border border-slate-800 bg-slate-900/60 p-4 text-xs uppercase tracking-wide text-slate-500">
+          Total budget ({draft.currency})
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={draft.total}
+            onChange={(event) =>
+              setDraft((prev) =>
+                setAllocationTotal(prev, request.budgetLevel, Number(event.target.value) || 0)
+              )
+            }
+            className={`${inputClass} text-base`}
+          />
+        </label>
+        {[
+          { label: "Expected meetings", value: formatCount(outcomes.meetings) },
+          { label: "Pipeline value", value: formatCurrency(outcomes.pipeline) },
+          {
+            label: "Cost per meeting",
+            value: outcomes.costPerMeeting === null ? "—" : formatCurrency(outcomes.costPerMeeting)
+          }
+        ].map((card) => (
+          <div key={card.label} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+            <p className="text-xs uppercase tracking-wide text-slate-500">{card.label}</p>
+            <p className="mt-1 text-2xl font-semibold text-slate-100">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {draft.channels.map((channel, index) => {
+          const outcome = outcomes.channels[index];
+          return (
+            <div key={channel.channel} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-semibold text-slate-200">{channel.channel}</p>
+                <p className="text-sm text-slate-300">
+                  {channel.share}% · {formatCurrency(channel.amount)}
+                </p>
+              </div>
+              <input
+                type="range"
+                min={rules.minChannelShare}
+                max={rules.maxChannelShare}
+                step={1}
+                value={channel.share}
+                disabled={draft.channels.length < 2}
+                onChange={(event) =>
+                  setDraft((prev) =>
+                    rebalanceAllocation(prev, request.budgetLevel, index, Number(event.target.value))
+                  )
+                }
+                aria-label={`${channel.channel} share of budget`}
+                className="mt-2 w-full accent-indigo-400"
+              />
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                <span>~{formatCount(outcome.reachedPerWeek)} reached/week</span>
+                <span>{formatCount(outcome.meetings)} meetings</span>
+                <span>{formatCurrency(outcome.pipeline)} pipeline</span>
+                <span>
+                  {outcome.costPerMeeting === null
+                    ? "No meetings expected"
+                    : `${formatCurrency(outcome.costPerMeeting)} per meeting`}
+                </span>
+              </div>
+              <details className="mt-2 text-xs">
+                <summary className="cursor-pointer text-slate-400">Line items</summary>
+                <ul className="mt-2 space-y-1 text-slate-400">
+                  {channel.lineItems.map((item) => (
+                    <li key={`${item.category}-${item.description}`} className="flex justify-between gap-3">
+                      <span>
+                        <span className="uppercase tracking-wide text-slate-500">{item.category}</span>{" "}
+                        {item.description}
+                        {item.hours > 0 && ` · ${item.hours}h`}
+                      </span>
+                      <span className="text-slate-300">{formatCurrency(item.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            </div>
+          );
+        })}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-xs text-amber-200">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <details className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-sm">
+        <summary className="cursor-pointer text-slate-300">Guardrails ({request.budgetLevel})</summary>
+        <ul className="mt-2 list-disc space-y-1 pl-4 text-xs text-slate-400">
+          {draft.guardrails.map((guardrail) => (
+            <li key={guardrail}>{guardrail}</li>
+          ))}
+        </ul>
+      </details>
+
+      <p className="text-xs text-slate-500">
+        Outcomes convert each channel&apos;s weekly spend into reach at a
+        typical cost per prospect, then apply the forecast&apos;s expected
+        funnel rates. Treat them as directional.
+      </p>
+    </div>
+  );
+}
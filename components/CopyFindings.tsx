@@ -0,0 +1,38 @@
+'use client';
+
+import type { LintFinding, LintSeverity } from "@/lib/copyLint";
+import clsx from "clsx";
+
+interface CopyFindingsProps {
+  findings?: LintFinding[];
+}
+
+const severityStyles: Record<LintSeverity, string> = {
+  error: "border-rose-500/40 bg-rose-500/10 text-rose-200",
+  warning: "border-amber-500/30 bg-amber-500/5 text-amber-200",
+  info: "border-slate-700 bg-slate-900/60 text-slate-400"
+};
+
+const severityLabels: Record<LintSeverity, string> = {
+  error: "Fix",
+  warning: "Check",
+  info: "Note"
+};
+
+export function CopyFindings({ findings = [] }: CopyFindingsProps) {
+  if (!findings.length) return null;
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {findings.map((finding, index) => (
+        <li
+          key={`${finding.rule}-${index}`}
+          className={clsx("rounded-md border px-2 py-1 text-xs", severityStyles[finding.severity])}
+        >
+          <span className="font-semibold uppercase tracking-wide">{severityLabels[finding.severity]}</span>{" "}
+          {finding.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
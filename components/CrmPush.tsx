@@ -0,0 +1,203 @@
+'use client';
+
+import type { CrmConnectorId, CrmOperation, CrmPushResult } from "@/lib/crm";
+import type { LeadPlan } from "@/lib/types";
+import { CheckIcon, Cross2Icon, Share1Icon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useEffect, useState } from "react";
+
+interface CrmPushProps {
+  plan: LeadPlan;
+  title?: string;
+}
+
+interface ConnectorStatus {
+  id: CrmConnectorId;
+  label: string;
+  configured: boolean;
+  mock: boolean;
+}
+
+interface PushResponse {
+  dryRun: boolean;
+  baseUrl?: string;
+  operations: CrmOperation[];
+  results?: CrmPushResult[];
+  error?: string;
+}
+
+const kindLabels: Record<CrmOperation["kind"], string> = {
+  campaign: "Campaigns",
+  workflow: "Workflows",
+  task: "Tasks"
+};
+
+export function CrmPush({ plan, title }: CrmPushProps) {
+  const [connectors, setConnectors] = useState<ConnectorStatus[]>([]);
+  const [selected, setSelected] = useState<CrmConnectorId>("hubspot");
+  const [busy, setBusy] = useState(false);
+  const [response, setResponse] = useState<PushResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/crm", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => setConnectors(data.connectors ?? []))
+      .catch((loadError) => console.error(loadError));
+  }, []);
+
+  useEffect(() => {
+    setResponse(null);
+  }, [plan, selected]);
+
+  const current = connectors.find((connector) => connector.id === selected);
+
+  const send = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/crm/push", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ connector: selected, plan, name: title, dryRun })
+      });
+      const data = await res.json();
+      if (!res.ok && !data?.operations) {
+        setError(data?.error ?? "The CRM push failed.");
+        return;
+      }
+      setResponse(data);
+      if (data.error) setError(data.error);
+    } catch (pushError) {
+      console.error(pushError);
+      setError("The CRM push failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resultsByIndex = response?.results ?? [];
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <Share1Icon className="h-4 w-4 text-indigo-300" />
+            Send to CRM
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Channels become campaigns, automations become workflows and next
+            steps become tasks. Preview the exact payloads before pushing.
+          </p>
+        </div>
+        <select
+          value={selected}
+          onChange={(event) => setSelected(event.target.value as CrmConnectorId)}
+          className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+        >
+          {(connectors.length
+            ? connectors
+            : [
+                { id: "hubspot", label: "HubSpot" },
+                { id: "salesforce", label: "Salesforce" }
+              ]
+          ).map((connector) => (
+            <option key={connector.id} value={connector.id}>
+              {connector.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => send(true)}
+          className="rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:opacity-50"
+        >
+          Dry run
+        </button>
+        <button
+          type="button"
+          disabled={busy || !current?.configured}
+          onClick={() => send(false)}
+          className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? "Working..." : `Push to ${current?.label ?? "CRM"}`}
+        </button>
+        <span className="text-xs text-slate-500">
+          {current?.mock
+            ? "Using the local mock CRM"
+            : current && !current.configured
+              ? "Not configured — dry run only"
+              : null}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {response && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-500">
+            {response.dryRun
+              ? `Dry run: ${response.operations.length} requests would be sent${
+                  response.baseUrl ? ` to ${response.baseUrl}` : ""
+                }.`
+              : `Pushed ${resultsByIndex.filter((result) => result.ok).length} of ${
+                  resultsByIndex.length
+                } records.`}
+          </p>
+          {(Object.keys(kindLabels) as CrmOperation["kind"][]).map((kind) => {
+            const entries = response.operations
+              .map((operation, index) => ({ operation, result: resultsByIndex[index] }))
+              .filter((entry) => entry.operation.kind === kind);
+            if (!entries.length) return null;
+            return (
+              <div key={kind}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  {kindLabels[kind]} · {entries.length}
+                </p>
+                <ul className="mt-1 space-y-1">
+                  {entries.map(({ operation, result }, index) => (
+                    <li key={`${kind}-${index}`}>
+                      <details className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-sm">
+                        <summary className="flex cursor-pointer items-center gap-2 text-slate-300">
+                          {result &&
+                            (result.ok ? (
+                              <CheckIcon className="h-4 w-4 shrink-0 text-emerald-300" />
+                            ) : (
+                              <Cross2Icon className="h-4 w-4 shrink-0 text-rose-300" />
+                            ))}
+                          <span className="truncate">{operation.source}</span>
+                          <span
+                            className={clsx(
+                              "ml-auto shrink-0 text-xs",
+                              result && !result.ok ? "text-rose-300" : "text-slate-500"
+                            )}
+                          >
+                            {result
+                              ? result.ok
+                                ? result.id ?? `HTTP ${result.status}`
+                                : result.error ?? `HTTP ${result.status}`
+                              : `${operation.method} ${operation.path}`}
+                          </span>
+                        </summary>
+                        <pre className="mt-2 overflow-x-auto whitespace-pre-wrap text-xs text-slate-400">
+                          {JSON.stringify(operation.body, null, 2)}
+                        </pre>
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
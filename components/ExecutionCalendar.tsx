@@ -0,0 +1,135 @@
+'use client';
+
+import {
+  buildExecutionCalendar,
+  calendarEventKinds,
+  calendarKindLabels,
+  nextMonday,
+  ownerRoles,
+  type CalendarEvent,
+  type CalendarEventKind,
+  type CalendarOptions,
+  type OwnerRole
+} from "@/lib/calendar";
+import type { LeadPlan } from "@/lib/types";
+import clsx from "clsx";
+import { useMemo } from "react";
+
+interface ExecutionCalendarProps {
+  plan: LeadPlan;
+  options: CalendarOptions;
+  onOptionsChange: (options: CalendarOptions) => void;
+}
+
+const kindStyles: Record<CalendarEventKind, string> = {
+  task: "border-slate-600 bg-slate-800/60 text-slate-200",
+  asset: "border-amber-500/30 bg-amber-500/10 text-amber-100",
+  touch: "border-indigo-500/30 bg-indigo-500/10 text-indigo-100",
+  experiment: "border-emerald-500/30 bg-emerald-500/10 text-emerald-100"
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC"
+  });
+}
+
+export function ExecutionCalendar({ plan, options, onOptionsChange }: ExecutionCalendarProps) {
+  const calendar = useMemo(() => buildExecutionCalendar(plan, options), [plan, options]);
+  const weeks = useMemo(
+    () =>
+      Array.from({ length: calendar.weeks }, (_, index) =>
+        calendar.events.filter((event) => event.week === index + 1)
+      ),
+    [calendar]
+  );
+  const rolesInUse = ownerRoles.filter((role) => calendar.events.some((event) => event.role === role));
+
+  const setOwner = (role: OwnerRole, name: string) =>
+    onOptionsChange({ ...options, owners: { ...options.owners, [role]: name } });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          {calendar.events.length} dated items from {formatDay(calendar.startDate)} to{" "}
+          {formatDay(calendar.endDate)}. Export the calendar or task list from the Export menu.
+        </p>
+        <label className="grid gap-1 text-xs text-slate-400">
+          Start date
+          <input
+            type="date"
+            value={calendar.startDate}
+            onChange={(event) =>
+              onOptionsChange({ ...options, startDate: event.target.value || nextMonday() })
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {calendarEventKinds.map((kind) => (
+          <span key={kind} className={clsx("rounded-full border px-2 py-0.5", kindStyles[kind])}>
+            {calendarKindLabels[kind]}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-3"
+          style={{ gridTemplateColumns: `repeat(${calendar.weeks}, minmax(12rem, 1fr))` }}
+        >
+          {weeks.map((events, index) => (
+            <div key={index} className="rounded-lg border border-slate-800 bg-slate-900/60 p-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                Week {index + 1}
+              </p>
+              <div className="mt-2 space-y-2">
+                {events.length === 0 ? (
+                  <p className="text-xs text-slate-500">Nothing scheduled.</p>
+                ) : (
+                  events.map((event) => <CalendarItem key={event.id} event={event} />)
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <details className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-sm">
+        <summary className="cursor-pointer text-slate-300">Owners</summary>
+        <div className="mt-2 grid gap-2 sm:grid-cols-2">
+          {rolesInUse.map((role) => (
+            <label key={role} className="grid gap-1 text-xs text-slate-400">
+              {role}
+              <input
+                value={options.owners?.[role] ?? ""}
+                placeholder={role}
+                onChange={(event) => setOwner(role, event.target.value)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
+
+function CalendarItem({ event }: { event: CalendarEvent }) {
+  return (
+    <div className={clsx("rounded-md border px-2 py-1.5 text-xs", kindStyles[event.kind])}>
+      <p className="text-[11px] opacity-70">{formatDay(event.date)}</p>
+      <p className="font-medium">{event.title}</p>
+      <p className="mt-0.5 opacity-70">{event.owner}</p>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import {
+  addVariant,
+  analyzeExperiment,
+  experimentCountFields,
+  experimentMetricOptions,
+  experimentMetrics,
+  experimentStatusOptions,
+  untrackedExperiments,
+  type ExperimentVerdict
+} from "@/lib/experiments";
+import { trackedExperimentSchema, type ExperimentVariant, type TrackedExperiment } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+import { BarChartIcon, Cross2Icon, PlusIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+interface ExperimentTrackerProps {
+  plan: LeadPlan;
+  planId: string | null;
+}
+
+const verdictStyles: Record<ExperimentVerdict, string> = {
+  no_data: "border-slate-700 bg-slate-900/60 text-slate-400",
+  invalid_counts: "border-rose-500/40 bg-rose-500/10 text-rose-200",
+  collecting: "border-slate-700 bg-slate-900/60 text-slate-300",
+  not_significant: "border-amber-500/30 bg-amber-500/5 text-amber-200",
+  no_difference: "border-slate-600 bg-slate-800/40 text-slate-200",
+  challenger_wins: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200",
+  control_wins: "border-sky-500/40 bg-sky-500/10 text-sky-200"
+};
+
+const verdictLabels: Record<ExperimentVerdict, string> = {
+  no_data: "No data",
+  invalid_counts: "Check the counts",
+  collecting: "Collecting data",
+  not_significant: "Not significant yet",
+  no_difference: "No meaningful difference",
+  challenger_wins: "Challenger wins",
+  control_wins: "Control wins"
+};
+
+const countLabels: Record<(typeof experimentCountFields)[number], string> = {
+  sends: "Sends",
+  replies: "Replies",
+  meetings: "Meetings"
+};
+
+const inputClass =
+  "rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function ExperimentTracker({ plan, planId }: ExperimentTrackerProps) {
+  const [experiments, setExperiments] = useState<TrackedExperiment[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Reload only when switching plans; regenerated experiments are offered below.
+  const planRef = useRef(plan);
+  planRef.current = plan;
+
+  useEffect(() => {
+    setDirty(false);
+    setMessage(null);
+    if (!planId) {
+      setExperiments(untrackedExperiments(planRef.current, []));
+      return;
+    }
+    fetch(`/api/plans/${planId}/experiments`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => setExperiments(data.experiments ?? []))
+      .catch((loadError) => console.error(loadError));
+  }, [planId]);
+
+  const pending = useMemo(() => untrackedExperiments(plan, experiments), [plan, experiments]);
+
+  const update = (id: string, next: (experiment: TrackedExperiment) => TrackedExperiment) => {
+    setExperiments((prev) => prev.map((experiment) => (experiment.id === id ? next(experiment) : experiment)));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    if (!planId) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/plans/${planId}/experiments`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ experiments })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.error ?? "Could not save the experiments.");
+        return;
+      }
+      setExperiments(data.experiments);
+      setDirty(false);
+      setMessage("Results saved.");
+    } catch (saveError) {
+      console.error(saveError);
+      setMessage("Could not save the experiments.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <BarChartIcon className="h-4 w-4 text-indigo-300" />
+            Experiment tracker
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Run each experiment as an A/B test, log what you observe and see
+            whether the difference is real.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {pending.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setExperiments((prev) => [...prev, ...pending]);
+                setDirty(true);
+              }}
+              className="rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+            >
+              Track {pending.length} new from plan
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={!planId || !dirty || saving}
+            onClick={save}
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save results"}
+          </button>
+        </div>
+      </div>
+
+      {!planId && (
+        <p className="text-xs text-slate-500">
+          This plan was not saved, so results are kept only until you leave the page.
+        </p>
+      )}
+      {message && <p className="text-sm text-slate-400">{message}</p>}
+
+      {experiments.length === 0 ? (
+        <p className="text-sm text-slate-500">No experiments tracked yet.</p>
+      ) : (
+        experiments.map((experiment) => (
+          <ExperimentCard
+            key={experiment.id}
+            experiment={experiment}
+            onChange={(next) => update(experiment.id, next)}
+            onRemove={() => {
+              setExperiments((prev) => prev.filter((item) => item.id !== experiment.id));
+              setDirty(true);
+            }}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+interface ExperimentCardProps {
+  experiment: TrackedExperiment;
+  onChange: (next: (experiment: TrackedExperiment) => TrackedExperiment) => void;
+  onRemove: () => void;
+}
+
+function ExperimentCard({ experiment, onChange, onRemove }: ExperimentCardProps) {
+  const analysis = useMemo(() => analyzeExperiment(experiment), [experiment]);
+  const validation = trackedExperimentSchema.safeParse(experiment);
+  const metric = experimentMetrics[experiment.primaryMetric];
+
+  const setField = <K extends keyof TrackedExperiment>(key: K, value: TrackedExperiment[K]) =>
+    onChange((current) => ({ ...current, [key]: value }));
+
+  const setVariant = (id: string, patch: Partial<ExperimentVariant>) =>
+    onChange((current) => ({
+      ...current,
+      variants: current.variants.map((variant) => (variant.id === id ? { ...variant, ...patch } : variant))
+    }));
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-slate-100">{experiment.hypothesis}</p>
+          <p className="mt-1 text-xs text-slate-400">{experiment.experiment}</p>
+          <p className="mt-1 text-xs text-slate-500">Plan metric: {experiment.metric}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <select
+            value={experiment.status}
+            onChange={(event) => setField("status", event.target.value as TrackedExperiment["status"])}
+            className={inputClass}
+          >
+            {experimentStatusOptions.map((status) => (
+              <option key={status} value={status}>
+                {status[0].toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onRemove}
+            aria-label="Stop tracking"
+            className="rounded-md p-1 text-slate-500 transition hover:text-rose-300"
+          >
+            <Cross2Icon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 text-xs text-slate-400 sm:grid-cols-4">
+        <label className="grid gap-1">
+          Start
+          <input
+            type="date"
+            value={experiment.startDate ?? ""}
+            onChange={(event) => setField("startDate", event.target.value || null)}
+            className={inputClass}
+          />
+        </label>
+        <label className="grid gap-1">
+          End
+          <input
+            type="date"
+            value={experiment.endDate ?? ""}
+            onChange={(event) => setField("endDate", event.target.value || null)}
+            className={inputClass}
+          />
+        </label>
+        <label className="grid gap-1">
+          Primary metric
+          <select
+            value={experiment.primaryMetric}
+            onChange={(event) =>
+              setField("primaryMetric", event.target.value as TrackedExperiment["primaryMetric"])
+            }
+            className={inputClass}
+          >
+            {experimentMetricOptions.map((option) => (
+              <option key={option} value={option}>
+                {experimentMetrics[option].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          Smallest lift worth detecting (%)
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={Math.round(experiment.minimumDetectableLift * 100)}
+            onChange={(event) =>
+              setField("minimumDetectableLift", Math.min(5, Math.max(0.01, Number(event.target.value) / 100)))
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-1 pr-2">Variant</th>
+              <th className="py-1 pr-2">Description</th>
+              {experimentCountFields.map((field) => (
+                <th key={field} className="py-1 pr-2">
+                  {countLabels[field]}
+                </th>
+              ))}
+              <th className="py-1 pr-2">Rate (CI)</th>
+              <th className="py-1 pr-2">Lift</th>
+              <th className="py-1 pr-2">p</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {experiment.variants.map((variant, index) => {
+              const result = analysis.variants[index];
+              return (
+                <tr key={variant.id} className="border-t border-slate-800 text-slate-300">
+                  <td className="py-1 pr-2">
+                    <input
+                      value={variant.label}
+                      onChange={(event) => setVariant(variant.id, { label: event.target.value })}
+                      className={clsx(inputClass, "w-14")}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      value={variant.description}
+                      placeholder={index === 0 ? "Control" : "What changes"}
+                      onChange={(event) => setVariant(variant.id, { description: event.target.value })}
+                      className={clsx(inputClass, "w-full min-w-[8rem]")}
+                    />
+                  </td>
+                  {experimentCountFields.map((field) => (
+                    <td key={field} className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={variant[field]}
+                        onChange={(event) =>
+                          setVariant(variant.id, {
+                            [field]: Math.max(0, Math.floor(Number(event.target.value) || 0))
+                          })
+                        }
+                        className={clsx(inputClass, "w-20")}
+                      />
+                    </td>
+                  ))}
+                  <td className="whitespace-nowrap py-1 pr-2">
+                    {result.trials ? (
+                      <>
+                        <span className="font-semibold text-slate-100">{percent(result.rate)}</span>{" "}
+                        <span className="text-slate-500">
+                          ({percent(result.interval.low)}–{percent(result.interval.high)})
+                        </span>
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td
+                    className={clsx(
+                      "py-1 pr-2",
+                      result.significant && (result.lift ?? 0) > 0 && "text-emerald-300",
+                      result.significant && (result.lift ?? 0) < 0 && "text-rose-300"
+                    )}
+                  >
+                    {result.lift === null ? (index === 0 ? "control" : "—") : `${result.lift > 0 ? "+" : ""}${percent(result.lift)}`}
+                  </td>
+                  <td className="py-1 pr-2">{result.pValue === null ? "" : result.pValue.toFixed(3)}</td>
+                  <td className="py-1">
+                    {index > 0 && experiment.variants.length > 2 && (
+                      <button
+                        type="button"
+                        aria-label={`Remove variant ${variant.label}`}
+                        onClick={() =>
+                          onChange((current) => ({
+                            ...current,
+                            variants: current.variants.filter((item) => item.id !== variant.id)
+                          }))
+                        }
+                        className="rounded-md p-1 text-slate-500 transition hover:text-rose-300"
+                      >
+                        <Cross2Icon className="h-3 w-3" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button
+          type="button"
+          disabled={experiment.variants.length >= 6}
+          onClick={() => onChange(addVariant)}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:opacity-50"
+        >
+          <PlusIcon className="h-3 w-3" />
+          Add variant
+        </button>
+        <span className="text-xs text-slate-500">
+          {metric.label} · {percent(1 - analysis.alpha)} intervals
+          {analysis.sampleSizePerVariant !== null &&
+            ` · ~${analysis.sampleSizePerVariant.toLocaleString()} ${metric.trials} per variant needed`}
+        </span>
+      </div>
+
+      {!validation.success && (
+        <p className="text-xs text-rose-300">{validation.error.issues[0]?.message}</p>
+      )}
+
+      <div className={clsx("rounded-lg border px-3 py-2 text-sm", verdictStyles[analysis.verdict])}>
+        <span className="font-semibold">{verdictLabels[analysis.verdict]}.</span> {analysis.summary}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import type { CalendarOptions } from "@/lib/calendar";
+import { downloadFile } from "@/lib/download";
+import { exportPlan, type ExportFormat } from "@/lib/export";
+import type { LeadPlan } from "@/lib/types";
+import { DownloadIcon } from "@radix-ui/react-icons";
+
+interface ExportMenuProps {
+  plan: LeadPlan;
+  title?: string;
+  /** Enables the calendar and task list downloads. */
+  calendar?: CalendarOptions;
+}
+
+const exportChoices: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown brief" },
+  { format: "html", label: "Printable HTML (PDF)" },
+  { format: "csv-channels", label: "Channels CSV" },
+  { format: "csv-budget", label: "Budget CSV" },
+  { format: "csv-sequences", label: "Sequences CSV" },
+  { format: "csv-experiments", label: "Experiments CSV" },
+  { format: "csv-next-steps", label: "Next steps CSV" },
+  { format: "calendar-ics", label: "Calendar (.ics)" },
+  { format: "csv-tasks", label: "Task list CSV" },
+  { format: "workflows-n8n", label: "Workflows (n8n JSON)" },
+  { format: "workflows-zapier", label: "Workflows (Zapier JSON)" }
+];
+
+const calendarFormats: ExportFormat[] = ["calendar-ics", "csv-tasks"];
+
+export function ExportMenu({ plan, title, calendar }: ExportMenuProps) {
+  const choices = calendar
+    ? exportChoices
+    : exportChoices.filter((choice) => !calendarFormats.includes(choice.format));
+
+  return (
+    <details className="group relative">
+      <summary className="inline-flex cursor-pointer list-none items-center gap-2 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200">
+        <DownloadIcon className="h-4 w-4" />
+        Export
+      </summary>
+      <div className="absolute right-0 z-10 mt-2 w-56 rounded-lg border border-slate-700 bg-slate-950 p-1 shadow-xl">
+        {choices.map((choice) => (
+          <button
+            key={choice.format}
+            type="button"
+            onClick={(event) => {
+              downloadFile(exportPlan(plan, choice.format, title, calendar));
+              event.currentTarget.closest("details")?.removeAttribute("open");
+            }}
+            className="block w-full rounded-md px-3 py-2 text-left text-sm text-slate-300 transition hover:bg-slate-800 hover:text-slate-100"
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { parseCsvRecords } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+import {
+  fitTiers,
+  guessColumnMapping,
+  leadFieldLabels,
+  leadFieldOptions,
+  scoreLeads,
+  scoredLeadsToCsv,
+  type ColumnMapping,
+  type FitTier,
+  type IdealCustomerProfile,
+  type ScoredLead
+} from "@/lib/scoring";
+import { DownloadIcon, TargetIcon, UploadIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { ChangeEvent, Fragment, useMemo, useState } from "react";
+
+interface LeadScoringProps {
+  profile: IdealCustomerProfile;
+}
+
+const MAX_VISIBLE_ROWS = 200;
+
+const tierStyles: Record<FitTier, string> = {
+  A: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200",
+  B: "border-amber-500/40 bg-amber-500/10 text-amber-200",
+  C: "border-slate-700 bg-slate-900/60 text-slate-400"
+};
+
+export function LeadScoring({ profile }: LeadScoringProps) {
+  const [csvText, setCsvText] = useState("");
+  const [overrides, setOverrides] = useState<ColumnMapping>({});
+  const [tierFilter, setTierFilter] = useState<FitTier | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const { columns, records } = useMemo(() => parseCsvRecords(csvText), [csvText]);
+
+  const mapping = useMemo(() => {
+    const merged: ColumnMapping = { ...guessColumnMapping(columns) };
+    for (const field of leadFieldOptions) {
+      const override = overrides[field];
+      if (override === null || (override && columns.includes(override))) {
+        merged[field] = override;
+      }
+    }
+    return merged;
+  }, [columns, overrides]);
+
+  const leads = useMemo(
+    () => (records.length ? scoreLeads(profile, records, mapping) : []),
+    [profile, records, mapping]
+  );
+
+  const visible = leads.filter((lead) => !tierFilter || lead.tier === tierFilter);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setCsvText(await file.text());
+      setOverrides({});
+      setUploadError(null);
+    } catch (readError) {
+      console.error(readError);
+      setUploadError("Could not read that file.");
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile({
+      filename: "scored-leads.csv",
+      contentType: "text/csv; charset=utf-8",
+      body: scoredLeadsToCsv(columns, leads)
+    });
+  };
+
+  const primaryColumn = mapping.company ?? mapping.name ?? columns[0];
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <TargetIcon className="h-4 w-4 text-indigo-300" />
+            ICP fit scoring
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Upload your lead or account list to score every row against the
+            ideal customer profile above.
+          </p>
+        </div>
+        <label className="inline-flex cursor-pointer items-center gap-1 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200">
+          <UploadIcon className="h-4 w-4" />
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleUpload} className="hidden" />
+        </label>
+      </div>
+
+      <textarea
+        value={csvText}
+        onChange={(event) => setCsvText(event.target.value)}
+        rows={3}
+        spellCheck={false}
+        placeholder={"Company,Job Title,Industry,Employees\nAcme,Head of Growth,B2B SaaS,250"}
+        className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 font-mono text-xs text-slate-100 outline-none focus:border-indigo-400"
+      />
+      {uploadError && <p className="text-xs text-rose-300">{uploadError}</p>}
+
+      {columns.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-slate-200">Column mapping</p>
+          <div className="mt-2 grid gap-2 sm:grid-cols-2">
+            {leadFieldOptions.map((field) => (
+              <label key={field} className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                {leadFieldLabels[field]}
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(event) =>
+                    setOverrides((prev) => ({ ...prev, [field]: event.target.value || null }))
+                  }
+                  className="w-40 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+                >
+                  <option value="">Not mapped</option>
+                  {columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {leads.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              {fitTiers.map((tier) => {
+                const count = leads.filter((lead) => lead.tier === tier.tier).length;
+                return (
+                  <button
+                    key={tier.tier}
+                    type="button"
+                    onClick={() => setTierFilter((prev) => (prev === tier.tier ? null : tier.tier))}
+                    className={clsx(
+                      "rounded-full border px-3 py-1 text-xs font-medium transition",
+                      tierStyles[tier.tier],
+                      tierFilter && tierFilter !== tier.tier && "opacity-40"
+                    )}
+                  >
+                    Tier {tier.tier} · {tier.label} · {count}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="inline-flex items-center gap-1 rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-indigo-400"
+            >
+              <DownloadIcon className="h-3 w-3" />
+              Download scored CSV
+            </button>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border border-slate-800">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-900/80 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Tier</th>
+                  <th className="px-3 py-2">Score</th>
+                  <th className="px-3 py-2">{primaryColumn}</th>
+                  {mapping.title && <th className="px-3 py-2">{mapping.title}</th>}
+                  <th className="px-3 py-2">Why</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.slice(0, MAX_VISIBLE_ROWS).map((lead) => (
+                  <Fragment key={lead.index}>
+                    <tr
+                      onClick={() => setExpanded((prev) => (prev === lead.index ? null : lead.index))}
+                      className="cursor-pointer border-t border-slate-800 text-slate-300 hover:bg-slate-900/60"
+                    >
+                      <td className="px-3 py-2">
+                        <span className={clsx("rounded-full border px-2 py-0.5 text-xs", tierStyles[lead.tier])}>
+                          {lead.tier}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 font-semibold text-slate-100">{lead.score}</td>
+                      <td className="px-3 py-2">{lead.row[primaryColumn] ?? ""}</td>
+                      {mapping.title && <td className="px-3 py-2">{lead.row[mapping.title]}</td>}
+                      <td className="max-w-xs truncate px-3 py-2 text-xs text-slate-400">
+                        {lead.explanation}
+                      </td>
+                    </tr>
+                    {expanded === lead.index && <LeadDetails lead={lead} />}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visible.length > MAX_VISIBLE_ROWS && (
+            <p className="text-xs text-slate-500">
+              Showing the top {MAX_VISIBLE_ROWS} of {visible.length} rows. The
+              download includes every row.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LeadDetails({ lead }: { lead: ScoredLead }) {
+  return (
+    <tr className="bg-slate-950/40">
+      <td colSpan={5} className="px-3 py-3">
+        <div className="grid gap-4 text-xs sm:grid-cols-2">
+          <div>
+            <p className="font-semibold uppercase tracking-wide text-emerald-300">Matched</p>
+            <ul className="mt-1 space-y-1 text-slate-300">
+              {lead.matches.length === 0 && <li className="text-slate-500">Nothing yet</li>}
+              {lead.matches.map((match) => (
+                <li key={match.trait}>
+                  {match.trait}{" "}
+                  <span className="text-slate-500">({match.evidence.join(", ")})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="font-semibold uppercase tracking-wide text-slate-500">Not matched</p>
+            <ul className="mt-1 space-y-1 text-slate-400">
+              {lead.misses.map((miss) => (
+                <li key={miss}>{miss}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { parseCsvRecords } from "@/lib/csv";
+import {
+  collectMergeFields,
+  findMergeField,
+  lintPlanCopy,
+  planCopyBlocks,
+  renderCopy,
+  toMergeValues,
+  type RenderedSegment
+} from "@/lib/personalization";
+import type { LeadPlan } from "@/lib/types";
+import {
+  CheckCircledIcon,
+  ExclamationTriangleIcon,
+  PersonIcon,
+  UploadIcon
+} from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { ChangeEvent, useMemo, useState } from "react";
+
+interface PersonalizationPreviewProps {
+  plan: LeadPlan;
+}
+
+const MAX_PREVIEW_LEADS = 10;
+
+const sampleLeads = `first_name,last_name,company,title
+Priya,Shah,Northwind Analytics,VP of Demand Generation
+Marcus,Lee,Globex,Head of Growth
+Jordan,,,Marketing Ops Manager`;
+
+const segmentStyles: Record<RenderedSegment["kind"], string> = {
+  text: "",
+  value: "rounded bg-emerald-500/15 px-0.5 text-emerald-200",
+  fallback: "rounded bg-amber-500/15 px-0.5 text-amber-200",
+  missing: "rounded bg-rose-500/20 px-0.5 text-rose-200"
+};
+
+export function PersonalizationPreview({ plan }: PersonalizationPreviewProps) {
+  const [csvText, setCsvText] = useState(sampleLeads);
+  const [campaignValues, setCampaignValues] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const blocks = useMemo(() => planCopyBlocks(plan), [plan]);
+  const { columns, records } = useMemo(() => parseCsvRecords(csvText), [csvText]);
+  const leads = records.slice(0, MAX_PREVIEW_LEADS);
+  const issues = useMemo(() => lintPlanCopy(plan, columns), [plan, columns]);
+
+  const campaignFields = useMemo(
+    () =>
+      collectMergeFields(blocks.flatMap((block) => [block.subject, block.body])).filter(
+        (field) => findMergeField(field)?.scope === "campaign"
+      ),
+    [blocks]
+  );
+
+  const selected = blocks.find((block) => block.id === selectedId) ?? blocks[0];
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setCsvText(await file.text());
+      setUploadError(null);
+    } catch (readError) {
+      console.error(readError);
+      setUploadError("Could not read that file.");
+    }
+  };
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div>
+        <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <PersonIcon className="h-4 w-4 text-indigo-300" />
+          Personalization preview
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Paste or upload a few sample leads to see every message rendered with
+          their merge fields.
+        </p>
+      </div>
+
+      <details
+        open={errorCount > 0}
+        className={clsx(
+          "rounded-lg border p-3 text-sm",
+          issues.length === 0
+            ? "border-emerald-500/30 bg-emerald-500/5"
+            : "border-amber-500/30 bg-amber-500/5"
+        )}
+      >
+        <summary className="flex cursor-pointer items-center gap-2 font-medium text-slate-200">
+          {issues.length === 0 ? (
+            <CheckCircledIcon className="h-4 w-4 text-emerald-300" />
+          ) : (
+            <ExclamationTriangleIcon className="h-4 w-4 text-amber-300" />
+          )}
+          {issues.length === 0
+            ? "All merge fields are declared and have fallbacks"
+            : `${issues.length} merge-field ${issues.length === 1 ? "issue" : "issues"}`}
+        </summary>
+        {issues.length > 0 && (
+          <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-xs">
+            {issues.map((issue, index) => (
+              <li
+                key={`${issue.location}-${index}`}
+                className={issue.severity === "error" ? "text-rose-300" : "text-amber-200"}
+              >
+                <span className="text-slate-500">{issue.location}:</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </details>
+
+      <div className="grid gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-slate-200">Sample leads (CSV)</span>
+          <label className="inline-flex cursor-pointer items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200">
+            <UploadIcon className="h-3 w-3" />
+            Upload CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleUpload} className="hidden" />
+          </label>
+        </div>
+        <textarea
+          value={csvText}
+          onChange={(event) => setCsvText(event.target.value)}
+          rows={4}
+          spellCheck={false}
+          className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 font-mono text-xs text-slate-100 outline-none focus:border-indigo-400"
+        />
+        {uploadError && <p className="text-xs text-rose-300">{uploadError}</p>}
+        {records.length > MAX_PREVIEW_LEADS && (
+          <p className="text-xs text-slate-500">
+            Showing the first {MAX_PREVIEW_LEADS} of {records.length} leads.
+          </p>
+        )}
+      </div>
+
+      {campaignFields.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {campaignFields.map((field) => (
+            <label key={field} className="grid gap-1">
+              <span className="text-xs font-medium text-slate-300">
+                {findMergeField(field)?.label ?? field}
+              </span>
+              <input
+                value={campaignValues[field] ?? ""}
+                onChange={(event) =>
+                  setCampaignValues((prev) => ({ ...prev, [field]: event.target.value }))
+                }
+                placeholder={`{{${field}}}`}
+                className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-3">
+          <select
+            value={selected.id}
+            onChange={(event) => setSelectedId(event.target.value)}
+            className="w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {blocks.map((block) => (
+              <option key={block.id} value={block.id}>
+                {block.location}
+              </option>
+            ))}
+          </select>
+
+          {leads.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Add a header row and at least one lead to preview.
+            </p>
+          ) : (
+            leads.map((lead, index) => {
+              const values = { ...campaignValues, ...toMergeValues(lead) };
+              const subject = renderCopy(selected.subject, values);
+              const body = renderCopy(selected.body, values);
+              const missing = Array.from(new Set([...subject.missing, ...body.missing]));
+              return (
+                <div
+                  key={index}
+                  className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                      Lead {index + 1}
+                      {values.first_name || values.company
+                        ? ` · ${[values.first_name, values.company].filter(Boolean).join(" @ ")}`
+                        : ""}
+                    </p>
+                    {missing.length > 0 && (
+                      <span className="text-xs text-rose-300">
+                        Missing: {missing.join(", ")}
+                      </span>
+                    )}
+                  </div>
+                  {selected.subject && (
+                    <p className="mt-2 text-sm font-medium text-slate-200">
+                      <RenderedText segments={subject.segments} />
+                    </p>
+                  )}
+                  <p className="mt-2 whitespace-pre-wrap text-sm text-slate-300">
+                    <RenderedText segments={body.segments} />
+                  </p>
+                </div>
+              );
+            })
+          )}
+          <p className="flex flex-wrap gap-3 text-xs text-slate-500">
+            <span className={segmentStyles.value}>lead value</span>
+            <span className={segmentStyles.fallback}>fallback</span>
+            <span className={segmentStyles.missing}>missing</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RenderedText({ segments }: { segments: RenderedSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.kind === "text" ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <mark
+            key={index}
+            title={`{{${segment.field}}}`}
+            className={segmentStyles[segment.kind]}
+          >
+            {segment.text}
+          </mark>
+        )
+      )}
+    </>
+  );
+}
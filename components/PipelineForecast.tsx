@@ -0,0 +1,353 @@
+'use client';
+
+import {
+  defaultForecastAssumptions,
+  forecastPipeline,
+  formatCurrency,
+  type ChannelAssumption,
+  type ForecastAssumptions,
+  type ForecastScenario,
+  type ForecastWeek,
+  type ScenarioForecast
+} from "@/lib/forecast";
+import type { LeadRequest } from "@/lib/schemas";
+import { ActivityLogIcon, ResetIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useEffect, useMemo, useState } from "react";
+
+interface PipelineForecastProps {
+  request: LeadRequest;
+}
+
+type ChartMetric = "meetings" | "pipeline";
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400";
+
+function formatCount(value: number) {
+  return value >= 10 ? Math.round(value).toLocaleString() : value.toFixed(1);
+}
+
+function formatMetric(metric: ChartMetric, value: number) {
+  return metric === "pipeline" ? formatCurrency(value) : formatCount(value);
+}
+
+export function PipelineForecast({ request }: PipelineForecastProps) {
+  const [assumptions, setAssumptions] = useState<ForecastAssumptions>(() =>
+    defaultForecastAssumptions(request)
+  );
+  const [metric, setMetric] = useState<ChartMetric>("pipeline");
+
+  useEffect(() => {
+    setAssumptions(defaultForecastAssumptions(request));
+  }, [request]);
+
+  const forecast = useMemo(() => forecastPipeline(assumptions), [assumptions]);
+  const { worst, expected, best } = forecast;
+
+  const updateChannel = (index: number, patch: Partial<ChannelAssumption>) =>
+    setAssumptions((prev) => ({
+      ...prev,
+      channels: prev.channels.map((item, position) => (position === index ? { ...item, ...patch } : item))
+    }));
+
+  const percentInput = (value: number, onChange: (next: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      max={100}
+      step={0.5}
+      value={Math.round(value * 1000) / 10}
+      onChange={(event) => onChange(Math.min(1, Math.max(0, Number(event.target.value) / 100)))}
+      className={inputClass}
+    />
+  );
+
+  const range = (pick: (scenario: ScenarioForecast) => number, format: (value: number) => string) =>
+    `${format(pick(worst))} – ${format(pick(best))}`;
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <ActivityLogIcon className="h-4 w-4 text-indigo-300" />
+            Pipeline forecast
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Weekly volume, meetings and pipeline over {request.timeframe} on a{" "}
+            {request.budgetLevel} budget. Edit the funnel assumptions to match
+            your own numbers.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setAssumptions(defaultForecastAssumptions(request))}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+        >
+          <ResetIcon className="h-4 w-4" />
+          Reset assumptions
+        </button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {[
+          {
+            label: "Meetings booked per week",
+            value: formatCount(expected.totals.meetings / assumptions.weeks),
+            detail: range((scenario) => scenario.totals.meetings / assumptions.weeks, formatCount)
+          },
+          {
+            label: "Total meetings",
+            value: formatCount(expected.totals.meetings),
+            detail: range((scenario) => scenario.totals.meetings, formatCount)
+          },
+          {
+            label: "Pipeline value influenced",
+            value: formatCurrency(expected.totals.pipeline),
+            detail: range((scenario) => scenario.totals.pipeline, formatCurrency)
+          }
+        ].map((card) => (
+          <div key={card.label} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+            <p className="text-xs uppercase tracking-wide text-slate-500">{card.label}</p>
+            <p className="mt-1 text-2xl font-semibold text-slate-100">{card.value}</p>
+            <p className="text-xs text-slate-500">Worst – best: {card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium text-slate-200">Cumulative by week</p>
+          <div className="flex gap-1">
+            {(["pipeline", "meetings"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMetric(option)}
+                className={clsx(
+                  "rounded-full border px-3 py-1 text-xs transition",
+                  metric === option
+                    ? "border-indigo-400/60 bg-indigo-500/10 text-indigo-200"
+                    : "border-slate-700 text-slate-400 hover:text-slate-200"
+                )}
+              >
+                {option === "pipeline" ? "Pipeline" : "Meetings"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ForecastChart forecast={forecast} metric={metric} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-1 pr-2">Channel</th>
+              <th className="py-1 pr-2">List size / week</th>
+              <th className="py-1 pr-2">Reply rate %</th>
+              <th className="py-1 pr-2">Meeting rate %</th>
+              <th className="py-1 pr-2">Ramp (weeks)</th>
+              <th className="py-1 pr-2">Meetings</th>
+              <th className="py-1">Pipeline</th>
+            </tr>
+          </thead>
+          <tbody>
+            {assumptions.channels.map((item, index) => (
+              <tr key={item.channel} className="border-t border-slate-800 text-slate-300">
+                <td className="py-1 pr-2 text-slate-200">{item.channel}</td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    value={item.listSize}
+                    onChange={(event) =>
+                      updateChannel(index, { listSize: Math.max(0, Math.round(Number(event.target.value) || 0)) })
+                    }
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  {percentInput(item.replyRate, (replyRate) => updateChannel(index, { replyRate }))}
+                </td>
+                <td className="py-1 pr-2">
+                  {percentInput(item.meetingRate, (meetingRate) => updateChannel(index, { meetingRate }))}
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={assumptions.weeks}
+                    value={item.rampWeeks}
+                    onChange={(event) =>
+                      updateChannel(index, {
+                        rampWeeks: Math.min(assumptions.weeks, Math.max(0, Math.round(Number(event.target.value) || 0)))
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-1 pr-2">{formatCount(expected.channels[index]?.meetings ?? 0)}</td>
+                <td className="py-1">{formatCurrency(expected.channels[index]?.pipeline ?? 0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-3 text-xs text-slate-400 sm:grid-cols-2">
+        <label className="grid gap-1">
+          Meetings that become opportunities (%)
+          {percentInput(assumptions.opportunityRate, (opportunityRate) =>
+            setAssumptions((prev) => ({ ...prev, opportunityRate }))
+          )}
+        </label>
+        <label className="grid gap-1">
+          Average contract value (USD)
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={assumptions.acv}
+            onChange={(event) =>
+              setAssumptions((prev) => ({ ...prev, acv: Math.max(0, Number(event.target.value) || 0) }))
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <details className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-sm">
+        <summary className="cursor-pointer text-slate-300">Weekly breakdown (expected)</summary>
+        <WeeklyTable weeks={expected.weeks} />
+      </details>
+
+      <p className="text-xs text-slate-500">
+        Worst and best cases scale every reply and meeting rate by 0.75× and
+        1.25×. Benchmarks are generic B2B starting points, not guarantees.
+      </p>
+    </div>
+  );
+}
+
+function WeeklyTable({ weeks }: { weeks: ForecastWeek[] }) {
+  return (
+    <table className="mt-2 w-full text-left text-xs text-slate-300">
+      <thead className="uppercase tracking-wide text-slate-500">
+        <tr>
+          <th className="py-1 pr-2">Week</th>
+          <th className="py-1 pr-2">Reached</th>
+          <th className="py-1 pr-2">Replies</th>
+          <th className="py-1 pr-2">Meetings</th>
+          <th className="py-1 pr-2">Opportunities</th>
+          <th className="py-1">Pipeline</th>
+        </tr>
+      </thead>
+      <tbody>
+        {weeks.map((week) => (
+          <tr key={week.week} className="border-t border-slate-800">
+            <td className="py-1 pr-2">{week.week}</td>
+            <td className="py-1 pr-2">{formatCount(week.reached)}</td>
+            <td className="py-1 pr-2">{formatCount(week.replies)}</td>
+            <td className="py-1 pr-2">{formatCount(week.meetings)}</td>
+            <td className="py-1 pr-2">{formatCount(week.opportunities)}</td>
+            <td className="py-1">{formatCurrency(week.pipeline)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 64 };
+
+function cumulative(weeks: ForecastWeek[], metric: ChartMetric) {
+  let total = 0;
+  return weeks.map((week) => (total += week[metric]));
+}
+
+/** Rounds the axis maximum up to 1, 2 or 5 times a power of ten. */
+function niceMax(value: number) {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((candidate) => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+interface ForecastChartProps {
+  forecast: Record<ForecastScenario, ScenarioForecast>;
+  metric: ChartMetric;
+}
+
+function ForecastChart({ forecast, metric }: ForecastChartProps) {
+  const worst = cumulative(forecast.worst.weeks, metric);
+  const expected = cumulative(forecast.expected.weeks, metric);
+  const best = cumulative(forecast.best.weeks, metric);
+  const count = expected.length;
+  const max = niceMax(best[count - 1] ?? 0);
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (count <= 1 ? plotWidth / 2 : (index / (count - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  const line = (values: number[]) =>
+    values.map((value, index) => `${index === 0 ? "M" : "L"}${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(" ");
+  const band = `${line(best)} ${worst
+    .map((value, index) => `L${x(index).toFixed(1)},${y(value).toFixed(1)}`)
+    .reverse()
+    .join(" ")} Z`;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((share) => share * max);
+  const labelEvery = Math.max(1, Math.ceil(count / 8));
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={`Cumulative ${metric} forecast by week`}
+      className="w-full rounded-lg border border-slate-800 bg-slate-950/40"
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={CHART_WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-slate-800"
+          />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" className="fill-slate-500 text-[10px]">
+            {formatMetric(metric, tick)}
+          </text>
+        </g>
+      ))}
+      {expected.map((_, index) =>
+        index % labelEvery === 0 || index === count - 1 ? (
+          <text
+            key={index}
+            x={x(index)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-slate-500 text-[10px]"
+          >
+            W{index + 1}
+          </text>
+        ) : null
+      )}
+      <path d={band} className="fill-indigo-500/15" />
+      <path d={line(best)} className="fill-none stroke-emerald-400/70" strokeDasharray="4 3" />
+      <path d={line(worst)} className="fill-none stroke-rose-400/70" strokeDasharray="4 3" />
+      <path d={line(expected)} className="fill-none stroke-indigo-300" strokeWidth={2} />
+      {expected.map((value, index) => (
+        <circle key={index} cx={x(index)} cy={y(value)} r={3} className="fill-indigo-300">
+          <title>
+            Week {index + 1}: {formatMetric(metric, worst[index])} – {formatMetric(metric, best[index])} (expected{" "}
+            {formatMetric(metric, value)})
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
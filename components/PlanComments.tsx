@@ -0,0 +1,175 @@
+'use client';
+
+import { anchorItems, describeAnchor, threadComments, type CommentThread } from "@/lib/comments";
+import type { CommentAnchor, PlanComment } from "@/lib/schemas";
+import type { LeadPlan, PlanSectionKey } from "@/lib/types";
+import { ChatBubbleIcon } from "@radix-ui/react-icons";
+import { FormEvent, useState } from "react";
+
+export interface CommentDraft {
+  anchor: CommentAnchor;
+  parentId: string | null;
+  body: string;
+}
+
+interface SectionCommentsProps {
+  plan: LeadPlan;
+  section: PlanSectionKey;
+  comments: PlanComment[];
+  /** Resolves to an error message, or null once the comment is saved. */
+  onPost: (draft: CommentDraft) => Promise<string | null>;
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400";
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function SectionComments({ plan, section, comments, onPost }: SectionCommentsProps) {
+  const [open, setOpen] = useState(false);
+  const sectionComments = comments.filter((comment) => comment.anchor.section === section);
+  const threads = threadComments(sectionComments);
+  const items = anchorItems(plan, section);
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-sm">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="inline-flex items-center gap-2 text-xs font-medium text-slate-400 transition hover:text-indigo-200"
+      >
+        <ChatBubbleIcon className="h-3.5 w-3.5" />
+        {sectionComments.length
+          ? `${sectionComments.length} ${sectionComments.length === 1 ? "comment" : "comments"}`
+          : "Comment on this section"}
+      </button>
+      {open && (
+        <div className="mt-3 space-y-3">
+          {threads.map((thread) => (
+            <ThreadView key={thread.comment.id} plan={plan} thread={thread} onPost={onPost} />
+          ))}
+          <CommentForm
+            items={items}
+            onSubmit={(body, item) => onPost({ anchor: { section, item }, parentId: null, body })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ThreadView({
+  plan,
+  thread,
+  onPost,
+  depth = 0
+}: {
+  plan: LeadPlan;
+  thread: CommentThread;
+  onPost: SectionCommentsProps["onPost"];
+  depth?: number;
+}) {
+  const [replying, setReplying] = useState(false);
+  const { comment } = thread;
+
+  return (
+    <div className={depth ? "border-l border-slate-800 pl-3" : undefined}>
+      <div className="rounded-md bg-slate-900/60 p-2">
+        <div className="flex flex-wrap items-center gap-x-2 text-xs text-slate-500">
+          <span className="font-semibold text-slate-300">{comment.author}</span>
+          <span>{formatTime(comment.createdAt)}</span>
+          {depth === 0 && (
+            <span className="rounded-full border border-slate-700 px-2 py-0.5 text-[11px]">
+              {describeAnchor(plan, comment.anchor)}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 whitespace-pre-wrap text-slate-300">{comment.body}</p>
+        <button
+          type="button"
+          onClick={() => setReplying((prev) => !prev)}
+          className="mt-1 text-xs text-slate-500 transition hover:text-indigo-200"
+        >
+          {replying ? "Cancel" : "Reply"}
+        </button>
+      </div>
+      <div className="mt-2 space-y-2 pl-3">
+        {thread.replies.map((reply) => (
+          <ThreadView key={reply.comment.id} plan={plan} thread={reply} onPost={onPost} depth={depth + 1} />
+        ))}
+        {replying && (
+          <CommentForm
+            items={[]}
+            placeholder={`Reply to ${comment.author}`}
+            onSubmit={async (body) => {
+              const error = await onPost({ anchor: comment.anchor, parentId: comment.id, body });
+              if (!error) setReplying(false);
+              return error;
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommentForm({
+  items,
+  placeholder = "Add a comment",
+  onSubmit
+}: {
+  items: string[];
+  placeholder?: string;
+  onSubmit: (body: string, item: number | null) => Promise<string | null>;
+}) {
+  const [body, setBody] = useState("");
+  const [item, setItem] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [posting, setPosting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!body.trim()) return;
+    setPosting(true);
+    const message = await onSubmit(body, item);
+    setPosting(false);
+    setError(message);
+    if (!message) setBody("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {items.length > 0 && (
+        <select
+          value={item ?? ""}
+          onChange={(event) => setItem(event.target.value === "" ? null : Number(event.target.value))}
+          className={inputClass}
+        >
+          <option value="">Whole section</option>
+          {items.map((label, index) => (
+            <option key={index} value={index}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+      <textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        rows={2}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+      <button
+        type="submit"
+        disabled={posting || !body.trim()}
+        className="rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {posting ? "Posting..." : "Post"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,227 @@
+import clsx from "clsx";
+import type {
+  ChangeStatus,
+  FieldDiff,
+  ItemDiff,
+  ListEntryDiff,
+  SectionDiff
+} from "@/lib/diff";
+import { planSectionTitles } from "@/lib/types";
+
+interface PlanCompareProps {
+  diff: SectionDiff[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+type Side = "before" | "after";
+
+const statusStyles: Record<ChangeStatus, string> = {
+  added: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200",
+  removed: "border-rose-500/40 bg-rose-500/10 text-rose-200",
+  modified: "border-amber-500/40 bg-amber-500/10 text-amber-200",
+  unchanged: "border-slate-700 bg-slate-900/60 text-slate-400"
+};
+
+function humanize(field: string) {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function PlanCompare({ diff, beforeLabel, afterLabel }: PlanCompareProps) {
+  const changed = diff.filter((section) => section.status !== "unchanged");
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 gap-4 text-sm font-semibold text-slate-200">
+        <p className="truncate">{beforeLabel}</p>
+        <p className="truncate">{afterLabel}</p>
+      </div>
+      <p className="text-sm text-slate-400">
+        {changed.length === 0
+          ? "These plans are identical."
+          : `${changed.length} of ${diff.length} sections changed.`}
+      </p>
+      {diff.map((section) => (
+        <section key={section.section} className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold text-slate-200">
+              {planSectionTitles[section.section]}
+            </h2>
+            <StatusBadge status={section.status} />
+          </div>
+          <SectionBody section={section} />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function SectionBody({ section }: { section: SectionDiff }) {
+  switch (section.kind) {
+    case "fields":
+      return <Fields fields={section.fields} />;
+    case "list":
+      return <ListColumns entries={section.entries} />;
+    case "items":
+      return (
+        <div className="space-y-3">
+          {section.items.map((item) => (
+            <Item key={`${item.status}-${item.key}`} item={item} />
+          ))}
+        </div>
+      );
+  }
+}
+
+function Item({ item }: { item: ItemDiff }) {
+  return (
+    <div
+      className={clsx(
+        "rounded-lg border p-4",
+        item.status === "unchanged"
+          ? "border-slate-800 bg-slate-900/60"
+          : statusStyles[item.status]
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <h3 className="text-base font-semibold text-slate-100">{item.key}</h3>
+        <StatusBadge status={item.status} />
+      </div>
+      {item.status === "added" || item.status === "removed" ? (
+        <div className="mt-3 grid grid-cols-2 gap-4">
+          <div>{item.status === "removed" && <FieldValues fields={item.fields} />}</div>
+          <div>{item.status === "added" && <FieldValues fields={item.fields} />}</div>
+        </div>
+      ) : (
+        <div className="mt-3">
+          <Fields fields={item.fields} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Fields({ fields }: { fields: FieldDiff[] }) {
+  return (
+    <div className="space-y-3">
+      {fields.map((field) => (
+        <div key={field.field}>
+          <p
+            className={clsx(
+              "text-xs font-semibold uppercase tracking-wide",
+              field.status === "unchanged" ? "text-slate-500" : "text-amber-300"
+            )}
+          >
+            {humanize(field.field)}
+          </p>
+          {field.kind === "text" ? (
+            <div className="mt-1 grid grid-cols-2 gap-4 text-sm">
+              <TextSide field={field} side="before" />
+              <TextSide field={field} side="after" />
+            </div>
+          ) : (
+            <ListColumns entries={field.entries} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function FieldValues({ fields }: { fields: FieldDiff[] }) {
+  return (
+    <dl className="space-y-2 text-sm">
+      {fields.map((field) => (
+        <div key={field.field}>
+          <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {humanize(field.field)}
+          </dt>
+          <dd className="mt-1 whitespace-pre-wrap text-slate-300">
+            {field.kind === "text"
+              ? field.before || field.after
+              : field.entries.map((entry) => entry.value).join(" • ")}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function TextSide({
+  field,
+  side
+}: {
+  field: Extract<FieldDiff, { kind: "text" }>;
+  side: Side;
+}) {
+  const hidden = side === "before" ? "added" : "removed";
+
+  return (
+    <p className="whitespace-pre-wrap text-slate-300">
+      {field.segments
+        .filter((segment) => segment.kind !== hidden)
+        .map((segment, index) =>
+          segment.kind === "equal" ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <mark
+              key={index}
+              className={clsx(
+                "rounded px-0.5",
+                segment.kind === "added"
+                  ? "bg-emerald-500/20 text-emerald-200"
+                  : "bg-rose-500/20 text-rose-200 line-through"
+              )}
+            >
+              {segment.text}
+            </mark>
+          )
+        )}
+    </p>
+  );
+}
+
+function ListColumns({ entries }: { entries: ListEntryDiff[] }) {
+  const renderSide = (side: Side) => (
+    <ul className="space-y-1 text-sm">
+      {entries
+        .filter((entry) =>
+          side === "before" ? entry.status !== "added" : entry.status !== "removed"
+        )
+        .map((entry) => (
+          <li
+            key={`${entry.status}-${entry.value}`}
+            className={clsx(
+              "rounded px-2 py-1",
+              entry.status === "unchanged"
+                ? "text-slate-400"
+                : statusStyles[entry.status]
+            )}
+          >
+            {entry.value}
+          </li>
+        ))}
+    </ul>
+  );
+
+  return (
+    <div className="mt-1 grid grid-cols-2 gap-4">
+      {renderSide("before")}
+      {renderSide("after")}
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: ChangeStatus }) {
+  return (
+    <span
+      className={clsx(
+        "rounded-full border px-2 py-0.5 text-xs uppercase tracking-wide",
+        statusStyles[status]
+      )}
+    >
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,409 @@
+'use client';
+
+import {
+  commitHistory,
+  emptyValue,
+  getIn,
+  insertItem,
+  modifiedPaths,
+  moveItem,
+  pathKey,
+  redoHistory,
+  removeItem,
+  schemaAt,
+  setIn,
+  startHistory,
+  undoHistory,
+  validateDraft,
+  type EditHistory,
+  type PlanPath
+} from "@/lib/planEditing";
+import { planSectionKeys, planSectionTitles, type LeadPlan } from "@/lib/types";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  Cross2Icon,
+  PlusIcon,
+  ResetIcon
+} from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { createContext, KeyboardEvent, useContext, useMemo, useState } from "react";
+import { z } from "zod";
+
+interface PlanEditorProps {
+  plan: LeadPlan;
+  /** Version the "modified" markers compare against. */
+  generated: LeadPlan | null;
+  onSave: (plan: LeadPlan) => void;
+  onCancel: () => void;
+}
+
+interface EditorContextValue {
+  draft: LeadPlan;
+  issues: Map<string, string>;
+  modified: Set<string>;
+  change: (path: PlanPath, value: unknown, coalesce?: boolean) => void;
+  update: (next: (draft: LeadPlan) => LeadPlan) => void;
+}
+
+const EditorContext = createContext<EditorContextValue | null>(null);
+
+function useEditor() {
+  const context = useContext(EditorContext);
+  if (!context) throw new Error("Plan fields must be rendered inside PlanEditor");
+  return context;
+}
+
+/** Fields edited as multi-line copy rather than single-line values. */
+const longTextFields = new Set([
+  "northStar",
+  "positioningTheme",
+  "angle",
+  "objective",
+  "play",
+  "sampleCopy",
+  "body",
+  "hypothesis",
+  "experiment"
+]);
+
+/** Field used to name an item in a list of objects. */
+const itemNameFields = ["title", "channel", "name", "label", "touch", "hypothesis", "description"];
+
+const inputClass =
+  "w-full rounded-md border bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none transition focus:border-indigo-400";
+
+function humanize(key: string) {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function singular(label: string) {
+  return label.replace(/ies$/, "y").replace(/s$/, "");
+}
+
+export function PlanEditor({ plan, generated, onSave, onCancel }: PlanEditorProps) {
+  const [history, setHistory] = useState<EditHistory<LeadPlan>>(() => startHistory(plan));
+  const draft = history.present;
+  const validation = useMemo(() => validateDraft(draft), [draft]);
+  const modified = useMemo(
+    () => (generated ? modifiedPaths(generated, draft) : new Set<string>()),
+    [generated, draft]
+  );
+  const dirty = history.past.length > 0;
+
+  const context: EditorContextValue = {
+    draft,
+    issues: validation.issues,
+    modified,
+    change: (path, value, coalesce = false) =>
+      setHistory((prev) => commitHistory(prev, setIn(prev.present, path, value), coalesce ? pathKey(path) : null)),
+    update: (next) => setHistory((prev) => commitHistory(prev, next(prev.present)))
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!(event.metaKey || event.ctrlKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === "z" || key === "y") {
+      event.preventDefault();
+      setHistory((prev) => (key === "y" || event.shiftKey ? redoHistory(prev) : undoHistory(prev)));
+    }
+  };
+
+  return (
+    <EditorContext.Provider value={context}>
+      <div className="space-y-6" onKeyDown={handleKeyDown}>
+        <div className="sticky top-0 z-10 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-800 bg-slate-950/90 p-3 backdrop-blur">
+          <p
+            className={clsx(
+              "text-sm",
+              validation.issues.size ? "text-rose-300" : "text-slate-400"
+            )}
+          >
+            {validation.issues.size
+              ? `${validation.issues.size} ${validation.issues.size === 1 ? "field needs" : "fields need"} fixing before saving.`
+              : modified.size
+                ? "Edits differ from the generated version."
+                : "Matches the generated version."}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <ToolbarButton
+              disabled={!history.past.length}
+              onClick={() => setHistory(undoHistory)}
+            >
+              Undo
+            </ToolbarButton>
+            <ToolbarButton
+              disabled={!history.future.length}
+              onClick={() => setHistory(redoHistory)}
+            >
+              Redo
+            </ToolbarButton>
+            {generated && (
+              <ToolbarButton
+                disabled={!modified.size}
+                onClick={() => context.update(() => generated)}
+              >
+                Revert all
+              </ToolbarButton>
+            )}
+            <ToolbarButton onClick={onCancel}>Cancel</ToolbarButton>
+            <button
+              type="button"
+              disabled={!validation.plan || !dirty}
+              onClick={() => validation.plan && onSave(validation.plan)}
+              className="rounded-md bg-indigo-500 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Save edits
+            </button>
+          </div>
+        </div>
+
+        {planSectionKeys.map((section) => (
+          <section key={section} className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+                {planSectionTitles[section]}
+                {modified.has(section) && <ModifiedBadge />}
+              </h3>
+              {generated && modified.has(section) && (
+                <button
+                  type="button"
+                  onClick={() => context.change([section], generated[section])}
+                  className="inline-flex items-center gap-1 text-xs text-slate-400 transition hover:text-indigo-200"
+                >
+                  <ResetIcon className="h-3 w-3" />
+                  Reset section
+                </button>
+              )}
+            </div>
+            <FieldEditor path={[section]} />
+          </section>
+        ))}
+      </div>
+    </EditorContext.Provider>
+  );
+}
+
+export function ModifiedBadge() {
+  return (
+    <span className="rounded-full border border-amber-500/30 bg-amber-500/10 px-2 py-0.5 text-[11px] font-medium uppercase tracking-wide text-amber-200">
+      Modified
+    </span>
+  );
+}
+
+function ToolbarButton({
+  children,
+  disabled,
+  onClick
+}: {
+  children: string;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={onClick}
+      className="rounded-md border border-slate-700 px-3 py-1.5 text-sm text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:cursor-not-allowed disabled:opacity-40"
+    >
+      {children}
+    </button>
+  );
+}
+
+function FieldEditor({ path, label }: { path: PlanPath; label?: string }) {
+  const { draft } = useEditor();
+  const schema = schemaAt(path);
+  const value = getIn(draft, path);
+
+  if (schema instanceof z.ZodObject) {
+    return (
+      <div className="space-y-3">
+        {label && <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</p>}
+        {Object.keys(schema.shape).map((key) => (
+          <FieldEditor key={key} path={[...path, key]} label={humanize(key)} />
+        ))}
+      </div>
+    );
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return <ListEditor path={path} label={label} items={Array.isArray(value) ? value : []} />;
+  }
+
+  return <LeafEditor path={path} label={label} schema={schema} value={value} />;
+}
+
+function LeafEditor({
+  path,
+  label,
+  schema,
+  value
+}: {
+  path: PlanPath;
+  label?: string;
+  schema: z.ZodTypeAny | null;
+  value: unknown;
+}) {
+  const { issues, modified, change } = useEditor();
+  const key = pathKey(path);
+  const issue = issues.get(key);
+  const field = String(path[path.length - 1]);
+  const className = clsx(
+    inputClass,
+    issue ? "border-rose-500/70" : modified.has(key) ? "border-amber-500/60" : "border-slate-700"
+  );
+
+  let control;
+  if (schema instanceof z.ZodEnum) {
+    control = (
+      <select value={String(value)} onChange={(event) => change(path, event.target.value)} className={className}>
+        {(schema.options as string[]).map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (schema instanceof z.ZodNumber) {
+    control = (
+      <input
+        type="number"
+        step={schema.isInt ? 1 : "any"}
+        value={typeof value === "number" && !Number.isNaN(value) ? value : ""}
+        onChange={(event) =>
+          change(path, event.target.value === "" ? Number.NaN : Number(event.target.value), true)
+        }
+        className={className}
+      />
+    );
+  } else if (longTextFields.has(field)) {
+    const text = String(value ?? "");
+    control = (
+      <textarea
+        value={text}
+        rows={Math.min(10, Math.max(2, text.split("\n").length + Math.floor(text.length / 90)))}
+        onChange={(event) => change(path, event.target.value, true)}
+        className={className}
+      />
+    );
+  } else {
+    control = (
+      <input
+        value={String(value ?? "")}
+        onChange={(event) => change(path, event.target.value, true)}
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <label className="grid gap-1 text-xs text-slate-400">
+      {label}
+      {control}
+      {issue && <span className="text-rose-300">{issue}</span>}
+    </label>
+  );
+}
+
+function ListEditor({ path, label, items }: { path: PlanPath; label?: string; items: unknown[] }) {
+  const { issues, modified, update } = useEditor();
+  const element = schemaAt([...path, 0]);
+  const objects = element instanceof z.ZodObject;
+  const itemLabel = singular(label ?? planSectionTitles[path[0] as keyof typeof planSectionTitles] ?? "Item");
+  const issue = issues.get(pathKey(path));
+
+  const nameOf = (item: unknown, index: number) => {
+    const field = itemNameFields.find(
+      (name) => item && typeof item === "object" && typeof (item as Record<string, unknown>)[name] === "string"
+    );
+    const name = field ? String((item as Record<string, unknown>)[field]).trim() : "";
+    return name ? `${index + 1}. ${name.length > 60 ? `${name.slice(0, 57)}...` : name}` : `${itemLabel} ${index + 1}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      {label && <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</p>}
+      {items.map((item, index) => {
+        const itemPath = [...path, index];
+        const controls = (
+          <div className="flex shrink-0 gap-1">
+            <IconButton label="Move up" disabled={index === 0} onClick={() => update((draft) => moveItem(draft, path, index, index - 1))}>
+              <ArrowUpIcon className="h-3 w-3" />
+            </IconButton>
+            <IconButton
+              label="Move down"
+              disabled={index === items.length - 1}
+              onClick={() => update((draft) => moveItem(draft, path, index, index + 1))}
+            >
+              <ArrowDownIcon className="h-3 w-3" />
+            </IconButton>
+            <IconButton label="Remove" onClick={() => update((draft) => removeItem(draft, path, index))}>
+              <Cross2Icon className="h-3 w-3" />
+            </IconButton>
+          </div>
+        );
+
+        return objects ? (
+          <div
+            key={index}
+            className={clsx(
+              "space-y-3 rounded-lg border bg-slate-900/60 p-3",
+              modified.has(pathKey(itemPath)) ? "border-amber-500/40" : "border-slate-800"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium text-slate-200">{nameOf(item, index)}</p>
+              {controls}
+            </div>
+            <FieldEditor path={itemPath} />
+          </div>
+        ) : (
+          <div key={index} className="flex items-start gap-2">
+            <div className="flex-1">
+              <FieldEditor path={itemPath} />
+            </div>
+            <div className="pt-1.5">{controls}</div>
+          </div>
+        );
+      })}
+      {issue && <p className="text-xs text-rose-300">{issue}</p>}
+      <button
+        type="button"
+        onClick={() => element && update((draft) => insertItem(draft, path, emptyValue(element)))}
+        className="inline-flex items-center gap-1 rounded-md border border-dashed border-slate-700 px-2 py-1 text-xs text-slate-400 transition hover:border-indigo-400/60 hover:text-indigo-200"
+      >
+        <PlusIcon className="h-3 w-3" />
+        Add {itemLabel.toLowerCase()}
+      </button>
+    </div>
+  );
+}
+
+function IconButton({
+  label,
+  disabled,
+  onClick,
+  children
+}: {
+  label: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: JSX.Element;
+}) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      title={label}
+      disabled={disabled}
+      onClick={onClick}
+      className="rounded border border-slate-700 p-1 text-slate-400 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:opacity-30"
+    >
+      {children}
+    </button>
+  );
+}
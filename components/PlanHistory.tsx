@@ -0,0 +1,241 @@
+'use client';
+
+import type { PlanSummary, StoredPlan } from "@/lib/store";
+import {
+  CheckIcon,
+  CounterClockwiseClockIcon,
+  Pencil1Icon,
+  TrashIcon
+} from "@radix-ui/react-icons";
+import clsx from "clsx";
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useState } from "react";
+
+interface PlanHistoryProps {
+  activeId: string | null;
+  refreshKey: number;
+  onOpen: (stored: StoredPlan) => void;
+  onDeleted: (id: string) => void;
+}
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short"
+});
+
+export function PlanHistory({
+  activeId,
+  refreshKey,
+  onOpen,
+  onDeleted
+}: PlanHistoryProps) {
+  const [plans, setPlans] = useState<PlanSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const response = await fetch("/api/plans", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data?.error ?? "Could not load saved plans.");
+        return;
+      }
+      setPlans(data.plans);
+      setError(null);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load saved plans.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPlans();
+  }, [loadPlans, refreshKey]);
+
+  const openPlan = async (id: string) => {
+    try {
+      const response = await fetch(`/api/plans/${id}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data?.error ?? "Could not open that plan.");
+        return;
+      }
+      onOpen(data.plan);
+    } catch (openError) {
+      console.error(openError);
+      setError("Could not open that plan.");
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((selected) => selected !== id)
+        : [...prev, id].slice(-2)
+    );
+  };
+
+  const comparePair = compareIds
+    .map((id) => plans.find((plan) => plan.id === id))
+    .filter((plan): plan is PlanSummary => Boolean(plan))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const startRename = (plan: PlanSummary) => {
+    setEditingId(plan.id);
+    setDraftName(plan.name);
+  };
+
+  const submitRename = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editingId) return;
+
+    const response = await fetch(`/api/plans/${editingId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ name: draftName })
+    });
+
+    if (!response.ok) {
+      setError("Could not rename that plan.");
+      return;
+    }
+
+    setEditingId(null);
+    await loadPlans();
+  };
+
+  const removePlan = async (plan: PlanSummary) => {
+    if (!window.confirm(`Delete "${plan.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/plans/${plan.id}`, {
+      method: "DELETE"
+    });
+
+    if (!response.ok) {
+      setError("Could not delete that plan.");
+      return;
+    }
+
+    onDeleted(plan.id);
+    setCompareIds((prev) => prev.filter((id) => id !== plan.id));
+    await loadPlans();
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+          <CounterClockwiseClockIcon className="h-4 w-4 text-indigo-300" />
+          Saved plans
+        </div>
+        {comparePair.length === 2 ? (
+          <Link
+            href={`/compare?a=${comparePair[0].id}&b=${comparePair[1].id}`}
+            className="rounded-md bg-indigo-500 px-2 py-1 text-xs font-semibold text-white transition hover:bg-indigo-400"
+          >
+            Compare selected
+          </Link>
+        ) : (
+          plans.length > 1 && (
+            <span className="text-xs text-slate-500">
+              Tick two plans to compare
+            </span>
+          )
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+
+      {plans.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">
+          Every generated plan is saved here so you can reopen it later.
+        </p>
+      ) : (
+        <ul className="mt-3 max-h-64 space-y-1 overflow-y-auto pr-1">
+          {plans.map((plan) => (
+            <li
+              key={plan.id}
+              className={clsx(
+                "group flex items-center gap-2 rounded-lg border px-3 py-2 text-sm transition",
+                plan.id === activeId
+                  ? "border-indigo-500/60 bg-indigo-500/10"
+                  : "border-transparent hover:border-slate-700 hover:bg-slate-900/80"
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={compareIds.includes(plan.id)}
+                onChange={() => toggleCompare(plan.id)}
+                disabled={!plan.hasPlan}
+                aria-label={`Select ${plan.name} for comparison`}
+                className="h-3.5 w-3.5 accent-indigo-500"
+              />
+              {editingId === plan.id ? (
+                <form onSubmit={submitRename} className="flex flex-1 gap-2">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(event) => setDraftName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Escape") setEditingId(null);
+                    }}
+                    className="flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+                  />
+                  <button
+                    type="submit"
+                    className="text-emerald-300 hover:text-emerald-200"
+                    aria-label="Save name"
+                  >
+                    <CheckIcon className="h-4 w-4" />
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => openPlan(plan.id)}
+                  className="flex-1 text-left"
+                >
+                  <span className="block truncate text-slate-200">
+                    {plan.name}
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {dateFormatter.format(new Date(plan.createdAt))} ·{" "}
+                    {plan.fallback ? "Heuristic fallback" : plan.model}
+                    {!plan.hasPlan && " · raw response"}
+                  </span>
+                </button>
+              )}
+              {editingId !== plan.id && (
+                <div className="flex gap-1 opacity-0 transition group-hover:opacity-100">
+                  <button
+                    type="button"
+                    onClick={() => startRename(plan)}
+                    className="rounded p-1 text-slate-400 hover:text-slate-100"
+                    aria-label="Rename plan"
+                  >
+                    <Pencil1Icon className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removePlan(plan)}
+                    className="rounded p-1 text-slate-400 hover:text-rose-300"
+                    aria-label="Delete plan"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,87 @@
 'use client';
 
-import { LeadPlan } from "@/lib/types";
-import { CheckIcon, ClipboardCopyIcon } from "@radix-ui/react-icons";
-import { useState } from "react";
+import {
+  LeadPlan,
+  leadPlanSchema,
+  PartialLeadPlan,
+  planSectionKeys,
+  planSectionTitles,
+  type OutreachSequence,
+  type PlanSectionKey
+} from "@/lib/types";
+import {
+  CheckIcon,
+  ClipboardCopyIcon,
+  MagicWandIcon,
+  Pencil1Icon,
+  ReloadIcon
+} from "@radix-ui/react-icons";
+import { FormEvent, ReactNode, useEffect, useMemo, useState } from "react";
+import { CopyFindings } from "@/components/CopyFindings";
+import { ExecutionCalendar } from "@/components/ExecutionCalendar";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ModifiedBadge, PlanEditor } from "@/components/PlanEditor";
+import { nextMonday, type CalendarOptions } from "@/lib/calendar";
+import { countFindings, groupFindings, lintPlan, type LintFinding } from "@/lib/copyLint";
+import { formatCurrency } from "@/lib/forecast";
+import type { AttemptDiagnostic } from "@/lib/generate";
+import { modifiedPaths } from "@/lib/planEditing";
+import type { LeadRequest } from "@/lib/schemas";
 
 interface PlanPreviewProps {
-  plan: LeadPlan | null;
+  plan: PartialLeadPlan | null;
   raw: string | null;
+  streaming?: boolean;
+  title?: string;
+  attempts?: AttemptDiagnostic[];
+  /** Version the plan was generated as; edited sections are marked against it. */
+  generatedPlan?: LeadPlan | null;
+  onPlanEdit?: (plan: LeadPlan) => void;
+  description?: string;
+  /** Extra content under each rendered section, e.g. review comments. */
+  sectionFooter?: (section: PlanSectionKey) => ReactNode;
+  /** Lays the plan out on an execution calendar when known. */
+  timeframe?: LeadRequest["timeframe"];
+  /** Lets the copy check accept claims backed by the request; without it claims are not checked. */
+  request?: LeadRequest | null;
+  busySection?: PlanSectionKey | null;
+  onRegenerateSection?: (section: PlanSectionKey, instruction?: string) => void;
 }
 
-export function PlanPreview({ plan, raw }: PlanPreviewProps) {
+export function PlanPreview({
+  plan,
+  raw,
+  streaming = false,
+  title,
+  attempts = [],
+  generatedPlan = null,
+  onPlanEdit,
+  description = "Copy the JSON, export it, or send it to your CRM below.",
+  sectionFooter,
+  timeframe,
+  request = null,
+  busySection = null,
+  onRegenerateSection
+}: PlanPreviewProps) {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  // A new generation or a different saved plan discards an open edit session.
+  useEffect(() => {
+    setEditing(false);
+  }, [streaming, generatedPlan]);
+  const [calendarSettings, setCalendarSettings] = useState<Omit<CalendarOptions, "timeframe">>(
+    () => ({ startDate: nextMonday() })
+  );
+  const calendarOptions = timeframe ? { ...calendarSettings, timeframe } : undefined;
+  const completePlan = useMemo(
+    () => (plan && !streaming ? leadPlanSchema.safeParse(plan) : null),
+    [plan, streaming]
+  );
+  const findings = useMemo(
+    () => (completePlan?.success ? lintPlan(completePlan.data, request) : []),
+    [completePlan, request]
+  );
 
   const handleCopy = async () => {
     try {
@@ -27,7 +98,9 @@ export function PlanPreview({ plan, raw }: PlanPreviewProps) {
   if (!plan && !raw) {
     return (
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
-        The generated plan will appear here once you submit the form.
+        {streaming
+          ? "Drafting your blueprint — sections will appear as soon as they are ready."
+          : "The generated plan will appear here once you submit the form."}
       </div>
     );
   }
@@ -54,6 +127,23 @@ export function PlanPreview({ plan, raw }: PlanPreviewProps) {
             )}
           </button>
         </header>
+        {attempts.length > 0 && (
+          <ul className="space-y-1 text-xs text-yellow-200/80">
+            {attempts.map((attempt) => (
+              <li key={attempt.attempt}>
+                <span className="font-semibold">Attempt {attempt.attempt}:</span>{" "}
+                {attempt.message ?? (attempt.ok ? "Valid" : "Invalid")}
+                {attempt.issues?.length
+                  ? ` — ${attempt.issues.slice(0, 3).join("; ")}${
+                      attempt.issues.length > 3
+                        ? ` (+${attempt.issues.length - 3} more)`
+                        : ""
+                    }`
+                  : ""}
+              </li>
+            ))}
+          </ul>
+        )}
         <pre className="whitespace-pre-wrap text-sm text-yellow-100/90">
           {raw}
         </pre>
@@ -63,186 +153,396 @@ export function PlanPreview({ plan, raw }: PlanPreviewProps) {
 
   if (!plan) return null;
 
-  const sections = [
-    {
-      title: "Campaign Summary",
-      content: (
-        <div className="space-y-4">
-          <p className="text-base text-slate-200">{plan.campaignSummary.northStar}</p>
-          <div>
-            <p className="font-medium text-slate-300">Success metrics</p>
-            <ul className="mt-1 list-disc space-y-1 pl-4 text-sm text-slate-400">
-              {plan.campaignSummary.successMetrics.map((metric) => (
-                <li key={metric}>{metric}</li>
-              ))}
-            </ul>
-          </div>
-          <div>
-            <p className="font-medium text-slate-300">Positioning theme</p>
-            <p className="mt-1 text-sm text-slate-400">
-              {plan.campaignSummary.positioningTheme}
+  const modified =
+    completePlan?.success && generatedPlan
+      ? modifiedPaths(generatedPlan, completePlan.data)
+      : new Set<string>();
+
+  const findingsByPath = groupFindings(findings);
+  const findingsAt: FindingLookup = (path) => findingsByPath.get(path);
+  const findingCounts = countFindings(findings);
+
+  const sections = planSectionKeys.map((key) => ({
+    key,
+    title: planSectionTitles[key],
+    content: plan[key] ? renderSection(key, plan[key], findingsAt) : null
+  }));
+
+  return (
+    <div className="space-y-6 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">
+            Lead Generation Blueprint
+          </h2>
+          <p className="mt-1 text-sm text-slate-400">
+            {description}
+          </p>
+          {completePlan?.success && (
+            <p className="mt-1 text-xs text-slate-500">
+              Copy check:{" "}
+              {findings.length
+                ? [
+                    findingCounts.error && `${findingCounts.error} to fix`,
+                    findingCounts.warning && `${findingCounts.warning} to check`,
+                    findingCounts.info && `${findingCounts.info} ${findingCounts.info === 1 ? "note" : "notes"}`
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")
+                : "no compliance or deliverability issues found"}
             </p>
-          </div>
-        </div>
-      )
-    },
-    {
-      title: "Ideal Customer Profile",
-      content: (
-        <div className="grid gap-4 sm:grid-cols-3">
-          <Column title="Company traits" items={plan.idealCustomerProfile.companyTraits} />
-          <Column title="Buyer persona" items={plan.idealCustomerProfile.buyerPersona} />
-          <Column title="Pain points" items={plan.idealCustomerProfile.painPoints} />
+          )}
         </div>
-      )
-    },
-    {
-      title: "Messaging Pillars",
-      content: (
-        <div className="space-y-4">
-          {plan.messagingPillars.map((pillar) => (
-            <div
-              key={pillar.title}
-              className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+        <div className="flex shrink-0 items-center gap-2">
+          {completePlan?.success && onPlanEdit && !editing && (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              disabled={busySection !== null}
+              className="inline-flex items-center gap-2 rounded-md border border-slate-700 px-3 py-2 text-sm font-medium text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:opacity-50"
             >
-              <h3 className="text-base font-semibold text-slate-200">
-                {pillar.title}
-              </h3>
-              <p className="mt-1 text-sm text-slate-400">{pillar.angle}</p>
-              <ul className="mt-3 list-disc space-y-1 pl-4 text-sm text-slate-400">
-                {pillar.proofPoints.map((point) => (
-                  <li key={point}>{point}</li>
-                ))}
-              </ul>
-            </div>
-          ))}
+              <Pencil1Icon className="h-4 w-4" />
+              Edit
+            </button>
+          )}
+          {completePlan?.success && (
+            <ExportMenu
+              plan={completePlan.data}
+              title={title}
+              calendar={calendarOptions}
+            />
+          )}
+          <button
+            onClick={handleCopy}
+            className="inline-flex items-center gap-2 rounded-md bg-indigo-500 px-3 py-2 text-sm font-medium text-white transition hover:bg-indigo-400"
+          >
+            {copied ? (
+              <CheckIcon className="h-4 w-4" />
+            ) : (
+              <ClipboardCopyIcon className="h-4 w-4" />
+            )}
+            {copied ? "Copied" : "Copy JSON"}
+          </button>
         </div>
-      )
-    },
-    {
-      title: "Channel Strategy",
-      content: (
-        <div className="space-y-4">
-          {plan.channelStrategy.map((item) => (
-            <div
-              key={`${item.channel}-${item.objective}`}
-              className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
-            >
-              <div className="flex flex-wrap items-center justify-between gap-2">
-                <h3 className="text-base font-semibold text-slate-200">
-                  {item.channel}
+      </div>
+      {editing && completePlan?.success && onPlanEdit ? (
+        <PlanEditor
+          plan={completePlan.data}
+          generated={generatedPlan}
+          onSave={(edited) => {
+            onPlanEdit(edited);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div className="space-y-8">
+          {sections.map((section) =>
+            section.content ? (
+              <section
+                key={section.key}
+                className={busySection === section.key ? "opacity-60" : undefined}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-200">
+                    {section.title}
+                    {modified.has(section.key) && <ModifiedBadge />}
+                  </h3>
+                  {onRegenerateSection && !streaming && (
+                    <SectionActions
+                      busy={busySection === section.key}
+                      disabled={busySection !== null}
+                      onSubmit={(instruction) =>
+                        onRegenerateSection(section.key, instruction)
+                      }
+                    />
+                  )}
+                </div>
+                <div className="mt-3 text-sm text-slate-400">{section.content}</div>
+                {sectionFooter && !streaming && sectionFooter(section.key)}
+              </section>
+            ) : streaming ? (
+              <section key={section.key} className="animate-pulse">
+                <h3 className="text-lg font-semibold text-slate-500">
+                  {section.title}
                 </h3>
-                <span className="rounded-full border border-indigo-500/30 bg-indigo-500/10 px-3 py-1 text-xs uppercase tracking-wide text-indigo-200">
-                  {item.cadence}
-                </span>
-              </div>
-              <p className="mt-2 text-sm text-slate-400">{item.objective}</p>
-              <p className="mt-2 text-sm text-slate-300">{item.play}</p>
-              <div className="mt-3 rounded-md bg-slate-950/50 p-3 text-sm text-slate-400">
-                <p className="font-medium text-slate-300">Sample copy</p>
-                <p className="mt-1 whitespace-pre-wrap">{item.sampleCopy}</p>
+                <div className="mt-3 h-16 rounded-lg border border-dashed border-slate-800 bg-slate-900/40" />
+              </section>
+            ) : null
+          )}
+          {completePlan?.success && calendarOptions && (
+            <section>
+              <h3 className="text-lg font-semibold text-slate-200">
+                Execution Calendar
+              </h3>
+              <div className="mt-3">
+                <ExecutionCalendar
+                  plan={completePlan.data}
+                  options={calendarOptions}
+                  onOptionsChange={(next) =>
+                    setCalendarSettings({ startDate: next.startDate, owners: next.owners })
+                  }
+                />
               </div>
-            </div>
-          ))}
+            </section>
+          )}
         </div>
-      )
-    },
-    {
-      title: "Automation Workflow",
-      content: (
-        <div className="space-y-4">
-          {plan.automationWorkflow.map((flow) => (
-            <div
-              key={flow.name}
-              className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
-            >
-              <h3 className="text-base font-semibold text-slate-200">
-                {flow.name}
-              </h3>
-              <p className="mt-1 text-sm text-slate-400">
-                <span className="font-medium text-slate-300">Trigger:</span>{" "}
-                {flow.trigger}
-              </p>
-              <ol className="mt-3 list-decimal space-y-1 pl-5 text-sm text-slate-400">
-                {flow.steps.map((step, index) => (
-                  <li key={`${flow.name}-${index}`}>{step}</li>
-                ))}
-              </ol>
-            </div>
+      )}
+    </div>
+  );
+}
+
+type FindingLookup = (path: string) => LintFinding[] | undefined;
+
+type SectionRenderers = {
+  [K in PlanSectionKey]: (value: LeadPlan[K], findingsAt: FindingLookup) => ReactNode;
+};
+
+const sectionRenderers: SectionRenderers = {
+  campaignSummary: (summary) => (
+    <div className="space-y-4">
+      <p className="text-base text-slate-200">{summary.northStar}</p>
+      <div>
+        <p className="font-medium text-slate-300">Success metrics</p>
+        <ul className="mt-1 list-disc space-y-1 pl-4 text-sm text-slate-400">
+          {summary.successMetrics.map((metric) => (
+            <li key={metric}>{metric}</li>
           ))}
+        </ul>
+      </div>
+      <div>
+        <p className="font-medium text-slate-300">Positioning theme</p>
+        <p className="mt-1 text-sm text-slate-400">
+          {summary.positioningTheme}
+        </p>
+      </div>
+    </div>
+  ),
+  idealCustomerProfile: (profile) => (
+    <div className="grid gap-4 sm:grid-cols-3">
+      <Column title="Company traits" items={profile.companyTraits} />
+      <Column title="Buyer persona" items={profile.buyerPersona} />
+      <Column title="Pain points" items={profile.painPoints} />
+    </div>
+  ),
+  messagingPillars: (pillars, findingsAt) => (
+    <div className="space-y-4">
+      {pillars.map((pillar, index) => (
+        <div
+          key={pillar.title}
+          className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+        >
+          <h3 className="text-base font-semibold text-slate-200">
+            {pillar.title}
+          </h3>
+          <p className="mt-1 text-sm text-slate-400">{pillar.angle}</p>
+          <CopyFindings findings={findingsAt(`messagingPillars.${index}.angle`)} />
+          <ul className="mt-3 list-disc space-y-1 pl-4 text-sm text-slate-400">
+            {pillar.proofPoints.map((point, pointIndex) => (
+              <li key={point}>
+                {point}
+                <CopyFindings findings={findingsAt(`messagingPillars.${index}.proofPoints.${pointIndex}`)} />
+              </li>
+            ))}
+          </ul>
         </div>
-      )
-    },
-    {
-      title: "Experiments",
-      content: (
-        <div className="space-y-4">
-          {plan.experiments.map((experiment, index) => (
-            <div
-              key={`${experiment.hypothesis}-${index}`}
-              className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
-            >
+      ))}
+    </div>
+  ),
+  channelStrategy: (channels, findingsAt) => (
+    <div className="space-y-4">
+      {channels.map((item, index) => (
+        <div
+          key={`${item.channel}-${item.objective}`}
+          className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-base font-semibold text-slate-200">
+              {item.channel}
+            </h3>
+            <span className="rounded-full border border-indigo-500/30 bg-indigo-500/10 px-3 py-1 text-xs uppercase tracking-wide text-indigo-200">
+              {item.cadence}
+            </span>
+          </div>
+          <p className="mt-2 text-sm text-slate-400">{item.objective}</p>
+          <p className="mt-2 text-sm text-slate-300">{item.play}</p>
+          <div className="mt-3 rounded-md bg-slate-950/50 p-3 text-sm text-slate-400">
+            <p className="font-medium text-slate-300">Sample copy</p>
+            <p className="mt-1 whitespace-pre-wrap">{item.sampleCopy}</p>
+          </div>
+          <CopyFindings findings={findingsAt(`channelStrategy.${index}.sampleCopy`)} />
+        </div>
+      ))}
+    </div>
+  ),
+  budgetAllocation: (budget) =>
+    budget.channels.length ? (
+      <div className="space-y-4">
+        <p className="text-base text-slate-200">
+          {formatCurrency(budget.total)} {budget.currency} across {budget.channels.length}{" "}
+          {budget.channels.length === 1 ? "channel" : "channels"}
+        </p>
+        {budget.channels.map((channel) => (
+          <div
+            key={channel.channel}
+            className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
               <h3 className="text-base font-semibold text-slate-200">
-                {experiment.hypothesis}
+                {channel.channel}
               </h3>
-              <p className="mt-1 text-sm text-slate-400">
-                <span className="font-medium text-slate-300">Experiment:</span>{" "}
-                {experiment.experiment}
-              </p>
-              <p className="mt-1 text-sm text-slate-400">
-                <span className="font-medium text-slate-300">Metric:</span>{" "}
-                {experiment.metric}
-              </p>
+              <span className="rounded-full border border-emerald-500/30 bg-emerald-500/10 px-3 py-1 text-xs text-emerald-200">
+                {channel.share}% · {formatCurrency(channel.amount)}
+              </span>
             </div>
-          ))}
+            <ul className="mt-3 space-y-1 text-sm text-slate-400">
+              {channel.lineItems.map((item) => (
+                <li key={`${item.category}-${item.description}`} className="flex justify-between gap-3">
+                  <span>
+                    <span className="text-xs uppercase tracking-wide text-slate-500">
+                      {item.category}
+                    </span>{" "}
+                    {item.description}
+                    {item.hours > 0 && ` · ${item.hours}h`}
+                  </span>
+                  <span className="text-slate-300">{formatCurrency(item.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {budget.guardrails.length > 0 && (
+          <Column title="Guardrails" items={budget.guardrails} />
+        )}
+      </div>
+    ) : null,
+  outreachSequences: (sequences, findingsAt) => (
+    <div className="space-y-4">
+      {sequences.map((sequence, index) => (
+        <SequenceTimeline
+          key={sequence.channel}
+          sequence={sequence}
+          findingsAt={(path) => findingsAt(`outreachSequences.${index}.${path}`)}
+        />
+      ))}
+    </div>
+  ),
+  automationWorkflow: (flows) => (
+    <div className="space-y-4">
+      {flows.map((flow) => (
+        <div
+          key={flow.name}
+          className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+        >
+          <h3 className="text-base font-semibold text-slate-200">
+            {flow.name}
+          </h3>
+          <p className="mt-1 text-sm text-slate-400">
+            <span className="font-medium text-slate-300">Trigger:</span>{" "}
+            {flow.trigger}
+          </p>
+          <ol className="mt-3 list-decimal space-y-1 pl-5 text-sm text-slate-400">
+            {flow.steps.map((step, index) => (
+              <li key={`${flow.name}-${index}`}>{step}</li>
+            ))}
+          </ol>
         </div>
-      )
-    },
-    {
-      title: "Next Steps",
-      content: (
-        <ul className="list-disc space-y-2 pl-5 text-sm text-slate-300">
-          {plan.nextSteps.map((step) => (
-            <li key={step}>{step}</li>
-          ))}
-        </ul>
-      )
-    }
-  ];
-
-  return (
-    <div className="space-y-6 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
-      <div className="flex items-center justify-between gap-3">
-        <div>
-          <h2 className="text-xl font-semibold text-slate-100">
-            Lead Generation Blueprint
-          </h2>
+      ))}
+    </div>
+  ),
+  experiments: (experiments) => (
+    <div className="space-y-4">
+      {experiments.map((experiment, index) => (
+        <div
+          key={`${experiment.hypothesis}-${index}`}
+          className="rounded-lg border border-slate-800 bg-slate-900/60 p-4"
+        >
+          <h3 className="text-base font-semibold text-slate-200">
+            {experiment.hypothesis}
+          </h3>
+          <p className="mt-1 text-sm text-slate-400">
+            <span className="font-medium text-slate-300">Experiment:</span>{" "}
+            {experiment.experiment}
+          </p>
           <p className="mt-1 text-sm text-slate-400">
-            Copy this JSON to feed downstream playbooks or CRM automation.
+            <span className="font-medium text-slate-300">Metric:</span>{" "}
+            {experiment.metric}
           </p>
         </div>
+      ))}
+    </div>
+  ),
+  nextSteps: (steps) => (
+    <ul className="list-disc space-y-2 pl-5 text-sm text-slate-300">
+      {steps.map((step) => (
+        <li key={step}>{step}</li>
+      ))}
+    </ul>
+  )
+};
+
+function renderSection<K extends PlanSectionKey>(key: K, value: LeadPlan[K], findingsAt: FindingLookup) {
+  return sectionRenderers[key](value, findingsAt);
+}
+
+interface SectionActionsProps {
+  busy: boolean;
+  disabled: boolean;
+  onSubmit: (instruction?: string) => void;
+}
+
+function SectionActions({ busy, disabled, onSubmit }: SectionActionsProps) {
+  const [refining, setRefining] = useState(false);
+  const [instruction, setInstruction] = useState("");
+
+  const handleRefine = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!instruction.trim()) return;
+    onSubmit(instruction.trim());
+    setRefining(false);
+    setInstruction("");
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-2">
         <button
-          onClick={handleCopy}
-          className="inline-flex items-center gap-2 rounded-md bg-indigo-500 px-3 py-2 text-sm font-medium text-white transition hover:bg-indigo-400"
+          type="button"
+          disabled={disabled}
+          onClick={() => onSubmit()}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:cursor-not-allowed disabled:opacity-50"
         >
-          {copied ? (
-            <CheckIcon className="h-4 w-4" />
-          ) : (
-            <ClipboardCopyIcon className="h-4 w-4" />
-          )}
-          {copied ? "Copied" : "Copy JSON"}
+          <ReloadIcon className={busy ? "h-3 w-3 animate-spin" : "h-3 w-3"} />
+          {busy ? "Working..." : "Regenerate"}
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => setRefining((prev) => !prev)}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <MagicWandIcon className="h-3 w-3" />
+          Refine
         </button>
       </div>
-      <div className="space-y-8">
-        {sections.map((section) => (
-          <section key={section.title}>
-            <h3 className="text-lg font-semibold text-slate-200">
-              {section.title}
-            </h3>
-            <div className="mt-3 text-sm text-slate-400">{section.content}</div>
-          </section>
-        ))}
-      </div>
+      {refining && (
+        <form onSubmit={handleRefine} className="flex w-72 gap-2">
+          <input
+            autoFocus
+            value={instruction}
+            onChange={(event) => setInstruction(event.target.value)}
+            placeholder="e.g. Make these more specific to fintech"
+            className="flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !instruction.trim()}
+            className="rounded-md bg-indigo-500 px-2 py-1 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </form>
+      )}
     </div>
   );
 }
@@ -266,3 +566,75 @@ function Column({ title, items }: ColumnProps) {
     </div>
   );
 }
+
+interface SequenceTimelineProps {
+  sequence: OutreachSequence;
+  /** Looks up copy findings by path relative to the sequence, e.g. `steps.0.body`. */
+  findingsAt: FindingLookup;
+}
+
+function SequenceTimeline({ sequence, findingsAt }: SequenceTimelineProps) {
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-semibold text-slate-200">
+          {sequence.channel}
+        </h3>
+        <span className="text-xs text-slate-500">
+          {sequence.steps.length} touches
+          {sequence.steps.length > 0 &&
+            ` over ${sequence.steps[sequence.steps.length - 1].day + 1} days`}
+        </span>
+      </div>
+      {sequence.mergeFields.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {sequence.mergeFields.map((field) => (
+            <code
+              key={field}
+              className="rounded border border-indigo-500/30 bg-indigo-500/10 px-1.5 py-0.5 text-xs text-indigo-200"
+            >
+              {`{{${field}}}`}
+            </code>
+          ))}
+        </div>
+      )}
+      <ol className="mt-4 space-y-4 border-l border-slate-700 pl-5">
+        {sequence.steps.map((step, index) => (
+          <li key={`${step.day}-${index}`} className="relative">
+            <span className="absolute -left-[1.65rem] top-0.5 flex h-3 w-3 rounded-full border-2 border-indigo-400 bg-slate-950" />
+            <p className="text-xs font-semibold uppercase tracking-wide text-indigo-200">
+              Day {step.day} · {step.touch}
+            </p>
+            {step.subject && (
+              <p className="mt-1 text-sm font-medium text-slate-200">
+                {step.subject}
+              </p>
+            )}
+            <CopyFindings findings={findingsAt(`steps.${index}.subject`)} />
+            <p className="mt-1 whitespace-pre-wrap rounded-md bg-slate-950/50 p-3 text-sm text-slate-400">
+              {step.body}
+            </p>
+            <CopyFindings findings={findingsAt(`steps.${index}.body`)} />
+            {step.variants.map((variant, variantIndex) => (
+              <details key={variant.label} className="mt-2 text-sm">
+                <summary className="cursor-pointer text-xs font-medium text-emerald-300">
+                  Variant {variant.label}
+                </summary>
+                {variant.subject && (
+                  <p className="mt-1 font-medium text-slate-200">
+                    {variant.subject}
+                  </p>
+                )}
+                <CopyFindings findings={findingsAt(`steps.${index}.variants.${variantIndex}.subject`)} />
+                <p className="mt-1 whitespace-pre-wrap rounded-md bg-slate-950/50 p-3 text-slate-400">
+                  {variant.body}
+                </p>
+                <CopyFindings findings={findingsAt(`steps.${index}.variants.${variantIndex}.body`)} />
+              </details>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
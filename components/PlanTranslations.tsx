@@ -0,0 +1,174 @@
+'use client';
+
+import { localeOptions, localeProfiles, type PlanLocale } from "@/lib/locales";
+import type { LeadPlan } from "@/lib/types";
+import { Cross2Icon, GlobeIcon } from "@radix-ui/react-icons";
+import { useEffect, useState } from "react";
+
+interface PlanTranslationsProps {
+  plan: LeadPlan;
+  /** Language the plan was generated in. */
+  locale: PlanLocale;
+}
+
+interface CopyRow {
+  label: string;
+  text: (plan: LeadPlan) => string | undefined;
+}
+
+/** The copy a rep actually sends or quotes, addressed by position so rows line up across languages. */
+function copyRows(plan: LeadPlan): CopyRow[] {
+  return [
+    ...plan.messagingPillars.map((pillar, index) => ({
+      label: `Pillar: ${pillar.title}`,
+      text: (source: LeadPlan) => source.messagingPillars[index]?.angle
+    })),
+    ...plan.channelStrategy.map((item, index) => ({
+      label: `${item.channel} sample copy`,
+      text: (source: LeadPlan) => source.channelStrategy[index]?.sampleCopy
+    })),
+    ...plan.outreachSequences.flatMap((sequence, index) =>
+      sequence.steps.map((step, stepIndex) => ({
+        label: `${sequence.channel} · day ${step.day} · ${step.touch}`,
+        text: (source: LeadPlan) => {
+          const translated = source.outreachSequences[index]?.steps[stepIndex];
+          if (!translated) return undefined;
+          return translated.subject ? `${translated.subject}\n\n${translated.body}` : translated.body;
+        }
+      }))
+    )
+  ];
+}
+
+export function PlanTranslations({ plan, locale }: PlanTranslationsProps) {
+  const targets = localeOptions.filter((option) => option !== locale);
+  const [picked, setPicked] = useState<PlanLocale>(targets[0]);
+  const target = picked === locale ? targets[0] : picked;
+  const [translations, setTranslations] = useState<Partial<Record<PlanLocale, LeadPlan>>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTranslations({});
+    setNotice(null);
+  }, [plan]);
+
+  const translate = async () => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/plan/translate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ plan, locale: target })
+      });
+      const data = await res.json();
+      if (!res.ok || !data?.plan) {
+        setError(data?.error ?? "The translation failed.");
+        return;
+      }
+      setTranslations((prev) => ({ ...prev, [target]: data.plan }));
+      if (data.warning) setNotice(data.warning);
+    } catch (translateError) {
+      console.error(translateError);
+      setError("The translation failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = (option: PlanLocale) =>
+    setTranslations((prev) => {
+      const next = { ...prev };
+      delete next[option];
+      return next;
+    });
+
+  const columns = targets.filter((option) => translations[option]);
+  const rows = copyRows(plan);
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <GlobeIcon className="h-4 w-4 text-indigo-300" />
+            Translations
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Localize the plan&apos;s copy into other markets and review it side
+            by side with the {localeProfiles[locale].label} original.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={target}
+            onChange={(event) => setPicked(event.target.value as PlanLocale)}
+            className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {targets.map((option) => (
+              <option key={option} value={option}>
+                {localeProfiles[option].label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={translate}
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {busy ? "Translating..." : translations[target] ? "Translate again" : "Translate"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {notice && <p className="text-xs text-amber-200">{notice}</p>}
+
+      {columns.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[40rem] table-fixed border-collapse text-left text-sm">
+            <thead>
+              <tr className="text-xs uppercase tracking-wide text-slate-500">
+                <th className="w-40 px-3 py-2 font-medium">Copy</th>
+                <th className="px-3 py-2 font-medium">{localeProfiles[locale].label}</th>
+                {columns.map((option) => (
+                  <th key={option} className="px-3 py-2 font-medium">
+                    <span className="inline-flex items-center gap-1">
+                      {localeProfiles[option].label}
+                      <button
+                        type="button"
+                        onClick={() => remove(option)}
+                        className="rounded p-0.5 text-slate-500 hover:text-rose-300"
+                        aria-label={`Remove ${localeProfiles[option].label}`}
+                      >
+                        <Cross2Icon className="h-3 w-3" />
+                      </button>
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-slate-800 align-top">
+                  <td className="px-3 py-2 text-xs text-slate-400">{row.label}</td>
+                  {[plan, ...columns.map((option) => translations[option])].map((source, index) => (
+                    <td key={index} className="whitespace-pre-line px-3 py-2 text-slate-200">
+                      {(source && row.text(source)) ?? <span className="text-slate-600">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
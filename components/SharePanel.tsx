@@ -0,0 +1,191 @@
+'use client';
+
+import type { ShareLink, ShareStatus } from "@/lib/shares";
+import { CheckIcon, ClipboardCopyIcon, Share1Icon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useEffect, useState } from "react";
+
+interface SharePanelProps {
+  planId: string | null;
+}
+
+type ListedLink = ShareLink & { status: ShareStatus; path: string };
+
+const expiryChoices: { label: string; days: number | null }[] = [
+  { label: "Never expires", days: null },
+  { label: "Expires in 1 day", days: 1 },
+  { label: "Expires in 7 days", days: 7 },
+  { label: "Expires in 30 days", days: 30 }
+];
+
+const statusStyles: Record<ShareStatus, string> = {
+  active: "border-emerald-500/30 bg-emerald-500/10 text-emerald-200",
+  expired: "border-slate-600 bg-slate-800/60 text-slate-400",
+  revoked: "border-rose-500/30 bg-rose-500/10 text-rose-200"
+};
+
+export function SharePanel({ planId }: SharePanelProps) {
+  const [links, setLinks] = useState<ListedLink[]>([]);
+  const [comments, setComments] = useState(0);
+  const [expiry, setExpiry] = useState<number | null>(7);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLinks([]);
+    setMessage(null);
+    if (!planId) return;
+    fetch(`/api/plans/${planId}/share`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => {
+        setLinks(data.links ?? []);
+        setComments(data.comments ?? 0);
+      })
+      .catch((loadError) => console.error(loadError));
+  }, [planId]);
+
+  const request = async (url: string, init: RequestInit, apply: (link: ListedLink) => void) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.error ?? "Something went wrong. Try again.");
+        return;
+      }
+      apply(data.link);
+    } catch (requestError) {
+      console.error(requestError);
+      setMessage("Network error. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createLink = () =>
+    planId &&
+    request(
+      `/api/plans/${planId}/share`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ expiresInDays: expiry })
+      },
+      (link) => setLinks((prev) => [link, ...prev])
+    );
+
+  const revokeLink = (token: string) =>
+    planId &&
+    request(`/api/plans/${planId}/share/${token}`, { method: "DELETE" }, (link) =>
+      setLinks((prev) => prev.map((item) => (item.token === token ? link : item)))
+    );
+
+  const copyLink = async (link: ListedLink) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+      setCopied(link.token);
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div>
+        <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <Share1Icon className="h-4 w-4 text-indigo-300" />
+          Share for review
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Publish a read-only link for sales or leadership. Reviewers can comment
+          on any section or item without editing the plan.
+          {comments > 0 && ` ${comments} ${comments === 1 ? "comment" : "comments"} so far.`}
+        </p>
+      </div>
+
+      {!planId ? (
+        <p className="text-xs text-slate-500">Only saved plans can be shared.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={expiry ?? ""}
+            onChange={(event) => setExpiry(event.target.value === "" ? null : Number(event.target.value))}
+            className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {expiryChoices.map((choice) => (
+              <option key={choice.label} value={choice.days ?? ""}>
+                {choice.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={createLink}
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Create link
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-rose-300">{message}</p>}
+
+      {links.length > 0 && (
+        <ul className="space-y-2">
+          {links.map((link) => (
+            <li
+              key={link.token}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="truncate font-mono text-xs text-slate-300">{link.path}</p>
+                <p className="text-xs text-slate-500">
+                  Created {new Date(link.createdAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+                  {link.expiresAt &&
+                    ` · ${link.status === "expired" ? "expired" : "expires"} ${new Date(
+                      link.expiresAt
+                    ).toLocaleDateString("en-US", { dateStyle: "medium" })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={clsx("rounded-full border px-2 py-0.5 text-xs", statusStyles[link.status])}>
+                  {link.status}
+                </span>
+                {link.status === "active" && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => copyLink(link)}
+                      className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-200 transition hover:border-indigo-400/60 hover:text-indigo-200"
+                    >
+                      {copied === link.token ? (
+                        <CheckIcon className="h-3 w-3" />
+                      ) : (
+                        <ClipboardCopyIcon className="h-3 w-3" />
+                      )}
+                      {copied === link.token ? "Copied" : "Copy"}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => revokeLink(link.token)}
+                      className="rounded-md border border-rose-500/40 px-2 py-1 text-xs text-rose-200 transition hover:bg-rose-500/10 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
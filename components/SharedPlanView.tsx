@@ -0,0 +1,76 @@
+'use client';
+
+import { PlanPreview } from "@/components/PlanPreview";
+import { SectionComments, type CommentDraft } from "@/components/PlanComments";
+import type { LeadRequest, PlanComment } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+import { useEffect, useState } from "react";
+
+interface SharedPlanViewProps {
+  token: string;
+  name: string;
+  plan: LeadPlan;
+  timeframe: LeadRequest["timeframe"];
+  comments: PlanComment[];
+}
+
+const authorKey = "pipeline-pilot:comment-author";
+
+export function SharedPlanView({ token, name, plan, timeframe, comments: initial }: SharedPlanViewProps) {
+  const [comments, setComments] = useState(initial);
+  const [author, setAuthor] = useState("");
+
+  useEffect(() => {
+    setAuthor(window.localStorage.getItem(authorKey) ?? "");
+  }, []);
+
+  const post = async (draft: CommentDraft) => {
+    if (!author.trim()) return "Add your name above before commenting.";
+    window.localStorage.setItem(authorKey, author.trim());
+
+    try {
+      const res = await fetch(`/api/shared/${token}/comments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ ...draft, author })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const issues = data?.issues?.fieldErrors as Record<string, string[]> | undefined;
+        return Object.values(issues ?? {})[0]?.[0] ?? data?.error ?? "Could not post the comment.";
+      }
+      setComments((prev) => [...prev, data.comment]);
+      return null;
+    } catch (postError) {
+      console.error(postError);
+      return "Network error. Try posting again.";
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+        Commenting as
+        <input
+          value={author}
+          onChange={(event) => setAuthor(event.target.value)}
+          placeholder="Your name"
+          maxLength={80}
+          className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400"
+        />
+      </label>
+      <PlanPreview
+        plan={plan}
+        raw={null}
+        title={name}
+        timeframe={timeframe}
+        description="Read-only. Export it, or leave comments on any section or item."
+        sectionFooter={(section) => (
+          <SectionComments plan={plan} section={section} comments={comments} onPost={post} />
+        )}
+      />
+    </div>
+  );
+}
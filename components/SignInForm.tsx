@@ -0,0 +1,155 @@
+'use client';
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import clsx from "clsx";
+import { EnvelopeClosedIcon, LockClosedIcon } from "@radix-ui/react-icons";
+
+type Mode = "link" | "password" | "sign-up";
+
+const modes: { id: Mode; label: string }[] = [
+  { id: "link", label: "Email link" },
+  { id: "password", label: "Password" },
+  { id: "sign-up", label: "Create account" }
+];
+
+const inputClass =
+  "w-full rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/30";
+
+interface SignInFormProps {
+  /** Why the last sign-in failed, e.g. an expired email link. */
+  initialError: string | null;
+}
+
+export function SignInForm({ initialError }: SignInFormProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>("link");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    const endpoint =
+      mode === "link" ? "/api/auth/magic-link" : mode === "password" ? "/api/auth/sign-in" : "/api/auth/sign-up";
+    const body = mode === "link" ? { email } : mode === "password" ? { email, password } : { name, email, password };
+
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = Object.values(data?.issues?.fieldErrors ?? {}).flat();
+        setError((fieldErrors[0] as string | undefined) ?? data?.error ?? "Something went wrong. Try again.");
+        return;
+      }
+      // Email links, and sign-ups that still need the address confirmed.
+      if (res.status === 202) {
+        setNotice(data.message);
+        return;
+      }
+      router.replace("/");
+      router.refresh();
+    } catch (requestError) {
+      console.error(requestError);
+      setError("Network error. Try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="space-y-5 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur"
+    >
+      <div className="grid grid-cols-3 gap-1 rounded-lg border border-slate-800 bg-slate-950/60 p-1 text-sm">
+        {modes.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => {
+              setMode(option.id);
+              setError(null);
+              setNotice(null);
+            }}
+            className={clsx(
+              "rounded-md px-2 py-1.5 transition",
+              mode === option.id ? "bg-indigo-500/20 text-indigo-100" : "text-slate-400 hover:text-slate-200"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "sign-up" && (
+        <label className="grid gap-1">
+          <span className="text-sm font-medium text-slate-200">Name</span>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            autoComplete="name"
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      <label className="grid gap-1">
+        <span className="text-sm font-medium text-slate-200">Work email</span>
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          autoComplete="email"
+          className={inputClass}
+        />
+      </label>
+
+      {mode !== "link" && (
+        <label className="grid gap-1">
+          <span className="text-sm font-medium text-slate-200">Password</span>
+          {mode === "sign-up" && <span className="text-xs text-slate-500">At least 10 characters.</span>}
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {notice && (
+        <p className="rounded-lg border border-indigo-500/30 bg-indigo-500/10 px-3 py-2 text-sm text-indigo-200">
+          {notice}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={busy}
+        className={clsx(
+          "inline-flex w-full items-center justify-center gap-2 rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 focus:outline-none focus:ring-2 focus:ring-indigo-400/50",
+          busy && "cursor-not-allowed opacity-70"
+        )}
+      >
+        {mode === "link" ? <EnvelopeClosedIcon className="h-4 w-4" /> : <LockClosedIcon className="h-4 w-4" />}
+        {mode === "link" ? "Email me a sign-in link" : mode === "password" ? "Sign in" : "Create account"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import {
+  compileWorkflows,
+  formatDuration,
+  formatMinutes,
+  simulateWorkflow,
+  workflowEventLabels,
+  workflowEventTypes,
+  type SimulationEvent,
+  type SimulationStepStatus,
+  type WorkflowEventType,
+  type WorkflowNode
+} from "@/lib/workflows";
+import type { LeadPlan } from "@/lib/types";
+import { ExclamationTriangleIcon, LightningBoltIcon, PlusIcon, TrashIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useEffect, useMemo, useState } from "react";
+
+interface WorkflowSimulatorProps {
+  plan: LeadPlan;
+}
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 60 * 24;
+
+const nodeStyles: Record<WorkflowNode["type"], string> = {
+  wait: "border-slate-700 text-slate-300",
+  wait_for: "border-sky-500/40 text-sky-200",
+  condition: "border-amber-500/40 text-amber-200",
+  action: "border-indigo-500/40 text-indigo-200"
+};
+
+const nodeLabels: Record<WorkflowNode["type"], string> = {
+  wait: "Wait",
+  wait_for: "Wait for",
+  condition: "If",
+  action: "Action"
+};
+
+const statusStyles: Record<SimulationStepStatus, string> = {
+  fired: "bg-emerald-400",
+  waited: "bg-slate-500",
+  passed: "bg-sky-400",
+  blocked: "bg-rose-400",
+  timed_out: "bg-rose-400",
+  skipped: "bg-slate-700"
+};
+
+const statusLabels: Record<SimulationStepStatus, string> = {
+  fired: "Fired",
+  waited: "Waited",
+  passed: "Passed",
+  blocked: "Blocked",
+  timed_out: "Timed out",
+  skipped: "Skipped"
+};
+
+function describeNode(node: WorkflowNode) {
+  switch (node.type) {
+    case "wait":
+      return formatDuration(node.minutes);
+    case "wait_for":
+      return node.events.map((event) => workflowEventLabels[event]).join(" / ");
+    case "condition":
+      return `${node.negate ? "no " : ""}${node.events.map((event) => workflowEventLabels[event]).join(" / ")}`;
+    case "action":
+      return node.action.replace(/_/g, " ");
+  }
+}
+
+export function WorkflowSimulator({ plan }: WorkflowSimulatorProps) {
+  const workflows = useMemo(() => compileWorkflows(plan.automationWorkflow), [plan.automationWorkflow]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [events, setEvents] = useState<SimulationEvent[]>([]);
+  const [noReplyDays, setNoReplyDays] = useState(5);
+
+  const workflow = workflows[Math.min(selectedIndex, workflows.length - 1)];
+
+  useEffect(() => {
+    if (workflow) setEvents([{ type: workflow.trigger.events[0], at: 0 }]);
+  }, [workflow]);
+
+  const runs = useMemo(() => (workflow ? simulateWorkflow(workflow, events) : []), [workflow, events]);
+
+  if (!workflow) return null;
+
+  const presets: { label: string; events: SimulationEvent[] }[] = [
+    {
+      label: "Form fill → reply",
+      events: [
+        { type: "form_submitted", at: 0 },
+        { type: "positive_reply", at: MINUTES_PER_DAY }
+      ]
+    },
+    { label: "Form fill, no reply", events: [{ type: "form_submitted", at: 0 }] },
+    {
+      label: `No reply after ${noReplyDays} days`,
+      events: [{ type: "no_reply", at: noReplyDays * MINUTES_PER_DAY }]
+    }
+  ];
+
+  const updateEvent = (index: number, patch: Partial<SimulationEvent>) =>
+    setEvents((prev) => prev.map((event, position) => (position === index ? { ...event, ...patch } : event)));
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+            <LightningBoltIcon className="h-4 w-4 text-indigo-300" />
+            Workflow simulator
+          </div>
+          <p className="mt-1 text-sm text-slate-400">
+            Each automation is compiled into triggers, waits, conditions and
+            actions. Replay mock events to see which steps fire and when.
+          </p>
+        </div>
+        <select
+          value={selectedIndex}
+          onChange={(event) => setSelectedIndex(Number(event.target.value))}
+          className="rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+        >
+          {workflows.map((item, index) => (
+            <option key={`${item.name}-${index}`} value={index}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          Trigger · {workflow.trigger.events.map((event) => workflowEventLabels[event]).join(" / ")}
+          {workflow.trigger.delayMinutes > 0 && ` · after ${formatDuration(workflow.trigger.delayMinutes)}`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {workflow.nodes.map((node) => (
+            <span
+              key={node.id}
+              title={node.label}
+              className={clsx("rounded-full border px-3 py-1 text-xs", nodeStyles[node.type])}
+            >
+              <span className="font-semibold">{nodeLabels[node.type]}</span> {describeNode(node)}
+            </span>
+          ))}
+        </div>
+        {workflow.warnings.length > 0 && (
+          <ul className="space-y-1 text-xs text-amber-200">
+            {workflow.warnings.map((warning) => (
+              <li key={warning} className="flex items-start gap-1">
+                <ExclamationTriangleIcon className="mt-0.5 h-3 w-3 shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-slate-200">Mock events</span>
+          {presets.map((preset) => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => setEvents(preset.events)}
+              className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-xs text-slate-500">
+            N =
+            <input
+              type="number"
+              min={1}
+              value={noReplyDays}
+              onChange={(event) => setNoReplyDays(Math.max(1, Number(event.target.value) || 1))}
+              className="w-14 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+            />
+          </label>
+        </div>
+        <ul className="space-y-2">
+          {events.map((event, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+              <select
+                value={event.type}
+                onChange={(change) => updateEvent(index, { type: change.target.value as WorkflowEventType })}
+                className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+              >
+                {workflowEventTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {workflowEventLabels[type]}
+                  </option>
+                ))}
+              </select>
+              Day
+              <input
+                type="number"
+                min={0}
+                value={Math.floor(event.at / MINUTES_PER_DAY)}
+                onChange={(change) =>
+                  updateEvent(index, {
+                    at: Math.max(0, Number(change.target.value) || 0) * MINUTES_PER_DAY + (event.at % MINUTES_PER_DAY)
+                  })
+                }
+                className="w-16 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+              />
+              Hour
+              <input
+                type="number"
+                min={0}
+                max={23}
+                value={Math.floor((event.at % MINUTES_PER_DAY) / MINUTES_PER_HOUR)}
+                onChange={(change) =>
+                  updateEvent(index, {
+                    at:
+                      Math.floor(event.at / MINUTES_PER_DAY) * MINUTES_PER_DAY +
+                      Math.min(23, Math.max(0, Number(change.target.value) || 0)) * MINUTES_PER_HOUR
+                  })
+                }
+                className="w-14 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+              />
+              <button
+                type="button"
+                onClick={() => setEvents((prev) => prev.filter((_, position) => position !== index))}
+                className="rounded-md p-1 text-slate-500 transition hover:text-rose-300"
+                aria-label="Remove event"
+              >
+                <TrashIcon className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={() =>
+            setEvents((prev) => [
+              ...prev,
+              { type: "reply", at: (prev[prev.length - 1]?.at ?? 0) + MINUTES_PER_DAY }
+            ])
+          }
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-slate-300 transition hover:border-indigo-400/60 hover:text-indigo-200"
+        >
+          <PlusIcon className="h-3 w-3" />
+          Add event
+        </button>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          None of these events start this workflow. Add a{" "}
+          {workflow.trigger.events.map((event) => workflowEventLabels[event].toLowerCase()).join(" or ")}{" "}
+          event.
+        </p>
+      ) : (
+        runs.map((run, runIndex) => (
+          <div key={runIndex} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Run {runIndex + 1} · {workflowEventLabels[run.triggeredBy]} · starts{" "}
+              {formatMinutes(run.startedAt)}
+              <span className={clsx("ml-2", run.completed ? "text-emerald-300" : "text-rose-300")}>
+                {run.completed ? "Completed" : "Stopped"}
+              </span>
+            </p>
+            <ol className="mt-3 space-y-2 border-l border-slate-800 pl-4">
+              {run.steps.map((step) => (
+                <li key={step.nodeId} className="relative text-sm">
+                  <span
+                    className={clsx(
+                      "absolute -left-[21px] top-1.5 h-2 w-2 rounded-full",
+                      statusStyles[step.status]
+                    )}
+                  />
+                  <p className={clsx(step.status === "skipped" ? "text-slate-600" : "text-slate-200")}>
+                    <span className="text-xs text-slate-500">
+                      {step.at !== undefined ? formatMinutes(step.at) : "—"} · {statusLabels[step.status]}
+                    </span>{" "}
+                    {step.label}
+                  </p>
+                  {step.detail && <p className="text-xs text-slate-500">{step.detail}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import type { SessionInfo } from "@/lib/auth";
+import { ExitIcon, PersonIcon, PlusIcon } from "@radix-ui/react-icons";
+import { FormEvent, useEffect, useState } from "react";
+
+interface WorkspaceBarProps {
+  session: SessionInfo | null;
+  onSession: (session: SessionInfo) => void;
+}
+
+/**
+ * Loads the signed-in user and workspace, and switches or creates workspaces.
+ * Sends the browser to the sign-in page once the session is gone.
+ */
+export function WorkspaceBar({ session, onSession }: WorkspaceBarProps) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then(async (res) => {
+        if (res.status === 401) {
+          window.location.assign("/sign-in");
+          return;
+        }
+        onSession(await res.json());
+      })
+      .catch((loadError) => console.error(loadError));
+  }, [onSession]);
+
+  const changeSession = async (url: string, init: RequestInit) => {
+    setMessage(null);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json"
+        }
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.issues?.fieldErrors?.name?.[0] ?? data?.error ?? "Something went wrong. Try again.");
+        return;
+      }
+      // Plans, profiles and history all belong to the workspace, so start fresh.
+      window.location.reload();
+    } catch (requestError) {
+      console.error(requestError);
+      setMessage("Network error. Try again.");
+    }
+  };
+
+  const createWorkspace = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void changeSession("/api/workspaces", { method: "POST", body: JSON.stringify({ name }) });
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/sign-out", { method: "POST" }).catch((signOutError) => console.error(signOutError));
+    window.location.assign("/sign-in");
+  };
+
+  if (!session) {
+    return <div className="h-9" aria-hidden />;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={session.workspace.id}
+          onChange={(event) =>
+            void changeSession("/api/auth/session", {
+              method: "PUT",
+              body: JSON.stringify({ workspaceId: event.target.value })
+            })
+          }
+          className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          aria-label="Workspace"
+        >
+          {session.workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </option>
+          ))}
+        </select>
+        <span className="rounded-full border border-slate-700 px-2 py-0.5 text-xs capitalize text-slate-400">
+          {session.workspace.role}
+        </span>
+        <button
+          type="button"
+          onClick={() => setCreating((prev) => !prev)}
+          className="inline-flex items-center gap-1 rounded-md border border-slate-700 px-2 py-1.5 text-xs text-slate-300 transition hover:border-slate-500 hover:text-slate-100"
+        >
+          <PlusIcon className="h-3.5 w-3.5" />
+          New workspace
+        </button>
+        <span className="ml-auto inline-flex items-center gap-1 text-xs text-slate-400">
+          <PersonIcon className="h-3.5 w-3.5" />
+          {session.user.email}
+        </span>
+        <button
+          type="button"
+          onClick={signOut}
+          className="inline-flex items-center gap-1 rounded-md px-2 py-1.5 text-xs text-slate-400 transition hover:text-slate-100"
+        >
+          <ExitIcon className="h-3.5 w-3.5" />
+          Sign out
+        </button>
+      </div>
+
+      {creating && (
+        <form onSubmit={createWorkspace} className="flex gap-2">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Workspace name"
+            className="flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-indigo-400"
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {message && <p className="text-xs text-rose-300">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import type { SessionInfo, WorkspaceMember, WorkspaceRole } from "@/lib/auth";
+import { hasRole, workspaceRoles } from "@/lib/auth/types";
+import { GroupIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { FormEvent, useEffect, useState } from "react";
+
+interface WorkspaceMembersProps {
+  session: SessionInfo;
+}
+
+const roleHints: Record<WorkspaceRole, string> = {
+  viewer: "As a viewer you can open, compare and export plans.",
+  editor: "As an editor you can also generate, edit, share and push plans.",
+  owner: "As an owner you can also invite members and change their roles."
+};
+
+export function WorkspaceMembers({ session }: WorkspaceMembersProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const isOwner = hasRole(session.workspace.role, "owner");
+  const base = `/api/workspaces/${session.workspace.id}/members`;
+
+  useEffect(() => {
+    fetch(base, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => setMembers(data.members ?? []))
+      .catch((loadError) => console.error(loadError));
+  }, [base]);
+
+  const request = async (url: string, init: RequestInit, notice?: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json"
+        }
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data?.issues?.fieldErrors?.email?.[0] ?? data?.error ?? "Something went wrong. Try again.");
+        return false;
+      }
+      setMembers(data.members ?? []);
+      if (notice) setMessage(notice);
+      return true;
+    } catch (requestError) {
+      console.error(requestError);
+      setMessage("Network error. Try again.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const sent = await request(
+      base,
+      { method: "POST", body: JSON.stringify({ email, role }) },
+      `Invited ${email}. They will get a sign-in link by email.`
+    );
+    if (sent) setEmail("");
+  };
+
+  const remove = async (member: WorkspaceMember) => {
+    const leaving = member.userId === session.user.id;
+    const removed = await request(`${base}/${member.id}`, { method: "DELETE" });
+    if (removed && leaving) window.location.reload();
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div>
+        <div className="flex items-center gap-2 text-lg font-semibold text-slate-100">
+          <GroupIcon className="h-4 w-4 text-indigo-300" />
+          Workspace members
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Everyone in {session.workspace.name} sees the same plans and brand
+          profiles. {roleHints[session.workspace.role]}
+        </p>
+      </div>
+
+      <ul className="divide-y divide-slate-800 text-sm">
+        {members.map((member) => {
+          const self = member.userId === session.user.id;
+          return (
+            <li key={member.id} className="flex flex-wrap items-center gap-2 py-2">
+              <span className="min-w-0 flex-1 truncate text-slate-200">
+                {member.email}
+                {self && <span className="text-slate-500"> (you)</span>}
+                {member.userId === null && <span className="text-slate-500"> · invited</span>}
+              </span>
+              {isOwner ? (
+                <select
+                  value={member.role}
+                  disabled={busy}
+                  onChange={(event) =>
+                    void request(`${base}/${member.id}`, {
+                      method: "PATCH",
+                      body: JSON.stringify({ role: event.target.value })
+                    })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs capitalize text-slate-100 outline-none focus:border-indigo-400"
+                >
+                  {workspaceRoles.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs capitalize text-slate-400">{member.role}</span>
+              )}
+              {(isOwner || self) && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void remove(member)}
+                  className="text-xs text-slate-500 transition hover:text-rose-300"
+                >
+                  {self ? "Leave" : "Remove"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {isOwner && (
+        <form onSubmit={invite} className="flex flex-wrap gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="teammate@company.com"
+            className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950/70 px-2 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <select
+            value={role}
+            onChange={(event) => setRole(event.target.value as WorkspaceRole)}
+            className="rounded-md border border-slate-700 bg-slate-950/70 px-2 py-2 text-sm capitalize text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {workspaceRoles.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busy || !email}
+            className={clsx(
+              "rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400",
+              (busy || !email) && "cursor-not-allowed opacity-70"
+            )}
+          >
+            Invite
+          </button>
+        </form>
+      )}
+
+      {message && <p className="text-xs text-slate-400">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { sendMail } from "@/lib/mail";
+import { claimUnscopedPlans } from "@/lib/store";
+import { claimUnscopedProfiles } from "@/lib/profileStore";
+import { readCookie, verifySession } from "@/lib/auth/session";
+import {
+  claimInvites,
+  consumeLoginToken,
+  createLoginToken,
+  createUser,
+  createWorkspace,
+  findMember,
+  findUserByEmail,
+  getUser,
+  getWorkspace,
+  hasUsers,
+  hasWorkspaces,
+  isInvited,
+  listWorkspacesFor,
+  newMember,
+  normalizeEmail,
+  saveWorkspace,
+  toPublicUser,
+  updateUser,
+  type PendingSignUp
+} from "@/lib/auth/store";
+import {
+  SESSION_COOKIE,
+  hasRole,
+  type PublicUser,
+  type Session,
+  type User,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole
+} from "@/lib/auth/types";
+
+export { clearedSessionCookie, sessionCookie } from "@/lib/auth/session";
+export { createWorkspace } from "@/lib/auth/store";
+export { SESSION_COOKIE, hasRole, workspaceRoles } from "@/lib/auth/types";
+export type {
+  PublicUser,
+  Session,
+  User,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole
+} from "@/lib/auth/types";
+
+const MAGIC_LINK_MINUTES = 15;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, length: number) => Promise<Buffer>;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const wanted = Buffer.from(hash, "hex");
+  const given = await scryptAsync(password, salt, wanted.length);
+  return timingSafeEqual(given, wanted);
+}
+
+/**
+ * New accounts need an invitation or an address in `AUTH_ALLOWED_DOMAINS`,
+ * except the very first one, which becomes the owner of the first workspace.
+ */
+export async function canSignUp(email: string, env: NodeJS.ProcessEnv = process.env) {
+  if (!(await hasUsers())) return true;
+  const domains = (env.AUTH_ALLOWED_DOMAINS ?? "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+  if (domains.includes(normalizeEmail(email).split("@")[1] ?? "")) return true;
+  return isInvited(email);
+}
+
+/**
+ * Finishes any sign-in: links pending invitations and gives users without a
+ * workspace their own. Plans and profiles saved before workspaces existed
+ * move into the first workspace ever created. Returns the workspace to open.
+ */
+async function completeSignIn(user: User): Promise<{ user: PublicUser; workspace: Workspace }> {
+  const signedIn = toPublicUser((await updateUser(user.id, { lastSignInAt: new Date().toISOString() })) ?? user);
+  const workspaces = await claimInvites(signedIn);
+  const [first] = workspaces;
+  if (first) return { user: signedIn, workspace: first };
+
+  const bootstrap = !(await hasWorkspaces());
+  const workspace = await createWorkspace(`${signedIn.name}'s workspace`, signedIn);
+  if (bootstrap) {
+    await Promise.all([claimUnscopedPlans(workspace.id), claimUnscopedProfiles(workspace.id)]);
+  }
+  return { user: signedIn, workspace };
+}
+
+function nameFromEmail(email: string) {
+  return email.split("@")[0] ?? email;
+}
+
+export type AuthResult =
+  | { ok: true; user: PublicUser; workspace: Workspace }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Creates a password account. Invitations and `AUTH_ALLOWED_DOMAINS` only
+ * vouch for an address, not for whoever typed it, so every account but the
+ * first is created when the emailed confirmation link is opened. The result
+ * is then `pending` and nobody is signed in yet.
+ */
+export async function signUpWithPassword(
+  input: { name: string; email: string; password: string },
+  origin: string
+): Promise<AuthResult | { ok: true; pending: true }> {
+  if (await findUserByEmail(input.email)) {
+    return { ok: false, error: "An account with this email already exists. Sign in instead.", status: 409 };
+  }
+
+  const passwordHash = await hashPassword(input.password);
+  if (!(await hasUsers())) {
+    const user = await createUser({ email: input.email, name: input.name, passwordHash });
+    return { ok: true, ...(await completeSignIn(user)) };
+  }
+  if (!(await canSignUp(input.email))) {
+    return { ok: false, error: "Ask a workspace owner to invite this email address.", status: 403 };
+  }
+
+  await mailSignInLink(
+    input.email,
+    origin,
+    "Confirm your Pipeline Pilot account",
+    `Someone signed up for Pipeline Pilot as ${input.name} with this address. If that was you, use this link to confirm it and finish creating your account:`,
+    { name: input.name, passwordHash }
+  );
+  return { ok: true, pending: true };
+}
+
+export async function signInWithPassword(input: { email: string; password: string }): Promise<AuthResult> {
+  const user = await findUserByEmail(input.email);
+  // The same message for unknown addresses and wrong passwords.
+  if (!user?.passwordHash || !(await verifyPassword(input.password, user.passwordHash))) {
+    return { ok: false, error: "Email or password is incorrect.", status: 401 };
+  }
+  return { ok: true, ...(await completeSignIn(user)) };
+}
+
+async function mailSignInLink(
+  email: string,
+  origin: string,
+  subject: string,
+  intro: string,
+  signUp?: PendingSignUp
+) {
+  const token = await createLoginToken(email, MAGIC_LINK_MINUTES, signUp);
+  const link = `${origin}/api/auth/callback?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: normalizeEmail(email),
+    subject,
+    text: [
+      intro,
+      "",
+      link,
+      "",
+      `It works once and expires in ${MAGIC_LINK_MINUTES} minutes. If you did not ask for it, ignore this email.`
+    ].join("\n")
+  });
+}
+
+/**
+ * Emails a single-use sign-in link when the address may sign in. Callers
+ * answer the same either way so the form does not reveal who has access.
+ */
+export async function requestMagicLink(email: string, origin: string) {
+  if (!(await findUserByEmail(email)) && !(await canSignUp(email))) return false;
+
+  await mailSignInLink(
+    email,
+    origin,
+    "Your Pipeline Pilot sign-in link",
+    "Use this link to sign in to Pipeline Pilot:"
+  );
+  return true;
+}
+
+/**
+ * Signs in whoever opened an emailed link, which proves they read that inbox.
+ * New addresses get their account here, with the name and password from a
+ * pending sign-up if there is one; an existing account keeps its password.
+ */
+export async function signInWithToken(token: string): Promise<AuthResult> {
+  const login = await consumeLoginToken(token);
+  if (!login) {
+    return { ok: false, error: "This sign-in link is invalid or has expired.", status: 400 };
+  }
+
+  const existing = await findUserByEmail(login.email);
+  if (existing) return { ok: true, ...(await completeSignIn(existing)) };
+
+  // The invitation may have been withdrawn since the link was sent.
+  if (!(await canSignUp(login.email))) {
+    return { ok: false, error: "Ask a workspace owner to invite this email address.", status: 403 };
+  }
+  const user = await createUser({
+    email: login.email,
+    name: login.signUp?.name ?? nameFromEmail(login.email),
+    passwordHash: login.signUp?.passwordHash
+  });
+  return { ok: true, ...(await completeSignIn(user)) };
+}
+
+/** Resolves a session cookie against the stores, so removed members lose access at once. */
+export async function sessionFromCookie(value: string | null | undefined): Promise<Session | null> {
+  const claims = verifySession(value);
+  if (!claims) return null;
+
+  const [user, workspace] = await Promise.all([getUser(claims.userId), getWorkspace(claims.workspaceId)]);
+  if (!user || !workspace) return null;
+
+  const publicUser = toPublicUser(user);
+  const member = findMember(workspace, publicUser);
+  return member ? { user: publicUser, workspace, role: member.role } : null;
+}
+
+export function getSession(request: Request) {
+  return sessionFromCookie(readCookie(request, SESSION_COOKIE));
+}
+
+export type Authorization =
+  | { ok: true; session: Session }
+  | { ok: false; error: string; status: 401 | 403 };
+
+/** Checks that the caller is signed in with at least `required` in their workspace. */
+export async function authorize(request: Request, required: WorkspaceRole = "viewer"): Promise<Authorization> {
+  const session = await getSession(request);
+  if (!session) return { ok: false, error: "Sign in to continue.", status: 401 };
+  if (!hasRole(session.role, required)) {
+    return {
+      ok: false,
+      error: `This needs the ${required} role; you are a ${session.role} in ${session.workspace.name}.`,
+      status: 403
+    };
+  }
+  return { ok: true, session };
+}
+
+/** The user's workspaces with their role in each, for the workspace switcher. */
+export async function listMemberships(user: PublicUser) {
+  return (await listWorkspacesFor(user)).flatMap((workspace) => {
+    const member = findMember(workspace, user);
+    return member ? [{ id: workspace.id, name: workspace.name, role: member.role }] : [];
+  });
+}
+
+export async function findMembership(user: PublicUser, workspaceId: string) {
+  const workspace = await getWorkspace(workspaceId);
+  return workspace && findMember(workspace, user) ? workspace : null;
+}
+
+export type MemberResult =
+  | { ok: true; workspace: Workspace; member: WorkspaceMember }
+  | { ok: false; error: string; status: number };
+
+function ownerCount(workspace: Workspace) {
+  return workspace.members.filter((member) => member.role === "owner").length;
+}
+
+/** Adds an address to the workspace and emails it a sign-in link. */
+export async function inviteMember(
+  workspace: Workspace,
+  input: { email: string; role: WorkspaceRole },
+  origin: string,
+  inviter: PublicUser
+): Promise<MemberResult> {
+  const email = normalizeEmail(input.email);
+  if (workspace.members.some((member) => member.email === email)) {
+    return { ok: false, error: `${email} is already a member of ${workspace.name}.`, status: 409 };
+  }
+
+  const member = newMember(email, input.role);
+  const updated = await saveWorkspace({ ...workspace, members: [...workspace.members, member] });
+  await mailSignInLink(
+    email,
+    origin,
+    `${inviter.name} invited you to ${workspace.name} on Pipeline Pilot`,
+    `${inviter.name} (${inviter.email}) added you to ${workspace.name} as ${input.role === "owner" ? "an" : "a"} ${input.role}. Use this link to sign in:`
+  );
+  return { ok: true, workspace: updated, member };
+}
+
+export async function changeMemberRole(
+  workspace: Workspace,
+  memberId: string,
+  role: WorkspaceRole
+): Promise<MemberResult> {
+  const member = workspace.members.find((candidate) => candidate.id === memberId);
+  if (!member) return { ok: false, error: "Member not found", status: 404 };
+  if (member.role === "owner" && role !== "owner" && ownerCount(workspace) === 1) {
+    return { ok: false, error: "A workspace needs at least one owner.", status: 409 };
+  }
+
+  const updated = { ...member, role };
+  const saved = await saveWorkspace({
+    ...workspace,
+    members: workspace.members.map((candidate) => (candidate.id === memberId ? updated : candidate))
+  });
+  return { ok: true, workspace: saved, member: updated };
+}
+
+export async function removeMember(workspace: Workspace, memberId: string): Promise<MemberResult> {
+  const member = workspace.members.find((candidate) => candidate.id === memberId);
+  if (!member) return { ok: false, error: "Member not found", status: 404 };
+  if (member.role === "owner" && ownerCount(workspace) === 1) {
+    return { ok: false, error: "A workspace needs at least one owner.", status: 409 };
+  }
+
+  const saved = await saveWorkspace({
+    ...workspace,
+    members: workspace.members.filter((candidate) => candidate.id !== memberId)
+  });
+  return { ok: true, workspace: saved, member };
+}
+
+/** What the client learns about the signed-in user: who they are and where they can work. */
+export async function describeSession(user: PublicUser, workspace: Workspace) {
+  const workspaces = await listMemberships(user);
+  const current = workspaces.find((membership) => membership.id === workspace.id);
+  return {
+    user,
+    workspace: { id: workspace.id, name: workspace.name, role: current?.role ?? "viewer" },
+    workspaces
+  };
+}
+
+export type SessionInfo = Awaited<ReturnType<typeof describeSession>>;
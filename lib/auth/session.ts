@@ -0,0 +1,73 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { SESSION_COOKIE, type SessionClaims } from "@/lib/auth/types";
+
+const SESSION_DAYS = 30;
+
+/**
+ * Key for signing session cookies. Without `AUTH_SECRET` a random key is made
+ * per server process, which is fine in development but signs everyone out on
+ * restart, so production refuses to run without one.
+ */
+function authSecret() {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production.");
+  }
+  const scope = globalThis as typeof globalThis & { __authSecret?: string };
+  scope.__authSecret ??= randomBytes(32).toString("hex");
+  return scope.__authSecret;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", authSecret()).update(payload).digest("base64url");
+}
+
+export function signSession(userId: string, workspaceId: string, now = Date.now()) {
+  const claims: SessionClaims = {
+    userId,
+    workspaceId,
+    expiresAt: now + SESSION_DAYS * 24 * 60 * 60 * 1000
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Returns the claims of a cookie with a valid signature that has not expired. */
+export function verifySession(value: string | null | undefined, now = Date.now()): SessionClaims | null {
+  const [payload, signature] = value?.split(".") ?? [];
+  if (!payload || !signature) return null;
+
+  const given = Buffer.from(signature);
+  const wanted = Buffer.from(sign(payload));
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as SessionClaims;
+    return claims.expiresAt > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(request: Request, name: string) {
+  const pairs = request.headers.get("cookie")?.split(";") ?? [];
+  for (const pair of pairs) {
+    const [key, ...rest] = pair.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+function cookie(value: string, maxAgeSeconds: number) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+/** `Set-Cookie` value that signs the user in to a workspace. */
+export function sessionCookie(userId: string, workspaceId: string) {
+  return cookie(signSession(userId, workspaceId), SESSION_DAYS * 24 * 60 * 60);
+}
+
+export function clearedSessionCookie() {
+  return cookie("", 0);
+}
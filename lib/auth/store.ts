@@ -0,0 +1,228 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type {
+  PublicUser,
+  User,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole
+} from "@/lib/auth/types";
+
+type Collection = "users" | "workspaces" | "tokens";
+
+/** Account details from a password sign-up, applied once the address is confirmed. */
+export interface PendingSignUp {
+  name: string;
+  passwordHash: string;
+}
+
+interface LoginToken {
+  email: string;
+  expiresAt: string;
+  signUp?: PendingSignUp;
+}
+
+const idPattern = /^[a-z0-9-]+$/i;
+
+function authDir() {
+  return process.env.AUTH_STORE_DIR ?? path.join(process.cwd(), "data", "auth");
+}
+
+function recordPath(collection: Collection, id: string) {
+  if (!idPattern.test(id)) {
+    throw new Error(`Invalid ${collection} id: ${id}`);
+  }
+  return path.join(authDir(), collection, `${id}.json`);
+}
+
+async function writeRecord(collection: Collection, id: string, value: unknown) {
+  await fs.mkdir(path.join(authDir(), collection), { recursive: true });
+  const target = recordPath(collection, id);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+async function readRecord<T>(collection: Collection, id: string): Promise<T | null> {
+  if (!idPattern.test(id)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(recordPath(collection, id), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function readAll<T>(collection: Collection): Promise<T[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(authDir(), collection));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readRecord<T>(collection, file.slice(0, -".json".length)))
+  );
+  return records.filter((record): record is Awaited<T> => record !== null);
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    createdAt: user.createdAt,
+    lastSignInAt: user.lastSignInAt
+  };
+}
+
+export async function hasUsers() {
+  return (await readAll<User>("users")).length > 0;
+}
+
+export async function getUser(id: string) {
+  return readRecord<User>("users", id);
+}
+
+export async function findUserByEmail(email: string) {
+  const wanted = normalizeEmail(email);
+  return (await readAll<User>("users")).find((user) => user.email === wanted) ?? null;
+}
+
+export async function createUser(input: { email: string; name: string; passwordHash?: string }) {
+  const user: User = {
+    id: randomUUID(),
+    email: normalizeEmail(input.email),
+    name: input.name,
+    ...(input.passwordHash && { passwordHash: input.passwordHash }),
+    createdAt: new Date().toISOString(),
+    lastSignInAt: null
+  };
+  await writeRecord("users", user.id, user);
+  return user;
+}
+
+export async function updateUser(id: string, patch: Partial<Pick<User, "name" | "passwordHash" | "lastSignInAt">>) {
+  const user = await getUser(id);
+  if (!user) return null;
+
+  const next = { ...user, ...patch };
+  await writeRecord("users", id, next);
+  return next;
+}
+
+export async function hasWorkspaces() {
+  return (await readAll<Workspace>("workspaces")).length > 0;
+}
+
+export async function getWorkspace(id: string) {
+  return readRecord<Workspace>("workspaces", id);
+}
+
+export async function saveWorkspace(workspace: Workspace) {
+  await writeRecord("workspaces", workspace.id, workspace);
+  return workspace;
+}
+
+export async function createWorkspace(name: string, owner: PublicUser) {
+  const now = new Date().toISOString();
+  return saveWorkspace({
+    id: randomUUID(),
+    name,
+    createdAt: now,
+    members: [{ id: randomUUID(), email: owner.email, role: "owner", userId: owner.id, addedAt: now }]
+  });
+}
+
+export function findMember(workspace: Workspace, user: PublicUser) {
+  return workspace.members.find((member) => member.userId === user.id) ?? null;
+}
+
+/** Workspaces the user belongs to, including invitations to their address. */
+export async function listWorkspacesFor(user: PublicUser) {
+  return (await readAll<Workspace>("workspaces"))
+    .filter((workspace) =>
+      workspace.members.some((member) => member.userId === user.id || member.email === user.email)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Whether an address has been invited to any workspace. */
+export async function isInvited(email: string) {
+  const wanted = normalizeEmail(email);
+  return (await readAll<Workspace>("workspaces")).some((workspace) =>
+    workspace.members.some((member) => member.email === wanted)
+  );
+}
+
+/** Links invitations to the user once they sign in with the invited address. */
+export async function claimInvites(user: PublicUser) {
+  const workspaces = await listWorkspacesFor(user);
+  await Promise.all(
+    workspaces
+      .filter((workspace) =>
+        workspace.members.some((member) => member.email === user.email && member.userId === null)
+      )
+      .map((workspace) =>
+        saveWorkspace({
+          ...workspace,
+          members: workspace.members.map((member) =>
+            member.email === user.email && member.userId === null ? { ...member, userId: user.id } : member
+          )
+        })
+      )
+  );
+  return listWorkspacesFor(user);
+}
+
+export function newMember(email: string, role: WorkspaceRole): WorkspaceMember {
+  return { id: randomUUID(), email: normalizeEmail(email), role, userId: null, addedAt: new Date().toISOString() };
+}
+
+function tokenId(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issues a single-use sign-in token. Only its hash is stored, so a copy of the
+ * store cannot be used to sign in.
+ */
+export async function createLoginToken(email: string, ttlMinutes: number, signUp?: PendingSignUp) {
+  const token = randomBytes(24).toString("base64url");
+  const record: LoginToken = {
+    email: normalizeEmail(email),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+    ...(signUp && { signUp })
+  };
+  await writeRecord("tokens", tokenId(token), record);
+  return token;
+}
+
+/**
+ * Returns the token's address, and any pending sign-up, and deletes it;
+ * expired and unknown tokens return null.
+ */
+export async function consumeLoginToken(token: string) {
+  const id = tokenId(token);
+  const record = await readRecord<LoginToken>("tokens", id);
+  if (!record) return null;
+
+  try {
+    await fs.unlink(recordPath("tokens", id));
+  } catch (error) {
+    // Another request used the token first.
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return record.expiresAt > new Date().toISOString() ? { email: record.email, signUp: record.signUp } : null;
+}
@@ -0,0 +1,55 @@
+/** Name of the signed session cookie; also read by the middleware, which cannot verify it. */
+export const SESSION_COOKIE = "pp_session";
+
+/** Ordered from least to most access; each role can do everything the ones before it can. */
+export const workspaceRoles = ["viewer", "editor", "owner"] as const;
+
+export type WorkspaceRole = (typeof workspaceRoles)[number];
+
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole) {
+  return workspaceRoles.indexOf(role) >= workspaceRoles.indexOf(required);
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  /** scrypt hash as `salt:hash`; absent for users who only sign in by email link. */
+  passwordHash?: string;
+  createdAt: string;
+  lastSignInAt: string | null;
+}
+
+/** A user as returned by the API, without credentials. */
+export type PublicUser = Omit<User, "passwordHash">;
+
+export interface WorkspaceMember {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  /** Null until an invited address signs in for the first time. */
+  userId: string | null;
+  addedAt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+}
+
+/** What a signed session cookie carries. */
+export interface SessionClaims {
+  userId: string;
+  workspaceId: string;
+  /** Expiry as epoch milliseconds. */
+  expiresAt: number;
+}
+
+/** The signed-in caller, resolved against the stores on every request. */
+export interface Session {
+  user: PublicUser;
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
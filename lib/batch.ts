@@ -0,0 +1,153 @@
+import { countFindings, lintPlan } from "@/lib/copyLint";
+import { toCsv } from "@/lib/csv";
+import { planToMarkdown, slugify, type ExportFile } from "@/lib/export";
+import {
+  batchOverrideKeys,
+  leadRequestSchema,
+  type BatchVariant,
+  type LeadRequest
+} from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+
+export type BatchStreamEvent =
+  | { type: "start"; total: number; labels: string[] }
+  | { type: "running"; index: number }
+  | {
+      type: "result";
+      index: number;
+      plan: LeadPlan;
+      planId: string | null;
+      fallback: boolean;
+      warning?: string | null;
+    }
+  | { type: "failed"; index: number; message: string; planId?: string | null }
+  | { type: "done"; completed: number; failed: number }
+  | { type: "error"; message: string };
+
+export interface BatchItem {
+  label: string;
+  request: LeadRequest;
+  plan: LeadPlan;
+}
+
+export const batchExportFormats = ["markdown", "csv"] as const;
+
+export type BatchExportFormat = (typeof batchExportFormats)[number];
+
+export function batchConcurrency(env: NodeJS.ProcessEnv = process.env) {
+  const parsed = Number(env.BATCH_CONCURRENCY);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : 2;
+}
+
+/** Names a variant by its label, or by the fields it overrides. */
+export function variantLabel(variant: BatchVariant, index: number) {
+  if (variant.label?.trim()) return variant.label.trim();
+  const parts = [
+    variant.industry,
+    variant.targetCustomer && variant.targetCustomer.split(/[,.;]/)[0].slice(0, 40),
+    variant.channels?.join(" + "),
+    variant.tone
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : `Variant ${index + 1}`;
+}
+
+/**
+ * Applies each variant's overrides to the base request. Variants are
+ * re-validated so an override cannot slip past the request rules.
+ */
+export function expandBatch(base: LeadRequest, variants: BatchVariant[]) {
+  return variants.map((variant) => {
+    const overrides = Object.fromEntries(
+      batchOverrideKeys.flatMap((key) => (variant[key] === undefined ? [] : [[key, variant[key]]]))
+    );
+    return leadRequestSchema.safeParse({ ...base, ...overrides });
+  });
+}
+
+/**
+ * Runs `task` over `items` with at most `limit` in flight, preserving order in
+ * the result. Stops starting new items once `signal` aborts.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+) {
+  const results: (R | undefined)[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function money(value: number) {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+/** One row per plan with the fields worth comparing across segments. */
+export function batchToCsv(items: BatchItem[]) {
+  return toCsv([
+    [
+      "Variant",
+      "Industry",
+      "Target customer",
+      "Tone",
+      "Channels",
+      "North star",
+      "Positioning",
+      "Budget",
+      "Budget split",
+      "Messaging pillars",
+      "First touch subject",
+      "Sequence touches",
+      "Copy check"
+    ],
+    ...items.map(({ label, request, plan }) => {
+      const counts = countFindings(lintPlan(plan, request));
+      const firstTouch = plan.outreachSequences[0]?.steps[0];
+      return [
+        label,
+        request.industry,
+        request.targetCustomer,
+        request.tone,
+        request.channels.join("; "),
+        plan.campaignSummary.northStar,
+        plan.campaignSummary.positioningTheme,
+        plan.budgetAllocation.total,
+        plan.budgetAllocation.channels.map((channel) => `${channel.channel} ${channel.share}%`).join("; "),
+        plan.messagingPillars.map((pillar) => pillar.title).join("; "),
+        firstTouch?.subject ?? "",
+        plan.outreachSequences.reduce((sum, sequence) => sum + sequence.steps.length, 0),
+        `${counts.error} errors, ${counts.warning} warnings`
+      ];
+    })
+  ]);
+}
+
+/** Every plan in full, one after another, under a contents list. */
+export function batchToMarkdown(items: BatchItem[], title = "Lead Generation Batch") {
+  const contents = items
+    .map(
+      ({ label, request, plan }, index) =>
+        `${index + 1}. ${label} (${request.tone}, ${request.channels.join(", ")}, ${money(plan.budgetAllocation.total)})`
+    )
+    .join("\n");
+  // Each plan's headings move down a level so they nest under the batch title.
+  const plans = items.map(({ label, plan }) => planToMarkdown(plan, label).replace(/^(#+) /gm, "#$1 "));
+  return `# ${title}\n\n${contents}\n\n---\n\n${plans.join("\n---\n\n")}`;
+}
+
+export function exportBatch(items: BatchItem[], format: BatchExportFormat, title?: string): ExportFile {
+  const slug = slugify(title ?? "lead-plan");
+  return format === "csv"
+    ? { filename: `${slug}-batch.csv`, contentType: "text/csv; charset=utf-8", body: batchToCsv(items) }
+    : { filename: `${slug}-batch.md`, contentType: "text/markdown; charset=utf-8", body: batchToMarkdown(items, title) };
+}
@@ -0,0 +1,453 @@
+import { channelOptions, type Channel, type LeadRequest } from "@/lib/schemas";
+import { timeframeWeeks } from "@/lib/fallback/context";
+import { defaultForecastAssumptions, forecastScenario } from "@/lib/forecast";
+import type {
+  BudgetAllocation,
+  BudgetCategory,
+  BudgetLineItem,
+  ChannelBudget
+} from "@/lib/types";
+
+export type BudgetLevel = LeadRequest["budgetLevel"];
+
+type BudgetRequest = Pick<LeadRequest, "channels" | "budgetLevel" | "timeframe" | "budgetAmount">;
+
+export interface BudgetGuardrails {
+  /** Most any single channel may take, in percent of the total. */
+  maxChannelShare: number;
+  /** Least every selected channel gets, so each can produce a readable result. */
+  minChannelShare: number;
+  /** Cap on paid media across all channels, in percent of the total. */
+  maxAdsShare: number;
+  /** Loaded hourly cost used to turn headcount dollars into hours. */
+  hourlyRate: number;
+}
+
+export const budgetGuardrails: Record<BudgetLevel, BudgetGuardrails> = {
+  lean: { maxChannelShare: 60, minChannelShare: 10, maxAdsShare: 20, hourlyRate: 50 },
+  balanced: { maxChannelShare: 50, minChannelShare: 10, maxAdsShare: 40, hourlyRate: 60 },
+  aggressive: { maxChannelShare: 45, minChannelShare: 5, maxAdsShare: 60, hourlyRate: 75 }
+};
+
+/** Weekly spend assumed when the request only gives a budget posture. */
+const weeklySpendDefaults: Record<BudgetLevel, number> = {
+  lean: 750,
+  balanced: 2000,
+  aggressive: 5000
+};
+
+export function resolveBudgetTotal(request: Omit<BudgetRequest, "channels">) {
+  return request.budgetAmount ?? weeklySpendDefaults[request.budgetLevel] * timeframeWeeks[request.timeframe];
+}
+
+export function describeGuardrails(level: BudgetLevel) {
+  const rules = budgetGuardrails[level];
+  return [
+    `No channel takes more than ${rules.maxChannelShare}% of the budget.`,
+    `Every channel gets at least ${rules.minChannelShare}% so it can produce a readable result.`,
+    `Paid media stays under ${rules.maxAdsShare}% of the total.`,
+    `Headcount hours are costed at $${rules.hourlyRate}/hour.`
+  ];
+}
+
+interface ChannelCostProfile {
+  /** Relative claim on the budget before guardrails. */
+  weight: number;
+  /** Split of the channel's spend by category; sums to 1. */
+  mix: Partial<Record<BudgetCategory, number>>;
+  items: Partial<Record<BudgetCategory, string>>;
+  /** Dollars to reach one more prospect, used to turn spend into volume. */
+  costPerReach: number;
+}
+
+const channelCostProfiles: Record<Channel, ChannelCostProfile> = {
+  "Cold email": {
+    weight: 1,
+    mix: { tools: 0.35, content: 0.15, headcount: 0.5 },
+    items: {
+      tools: "Contact data, enrichment and sending domains",
+      content: "Sequence copywriting and case-study snippets",
+      headcount: "SDR research and reply handling"
+    },
+    costPerReach: 4
+  },
+  "LinkedIn outreach": {
+    weight: 0.8,
+    mix: { tools: 0.25, content: 0.15, headcount: 0.6 },
+    items: {
+      tools: "Sales Navigator seats",
+      content: "Profile refresh and post drafts",
+      headcount: "Connection requests and DM follow-up"
+    },
+    costPerReach: 8
+  },
+  Webinars: {
+    weight: 1.2,
+    mix: { tools: 0.15, ads: 0.3, content: 0.3, headcount: 0.25 },
+    items: {
+      tools: "Webinar platform",
+      ads: "Registration promotion",
+      content: "Deck, landing page and replay edit",
+      headcount: "Speaker prep and attendee follow-up"
+    },
+    costPerReach: 2.5
+  },
+  "Content syndication": {
+    weight: 1,
+    mix: { ads: 0.7, content: 0.2, headcount: 0.1 },
+    items: {
+      ads: "Syndication network leads (cost per lead)",
+      content: "Gated asset production",
+      headcount: "Lead qualification"
+    },
+    costPerReach: 4
+  },
+  "Paid social": {
+    weight: 1.4,
+    mix: { ads: 0.75, content: 0.15, headcount: 0.1 },
+    items: {
+      ads: "Ad spend",
+      content: "Creative variants",
+      headcount: "Campaign management"
+    },
+    costPerReach: 0.8
+  },
+  "Partner referrals": {
+    weight: 0.5,
+    mix: { content: 0.3, headcount: 0.7 },
+    items: {
+      content: "Co-marketing one-pager and referral kit",
+      headcount: "Partner enablement and syncs"
+    },
+    costPerReach: 60
+  },
+  "Events & field": {
+    weight: 1.5,
+    mix: { ads: 0.2, content: 0.2, tools: 0.1, headcount: 0.5 },
+    items: {
+      ads: "Sponsorship or venue",
+      content: "Booth and follow-up materials",
+      tools: "Badge scanning and meeting booking",
+      headcount: "Travel and on-site staff time"
+    },
+    costPerReach: 25
+  },
+  "SEO / inbound": {
+    weight: 0.8,
+    mix: { tools: 0.15, content: 0.6, headcount: 0.25 },
+    items: {
+      tools: "SEO research tools",
+      content: "Articles and landing pages",
+      headcount: "Editing and on-page optimization"
+    },
+    costPerReach: 1.5
+  }
+};
+
+const genericProfile: ChannelCostProfile = {
+  weight: 1,
+  mix: { tools: 0.2, content: 0.3, headcount: 0.5 },
+  items: { tools: "Tooling", content: "Content production", headcount: "Team time" },
+  costPerReach: 5
+};
+
+function asChannel(channel: string) {
+  return (channelOptions as readonly string[]).includes(channel) ? (channel as Channel) : null;
+}
+
+function profileFor(channel: string) {
+  const known = asChannel(channel);
+  return known ? channelCostProfiles[known] : genericProfile;
+}
+
+function round1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Splits `target` percent across weights while keeping every share inside
+ * [min, max]. Channels that hit a bound are pinned and the rest re-split, so
+ * the result still sums to the target whenever the bounds allow it.
+ */
+export function fitShares(weights: number[], target: number, min: number, max: number) {
+  const count = weights.length;
+  if (count === 0) return [];
+  const low = Math.min(min, target / count);
+  const high = Math.max(max, target / count);
+  const shares: number[] = new Array(count).fill(0);
+  const pinned = new Set<number>();
+
+  for (let pass = 0; pass <= count; pass++) {
+    const free = weights.map((_, index) => index).filter((index) => !pinned.has(index));
+    if (!free.length) break;
+    const remaining = target - Array.from(pinned).reduce((sum, index) => sum + shares[index], 0);
+    const weightSum = free.reduce((sum, index) => sum + Math.max(0, weights[index]), 0);
+    let changed = false;
+    for (const index of free) {
+      const share = weightSum > 0 ? (Math.max(0, weights[index]) / weightSum) * remaining : remaining / free.length;
+      shares[index] = share;
+      if (share > high || share < low) {
+        shares[index] = share > high ? high : low;
+        pinned.add(index);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return shares;
+}
+
+/** Splits a channel's spend by category; headcount dollars also become hours. */
+export function buildLineItems(channel: string, amount: number, hourlyRate: number): BudgetLineItem[] {
+  const profile = profileFor(channel);
+  const items = (Object.entries(profile.mix) as [BudgetCategory, number][]).map(([category, share]) => {
+    const itemAmount = Math.round(amount * share);
+    return {
+      category,
+      description: profile.items[category] ?? category,
+      amount: itemAmount,
+      hours: category === "headcount" ? Math.round(itemAmount / hourlyRate) : 0
+    };
+  });
+  return settleRounding(items, amount);
+}
+
+/** Moves rounding drift onto the largest line so items add up to the amount. */
+function settleRounding<T extends { amount: number }>(items: T[], amount: number): T[] {
+  if (!items.length) return items;
+  const drift = amount - items.reduce((sum, item) => sum + item.amount, 0);
+  if (drift === 0) return items;
+  const largest = items.reduce((best, item, index) => (item.amount > items[best].amount ? index : best), 0);
+  return items.map((item, index) => (index === largest ? { ...item, amount: item.amount + drift } : item));
+}
+
+/** Rescales existing line items to a new channel amount, keeping their proportions and implied rates. */
+function scaleLineItems(channel: ChannelBudget, amount: number, hourlyRate: number): BudgetLineItem[] {
+  const current = channel.lineItems.reduce((sum, item) => sum + item.amount, 0);
+  if (current <= 0) return buildLineItems(channel.channel, amount, hourlyRate);
+  const factor = amount / current;
+  return settleRounding(
+    channel.lineItems.map((item) => ({
+      ...item,
+      amount: Math.round(item.amount * factor),
+      hours: item.category === "headcount" ? Math.round(item.hours * factor) : item.hours
+    })),
+    amount
+  );
+}
+
+/**
+ * Trims paid media back under the level's cap. The trimmed dollars move to
+ * each channel's content line (or a new one), so channel amounts are unchanged.
+ */
+function capAdsSpend(channels: ChannelBudget[], total: number, rules: BudgetGuardrails) {
+  const cap = (total * rules.maxAdsShare) / 100;
+  const ads = channels
+    .flatMap((channel) => channel.lineItems)
+    .filter((item) => item.category === "ads")
+    .reduce((sum, item) => sum + item.amount, 0);
+  if (ads <= cap) return channels;
+
+  const factor = cap / ads;
+  return channels.map((channel) => {
+    const trimmed = channel.lineItems.reduce(
+      (sum, item) => sum + (item.category === "ads" ? item.amount - Math.floor(item.amount * factor) : 0),
+      0
+    );
+    if (trimmed === 0) return channel;
+    const lineItems = channel.lineItems.map((item) =>
+      item.category === "ads" ? { ...item, amount: Math.floor(item.amount * factor) } : item
+    );
+    const content = lineItems.findIndex((item) => item.category === "content");
+    if (content === -1) {
+      lineItems.push({
+        category: "content",
+        description: "Organic content in place of paid reach",
+        amount: trimmed,
+        hours: 0
+      });
+    } else {
+      lineItems[content] = { ...lineItems[content], amount: lineItems[content].amount + trimmed };
+    }
+    return { ...channel, lineItems };
+  });
+}
+
+function applyShares(
+  allocation: BudgetAllocation,
+  shares: number[],
+  total: number,
+  rules: BudgetGuardrails
+): BudgetAllocation {
+  const amounts = settleRounding(
+    shares.map((share) => ({ amount: Math.round((total * share) / 100) })),
+    total
+  ).map((entry) => entry.amount);
+  const channels = allocation.channels.map((channel, index) => ({
+    ...channel,
+    share: round1(shares[index]),
+    amount: amounts[index],
+    lineItems: scaleLineItems(channel, amounts[index], rules.hourlyRate)
+  }));
+  return { ...allocation, total, channels: capAdsSpend(channels, total, rules) };
+}
+
+/** Rules-based allocation used by the fallback planner and when the model's is unusable. */
+export function allocateBudget(request: BudgetRequest): BudgetAllocation {
+  const rules = budgetGuardrails[request.budgetLevel];
+  const total = resolveBudgetTotal(request);
+  const shares = fitShares(
+    request.channels.map((channel) => profileFor(channel).weight),
+    100,
+    rules.minChannelShare,
+    rules.maxChannelShare
+  );
+  return applyShares(
+    {
+      total,
+      currency: "USD",
+      channels: request.channels.map((channel) => ({ channel, share: 0, amount: 0, lineItems: [] })),
+      guardrails: describeGuardrails(request.budgetLevel)
+    },
+    shares,
+    total,
+    rules
+  );
+}
+
+/**
+ * Reconciles a model-written allocation with the request: the total is the
+ * requested budget, shares follow the model's split within the guardrails,
+ * and line items are rescaled to add up to each channel's amount.
+ */
+export function normalizeBudgetAllocation(allocation: BudgetAllocation, request: BudgetRequest) {
+  if (!allocation.channels.length) return allocateBudget(request);
+  const rules = budgetGuardrails[request.budgetLevel];
+  const byShare = allocation.channels.map((channel) => channel.share);
+  const weights = byShare.some((share) => share > 0)
+    ? byShare
+    : allocation.channels.map((channel) => channel.amount);
+  const shares = fitShares(weights, 100, rules.minChannelShare, rules.maxChannelShare);
+  return applyShares(
+    {
+      ...allocation,
+      currency: allocation.currency || "USD",
+      guardrails: allocation.guardrails.length
+        ? allocation.guardrails
+        : describeGuardrails(request.budgetLevel)
+    },
+    shares,
+    resolveBudgetTotal(request),
+    rules
+  );
+}
+
+/**
+ * Moves one channel to `share` percent and re-splits the rest in proportion
+ * to their current shares, all within the guardrails.
+ */
+export function rebalanceAllocation(
+  allocation: BudgetAllocation,
+  level: BudgetLevel,
+  index: number,
+  share: number
+) {
+  const rules = budgetGuardrails[level];
+  const count = allocation.channels.length;
+  if (count < 2) return allocation;
+  const maxForChannel = Math.min(rules.maxChannelShare, 100 - rules.minChannelShare * (count - 1));
+  const pinned = Math.min(Math.max(share, rules.minChannelShare), Math.max(maxForChannel, rules.minChannelShare));
+  const others = allocation.channels.filter((_, position) => position !== index);
+  const rest = fitShares(
+    others.map((channel) => channel.share || 1),
+    100 - pinned,
+    rules.minChannelShare,
+    rules.maxChannelShare
+  );
+  const shares = allocation.channels.map((_, position) =>
+    position === index ? pinned : rest[position < index ? position : position - 1]
+  );
+  return applyShares(allocation, shares, allocation.total, rules);
+}
+
+export function setAllocationTotal(allocation: BudgetAllocation, level: BudgetLevel, total: number) {
+  return applyShares(
+    allocation,
+    allocation.channels.map((channel) => channel.share),
+    Math.max(0, Math.round(total)),
+    budgetGuardrails[level]
+  );
+}
+
+/** Guardrail breaches worth flagging, e.g. after a model-written or hand-edited allocation. */
+export function guardrailIssues(allocation: BudgetAllocation, level: BudgetLevel) {
+  const rules = budgetGuardrails[level];
+  const issues: string[] = [];
+  for (const channel of allocation.channels) {
+    if (channel.share > rules.maxChannelShare + 0.05) {
+      issues.push(`${channel.channel} takes ${channel.share}% (limit ${rules.maxChannelShare}%).`);
+    }
+    if (allocation.channels.length > 1 && channel.share < rules.minChannelShare - 0.05) {
+      issues.push(`${channel.channel} gets only ${channel.share}% (minimum ${rules.minChannelShare}%).`);
+    }
+  }
+  const ads = allocation.channels
+    .flatMap((channel) => channel.lineItems)
+    .filter((item) => item.category === "ads")
+    .reduce((sum, item) => sum + item.amount, 0);
+  if (allocation.total > 0 && (ads / allocation.total) * 100 > rules.maxAdsShare) {
+    issues.push(
+      `Paid media is ${Math.round((ads / allocation.total) * 100)}% of the budget (limit ${rules.maxAdsShare}%).`
+    );
+  }
+  return issues;
+}
+
+export interface ChannelOutcome {
+  channel: string;
+  amount: number;
+  reachedPerWeek: number;
+  meetings: number;
+  pipeline: number;
+  /** Null when the channel is not expected to book any meetings. */
+  costPerMeeting: number | null;
+}
+
+/**
+ * Expected-case results for an allocation: each channel's weekly spend buys
+ * reach at its cost per prospect, then runs through the forecast funnel.
+ */
+export function allocationOutcomes(allocation: BudgetAllocation, request: BudgetRequest) {
+  const base = defaultForecastAssumptions(request);
+  const weeks = base.weeks;
+  const channels: ChannelOutcome[] = allocation.channels.map((item) => {
+    const known = asChannel(item.channel);
+    const reachedPerWeek = item.amount / weeks / profileFor(item.channel).costPerReach;
+    const benchmark = base.channels.find((entry) => entry.channel === known) ??
+      (known ? defaultForecastAssumptions({ ...request, channels: [known] }).channels[0] : null);
+    if (!benchmark) {
+      return { channel: item.channel, amount: item.amount, reachedPerWeek, meetings: 0, pipeline: 0, costPerMeeting: null };
+    }
+    const { totals } = forecastScenario(
+      { ...base, channels: [{ ...benchmark, listSize: reachedPerWeek }] },
+      "expected"
+    );
+    return {
+      channel: item.channel,
+      amount: item.amount,
+      reachedPerWeek,
+      meetings: totals.meetings,
+      pipeline: totals.pipeline,
+      costPerMeeting: totals.meetings > 0 ? item.amount / totals.meetings : null
+    };
+  });
+  const meetings = channels.reduce((sum, item) => sum + item.meetings, 0);
+  const pipeline = channels.reduce((sum, item) => sum + item.pipeline, 0);
+  return {
+    channels,
+    meetings,
+    pipeline,
+    costPerMeeting: meetings > 0 ? allocation.total / meetings : null
+  };
+}
@@ -0,0 +1,337 @@
+import { toCsv } from "@/lib/csv";
+import type { LeadRequest } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+
+export const calendarEventKinds = ["task", "asset", "touch", "experiment"] as const;
+
+export type CalendarEventKind = (typeof calendarEventKinds)[number];
+
+export const calendarKindLabels: Record<CalendarEventKind, string> = {
+  task: "Setup task",
+  asset: "Content asset",
+  touch: "Channel touch",
+  experiment: "Experiment launch"
+};
+
+export const ownerRoles = [
+  "Campaign owner",
+  "SDR",
+  "Demand gen",
+  "Field marketing",
+  "Partnerships",
+  "Content",
+  "RevOps",
+  "Growth lead"
+] as const;
+
+export type OwnerRole = (typeof ownerRoles)[number];
+
+export interface CalendarEvent {
+  id: string;
+  /** Due date, YYYY-MM-DD. Always a weekday. */
+  date: string;
+  /** 1-based week of the campaign window. */
+  week: number;
+  kind: CalendarEventKind;
+  channel: string | null;
+  title: string;
+  detail: string;
+  role: OwnerRole;
+  /** Assigned person, or the role when nobody is assigned. */
+  owner: string;
+}
+
+export interface CalendarOptions {
+  timeframe: LeadRequest["timeframe"];
+  /** First day of the campaign, YYYY-MM-DD. Defaults to next Monday. */
+  startDate?: string;
+  owners?: Partial<Record<OwnerRole, string>>;
+}
+
+export interface ExecutionCalendar {
+  startDate: string;
+  endDate: string;
+  weeks: number;
+  events: CalendarEvent[];
+}
+
+const timeframeDays: Record<LeadRequest["timeframe"], number> = {
+  "2 weeks": 14,
+  "30 days": 30,
+  "90 days": 90
+};
+
+/** Days of preparation before the first touch goes out. */
+const launchDays: Record<LeadRequest["timeframe"], number> = {
+  "2 weeks": 2,
+  "30 days": 4,
+  "90 days": 7
+};
+
+const channelRoles: Record<string, OwnerRole> = {
+  "Cold email": "SDR",
+  "LinkedIn outreach": "SDR",
+  Webinars: "Field marketing",
+  "Events & field": "Field marketing",
+  "Content syndication": "Demand gen",
+  "Paid social": "Demand gen",
+  "SEO / inbound": "Content",
+  "Partner referrals": "Partnerships"
+};
+
+const MAX_SEQUENCE_WAVES = 3;
+const MAX_WEEKLY_TOUCHES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string) {
+  const [year, month, day] = value.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(time: number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number) {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+/** Saturday and Sunday move to the following Monday, or back to Friday at the end of the window. */
+function toWeekday(date: string, lastDate: string) {
+  const weekday = new Date(parseDate(date)).getUTCDay();
+  if (weekday !== 0 && weekday !== 6) return date;
+  const monday = addDays(date, weekday === 6 ? 2 : 1);
+  return monday <= lastDate ? monday : addDays(date, weekday === 6 ? -1 : -2);
+}
+
+export function nextMonday(from = new Date()) {
+  const today = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const weekday = new Date(today).getUTCDay();
+  return formatDate(today + (((8 - weekday) % 7) || 7) * DAY_MS);
+}
+
+function taskRole(text: string): OwnerRole {
+  if (/track|crm|automat|attribution|dashboard|workflow/i.test(text)) return "RevOps";
+  if (/list|accounts|prospect/i.test(text)) return "SDR";
+  if (/copy|draft|content|asset/i.test(text)) return "Content";
+  if (/experiment|test/i.test(text)) return "Growth lead";
+  return "Campaign owner";
+}
+
+/** Reads a weekly volume like "3 emails/week" or "2 posts per week" from a cadence. */
+export function weeklyVolume(cadence: string) {
+  const match = cadence.match(/(\d+)\s*[a-z\s-]*?(?:\/|per)\s*week/i);
+  return match ? Math.min(MAX_WEEKLY_TOUCHES, Math.max(1, Number(match[1]))) : 1;
+}
+
+/**
+ * Lays the plan out over the campaign window: setup tasks and asset prep
+ * before launch, every sequence touch from launch (repeated in waves on
+ * longer windows), weekly batches for channels without a sequence, staggered
+ * experiment launches and a weekly review.
+ */
+export function buildExecutionCalendar(plan: LeadPlan, options: CalendarOptions): ExecutionCalendar {
+  const startDate = options.startDate && isoDatePattern.test(options.startDate) ? options.startDate : nextMonday();
+  const days = timeframeDays[options.timeframe];
+  const launch = launchDays[options.timeframe];
+  const events: Omit<CalendarEvent, "id" | "week" | "owner">[] = [];
+  const endDate = addDays(startDate, days - 1);
+  const at = (offset: number) => toWeekday(addDays(startDate, Math.min(offset, days - 1)), endDate);
+
+  const recurring = plan.nextSteps.filter((step) => /weekly|every week/i.test(step));
+  const launchSteps = plan.nextSteps.filter((step) => !recurring.includes(step) && /launch/i.test(step));
+  const setup = plan.nextSteps.filter((step) => !recurring.includes(step) && !launchSteps.includes(step));
+
+  setup.forEach((step, index) => {
+    events.push({
+      date: at(Math.floor((index * launch) / Math.max(1, setup.length))),
+      kind: "task",
+      channel: null,
+      title: step,
+      detail: "Setup before launch",
+      role: taskRole(step)
+    });
+  });
+  for (const step of launchSteps) {
+    events.push({ date: at(launch), kind: "task", channel: null, title: step, detail: "Launch", role: "Campaign owner" });
+  }
+  for (const step of recurring) {
+    for (let offset = launch + 4; offset < days; offset += 7) {
+      events.push({ date: at(offset), kind: "task", channel: null, title: step, detail: "Weekly review", role: "Campaign owner" });
+    }
+  }
+
+  for (const strategy of plan.channelStrategy) {
+    const role = channelRoles[strategy.channel] ?? "Campaign owner";
+    const budget = plan.budgetAllocation.channels.find((item) => item.channel === strategy.channel);
+    const assets = budget?.lineItems.filter((item) => item.category === "content").map((item) => item.description) ?? [];
+    events.push({
+      date: at(Math.max(0, launch - 1)),
+      kind: "asset",
+      channel: strategy.channel,
+      title: `Prepare ${strategy.channel} assets`,
+      detail: assets.length ? assets.join("; ") : strategy.play,
+      role: "Content"
+    });
+
+    const sequence = plan.outreachSequences.find((item) => item.channel === strategy.channel);
+    if (sequence?.steps.length) {
+      const span = Math.max(...sequence.steps.map((step) => step.day)) + 7;
+      for (let wave = 0; wave < MAX_SEQUENCE_WAVES && launch + wave * span < days; wave++) {
+        for (const step of sequence.steps) {
+          const offset = launch + wave * span + step.day;
+          if (offset >= days) continue;
+          events.push({
+            date: at(offset),
+            kind: "touch",
+            channel: strategy.channel,
+            title: `${strategy.channel}: ${step.touch}${wave > 0 ? ` (wave ${wave + 1})` : ""}`,
+            detail: step.subject ? `Subject: ${step.subject}` : strategy.objective,
+            role
+          });
+        }
+      }
+      continue;
+    }
+
+    const volume = weeklyVolume(strategy.cadence);
+    for (let offset = launch; offset < days; offset += 7) {
+      events.push({
+        date: at(offset),
+        kind: "touch",
+        channel: strategy.channel,
+        title: `${strategy.channel}: ${volume} ${volume === 1 ? "touch" : "touches"} this week`,
+        detail: `${strategy.play} (${strategy.cadence})`,
+        role
+      });
+    }
+  }
+
+  plan.experiments.forEach((experiment, index) => {
+    events.push({
+      date: at(launch + 7 * (index + 1)),
+      kind: "experiment",
+      channel: null,
+      title: `Launch experiment: ${experiment.experiment}`,
+      detail: `${experiment.hypothesis} Metric: ${experiment.metric}`,
+      role: "Growth lead"
+    });
+  });
+
+  const kindOrder = (kind: CalendarEventKind) => calendarEventKinds.indexOf(kind);
+  const sorted = events.sort((a, b) => a.date.localeCompare(b.date) || kindOrder(a.kind) - kindOrder(b.kind));
+
+  return {
+    startDate,
+    endDate,
+    weeks: Math.ceil(days / 7),
+    events: sorted.map((event, index) => ({
+      ...event,
+      id: `evt-${index + 1}`,
+      week: Math.floor((parseDate(event.date) - parseDate(startDate)) / (7 * DAY_MS)) + 1,
+      owner: options.owners?.[event.role]?.trim() || event.role
+    }))
+  };
+}
+
+function escapeIcsText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function utf8Length(codePoint: number) {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Folds content lines at 75 octets as RFC 5545 requires. Lengths are UTF-8
+ * bytes and breaks fall between code points, so localized text stays intact.
+ */
+function foldIcsLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0) ?? 0);
+    // Continuation lines start with a space, which counts towards the limit.
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** FNV-1a, enough to tell a plan's events apart in a UID. */
+function hashText(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * UIDs come from what an event is rather than its position, so re-exporting
+ * an edited plan updates the events calendars already imported instead of
+ * shuffling them, and the calendar title keeps other plans' events apart.
+ */
+function eventUids(calendar: ExecutionCalendar, title: string) {
+  const seen = new Map<string, number>();
+  return calendar.events.map((event) => {
+    const key = hashText([title, event.kind, event.title, event.channel ?? "", event.date].join("\n"));
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return `${key}${count > 1 ? `-${count}` : ""}@pipeline-pilot`;
+  });
+}
+
+/** All-day events, one per calendar entry, importable into Google Calendar, Outlook and Apple Calendar. */
+export function calendarToIcs(calendar: ExecutionCalendar, title = "Lead generation campaign") {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const uids = eventUids(calendar, title);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Pipeline Pilot//Execution Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+    ...calendar.events.flatMap((event, index) => [
+      "BEGIN:VEVENT",
+      `UID:${uids[index]}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${event.date.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${addDays(event.date, 1).replace(/-/g, "")}`,
+      `SUMMARY:${escapeIcsText(event.title)}`,
+      `DESCRIPTION:${escapeIcsText(`${event.detail}\nOwner: ${event.owner}`)}`,
+      `CATEGORIES:${escapeIcsText(calendarKindLabels[event.kind])}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    ]),
+    "END:VCALENDAR"
+  ];
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+export function calendarToTaskCsv(calendar: ExecutionCalendar) {
+  return toCsv([
+    ["Due date", "Week", "Type", "Channel", "Task", "Details", "Owner"],
+    ...calendar.events.map((event) => [
+      event.date,
+      event.week,
+      calendarKindLabels[event.kind],
+      event.channel ?? "",
+      event.title,
+      event.detail,
+      event.owner
+    ])
+  ]);
+}
@@ -0,0 +1,44 @@
+import type { CommentAnchor, PlanComment } from "@/lib/schemas";
+import type { LeadPlan, PlanSectionKey } from "@/lib/types";
+
+export interface CommentThread {
+  comment: PlanComment;
+  replies: CommentThread[];
+}
+
+const itemNameFields = ["title", "channel", "name", "hypothesis"];
+
+function truncate(text: string, length = 60) {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+/** Labels of the items a comment can be anchored to; empty for sections that are not lists. */
+export function anchorItems(plan: LeadPlan, section: PlanSectionKey): string[] {
+  const value = plan[section];
+  if (!Array.isArray(value)) return [];
+  return value.map((item: unknown, index) => {
+    if (typeof item === "string") return truncate(item);
+    const record = item as Record<string, unknown>;
+    const field = itemNameFields.find((name) => typeof record[name] === "string");
+    return field ? truncate(String(record[field])) : `Item ${index + 1}`;
+  });
+}
+
+export function describeAnchor(plan: LeadPlan, anchor: CommentAnchor) {
+  if (anchor.item === null) return "Whole section";
+  return anchorItems(plan, anchor.section)[anchor.item] ?? `Item ${anchor.item + 1} (since removed)`;
+}
+
+/** Nests replies under their parents, oldest first; orphaned replies become top-level. */
+export function threadComments(comments: PlanComment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map(sorted.map((comment) => [comment.id, { comment, replies: [] } as CommentThread]));
+  const roots: CommentThread[] = [];
+  for (const thread of Array.from(threads.values())) {
+    const parentId = thread.comment.parentId;
+    const parent = parentId ? threads.get(parentId) : undefined;
+    if (parent) parent.replies.push(thread);
+    else roots.push(thread);
+  }
+  return roots;
+}
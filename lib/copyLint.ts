@@ -0,0 +1,319 @@
+import { isEnglish } from "@/lib/locales";
+import type { LeadRequest } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+
+export const lintSeverities = ["error", "warning", "info"] as const;
+
+export type LintSeverity = (typeof lintSeverities)[number];
+
+export type LintRule =
+  | "spam-words"
+  | "links"
+  | "caps"
+  | "opt-out"
+  | "superlative"
+  | "unbacked-claim"
+  | "banned-phrase"
+  | "length"
+  | "readability";
+
+export interface LintFinding {
+  /** Dotted path of the copy field, e.g. `outreachSequences.0.steps.2.body`. */
+  path: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+type CopyKind =
+  | "email-subject"
+  | "email-body"
+  | "connection-note"
+  | "inmail-subject"
+  | "inmail-body"
+  | "linkedin-sample"
+  | "copy";
+
+interface CopyField {
+  path: string;
+  text: string;
+  kind: CopyKind;
+}
+
+/** Phrases that commonly push cold email into spam folders. */
+const spamPhrases = [
+  "act now",
+  "apply now",
+  "buy now",
+  "cash bonus",
+  "click here",
+  "congratulations",
+  "double your",
+  "earn money",
+  "exclusive deal",
+  "free gift",
+  "free money",
+  "limited time",
+  "no catch",
+  "no cost",
+  "once in a lifetime",
+  "order now",
+  "risk-free",
+  "special promotion",
+  "urgent",
+  "winner",
+  "100% free",
+  "100% guaranteed"
+];
+
+// "#1" has no word boundary before the "#", so it is matched after a non-word
+// character instead and that character is trimmed off the match.
+const superlativePattern =
+  /(?:^|[^\w#])#1\b|\b(?:best(?:-in-class)?|number one|(?:industry|market)[- ]leading|world[- ]class|unmatched|unbeatable|unrivall?ed|revolutionary|guaranteed?|fastest|cheapest|only (?:platform|solution|tool))\b/gi;
+
+/** English, German, French, Spanish and Portuguese ways to say "stop emailing me". */
+const optOutPattern =
+  /unsubscribe|opt[ -]?out|not (?:a fit|interested|the right time)|no thanks|(?:won't|will not|stop) (?:email|follow|reach|writ)|reply ["'“]?stop|remove you|nein danke|kein interesse|abmelden|non merci|désinscri|ne vous relancerai|no, gracias|dar de baja|no (?:volveré|te vuelvo) a escribir|não, obrigad|descadastr|não entro mais em contato/i;
+
+const claimPattern = /\b\d+(?:\.\d+)?\s?(?:%|percent\b|x\b|×)|\b\d[\d,]*\+?\s(?:customers|teams|companies|brands|users)\b/gi;
+
+const linkPattern = /\bhttps?:\/\/\S+|\bwww\.\S+|\{\{\w*(?:link|url)\w*(?:\|[^}]*)?\}\}/gi;
+
+/** Hard platform limits and soft deliverability limits, in characters. */
+const lengthLimits: Partial<Record<CopyKind, { max: number; severity: LintSeverity; label: string }>> = {
+  "connection-note": { max: 300, severity: "error", label: "LinkedIn connection notes are capped at 300 characters" },
+  "inmail-subject": { max: 200, severity: "error", label: "InMail subjects are capped at 200 characters" },
+  "inmail-body": { max: 1900, severity: "error", label: "InMail messages are capped at 1,900 characters" },
+  "email-subject": { max: 60, severity: "warning", label: "Subjects over 60 characters get cut off in most inboxes" },
+  "linkedin-sample": { max: 300, severity: "warning", label: "Too long to send as a LinkedIn connection note (300)" }
+};
+
+const readableGrade = 10;
+
+function isLinkedIn(channel: string) {
+  return /linkedin/i.test(channel);
+}
+
+function classifyStep(channel: string, touch: string, hasSubject: boolean): [CopyKind, CopyKind] {
+  if (isLinkedIn(channel)) {
+    if (/inmail/i.test(touch)) return ["inmail-subject", "inmail-body"];
+    if (/connect/i.test(touch)) return ["copy", "connection-note"];
+    return ["copy", "copy"];
+  }
+  // Partner emails are one-to-one relationship mail, so no opt-out is expected.
+  if (/partner/i.test(channel)) return [hasSubject ? "email-subject" : "copy", "copy"];
+  return hasSubject ? ["email-subject", "email-body"] : ["copy", "copy"];
+}
+
+/** Every piece of copy a rep might send or quote, with the limits that apply to it. */
+function collectCopy(plan: LeadPlan): CopyField[] {
+  const fields: CopyField[] = [];
+
+  plan.messagingPillars.forEach((pillar, index) => {
+    fields.push({ path: `messagingPillars.${index}.angle`, text: pillar.angle, kind: "copy" });
+    pillar.proofPoints.forEach((point, pointIndex) =>
+      fields.push({ path: `messagingPillars.${index}.proofPoints.${pointIndex}`, text: point, kind: "copy" })
+    );
+  });
+
+  plan.channelStrategy.forEach((item, index) =>
+    fields.push({
+      path: `channelStrategy.${index}.sampleCopy`,
+      text: item.sampleCopy,
+      kind: isLinkedIn(item.channel) ? "linkedin-sample" : "copy"
+    })
+  );
+
+  plan.outreachSequences.forEach((sequence, index) =>
+    sequence.steps.forEach((step, stepIndex) => {
+      const base = `outreachSequences.${index}.steps.${stepIndex}`;
+      const messages = [
+        { path: base, subject: step.subject, body: step.body },
+        ...step.variants.map((variant, variantIndex) => ({
+          path: `${base}.variants.${variantIndex}`,
+          subject: variant.subject,
+          body: variant.body
+        }))
+      ];
+      for (const message of messages) {
+        const [subjectKind, bodyKind] = classifyStep(sequence.channel, step.touch, Boolean(message.subject.trim()));
+        if (message.subject.trim()) {
+          fields.push({ path: `${message.path}.subject`, text: message.subject, kind: subjectKind });
+        }
+        fields.push({ path: `${message.path}.body`, text: message.body, kind: bodyKind });
+      }
+    })
+  );
+
+  return fields;
+}
+
+/** Replaces merge fields with a plain word so they do not skew counts. */
+function plainText(text: string) {
+  return text.replace(/\{\{[^}]*\}\}/g, "Name");
+}
+
+function countSyllables(word: string) {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!cleaned) return 0;
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/** Flesch-Kincaid grade level; null when there are too few words to judge. */
+export function readabilityGrade(text: string) {
+  const plain = plainText(text);
+  const words = plain.match(/[A-Za-z][A-Za-z'-]*/g) ?? [];
+  if (words.length < 30) return null;
+  const sentences = Math.max(1, plain.split(/[.!?]+(?:\s|$)|\n{2,}/).filter((part) => part.trim()).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+function claimSources(request?: LeadRequest | null) {
+  if (!request) return null;
+  return [
+    request.uniqueValue,
+    request.notes ?? "",
+    ...(request.brand?.approvedClaims ?? []),
+    ...(request.brand?.caseStudies.map((study) => study.outcome) ?? [])
+  ]
+    .join(" ")
+    .toLowerCase()
+    .replace(/\s?percent\b/g, "%")
+    .replace(/×/g, "x");
+}
+
+/** Reduces a claim to its number and unit so "40 %" and "40 percent" match "40%". */
+function claimToken(claim: string) {
+  const match = claim.match(/(\d+(?:[.,]\d+)*)\s?(%|percent|x|×)?/i);
+  if (!match) return claim;
+  const unit = match[2]?.toLowerCase();
+  return `${match[1].replace(/,/g, "")}${unit === "percent" ? "%" : unit === "×" ? "x" : unit ?? ""}`;
+}
+
+/**
+ * Every number in the sources as a claim token. Claims are looked up whole,
+ * so "3x" is not backed by "13x" nor "40%" by "140%".
+ */
+function sourceNumbers(sources: string | null) {
+  if (sources === null) return null;
+  return new Set((sources.match(/\d+(?:[.,]\d+)*\s?(?:%|x\b)?/g) ?? []).map(claimToken));
+}
+
+interface LintOptions {
+  sources: string | null;
+  /** Claim tokens found in `sources`; null when the request is unknown. */
+  sourceNumbers: Set<string> | null;
+  bannedPhrases: string[];
+  /** Flesch-Kincaid is calibrated for English only. */
+  checkReadability: boolean;
+}
+
+function lintField(
+  field: CopyField,
+  { sources, sourceNumbers, bannedPhrases, checkReadability }: LintOptions
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const add = (rule: LintRule, severity: LintSeverity, message: string) =>
+    findings.push({ path: field.path, rule, severity, message });
+  const text = field.text;
+  const lower = text.toLowerCase();
+  const isEmail = field.kind === "email-subject" || field.kind === "email-body";
+
+  const banned = bannedPhrases.filter((phrase) => phrase.trim() && lower.includes(phrase.trim().toLowerCase()));
+  if (banned.length) {
+    add("banned-phrase", "error", `Uses banned ${banned.length === 1 ? "phrase" : "phrases"}: ${banned.join(", ")}`);
+  }
+
+  const spam = spamPhrases.filter((phrase) => lower.includes(phrase));
+  if (spam.length) {
+    add("spam-words", isEmail ? "warning" : "info", `Spam-trigger wording: ${spam.join(", ")}`);
+  }
+
+  const links = text.match(linkPattern) ?? [];
+  const maxLinks = field.kind === "email-body" ? 1 : 2;
+  if (links.length > maxLinks) {
+    add("links", "warning", `${links.length} links; keep cold outreach to ${maxLinks === 1 ? "one" : "two"} at most`);
+  }
+
+  const plain = plainText(text);
+  const shouting = plain.match(/\b[A-Z]{4,}\b/g) ?? [];
+  const exclamations = (plain.match(/!/g) ?? []).length;
+  if (shouting.length > 1 || (field.kind.endsWith("subject") && shouting.length)) {
+    add("caps", "warning", `All-caps words read as shouting: ${Array.from(new Set(shouting)).join(", ")}`);
+  }
+  if (exclamations > (field.kind.endsWith("subject") ? 0 : 2)) {
+    add("caps", "warning", `${exclamations} exclamation marks`);
+  }
+
+  if (field.kind === "email-body" && !optOutPattern.test(text)) {
+    add("opt-out", "error", "No opt-out line. CAN-SPAM and GDPR expect an easy way to stop further emails.");
+  }
+
+  // "Best," on its own line is a sign-off, not a claim.
+  const withoutSignOff = text.replace(/^(?:all the )?best(?: regards| wishes)?,?[ \t]*$/gim, "");
+  const superlatives = Array.from(
+    new Set((withoutSignOff.match(superlativePattern) ?? []).map((word) => word.replace(/^[^\w#]+/, "")))
+  ).filter((word) => !sources?.includes(word.toLowerCase()));
+  if (superlatives.length) {
+    add("superlative", "warning", `Unverifiable superlative: ${superlatives.join(", ")}`);
+  }
+
+  if (sourceNumbers !== null) {
+    const unbacked = Array.from(new Set(text.match(claimPattern) ?? [])).filter(
+      (claim) => !sourceNumbers.has(claimToken(claim))
+    );
+    if (unbacked.length) {
+      add(
+        "unbacked-claim",
+        "warning",
+        `${unbacked.join(", ")} ${unbacked.length === 1 ? "is" : "are"} not backed by the differentiators, notes or approved claims`
+      );
+    }
+  }
+
+  const limit = lengthLimits[field.kind];
+  if (limit && text.length > limit.max) {
+    add("length", limit.severity, `${text.length} characters. ${limit.label}.`);
+  }
+
+  if (checkReadability && !field.kind.endsWith("subject")) {
+    const grade = readabilityGrade(text);
+    if (grade !== null && grade > readableGrade) {
+      add("readability", "info", `Reads at grade ${Math.round(grade)}; aim for ${readableGrade} or below`);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Checks every piece of copy in a plan for compliance and deliverability
+ * problems. Claims are only checked against sources when the request is known.
+ */
+export function lintPlan(plan: LeadPlan, request?: LeadRequest | null): LintFinding[] {
+  const sources = claimSources(request);
+  const options: LintOptions = {
+    sources,
+    sourceNumbers: sourceNumbers(sources),
+    bannedPhrases: request?.brand?.bannedPhrases ?? [],
+    checkReadability: !request || isEnglish(request.locale)
+  };
+  return collectCopy(plan).flatMap((field) => lintField(field, options));
+}
+
+export function groupFindings(findings: LintFinding[]) {
+  const byPath = new Map<string, LintFinding[]>();
+  for (const finding of findings) {
+    byPath.set(finding.path, [...(byPath.get(finding.path) ?? []), finding]);
+  }
+  return byPath;
+}
+
+export function countFindings(findings: LintFinding[]) {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) counts[finding.severity] += 1;
+  return counts;
+}
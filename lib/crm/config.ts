@@ -0,0 +1,58 @@
+import type { CrmConfig, CrmConnectorId } from "@/lib/crm/types";
+
+function booleanFromEnv(value: string | undefined) {
+  return ["1", "true", "yes", "on"].includes(value?.trim().toLowerCase() ?? "");
+}
+
+/**
+ * The mock CRM stores pushed plans without authentication, so it only runs
+ * when `CRM_MOCK` is set and never in production.
+ */
+export function isMockCrmEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return booleanFromEnv(env.CRM_MOCK) && env.NODE_ENV !== "production";
+}
+
+/** Where this app serves the mock CRM; `CRM_MOCK_URL` overrides the local dev server. */
+function mockCrmOrigin(env: NodeJS.ProcessEnv) {
+  return (env.CRM_MOCK_URL?.trim() || `http://localhost:${env.PORT?.trim() || 3000}`).replace(/\/+$/, "");
+}
+
+/**
+ * Reads connector settings from the environment. With the mock enabled every
+ * connector targets the bundled mock CRM under `/api/mock-crm`, so pushes can
+ * be exercised offline.
+ */
+export function resolveCrmConfig(id: CrmConnectorId, env: NodeJS.ProcessEnv = process.env): CrmConfig {
+  if (isMockCrmEnabled(env)) {
+    return {
+      id,
+      baseUrl: `${mockCrmOrigin(env)}/api/mock-crm/${id}`,
+      accessToken: "mock-token",
+      apiVersion: id === "salesforce" ? "v60.0" : undefined,
+      mock: true
+    };
+  }
+
+  switch (id) {
+    case "hubspot":
+      return {
+        id,
+        baseUrl: env.HUBSPOT_BASE_URL?.trim() || "https://api.hubapi.com",
+        accessToken: env.HUBSPOT_ACCESS_TOKEN?.trim() || undefined,
+        mock: false
+      };
+    case "salesforce":
+      return {
+        id,
+        baseUrl: env.SALESFORCE_INSTANCE_URL?.trim().replace(/\/+$/, "") ?? "",
+        accessToken: env.SALESFORCE_ACCESS_TOKEN?.trim() || undefined,
+        apiVersion: env.SALESFORCE_API_VERSION?.trim() || "v60.0",
+        mock: false
+      };
+  }
+}
+
+/** Whether a live push can be attempted; dry runs never need credentials. */
+export function isCrmConfigured(config: CrmConfig) {
+  return Boolean(config.baseUrl && config.accessToken);
+}
@@ -0,0 +1,91 @@
+import type { CrmConfig, CrmConnector, CrmOperation } from "@/lib/crm/types";
+import { taskDueDate } from "@/lib/crm/schedule";
+
+/**
+ * Maps channel plays to marketing campaigns, automation workflows to
+ * disabled contact workflows (one task action per step, so nothing sends
+ * until someone reviews it) and next steps to CRM tasks.
+ */
+export function createHubSpotConnector(config: CrmConfig): CrmConnector {
+  return {
+    id: "hubspot",
+    label: "HubSpot",
+    plan(plan, { name, startDate = new Date() }) {
+      const operations: CrmOperation[] = [];
+
+      plan.channelStrategy.forEach((item, index) => {
+        operations.push({
+          kind: "campaign",
+          source: item.channel,
+          ref: `campaign-${index}`,
+          method: "POST",
+          path: "/marketing/v3/campaigns",
+          body: {
+            properties: {
+              hs_name: `${name} · ${item.channel}`,
+              hs_goal: item.objective,
+              hs_notes: `${item.play}\n\nCadence: ${item.cadence}\n\nSample copy:\n${item.sampleCopy}`,
+              hs_start_date: startDate.toISOString().slice(0, 10)
+            }
+          }
+        });
+      });
+
+      plan.automationWorkflow.forEach((flow) => {
+        operations.push({
+          kind: "workflow",
+          source: flow.name,
+          method: "POST",
+          path: "/automation/v4/flows",
+          body: {
+            name: `${name} · ${flow.name}`,
+            description: `Trigger: ${flow.trigger}`,
+            type: "CONTACT_FLOW",
+            objectTypeId: "0-1",
+            flowType: "WORKFLOW",
+            isEnabled: false,
+            actions: flow.steps.map((step, index) => ({
+              actionId: String(index + 1),
+              actionTypeId: "0-3",
+              type: "SINGLE_CONNECTION",
+              fields: { subject: step, task_type: "TODO" },
+              ...(index < flow.steps.length - 1
+                ? { connection: { edgeType: "STANDARD", nextActionId: String(index + 2) } }
+                : {})
+            }))
+          }
+        });
+      });
+
+      plan.nextSteps.forEach((step, index) => {
+        operations.push({
+          kind: "task",
+          source: step,
+          method: "POST",
+          path: "/crm/v3/objects/tasks",
+          body: {
+            properties: {
+              hs_task_subject: step,
+              hs_task_body: `From the "${name}" lead generation plan.`,
+              hs_task_status: "NOT_STARTED",
+              hs_task_priority: index === 0 ? "HIGH" : "MEDIUM",
+              hs_timestamp: taskDueDate(startDate, index).toISOString()
+            }
+          }
+        });
+      });
+
+      return operations;
+    },
+    headers() {
+      return {
+        Authorization: `Bearer ${config.accessToken ?? ""}`,
+        "Content-Type": "application/json"
+      };
+    },
+    readId(response) {
+      const id = (response as { id?: unknown } | null)?.id;
+      return id === undefined ? undefined : String(id);
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { createHubSpotConnector } from "@/lib/crm/hubspot";
+import { createSalesforceConnector } from "@/lib/crm/salesforce";
+import type {
+  CrmConfig,
+  CrmConnector,
+  CrmOperation,
+  CrmPushResult
+} from "@/lib/crm/types";
+
+export { isCrmConfigured, isMockCrmEnabled, resolveCrmConfig } from "@/lib/crm/config";
+export { crmConnectorIds } from "@/lib/crm/types";
+export type {
+  CrmConfig,
+  CrmConnector,
+  CrmConnectorId,
+  CrmOperation,
+  CrmPushResult
+} from "@/lib/crm/types";
+
+export function createCrmConnector(config: CrmConfig): CrmConnector {
+  switch (config.id) {
+    case "hubspot":
+      return createHubSpotConnector(config);
+    case "salesforce":
+      return createSalesforceConnector(config);
+  }
+}
+
+const refPattern = /^\$ref:(.+)$/;
+
+function resolveRefs(value: unknown, ids: Map<string, string>): unknown {
+  if (typeof value === "string") {
+    const match = value.match(refPattern);
+    return match ? ids.get(match[1]) ?? null : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveRefs(item, ids));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveRefs(item, ids)])
+    );
+  }
+  return value;
+}
+
+async function readError(response: Response) {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    const message = Array.isArray(body) ? body[0]?.message : body?.message;
+    return typeof message === "string" ? message : text.slice(0, 300);
+  } catch {
+    return text.slice(0, 300) || response.statusText;
+  }
+}
+
+/**
+ * Sends operations in order so later records can reference ids created by
+ * earlier ones. A failed call is reported and the push continues.
+ */
+export async function pushOperations(
+  config: CrmConfig,
+  connector: CrmConnector,
+  operations: CrmOperation[],
+  signal?: AbortSignal
+): Promise<CrmPushResult[]> {
+  const ids = new Map<string, string>();
+  const results: CrmPushResult[] = [];
+
+  for (const operation of operations) {
+    const summary = { kind: operation.kind, source: operation.source };
+    try {
+      const response = await fetch(`${config.baseUrl}${operation.path}`, {
+        method: operation.method,
+        headers: connector.headers(),
+        body: JSON.stringify(resolveRefs(operation.body, ids)),
+        signal
+      });
+
+      if (!response.ok) {
+        results.push({
+          ...summary,
+          ok: false,
+          status: response.status,
+          error: await readError(response)
+        });
+        continue;
+      }
+
+      const id = connector.readId(await response.json().catch(() => null));
+      if (id && operation.ref) ids.set(operation.ref, id);
+      results.push({ ...summary, ok: true, status: response.status, id });
+    } catch (error) {
+      results.push({
+        ...summary,
+        ok: false,
+        status: 0,
+        error: error instanceof Error ? error.message : "Request failed"
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import type { CrmConnectorId } from "@/lib/crm/types";
+
+export interface MockCrmRequest {
+  id: string;
+  connector: CrmConnectorId;
+  method: string;
+  path: string;
+  body: unknown;
+  receivedAt: string;
+}
+
+interface MockCrmState {
+  requests: MockCrmRequest[];
+  sequence: number;
+}
+
+const MAX_RECORDED = 500;
+
+/** Kept on `globalThis` so dev-server reloads do not drop recorded requests. */
+function state(): MockCrmState {
+  const scope = globalThis as typeof globalThis & { __mockCrm?: MockCrmState };
+  scope.__mockCrm ??= { requests: [], sequence: 0 };
+  return scope.__mockCrm;
+}
+
+function salesforceId(path: string, sequence: number) {
+  const prefix = path.includes("/Campaign")
+    ? "701"
+    : path.includes("/Task")
+      ? "00T"
+      : path.includes("/Flow")
+        ? "301"
+        : "001";
+  return `${prefix}MOCK${String(sequence).padStart(11, "0")}`;
+}
+
+/**
+ * Records a request and answers the way the real API does on success:
+ * HubSpot echoes the object with a numeric id, Salesforce returns
+ * `{ id, success, errors }`.
+ */
+export function recordMockRequest(
+  connector: CrmConnectorId,
+  method: string,
+  path: string,
+  body: unknown
+) {
+  const current = state();
+  current.sequence += 1;
+  current.requests.push({
+    id: randomUUID(),
+    connector,
+    method,
+    path,
+    body,
+    receivedAt: new Date().toISOString()
+  });
+  current.requests.splice(0, Math.max(0, current.requests.length - MAX_RECORDED));
+
+  if (connector === "salesforce") {
+    return { id: salesforceId(path, current.sequence), success: true, errors: [] };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: String(100000 + current.sequence),
+    ...(body && typeof body === "object" ? body : {}),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function listMockRequests(connector?: CrmConnectorId) {
+  return state().requests.filter(
+    (request) => !connector || request.connector === connector
+  );
+}
+
+export function resetMockCrm() {
+  const current = state();
+  current.requests = [];
+  current.sequence = 0;
+}
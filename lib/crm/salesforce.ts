@@ -0,0 +1,105 @@
+import type { Channel } from "@/lib/schemas";
+import type { CrmConfig, CrmConnector, CrmOperation } from "@/lib/crm/types";
+import { taskDueDate } from "@/lib/crm/schedule";
+
+/** Values from the standard Campaign `Type` picklist. */
+const campaignTypes: Record<Channel, string> = {
+  "Cold email": "Email",
+  "LinkedIn outreach": "Other",
+  Webinars: "Webinar",
+  "Content syndication": "Other",
+  "Paid social": "Advertisement",
+  "Partner referrals": "Partners",
+  "Events & field": "Conference",
+  "SEO / inbound": "Other"
+};
+
+/** Salesforce caps Campaign.Name at 80 and Task.Subject at 255 characters. */
+function truncate(value: string, max: number) {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/**
+ * Maps channel plays to planned, inactive Campaigns, automation workflows to
+ * draft autolaunched Flows through the Tooling API, and next steps to Tasks
+ * related to the first campaign.
+ */
+export function createSalesforceConnector(config: CrmConfig): CrmConnector {
+  const root = `/services/data/${config.apiVersion ?? "v60.0"}`;
+
+  return {
+    id: "salesforce",
+    label: "Salesforce",
+    plan(plan, { name, startDate = new Date() }) {
+      const operations: CrmOperation[] = [];
+
+      plan.channelStrategy.forEach((item, index) => {
+        operations.push({
+          kind: "campaign",
+          source: item.channel,
+          ref: `campaign-${index}`,
+          method: "POST",
+          path: `${root}/sobjects/Campaign`,
+          body: {
+            Name: truncate(`${name} · ${item.channel}`, 80),
+            Type: campaignTypes[item.channel as Channel] ?? "Other",
+            Status: "Planned",
+            IsActive: false,
+            StartDate: startDate.toISOString().slice(0, 10),
+            Description: `${item.objective}\n\n${item.play}\n\nCadence: ${item.cadence}`
+          }
+        });
+      });
+
+      plan.automationWorkflow.forEach((flow) => {
+        operations.push({
+          kind: "workflow",
+          source: flow.name,
+          method: "POST",
+          path: `${root}/tooling/sobjects/Flow`,
+          body: {
+            FullName: flow.name.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, ""),
+            Metadata: {
+              label: truncate(`${name} · ${flow.name}`, 80),
+              processType: "AutoLaunchedFlow",
+              status: "Draft",
+              description: [
+                `Trigger: ${flow.trigger}`,
+                ...flow.steps.map((step, index) => `${index + 1}. ${step}`)
+              ].join("\n")
+            }
+          }
+        });
+      });
+
+      plan.nextSteps.forEach((step, index) => {
+        operations.push({
+          kind: "task",
+          source: step,
+          method: "POST",
+          path: `${root}/sobjects/Task`,
+          body: {
+            Subject: truncate(step, 255),
+            Description: `From the "${name}" lead generation plan.`,
+            Status: "Not Started",
+            Priority: index === 0 ? "High" : "Normal",
+            ActivityDate: taskDueDate(startDate, index).toISOString().slice(0, 10),
+            ...(plan.channelStrategy.length ? { WhatId: "$ref:campaign-0" } : {})
+          }
+        });
+      });
+
+      return operations;
+    },
+    headers() {
+      return {
+        Authorization: `Bearer ${config.accessToken ?? ""}`,
+        "Content-Type": "application/json"
+      };
+    },
+    readId(response) {
+      const id = (response as { id?: unknown } | null)?.id;
+      return typeof id === "string" ? id : undefined;
+    }
+  };
+}
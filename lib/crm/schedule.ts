@@ -0,0 +1,6 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Spreads next steps two days apart so they land as a working sequence. */
+export function taskDueDate(startDate: Date, index: number) {
+  return new Date(startDate.getTime() + (index * 2 + 1) * DAY_MS);
+}
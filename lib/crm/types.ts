@@ -0,0 +1,57 @@
+import type { LeadPlan } from "@/lib/types";
+
+export const crmConnectorIds = ["hubspot", "salesforce"] as const;
+
+export type CrmConnectorId = (typeof crmConnectorIds)[number];
+
+export type CrmRecordKind = "campaign" | "workflow" | "task";
+
+export interface CrmConfig {
+  id: CrmConnectorId;
+  baseUrl: string;
+  accessToken?: string;
+  apiVersion?: string;
+  /** Requests go to the bundled mock CRM instead of the vendor API. */
+  mock: boolean;
+}
+
+/**
+ * One API call a push will make. String values of the form `$ref:<key>` in
+ * `body` are replaced with the id returned by the operation with that `ref`.
+ */
+export interface CrmOperation {
+  kind: CrmRecordKind;
+  /** The plan item this record comes from, e.g. a channel or workflow name. */
+  source: string;
+  ref?: string;
+  method: "POST";
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface CrmPushResult {
+  kind: CrmRecordKind;
+  source: string;
+  ok: boolean;
+  status: number;
+  id?: string;
+  error?: string;
+}
+
+export interface CrmPlanOptions {
+  /** Campaign name prefix, usually the plan or business name. */
+  name: string;
+  /** Anchor for task due dates; defaults to now. */
+  startDate?: Date;
+}
+
+export interface CrmConnector {
+  id: CrmConnectorId;
+  label: string;
+  /** Builds the exact requests a push would send, without sending them. */
+  plan(plan: LeadPlan, options: CrmPlanOptions): CrmOperation[];
+  /** Authorization and content headers for every request. */
+  headers(): Record<string, string>;
+  /** Pulls the created record's id out of a successful response body. */
+  readId(response: unknown): string | undefined;
+}
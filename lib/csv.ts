@@ -0,0 +1,69 @@
+// Spreadsheets run text starting with these as formulas; model output lands in
+// these cells, so such text is prefixed with a quote to keep it literal.
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number) {
+  const text = typeof value === "string" && formulaPrefix.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * RFC 4180 parser: quoted cells may contain commas, doubled quotes and line
+ * breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length) endRow();
+
+  return rows;
+}
+
+/** Parses a CSV with a header row into one record per data row. */
+export function parseCsvRecords(text: string) {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = header.map((column) => column.trim());
+  return {
+    columns,
+    records: rows.map((row) =>
+      Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? "").trim()]))
+    )
+  };
+}
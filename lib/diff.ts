@@ -0,0 +1,255 @@
+import type { LeadPlan, PlanSectionKey } from "@/lib/types";
+import { planSectionKeys } from "@/lib/types";
+
+export type ChangeStatus = "added" | "removed" | "modified" | "unchanged";
+
+export interface TextSegment {
+  kind: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface ListEntryDiff {
+  status: Exclude<ChangeStatus, "modified">;
+  value: string;
+}
+
+export type FieldDiff =
+  | {
+      field: string;
+      kind: "text";
+      status: ChangeStatus;
+      before: string;
+      after: string;
+      segments: TextSegment[];
+    }
+  | {
+      field: string;
+      kind: "list";
+      status: ChangeStatus;
+      entries: ListEntryDiff[];
+    };
+
+export interface ItemDiff {
+  key: string;
+  status: ChangeStatus;
+  fields: FieldDiff[];
+}
+
+export type SectionDiff =
+  | { section: PlanSectionKey; kind: "fields"; status: ChangeStatus; fields: FieldDiff[] }
+  | { section: PlanSectionKey; kind: "items"; status: ChangeStatus; items: ItemDiff[] }
+  | { section: PlanSectionKey; kind: "list"; status: ChangeStatus; entries: ListEntryDiff[] };
+
+type Row = Record<string, string | number | unknown[]>;
+
+/**
+ * How entries of each array section are paired across versions. Entries with
+ * no counterpart are reported as added or removed.
+ */
+const itemKeys: Partial<Record<PlanSectionKey, string>> = {
+  messagingPillars: "title",
+  channelStrategy: "channel",
+  outreachSequences: "channel",
+  automationWorkflow: "name",
+  experiments: "hypothesis"
+};
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * Word-level diff using a longest-common-subsequence table. Plan copy is short
+ * enough that the quadratic table is not a concern.
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const table: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (kind: TextSegment["kind"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+export function diffList(before: string[], after: string[]): ListEntryDiff[] {
+  const afterSet = new Set(after);
+  const beforeSet = new Set(before);
+  const entries: ListEntryDiff[] = [];
+
+  for (const value of before) {
+    entries.push({
+      status: afterSet.has(value) ? "unchanged" : "removed",
+      value
+    });
+  }
+  for (const value of after) {
+    if (!beforeSet.has(value)) {
+      entries.push({ status: "added", value });
+    }
+  }
+
+  return entries;
+}
+
+function rollup(statuses: ChangeStatus[]): ChangeStatus {
+  return statuses.every((status) => status === "unchanged")
+    ? "unchanged"
+    : "modified";
+}
+
+/**
+ * Flattens nested entries such as sequence steps into one comparable line, so
+ * a change to any of their text fields shows up as a removed/added pair.
+ */
+function describeEntry(entry: unknown): string {
+  if (typeof entry === "string") return entry;
+  if (entry && typeof entry === "object") {
+    return Object.entries(entry)
+      .filter(([, value]) => typeof value === "string" || typeof value === "number")
+      .map(([key, value]) =>
+        key === "day" ? `Day ${value}` : key === "share" ? `${value}%` : String(value)
+      )
+      .filter(Boolean)
+      .join(" · ");
+  }
+  return String(entry);
+}
+
+function diffField(
+  field: string,
+  before: string | number | unknown[] | undefined,
+  after: string | number | unknown[] | undefined
+): FieldDiff {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const entries = diffList(
+      Array.isArray(before) ? before.map(describeEntry) : [],
+      Array.isArray(after) ? after.map(describeEntry) : []
+    );
+    return {
+      field,
+      kind: "list",
+      status: rollup(entries.map((entry) => entry.status)),
+      entries
+    };
+  }
+
+  const beforeText = before === undefined ? "" : String(before);
+  const afterText = after === undefined ? "" : String(after);
+  return {
+    field,
+    kind: "text",
+    status: beforeText === afterText ? "unchanged" : "modified",
+    before: beforeText,
+    after: afterText,
+    segments: diffText(beforeText, afterText)
+  };
+}
+
+function diffRow(before: Row | undefined, after: Row | undefined) {
+  const fields = Array.from(
+    new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  );
+  return fields.map((field) => diffField(field, before?.[field], after?.[field]));
+}
+
+function diffItems(before: Row[], after: Row[], keyField: string): ItemDiff[] {
+  const afterByKey = new Map(after.map((row) => [String(row[keyField]), row]));
+  const beforeKeys = new Set(before.map((row) => String(row[keyField])));
+  const items: ItemDiff[] = [];
+
+  for (const row of before) {
+    const key = String(row[keyField]);
+    const match = afterByKey.get(key);
+    if (!match) {
+      items.push({ key, status: "removed", fields: diffRow(row, undefined) });
+      continue;
+    }
+    const fields = diffRow(row, match);
+    items.push({
+      key,
+      status: rollup(fields.map((field) => field.status)),
+      fields
+    });
+  }
+
+  for (const row of after) {
+    const key = String(row[keyField]);
+    if (!beforeKeys.has(key)) {
+      items.push({ key, status: "added", fields: diffRow(undefined, row) });
+    }
+  }
+
+  return items;
+}
+
+export function diffPlans(before: LeadPlan, after: LeadPlan): SectionDiff[] {
+  return planSectionKeys.map((section): SectionDiff => {
+    const a = before[section];
+    const b = after[section];
+    const keyField = itemKeys[section];
+
+    if (keyField) {
+      const items = diffItems(a as Row[], b as Row[], keyField);
+      return {
+        section,
+        kind: "items",
+        status: rollup(items.map((item) => item.status)),
+        items
+      };
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const entries = diffList(a as string[], b as string[]);
+      return {
+        section,
+        kind: "list",
+        status: rollup(entries.map((entry) => entry.status)),
+        entries
+      };
+    }
+
+    const fields = diffRow(a as Row, b as Row);
+    return {
+      section,
+      kind: "fields",
+      status: rollup(fields.map((field) => field.status)),
+      fields
+    };
+  });
+}
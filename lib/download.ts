@@ -0,0 +1,13 @@
+import type { ExportFile } from "@/lib/export";
+
+/** Saves a generated file from the browser without a server round trip. */
+export function downloadFile(file: ExportFile) {
+  const url = URL.createObjectURL(
+    new Blob([file.body], { type: file.contentType })
+  );
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = file.filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
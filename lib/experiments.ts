@@ -0,0 +1,320 @@
+import type { ExperimentVariant, TrackedExperiment } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+
+type PlanExperiment = LeadPlan["experiments"][number];
+
+export const experimentCountFields = ["sends", "replies", "meetings"] as const;
+
+export type ExperimentCountField = (typeof experimentCountFields)[number];
+
+export const experimentMetricOptions = ["reply_rate", "meeting_rate", "meetings_per_reply"] as const;
+
+export type ExperimentMetric = (typeof experimentMetricOptions)[number];
+
+export const experimentMetrics: Record<
+  ExperimentMetric,
+  { label: string; conversions: ExperimentCountField; trials: ExperimentCountField }
+> = {
+  reply_rate: { label: "Reply rate (replies / sends)", conversions: "replies", trials: "sends" },
+  meeting_rate: { label: "Meeting rate (meetings / sends)", conversions: "meetings", trials: "sends" },
+  meetings_per_reply: {
+    label: "Reply-to-meeting rate (meetings / replies)",
+    conversions: "meetings",
+    trials: "replies"
+  }
+};
+
+export const experimentStatusOptions = ["draft", "running", "completed"] as const;
+
+export type ExperimentStatus = (typeof experimentStatusOptions)[number];
+
+/** Two-sided significance level used for every verdict. */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Statistical power assumed by sample-size estimates. */
+export const TARGET_POWER = 0.8;
+
+/** Below this many trials per variant the normal approximations are not trusted. */
+const MIN_TRIALS = 30;
+
+/** Picks the counted metric that best matches the plan's free-text metric. */
+export function guessExperimentMetric(metric: string): ExperimentMetric {
+  if (/meeting|call|demo|booked/i.test(metric)) {
+    return /repl/i.test(metric) && /per|\//.test(metric) ? "meetings_per_reply" : "meeting_rate";
+  }
+  return "reply_rate";
+}
+
+function emptyVariant(label: string, description: string): ExperimentVariant {
+  return { id: label, label, description, sends: 0, replies: 0, meetings: 0 };
+}
+
+/** Turns a plan experiment into a draft with a control and one challenger. */
+export function trackExperiment(source: PlanExperiment, id: string): TrackedExperiment {
+  return {
+    id,
+    hypothesis: source.hypothesis,
+    experiment: source.experiment,
+    metric: source.metric,
+    primaryMetric: guessExperimentMetric(source.metric),
+    status: "draft",
+    startDate: null,
+    endDate: null,
+    minimumDetectableLift: 0.2,
+    variants: [emptyVariant("A", "Control"), emptyVariant("B", "Challenger")]
+  };
+}
+
+/** Drafts for plan experiments that are not tracked yet, matched on hypothesis. */
+export function untrackedExperiments(plan: LeadPlan, tracked: TrackedExperiment[]) {
+  const known = new Set(tracked.map((experiment) => experiment.hypothesis.trim().toLowerCase()));
+  const stamp = Date.now().toString(36);
+  return plan.experiments
+    .filter((experiment) => !known.has(experiment.hypothesis.trim().toLowerCase()))
+    .map((experiment, index) => trackExperiment(experiment, `exp-${stamp}-${index + 1}`));
+}
+
+/** Next unused variant letter: A, B, C... */
+export function nextVariantLabel(variants: ExperimentVariant[]) {
+  const used = new Set(variants.map((variant) => variant.label));
+  for (let code = 65; code < 91; code++) {
+    const label = String.fromCharCode(code);
+    if (!used.has(label)) return label;
+  }
+  return `V${variants.length + 1}`;
+}
+
+export function addVariant(experiment: TrackedExperiment): TrackedExperiment {
+  const label = nextVariantLabel(experiment.variants);
+  const ids = new Set(experiment.variants.map((variant) => variant.id));
+  let id = label;
+  for (let suffix = 2; ids.has(id); suffix++) id = `${label}${suffix}`;
+  return { ...experiment, variants: [...experiment.variants, { ...emptyVariant(label, ""), id }] };
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to ~1e-7, plenty for a verdict.
+function erf(x: number) {
+  const sign = Math.sign(x);
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+export function normalCdf(z: number) {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation). */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    const numerator = ((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5];
+    const denominator = (((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1;
+    return numerator / denominator;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  const numerator = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q;
+  const denominator = ((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1;
+  return numerator / denominator;
+}
+
+/** Wilson score interval; unlike the normal interval it behaves near 0% and 100%. */
+export function wilsonInterval(conversions: number, trials: number, confidence = 1 - SIGNIFICANCE_LEVEL) {
+  if (trials === 0) return { low: 0, high: 0 };
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const rate = conversions / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = rate + (z * z) / (2 * trials);
+  const margin = z * Math.sqrt((rate * (1 - rate)) / trials + (z * z) / (4 * trials * trials));
+  return {
+    low: Math.max(0, (center - margin) / denominator),
+    high: Math.min(1, (center + margin) / denominator)
+  };
+}
+
+/** Pooled two-proportion z-test; returns the two-sided p-value. */
+export function twoProportionPValue(
+  control: { conversions: number; trials: number },
+  challenger: { conversions: number; trials: number }
+) {
+  if (control.trials === 0 || challenger.trials === 0) return 1;
+  const pooled = (control.conversions + challenger.conversions) / (control.trials + challenger.trials);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.trials + 1 / challenger.trials));
+  if (standardError === 0) return 1;
+  const z =
+    (challenger.conversions / challenger.trials - control.conversions / control.trials) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Trials each variant needs to detect a relative lift over the baseline rate
+ * with a two-sided test at `alpha` and the target power.
+ */
+export function requiredSampleSize(baseline: number, relativeLift: number, alpha = SIGNIFICANCE_LEVEL) {
+  const target = Math.min(0.999, baseline * (1 + relativeLift));
+  if (baseline <= 0 || target <= baseline) return null;
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(TARGET_POWER);
+  const average = (baseline + target) / 2;
+  const numerator =
+    zAlpha * Math.sqrt(2 * average * (1 - average)) +
+    zBeta * Math.sqrt(baseline * (1 - baseline) + target * (1 - target));
+  return Math.ceil((numerator * numerator) / ((target - baseline) * (target - baseline)));
+}
+
+export interface VariantResult {
+  id: string;
+  label: string;
+  conversions: number;
+  trials: number;
+  rate: number;
+  interval: { low: number; high: number };
+  /** Relative lift over the control; null for the control itself. */
+  lift: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+export type ExperimentVerdict =
+  | "no_data"
+  | "invalid_counts"
+  | "collecting"
+  | "challenger_wins"
+  | "control_wins"
+  | "not_significant"
+  | "no_difference";
+
+export interface ExperimentAnalysis {
+  metric: ExperimentMetric;
+  variants: VariantResult[];
+  verdict: ExperimentVerdict;
+  summary: string;
+  /** Trials each variant needs, at the observed baseline and the planned minimum lift. */
+  sampleSizePerVariant: number | null;
+  /** Significance level after the Bonferroni correction for several challengers. */
+  alpha: number;
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Compares every challenger with the first variant (the control). With more
+ * than one challenger the significance level is split between them so that
+ * running extra variants does not manufacture a winner.
+ */
+export function analyzeExperiment(experiment: TrackedExperiment): ExperimentAnalysis {
+  const metric = experimentMetrics[experiment.primaryMetric];
+  const challengers = Math.max(1, experiment.variants.length - 1);
+  const alpha = SIGNIFICANCE_LEVEL / challengers;
+
+  const counts = experiment.variants.map((variant) => ({
+    variant,
+    conversions: variant[metric.conversions],
+    trials: variant[metric.trials]
+  }));
+
+  // More conversions than trials is a data-entry error, not a rate above 100%.
+  const overcounted = counts.filter(({ conversions, trials }) => conversions > trials);
+  if (overcounted.length) {
+    return {
+      metric: experiment.primaryMetric,
+      variants: counts.map(({ variant, conversions, trials }) => ({
+        id: variant.id,
+        label: variant.label,
+        conversions,
+        trials,
+        rate: trials ? conversions / trials : 0,
+        interval: { low: 0, high: 0 },
+        lift: null,
+        pValue: null,
+        significant: false
+      })),
+      verdict: "invalid_counts",
+      summary: `${overcounted.map(({ variant }) => variant.label).join(", ")} ${
+        overcounted.length === 1 ? "has" : "have"
+      } more ${metric.conversions} than ${metric.trials}. Fix the counts to analyze this test.`,
+      sampleSizePerVariant: null,
+      alpha
+    };
+  }
+
+  const control = counts[0];
+  const baseline = control && control.trials ? control.conversions / control.trials : 0;
+
+  const variants: VariantResult[] = counts.map(({ variant, conversions, trials }, index) => {
+    const rate = trials ? conversions / trials : 0;
+    const pValue = index === 0 ? null : twoProportionPValue(control, { conversions, trials });
+    return {
+      id: variant.id,
+      label: variant.label,
+      conversions,
+      trials,
+      rate,
+      interval: wilsonInterval(conversions, trials, 1 - alpha),
+      lift: index === 0 || baseline === 0 ? null : rate / baseline - 1,
+      pValue,
+      significant: pValue !== null && pValue < alpha
+    };
+  });
+
+  const sampleSizePerVariant = requiredSampleSize(baseline, experiment.minimumDetectableLift, alpha);
+  const fewestTrials = Math.min(...variants.map((variant) => variant.trials));
+  const base = { metric: experiment.primaryMetric, variants, sampleSizePerVariant, alpha };
+
+  if (variants.every((variant) => variant.trials === 0)) {
+    return { ...base, verdict: "no_data", summary: "Enter observed counts to analyze this test." };
+  }
+  if (fewestTrials < MIN_TRIALS) {
+    return {
+      ...base,
+      verdict: "collecting",
+      summary: `Collect at least ${MIN_TRIALS} ${metric.trials} per variant before reading results.`
+    };
+  }
+
+  const winners = variants.filter((variant) => variant.significant);
+  const best = winners.sort((a, b) => b.rate - a.rate)[0];
+  if (best) {
+    const controlWins = best.rate < baseline;
+    return {
+      ...base,
+      verdict: controlWins ? "control_wins" : "challenger_wins",
+      summary: controlWins
+        ? `Control ${variants[0].label} beats ${best.label} (${percent(baseline)} vs ${percent(best.rate)}, p = ${best.pValue?.toFixed(3)}).`
+        : `${best.label} beats control ${variants[0].label} by ${percent(best.lift ?? 0)} relative (p = ${best.pValue?.toFixed(3)}).`
+    };
+  }
+
+  if (sampleSizePerVariant !== null && fewestTrials >= sampleSizePerVariant) {
+    return {
+      ...base,
+      verdict: "no_difference",
+      summary: `No significant difference after ${fewestTrials} ${metric.trials} per variant; a ${percent(
+        experiment.minimumDetectableLift
+      )} lift would likely have shown up by now.`
+    };
+  }
+
+  return {
+    ...base,
+    verdict: "not_significant",
+    summary:
+      sampleSizePerVariant === null
+        ? "Not significant yet. The control has no conversions, so the required sample size cannot be estimated."
+        : `Not significant yet. Plan for about ${sampleSizePerVariant} ${metric.trials} per variant (${Math.max(
+            0,
+            sampleSizePerVariant - fewestTrials
+          )} more) to detect a ${percent(experiment.minimumDetectableLift)} lift.`
+  };
+}
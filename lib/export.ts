@@ -0,0 +1,460 @@
+import {
+  buildExecutionCalendar,
+  calendarToIcs,
+  calendarToTaskCsv,
+  type CalendarOptions
+} from "@/lib/calendar";
+import { toCsv } from "@/lib/csv";
+import type { LeadPlan } from "@/lib/types";
+import { planSectionTitles } from "@/lib/types";
+import { compileWorkflows, toN8nWorkflow, toZapierWorkflow } from "@/lib/workflows";
+
+export const exportFormatOptions = [
+  "markdown",
+  "html",
+  "csv-channels",
+  "csv-budget",
+  "csv-sequences",
+  "csv-experiments",
+  "csv-next-steps",
+  "csv-tasks",
+  "calendar-ics",
+  "workflows-n8n",
+  "workflows-zapier"
+] as const;
+
+export type ExportFormat = (typeof exportFormatOptions)[number];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const formatDetails: Record<ExportFormat, { suffix: string; contentType: string }> = {
+  markdown: { suffix: ".md", contentType: "text/markdown; charset=utf-8" },
+  html: { suffix: ".html", contentType: "text/html; charset=utf-8" },
+  "csv-channels": { suffix: "-channels.csv", contentType: "text/csv; charset=utf-8" },
+  "csv-budget": { suffix: "-budget.csv", contentType: "text/csv; charset=utf-8" },
+  "csv-sequences": {
+    suffix: "-sequences.csv",
+    contentType: "text/csv; charset=utf-8"
+  },
+  "csv-experiments": {
+    suffix: "-experiments.csv",
+    contentType: "text/csv; charset=utf-8"
+  },
+  "csv-next-steps": {
+    suffix: "-next-steps.csv",
+    contentType: "text/csv; charset=utf-8"
+  },
+  "csv-tasks": {
+    suffix: "-tasks.csv",
+    contentType: "text/csv; charset=utf-8"
+  },
+  "calendar-ics": {
+    suffix: "-calendar.ics",
+    contentType: "text/calendar; charset=utf-8"
+  },
+  "workflows-n8n": {
+    suffix: "-workflows.n8n.json",
+    contentType: "application/json; charset=utf-8"
+  },
+  "workflows-zapier": {
+    suffix: "-workflows.zapier.json",
+    contentType: "application/json; charset=utf-8"
+  }
+};
+
+export function slugify(value: string) {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "lead-plan"
+  );
+}
+
+function money(value: number) {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+function bullets(items: string[]) {
+  return items.map((item) => `- ${item}`).join("\n");
+}
+
+export function planToMarkdown(plan: LeadPlan, title = "Lead Generation Blueprint") {
+  const { campaignSummary, idealCustomerProfile } = plan;
+  const lines = [
+    `# ${title}`,
+    "",
+    `## ${planSectionTitles.campaignSummary}`,
+    "",
+    `**North star:** ${campaignSummary.northStar}`,
+    "",
+    `**Positioning theme:** ${campaignSummary.positioningTheme}`,
+    "",
+    "**Success metrics**",
+    "",
+    bullets(campaignSummary.successMetrics),
+    "",
+    `## ${planSectionTitles.idealCustomerProfile}`,
+    "",
+    "### Company traits",
+    "",
+    bullets(idealCustomerProfile.companyTraits),
+    "",
+    "### Buyer persona",
+    "",
+    bullets(idealCustomerProfile.buyerPersona),
+    "",
+    "### Pain points",
+    "",
+    bullets(idealCustomerProfile.painPoints),
+    "",
+    `## ${planSectionTitles.messagingPillars}`,
+    ""
+  ];
+
+  for (const pillar of plan.messagingPillars) {
+    lines.push(`### ${pillar.title}`, "", pillar.angle, "", bullets(pillar.proofPoints), "");
+  }
+
+  lines.push(`## ${planSectionTitles.channelStrategy}`, "");
+  for (const item of plan.channelStrategy) {
+    lines.push(
+      `### ${item.channel}`,
+      "",
+      `- **Objective:** ${item.objective}`,
+      `- **Play:** ${item.play}`,
+      `- **Cadence:** ${item.cadence}`,
+      "",
+      "> " + item.sampleCopy.split("\n").join("\n> "),
+      ""
+    );
+  }
+
+  const budget = plan.budgetAllocation;
+  if (budget.channels.length) {
+    lines.push(
+      `## ${planSectionTitles.budgetAllocation}`,
+      "",
+      `**Total:** ${money(budget.total)} ${budget.currency}`,
+      "",
+      "| Channel | Share | Amount | Line items |",
+      "| --- | --- | --- | --- |",
+      ...budget.channels.map(
+        (channel) =>
+          `| ${channel.channel} | ${channel.share}% | ${money(channel.amount)} | ${channel.lineItems
+            .map((item) => `${item.description}: ${money(item.amount)}${item.hours ? ` (${item.hours}h)` : ""}`)
+            .join("<br>")} |`
+      ),
+      ""
+    );
+    if (budget.guardrails.length) {
+      lines.push("**Guardrails**", "", bullets(budget.guardrails), "");
+    }
+  }
+
+  lines.push(`## ${planSectionTitles.outreachSequences}`, "");
+  for (const sequence of plan.outreachSequences) {
+    lines.push(`### ${sequence.channel}`, "");
+    if (sequence.mergeFields.length) {
+      lines.push(
+        `**Merge fields:** ${sequence.mergeFields.map((field) => `\`{{${field}}}\``).join(", ")}`,
+        ""
+      );
+    }
+    for (const step of sequence.steps) {
+      lines.push(
+        `#### Day ${step.day} · ${step.touch}`,
+        "",
+        ...(step.subject ? [`**Subject:** ${step.subject}`, ""] : []),
+        "> " + step.body.split("\n").join("\n> "),
+        ""
+      );
+      for (const variant of step.variants) {
+        lines.push(
+          `*Variant ${variant.label}*${variant.subject ? ` — **Subject:** ${variant.subject}` : ""}`,
+          "",
+          "> " + variant.body.split("\n").join("\n> "),
+          ""
+        );
+      }
+    }
+  }
+
+  lines.push(`## ${planSectionTitles.automationWorkflow}`, "");
+  for (const flow of plan.automationWorkflow) {
+    lines.push(
+      `### ${flow.name}`,
+      "",
+      `**Trigger:** ${flow.trigger}`,
+      "",
+      flow.steps.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+      ""
+    );
+  }
+
+  lines.push(`## ${planSectionTitles.experiments}`, "");
+  lines.push("| Hypothesis | Experiment | Metric |", "| --- | --- | --- |");
+  for (const experiment of plan.experiments) {
+    const cells = [experiment.hypothesis, experiment.experiment, experiment.metric].map(
+      (cell) => cell.replace(/\|/g, "\\|").replace(/\n/g, " ")
+    );
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  lines.push("");
+
+  lines.push(`## ${planSectionTitles.nextSteps}`, "");
+  lines.push(plan.nextSteps.map((step) => `- [ ] ${step}`).join("\n"), "");
+
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function htmlList(items: string[], ordered = false) {
+  const tag = ordered ? "ol" : "ul";
+  return `<${tag}>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+}
+
+const printStyles = `
+  body { font-family: "Inter", system-ui, sans-serif; color: #0f172a; margin: 2.5rem auto; max-width: 52rem; line-height: 1.5; padding: 0 1.5rem; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.25rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin: 1rem 0 0.25rem; }
+  .meta { color: #64748b; font-size: 0.875rem; }
+  .card { border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; break-inside: avoid; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+  .badge { display: inline-block; border: 1px solid #a5b4fc; color: #4338ca; border-radius: 999px; padding: 0 0.5rem; font-size: 0.75rem; }
+  blockquote { background: #f8fafc; border-left: 3px solid #6366f1; margin: 0.5rem 0 0; padding: 0.5rem 0.75rem; white-space: pre-wrap; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { border: 1px solid #e2e8f0; padding: 0.5rem; text-align: left; vertical-align: top; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+`;
+
+export function planToHtml(plan: LeadPlan, title = "Lead Generation Blueprint") {
+  const { campaignSummary, idealCustomerProfile } = plan;
+  const sections = [
+    `<h2>${planSectionTitles.campaignSummary}</h2>
+<p><strong>${escapeHtml(campaignSummary.northStar)}</strong></p>
+<p><em>${escapeHtml(campaignSummary.positioningTheme)}</em></p>
+<h3>Success metrics</h3>${htmlList(campaignSummary.successMetrics)}`,
+    `<h2>${planSectionTitles.idealCustomerProfile}</h2>
+<div class="grid">
+<div><h3>Company traits</h3>${htmlList(idealCustomerProfile.companyTraits)}</div>
+<div><h3>Buyer persona</h3>${htmlList(idealCustomerProfile.buyerPersona)}</div>
+<div><h3>Pain points</h3>${htmlList(idealCustomerProfile.painPoints)}</div>
+</div>`,
+    `<h2>${planSectionTitles.messagingPillars}</h2>
+${plan.messagingPillars
+  .map(
+    (pillar) => `<div class="card"><h3>${escapeHtml(pillar.title)}</h3>
+<p>${escapeHtml(pillar.angle)}</p>${htmlList(pillar.proofPoints)}</div>`
+  )
+  .join("\n")}`,
+    `<h2>${planSectionTitles.channelStrategy}</h2>
+${plan.channelStrategy
+  .map(
+    (item) => `<div class="card"><h3>${escapeHtml(item.channel)} <span class="badge">${escapeHtml(item.cadence)}</span></h3>
+<p>${escapeHtml(item.objective)}</p>
+<p>${escapeHtml(item.play)}</p>
+<blockquote>${escapeHtml(item.sampleCopy)}</blockquote></div>`
+  )
+  .join("\n")}`,
+    plan.budgetAllocation.channels.length
+      ? `<h2>${planSectionTitles.budgetAllocation}</h2>
+<p><strong>Total:</strong> ${money(plan.budgetAllocation.total)} ${escapeHtml(plan.budgetAllocation.currency)}</p>
+<table><thead><tr><th>Channel</th><th>Share</th><th>Amount</th><th>Line items</th></tr></thead><tbody>
+${plan.budgetAllocation.channels
+  .map(
+    (channel) =>
+      `<tr><td>${escapeHtml(channel.channel)}</td><td>${channel.share}%</td><td>${money(channel.amount)}</td><td>${channel.lineItems
+        .map(
+          (item) =>
+            `${escapeHtml(item.description)}: ${money(item.amount)}${item.hours ? ` (${item.hours}h)` : ""}`
+        )
+        .join("<br />")}</td></tr>`
+  )
+  .join("\n")}
+</tbody></table>${plan.budgetAllocation.guardrails.length ? `<h3>Guardrails</h3>${htmlList(plan.budgetAllocation.guardrails)}` : ""}`
+      : "",
+    `<h2>${planSectionTitles.outreachSequences}</h2>
+${plan.outreachSequences
+  .map(
+    (sequence) => `<div class="card"><h3>${escapeHtml(sequence.channel)}</h3>
+${sequence.steps
+  .map(
+    (step) => `<p><span class="badge">Day ${step.day}</span> <strong>${escapeHtml(step.touch)}</strong>${
+      step.subject ? ` — ${escapeHtml(step.subject)}` : ""
+    }</p>
+<blockquote>${escapeHtml(step.body)}</blockquote>${step.variants
+      .map(
+        (variant) => `<p class="meta">Variant ${escapeHtml(variant.label)}${
+          variant.subject ? ` — ${escapeHtml(variant.subject)}` : ""
+        }</p>
+<blockquote>${escapeHtml(variant.body)}</blockquote>`
+      )
+      .join("")}`
+  )
+  .join("\n")}</div>`
+  )
+  .join("\n")}`,
+    `<h2>${planSectionTitles.automationWorkflow}</h2>
+${plan.automationWorkflow
+  .map(
+    (flow) => `<div class="card"><h3>${escapeHtml(flow.name)}</h3>
+<p><strong>Trigger:</strong> ${escapeHtml(flow.trigger)}</p>${htmlList(flow.steps, true)}</div>`
+  )
+  .join("\n")}`,
+    `<h2>${planSectionTitles.experiments}</h2>
+<table><thead><tr><th>Hypothesis</th><th>Experiment</th><th>Metric</th></tr></thead><tbody>
+${plan.experiments
+  .map(
+    (experiment) =>
+      `<tr><td>${escapeHtml(experiment.hypothesis)}</td><td>${escapeHtml(experiment.experiment)}</td><td>${escapeHtml(experiment.metric)}</td></tr>`
+  )
+  .join("\n")}
+</tbody></table>`,
+    `<h2>${planSectionTitles.nextSteps}</h2>${htmlList(plan.nextSteps, true)}`
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${printStyles}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated by Pipeline Pilot · ${new Date().toLocaleDateString("en-US", { dateStyle: "long" })}</p>
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>
+`;
+}
+
+export function planToCsv(
+  plan: LeadPlan,
+  format: Exclude<Extract<ExportFormat, `csv-${string}`>, "csv-tasks">
+) {
+  switch (format) {
+    case "csv-channels":
+      return toCsv([
+        ["Channel", "Objective", "Play", "Cadence", "Sample copy"],
+        ...plan.channelStrategy.map((item) => [
+          item.channel,
+          item.objective,
+          item.play,
+          item.cadence,
+          item.sampleCopy
+        ])
+      ]);
+    case "csv-budget":
+      return toCsv([
+        ["Channel", "Share %", "Channel amount", "Category", "Line item", "Amount", "Hours"],
+        ...plan.budgetAllocation.channels.flatMap((channel) =>
+          channel.lineItems.map((item) => [
+            channel.channel,
+            channel.share,
+            channel.amount,
+            item.category,
+            item.description,
+            item.amount,
+            item.hours
+          ])
+        )
+      ]);
+    case "csv-sequences":
+      return toCsv([
+        ["Channel", "Day", "Touch", "Variant", "Subject", "Body"],
+        ...plan.outreachSequences.flatMap((sequence) =>
+          sequence.steps.flatMap((step) => [
+            [sequence.channel, step.day, step.touch, "A", step.subject, step.body],
+            ...step.variants.map((variant) => [
+              sequence.channel,
+              step.day,
+              step.touch,
+              variant.label,
+              variant.subject,
+              variant.body
+            ])
+          ])
+        )
+      ]);
+    case "csv-experiments":
+      return toCsv([
+        ["Hypothesis", "Experiment", "Metric"],
+        ...plan.experiments.map((experiment) => [
+          experiment.hypothesis,
+          experiment.experiment,
+          experiment.metric
+        ])
+      ]);
+    case "csv-next-steps":
+      return toCsv([
+        ["#", "Next step"],
+        ...plan.nextSteps.map((step, index) => [index + 1, step])
+      ]);
+  }
+}
+
+/** One exported workflow per automation, compiled from the plan's free-text steps. */
+export function planToWorkflowJson(
+  plan: LeadPlan,
+  format: Extract<ExportFormat, `workflows-${string}`>
+) {
+  const workflows = compileWorkflows(plan.automationWorkflow);
+  const exported =
+    format === "workflows-n8n"
+      ? workflows.map(toN8nWorkflow)
+      : workflows.map(toZapierWorkflow);
+  return `${JSON.stringify(exported, null, 2)}\n`;
+}
+
+/**
+ * Calendar formats lay the plan out over a timeframe the plan itself does not
+ * record, so callers pass the request's timeframe (30 days if omitted).
+ */
+export function exportPlan(
+  plan: LeadPlan,
+  format: ExportFormat,
+  title?: string,
+  calendar: CalendarOptions = { timeframe: "30 days" }
+): ExportFile {
+  const { suffix, contentType } = formatDetails[format];
+  const filename = `${slugify(title ?? "lead-plan")}${suffix}`;
+
+  switch (format) {
+    case "markdown":
+      return { filename, contentType, body: planToMarkdown(plan, title) };
+    case "html":
+      return { filename, contentType, body: planToHtml(plan, title) };
+    case "workflows-n8n":
+    case "workflows-zapier":
+      return { filename, contentType, body: planToWorkflowJson(plan, format) };
+    case "calendar-ics":
+      return {
+        filename,
+        contentType,
+        body: calendarToIcs(buildExecutionCalendar(plan, calendar), title)
+      };
+    case "csv-tasks":
+      return {
+        filename,
+        contentType,
+        body: calendarToTaskCsv(buildExecutionCalendar(plan, calendar))
+      };
+    default:
+      return { filename, contentType, body: planToCsv(plan, format) };
+  }
+}
@@ -0,0 +1,180 @@
+import type { Channel, Goal } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+import {
+  describeCadence,
+  goalOutcomes,
+  lowerFirst,
+  sentenceCase,
+  type RuleContext
+} from "@/lib/fallback/context";
+import { headlineProof } from "@/lib/fallback/proof";
+
+type ChannelStrategy = LeadPlan["channelStrategy"][number];
+
+interface ChannelTemplate {
+  baseline: number;
+  unit: string;
+  objective: (goal: Goal) => string;
+  play: (context: RuleContext) => string;
+  copy: (context: RuleContext) => string;
+}
+
+function budgetScope(context: RuleContext, lean: string, balanced: string, aggressive: string) {
+  switch (context.payload.budgetLevel) {
+    case "lean":
+      return lean;
+    case "balanced":
+      return balanced;
+    case "aggressive":
+      return aggressive;
+  }
+}
+
+export function proofLine(context: RuleContext) {
+  const proof = headlineProof(context.proof);
+  return proof ? `${proof.charAt(0).toUpperCase()}${proof.slice(1)}.` : "";
+}
+
+const templates: Record<Channel, ChannelTemplate> = {
+  "Cold email": {
+    baseline: 3,
+    unit: "email step",
+    objective: (goal) => `Turn targeted outbound into ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Hand-research 50 accounts per week and run a 3-step plain-text sequence.",
+        "Enrich 150 accounts per week with intent signals and run a 4-step sequence with one A/B subject test.",
+        "Layer intent data, job-change triggers and dedicated sending domains across 300+ accounts per week with a 5-step sequence."
+      ),
+    copy: (context) =>
+      [
+        context.tone.greeting("{{first_name}}"),
+        "",
+        `${context.tone.opener} ${proofLine(context)}`.trim(),
+        "",
+        `Quick context: ${sentenceCase(context.payload.productDescription)}.`,
+        context.payload.offer,
+        "",
+        context.tone.ctaVerb,
+        "",
+        context.tone.signOff,
+        "{{sender_name}}"
+      ].join("\n")
+  },
+  "LinkedIn outreach": {
+    baseline: 5,
+    unit: "touch",
+    objective: (goal) => `Warm up buyers socially before asking for ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Founder-led connection requests plus two thoughtful comments per prospect before a DM.",
+        "Connection note, value DM with a relevant asset, then a voice note follow-up for accepted connections.",
+        "Sales Navigator lead lists, sponsored InMail to non-responders and a reps-plus-exec multi-threading play."
+      ),
+    copy: ({ tone, payload, proof }) =>
+      `${tone.greeting("{{first_name}}")} I'm connecting with ${payload.industry} leaders at companies like {{company}}. ${
+        proof.references[0] ? `We work with ${proof.references[0]} on similar goals. ` : ""
+      }Would love to connect.`
+  },
+  Webinars: {
+    baseline: 2,
+    unit: "promo push",
+    objective: (goal) => `Educate the category and convert attendees into ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "One 30-minute live teardown promoted to your existing list and LinkedIn network.",
+        "Monthly webinar with a customer guest, promoted via email, LinkedIn and partner newsletters.",
+        "Co-hosted webinar series with a partner, paid promotion and SDR follow-up within 24 hours of attendance."
+      ),
+    copy: ({ tone, payload, proof }) =>
+      `${tone.greeting("{{first_name}}")} we're hosting a live session for ${payload.industry} teams on ${
+        proof.claims[0] ? lowerFirst(proof.claims[0]) : "getting more from their pipeline"
+      }. Save your seat: {{webinar_link}}`
+  },
+  "Content syndication": {
+    baseline: 1,
+    unit: "asset drop",
+    objective: (goal) => `Capture in-market readers and nurture them toward ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Repurpose one flagship guide into gated and ungated formats on your own channels.",
+        "Syndicate a benchmark report through two niche publishers with lead-quality filters.",
+        "Run a multi-publisher CPL program with strict ICP filters and a 3-touch nurture for every download."
+      ),
+    copy: ({ payload }) =>
+      `New guide for ${payload.industry} leaders: what top teams do differently. Download the playbook — ${payload.offer}`
+  },
+  "Paid social": {
+    baseline: 1,
+    unit: "creative test",
+    objective: (goal) => `Generate demand at scale and retarget engaged visitors into ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Retarget website visitors and email engagers only, with two static creatives.",
+        "Retargeting plus matched-audience campaigns for target accounts, refreshing creative every two weeks.",
+        "Full-funnel: thought-leader ads, conversation ads and lead-gen forms across a 1,000-account ABM list."
+      ),
+    copy: ({ payload, proof }) =>
+      `${proof.metrics[0] ? `${proof.metrics[0].trim()}. ` : ""}${payload.businessName}: ${lowerFirst(payload.uniqueValue).split(/[,.]/)[0]}. ${payload.offer}`
+  },
+  "Partner referrals": {
+    baseline: 1,
+    unit: "partner sync",
+    objective: (goal) => `Borrow partner trust to source warm ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        `Ask ${context.proof.references[0] ?? "your top two partners"} for three warm intros each, with a co-branded one-pager.`,
+        "Launch a referral program with tracked links, a partner-facing offer and a monthly pipeline review.",
+        "Co-marketing campaigns with tiered referral fees, joint webinars and shared account mapping."
+      ),
+    copy: ({ tone, payload }) =>
+      `${tone.greeting("{{partner_name}}")} a few of your clients look like a great fit for ${payload.businessName}. Open to a quick intro swap? ${payload.offer}`
+  },
+  "Events & field": {
+    baseline: 1,
+    unit: "event",
+    objective: (goal) => `Create face time with decision makers and convert it into ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Attend one industry meetup and pre-book five meetings via LinkedIn.",
+        "Host a small roundtable dinner for 10–12 target accounts.",
+        "Sponsor a flagship industry event with a booth, a speaking slot and a VIP dinner."
+      ),
+    copy: ({ tone, payload }) =>
+      `${tone.greeting("{{first_name}}")} we're hosting a small ${payload.industry} roundtable and saving a seat for {{company}}. ${tone.ctaVerb}`
+  },
+  "SEO / inbound": {
+    baseline: 2,
+    unit: "article",
+    objective: (goal) => `Capture high-intent searchers and convert them into ${goalOutcomes[goal]}.`,
+    play: (context) =>
+      budgetScope(
+        context,
+        "Publish comparison and 'how to' pages targeting bottom-funnel keywords.",
+        "Build a topic cluster around the core pain point with a gated template as the conversion point.",
+        "Programmatic landing pages per use case plus digital PR to build authority."
+      ),
+    copy: ({ payload }) =>
+      `${payload.businessName} vs. the status quo: ${lowerFirst(payload.uniqueValue).split(/[,.]/)[0]}. ${payload.offer}`
+  }
+};
+
+export function buildChannelStrategy(context: RuleContext): ChannelStrategy[] {
+  return context.payload.channels.map((channel) => {
+    const template = templates[channel as Channel];
+    return {
+      channel,
+      objective: template.objective(context.primaryGoal),
+      play: template.play(context),
+      cadence: describeCadence(context, template.baseline, template.unit),
+      sampleCopy: template.copy(context)
+    };
+  });
+}
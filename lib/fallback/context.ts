@@ -0,0 +1,94 @@
+import type { Goal, LeadRequest } from "@/lib/schemas";
+import { extractProof, type ProofPoints } from "@/lib/fallback/proof";
+import { toneProfiles, type ToneProfile } from "@/lib/fallback/tone";
+import { localeProfiles, toneRegister } from "@/lib/locales";
+
+export const goalOutcomes: Record<Goal, string> = {
+  "Book discovery calls": "discovery calls",
+  "Increase demo requests": "demo requests",
+  "Grow newsletter subscribers": "newsletter subscribers",
+  "Drive free trial sign-ups": "free trial sign-ups",
+  "Re-engage closed-lost deals": "re-opened opportunities",
+  "Expand within existing accounts": "expansion conversations"
+};
+
+export interface RuleContext {
+  payload: LeadRequest;
+  tone: ToneProfile;
+  /** Closing line that lets a prospect stop further emails, in the plan's language. */
+  optOut: string;
+  proof: ProofPoints;
+  primaryGoal: Goal;
+  /** Budget multiplier applied to touch volume and program scope. */
+  intensity: number;
+  weeks: number;
+}
+
+export const budgetIntensity: Record<LeadRequest["budgetLevel"], number> = {
+  lean: 0.6,
+  balanced: 1,
+  aggressive: 1.5
+};
+
+export const timeframeWeeks: Record<LeadRequest["timeframe"], number> = {
+  "2 weeks": 2,
+  "30 days": 4,
+  "90 days": 13
+};
+
+const englishOptOut = `Not the right time? Reply "no thanks" and I won't follow up.`;
+
+export function createRuleContext(payload: LeadRequest): RuleContext {
+  const tone = toneProfiles[payload.tone];
+  // Templates stay English; only the copy frame around them is localized.
+  const phrases = localeProfiles[payload.locale].phrases?.[toneRegister(payload.tone)];
+  return {
+    payload,
+    tone: phrases
+      ? {
+          ...tone,
+          greeting: phrases.greeting,
+          opener: phrases.opener,
+          ctaVerb: phrases.ctaVerb,
+          signOff: phrases.signOff
+        }
+      : tone,
+    optOut: phrases?.optOut ?? englishOptOut,
+    proof: extractProof(payload.uniqueValue, payload.notes, payload.brand),
+    primaryGoal: payload.goals[0],
+    intensity: budgetIntensity[payload.budgetLevel],
+    weeks: timeframeWeeks[payload.timeframe]
+  };
+}
+
+/**
+ * Scales a channel's baseline weekly touches by budget, and compresses short
+ * windows so a two-week sprint front-loads activity.
+ */
+export function weeklyTouches(context: RuleContext, baseline: number) {
+  const sprintBoost = context.weeks <= 2 ? 1.25 : 1;
+  return Math.max(1, Math.round(baseline * context.intensity * sprintBoost));
+}
+
+function pluralize(unit: string, count: number) {
+  if (count === 1) return unit;
+  return /(s|sh|ch|x)$/.test(unit) ? `${unit}es` : `${unit}s`;
+}
+
+export function describeCadence(context: RuleContext, baseline: number, unit: string) {
+  const perWeek = weeklyTouches(context, baseline);
+  const total = perWeek * context.weeks;
+  return `${perWeek} ${pluralize(unit, perWeek)}/week · ~${total} over ${context.payload.timeframe}`;
+}
+
+export function sentenceCase(value: string) {
+  const trimmed = value.trim().replace(/[.\s]+$/, "");
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+export function lowerFirst(value: string) {
+  const trimmed = value.trim().replace(/[.\s]+$/, "");
+  return /^[A-Z][a-z]/.test(trimmed)
+    ? trimmed.charAt(0).toLowerCase() + trimmed.slice(1)
+    : trimmed;
+}
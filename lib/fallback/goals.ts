@@ -0,0 +1,121 @@
+import type { Goal } from "@/lib/schemas";
+import type { LeadPlan } from "@/lib/types";
+import type { RuleContext } from "@/lib/fallback/context";
+
+type Experiment = LeadPlan["experiments"][number];
+type Workflow = LeadPlan["automationWorkflow"][number];
+
+const goalExperiments: Record<Goal, (context: RuleContext) => Experiment[]> = {
+  "Book discovery calls": ({ payload }) => [
+    {
+      hypothesis: "A specific, low-effort offer books more calls than a generic meeting ask.",
+      experiment: `Test "${payload.offer}" against a plain "15 minutes to compare notes?" CTA.`,
+      metric: "Meetings booked per 100 prospects"
+    }
+  ],
+  "Increase demo requests": () => [
+    {
+      hypothesis: "Showing the product earlier increases demo intent.",
+      experiment: "Add a 90-second product walkthrough GIF to the second touch versus text only.",
+      metric: "Demo request rate"
+    }
+  ],
+  "Grow newsletter subscribers": () => [
+    {
+      hypothesis: "A content upgrade converts better than a generic subscribe prompt.",
+      experiment: "Offer a downloadable checklist in exchange for subscribing versus a plain signup box.",
+      metric: "Subscriber conversion rate"
+    }
+  ],
+  "Drive free trial sign-ups": () => [
+    {
+      hypothesis: "Removing the credit card requirement lifts trial starts without hurting activation.",
+      experiment: "Split landing traffic between card-required and no-card trial flows.",
+      metric: "Trial starts and day-7 activation"
+    }
+  ],
+  "Re-engage closed-lost deals": ({ proof }) => [
+    {
+      hypothesis: "Leading with what changed since the loss revives stalled deals.",
+      experiment: `Send a "what's new" email${
+        proof.references[0] ? ` featuring ${proof.references[0]}` : ""
+      } versus a simple check-in to closed-lost contacts.`,
+      metric: "Re-opened opportunities"
+    }
+  ],
+  "Expand within existing accounts": () => [
+    {
+      hypothesis: "Usage-based triggers find expansion-ready accounts earlier than calendar QBRs.",
+      experiment: "Alert CSMs when an account passes 80% of plan limits versus waiting for the QBR.",
+      metric: "Expansion pipeline created"
+    }
+  ]
+};
+
+const toneExperiment = ({ payload }: RuleContext): Experiment => ({
+  hypothesis: `A ${payload.tone.toLowerCase()} voice resonates more than a neutral one with this audience.`,
+  experiment: `Run the first touch in a ${payload.tone.toLowerCase()} tone against a neutral control.`,
+  metric: "Positive reply rate"
+});
+
+export function buildExperiments(context: RuleContext): Experiment[] {
+  const experiments = context.payload.goals.flatMap((goal) =>
+    goalExperiments[goal](context)
+  );
+  const limit = context.payload.budgetLevel === "lean" ? 2 : 4;
+  return [...experiments.slice(0, limit - 1), toneExperiment(context)];
+}
+
+export function buildAutomationWorkflow(context: RuleContext): Workflow[] {
+  const { payload } = context;
+  const speed = payload.budgetLevel === "aggressive" ? "15 minutes" : "4 hours";
+  const workflows: Workflow[] = [
+    {
+      name: "Hot lead follow-up",
+      trigger: "Positive reply, form submission or offer request",
+      steps: [
+        `Send a tailored follow-up within ${speed}`,
+        "Create or update the contact and deal in the CRM",
+        "Notify the account owner in Slack with context",
+        "Send a calendar link; remind after 2 days if unbooked"
+      ]
+    }
+  ];
+
+  if (payload.channels.includes("Webinars")) {
+    workflows.push({
+      name: "Webinar attendee nurture",
+      trigger: "Webinar registration",
+      steps: [
+        "Send confirmation with calendar invite",
+        "Send reminders 24 hours and 1 hour before",
+        "Send the replay and a tailored offer within 24 hours",
+        "Route attendees who asked questions to sales for a call"
+      ]
+    });
+  }
+
+  if (payload.goals.includes("Re-engage closed-lost deals")) {
+    workflows.push({
+      name: "Closed-lost revival",
+      trigger: "Deal marked closed-lost for 90 days",
+      steps: [
+        "Enroll contact in a 3-touch 'what's new' sequence",
+        "Alert the original owner if the contact engages",
+        "Reopen the opportunity after a booked meeting"
+      ]
+    });
+  }
+
+  workflows.push({
+    name: "No-response recycle",
+    trigger: `No reply after the final touch of the ${payload.timeframe} sequence`,
+    steps: [
+      "Tag the contact as 'nurture'",
+      "Add to the monthly newsletter",
+      "Re-enter outbound after 60 days with a new angle"
+    ]
+  });
+
+  return workflows;
+}
@@ -0,0 +1,138 @@
+import type { LeadPlan } from "@/lib/types";
+import { allocateBudget } from "@/lib/budget";
+import type { Goal, LeadRequest } from "@/lib/schemas";
+import { buildChannelStrategy } from "@/lib/fallback/channels";
+import {
+  createRuleContext,
+  goalOutcomes,
+  lowerFirst,
+  sentenceCase,
+  type RuleContext
+} from "@/lib/fallback/context";
+import { buildAutomationWorkflow, buildExperiments } from "@/lib/fallback/goals";
+import { buildOutreachSequences } from "@/lib/fallback/sequences";
+import { isEnglish, localeProfiles, regionProfiles } from "@/lib/locales";
+
+const goalMetrics: Record<Goal, string> = {
+  "Book discovery calls": "Discovery calls booked per week",
+  "Increase demo requests": "Demo requests per week",
+  "Grow newsletter subscribers": "Net new subscribers per week",
+  "Drive free trial sign-ups": "Trial sign-ups and activation rate",
+  "Re-engage closed-lost deals": "Closed-lost deals re-opened",
+  "Expand within existing accounts": "Expansion pipeline created"
+};
+
+const painSignals =
+  /\b(need|needing|struggl|pain|manual|slow|costly|expensive|lack|without|unclear|pressure|frustrat|waste|churn|risk)/i;
+
+function clauses(text: string) {
+  return text
+    .split(/[.;]|,\s+(?=[a-z])/)
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.length > 3);
+}
+
+function buildIdealCustomerProfile({ payload }: RuleContext) {
+  const parts = clauses(payload.targetCustomer);
+  const pains = parts.filter((part) => painSignals.test(part));
+  const traits = parts.filter((part) => !painSignals.test(part));
+  const [persona, ...companyTraits] = traits;
+
+  return {
+    companyTraits: [
+      `Operates in ${payload.industry}`,
+      ...companyTraits.map(sentenceCase)
+    ].slice(0, 4),
+    buyerPersona: [
+      persona ? `Primary buyer: ${lowerFirst(persona)}` : "Primary buyer: VP / Director level owner of the problem",
+      "Champion: hands-on practitioner who feels the pain daily",
+      payload.budgetLevel === "aggressive"
+        ? "Executive sponsor: C-level stakeholder for multi-threading"
+        : "Influencer: adjacent team lead who benefits from the outcome"
+    ],
+    painPoints: (pains.length
+      ? pains.map(sentenceCase)
+      : ["Pressure to show results quickly", "Manual work slowing the team down"]
+    ).slice(0, 4)
+  };
+}
+
+function buildMessagingPillars({ payload, proof }: RuleContext) {
+  const claims = proof.claims.length ? proof.claims : [payload.uniqueValue];
+  const pillars = claims.slice(0, 2).map((claim, index) => ({
+    title: index === 0 ? "Why we win" : "What makes it easy",
+    angle: `${sentenceCase(claim)}.`,
+    proofPoints: [
+      ...proof.metrics,
+      ...proof.references.map((reference) => `Works with ${reference}`)
+    ].slice(index * 2, index * 2 + 3)
+  }));
+
+  pillars.push({
+    title: "Low-risk next step",
+    angle: `Lead with "${payload.offer.replace(/[.\s]+$/, "")}" so saying yes feels easy.`,
+    proofPoints: [
+      "Clear, time-boxed commitment",
+      "Tailored to {{company}}'s current setup",
+      "No obligation to buy"
+    ]
+  });
+
+  return pillars.map((pillar) => ({
+    ...pillar,
+    proofPoints: pillar.proofPoints.length
+      ? pillar.proofPoints
+      : ["Quantify time or cost savings", "Reference a relevant customer win"]
+  }));
+}
+
+function buildNextSteps({ payload, weeks, intensity }: RuleContext) {
+  const compliance = regionProfiles[payload.region].compliance.map((rule) => `Compliance: ${rule}`);
+  const perWave = Math.max(50, Math.round((150 * intensity) / 50) * 50);
+  const accounts = weeks > 4 ? perWave * 3 : perWave;
+  return [
+    `Build a list of ${accounts} accounts matching the ICP`,
+    `Draft and review copy for ${payload.channels.join(", ")}`,
+    "Set up tracking for each success metric",
+    weeks <= 2 ? "Launch all channels in week 1" : "Launch in two waves and compare early results",
+    `Review results weekly and double down on the channel driving the most ${goalOutcomes[payload.goals[0]]}`,
+    ...compliance
+  ];
+}
+
+/**
+ * Rules-driven planner used when no LLM provider is available or generation
+ * fails. Every section is derived from the request so the fallback stays
+ * specific to the business, goals, channels, tone, budget and timeframe.
+ */
+export function buildFallbackPlan(payload: LeadRequest): LeadPlan {
+  const context = createRuleContext(payload);
+
+  return {
+    campaignSummary: {
+      northStar: `Generate ${payload.goals
+        .map((goal) => goalOutcomes[goal])
+        .join(" and ")} for ${payload.businessName} within ${payload.timeframe}.`,
+      successMetrics: [
+        ...payload.goals.map((goal) => goalMetrics[goal]),
+        "Positive reply rate %",
+        "Pipeline value influenced"
+      ],
+      positioningTheme: `${payload.businessName}: ${lowerFirst(context.proof.claims[0] ?? payload.uniqueValue)}.`
+    },
+    idealCustomerProfile: buildIdealCustomerProfile(context),
+    messagingPillars: buildMessagingPillars(context),
+    channelStrategy: buildChannelStrategy(context),
+    budgetAllocation: allocateBudget(payload),
+    outreachSequences: buildOutreachSequences(context),
+    automationWorkflow: buildAutomationWorkflow(context),
+    experiments: buildExperiments(context),
+    nextSteps: buildNextSteps(context)
+  };
+}
+
+/** The heuristic templates are English; only the copy frame follows the locale. */
+export function fallbackWarning(payload: LeadRequest, warning: string) {
+  if (isEnglish(payload.locale)) return warning;
+  return `${warning} It localizes greetings, sign-offs, calls to action and opt-outs into ${localeProfiles[payload.locale].language}; the rest of the copy stays in English.`;
+}
@@ -0,0 +1,67 @@
+import type { BrandContext } from "@/lib/schemas";
+
+export interface ProofPoints {
+  /** Differentiating claims lifted from `uniqueValue`. */
+  claims: string[];
+  /** Quantified statements (percentages, multiples, counts). */
+  metrics: string[];
+  /** Named partners, integrations or customers from case studies and the notes. */
+  references: string[];
+}
+
+const referencePatterns = [
+  /partner(?:ed|ship)? with ([A-Z][\w&-]*(?:\s[A-Z][\w&-]*)*)/g,
+  /customer (?:story|stories|case study) (?:from|with) ([A-Z][\w&-]*(?:\s[A-Z][\w&-]*)*)/g,
+  /(?:used|trusted) by ([A-Z][\w&-]*(?:(?:,\s|\sand\s|\s)[A-Z][\w&-]*)*)/g,
+  /integrat(?:es|ion) with ([A-Z][\w&-]*(?:\s[A-Z][\w&-]*)*)/g
+];
+
+const metricPattern = /[^.;,]*\b\d+(?:\.\d+)?\s?(?:%|x\b|percent|hours?|days?|weeks?|minutes?|customers?|teams?)[^.;,]*/gi;
+
+function splitClauses(text: string) {
+  return text
+    .split(/(?<=[.;!?])\s+|,\s+(?:plus|and)\s+|\s+plus\s+/i)
+    .map((clause) => clause.trim().replace(/[.;!?]+$/, ""))
+    .filter((clause) => clause.length > 12);
+}
+
+function unique(values: string[]) {
+  return Array.from(new Set(values.map((value) => value.trim()))).filter(Boolean);
+}
+
+/**
+ * When a brand profile lists approved claims, only those may carry numbers,
+ * so metrics come from that list instead of the free text.
+ */
+export function extractProof(uniqueValue: string, notes?: string, brand?: BrandContext): ProofPoints {
+  const source = [uniqueValue, notes ?? ""].join(". ");
+  const references = (brand?.caseStudies ?? []).map((study) => study.customer);
+  const approved = brand?.approvedClaims ?? [];
+  const metrics = approved.length
+    ? approved.filter((claim) => /\d/.test(claim))
+    : source.match(metricPattern) ?? [];
+
+  for (const pattern of referencePatterns) {
+    for (const match of source.matchAll(pattern)) {
+      references.push(
+        ...match[1].split(/,\s|\sand\s/).map((name) => name.trim())
+      );
+    }
+  }
+
+  return {
+    claims: unique(splitClauses(uniqueValue)).slice(0, 4),
+    metrics: unique(metrics).slice(0, 3),
+    references: unique(references).slice(0, 4)
+  };
+}
+
+/**
+ * Picks the strongest proof line available: a metric, then a named
+ * reference, then a claim.
+ */
+export function headlineProof(proof: ProofPoints) {
+  if (proof.metrics[0]) return proof.metrics[0];
+  if (proof.references[0]) return `we already work with ${proof.references[0]}`;
+  return proof.claims[0] ?? null;
+}
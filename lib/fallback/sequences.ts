@@ -0,0 +1,363 @@
+import type { Channel } from "@/lib/schemas";
+import type { OutreachSequence, SequenceStep } from "@/lib/types";
+import { proofLine } from "@/lib/fallback/channels";
+import {
+  goalOutcomes,
+  lowerFirst,
+  sentenceCase,
+  type RuleContext
+} from "@/lib/fallback/context";
+import { collectMergeFields, sequenceCopy } from "@/lib/personalization";
+
+type Variant = SequenceStep["variants"][number];
+
+interface StepTemplate {
+  /** Position in the sequence window, from 0 (launch) to 1 (final touch). */
+  at: number;
+  touch: string;
+  subject?: (context: RuleContext) => string;
+  body: (context: RuleContext) => string;
+  variant?: (context: RuleContext) => Variant;
+}
+
+function topic({ primaryGoal }: RuleContext) {
+  return sentenceCase(goalOutcomes[primaryGoal]);
+}
+
+function signature({ tone }: RuleContext) {
+  return `${tone.signOff}\n{{sender_name}}`;
+}
+
+function email(context: RuleContext, ...paragraphs: string[]) {
+  return [
+    context.tone.greeting("{{first_name}}"),
+    ...paragraphs.filter(Boolean),
+    signature(context),
+    context.optOut
+  ].join("\n\n");
+}
+
+function offer({ payload }: RuleContext) {
+  return payload.offer.trim().replace(/([^.!?])$/, "$1.");
+}
+
+function secondaryClaim({ proof, payload }: RuleContext) {
+  return sentenceCase(proof.claims[1] ?? proof.claims[0] ?? payload.uniqueValue);
+}
+
+/**
+ * Spreads a sequence over the campaign window: a two-week sprint compresses
+ * into ~12 days, longer windows cap at four weeks so follow-ups stay warm.
+ */
+function sequenceWindow({ weeks }: RuleContext) {
+  return Math.min(weeks * 7 - 2, 28);
+}
+
+const coldEmail: StepTemplate[] = [
+  {
+    at: 0,
+    touch: "Intro email",
+    subject: (context) => context.tone.subjectStyle(topic(context)),
+    body: (context) =>
+      email(
+        context,
+        `${context.tone.opener} ${proofLine(context)}`.trim(),
+        `Quick context: ${sentenceCase(context.payload.productDescription)}. ${offer(context)}`,
+        context.tone.ctaVerb
+      ),
+    variant: (context) => ({
+      label: "B · company-name subject",
+      subject: `{{company}} + ${context.payload.businessName}`,
+      body: email(
+        context,
+        `Noticed {{company}} is growing its ${context.payload.industry} team. ${proofLine(context)}`.trim(),
+        offer(context),
+        context.tone.ctaVerb
+      )
+    })
+  },
+  {
+    at: 0.12,
+    touch: "Bump",
+    subject: (context) => `Re: ${context.tone.subjectStyle(topic(context))}`,
+    body: (context) =>
+      email(context, `Floating this back to the top of your inbox. ${offer(context)}`)
+  },
+  {
+    at: 0.4,
+    touch: "Value add",
+    subject: ({ payload }) => `How ${payload.industry} teams approach this`,
+    body: (context) =>
+      email(
+        context,
+        `The short version of why ${context.payload.industry} teams pick ${context.payload.businessName}: ${lowerFirst(secondaryClaim(context))}.`,
+        "Happy to share the short version of what's working for teams like {{company}}.",
+        context.tone.ctaVerb
+      )
+  },
+  {
+    at: 0.7,
+    touch: "Proof point",
+    subject: ({ proof, payload }) =>
+      proof.references[0]
+        ? `What ${proof.references[0]} changed`
+        : `${payload.businessName} in practice`,
+    body: (context) =>
+      email(
+        context,
+        proofLine(context) || `${sentenceCase(context.payload.uniqueValue)}.`,
+        `If that's relevant for {{company}}, here's the easiest next step: ${offer(context)}`
+      ),
+    variant: (context) => ({
+      label: "B · question-led",
+      subject: `Are ${goalOutcomes[context.primaryGoal]} a priority this quarter?`,
+      body: email(
+        context,
+        `Is growing ${goalOutcomes[context.primaryGoal]} on the agenda at {{company}} this quarter?`,
+        `If so, here's an easy next step: ${offer(context)}`
+      )
+    })
+  },
+  {
+    at: 1,
+    touch: "Breakup",
+    subject: () => "Should I close the loop?",
+    body: (context) =>
+      email(
+        context,
+        "I haven't heard back, so I'll assume the timing isn't right.",
+        `If ${goalOutcomes[context.primaryGoal]} become a priority for {{company}} later, just reply and I'll pick it up.`
+      )
+  }
+];
+
+const linkedIn: StepTemplate[] = [
+  {
+    at: 0,
+    touch: "Connection note",
+    body: ({ tone, payload, proof }) =>
+      `${tone.greeting("{{first_name}}")} I'm connecting with ${payload.industry} leaders at companies like {{company}}. ${
+        proof.references[0] ? `We work with ${proof.references[0]} on similar goals. ` : ""
+      }Would love to connect.`,
+    variant: ({ tone, payload }) => ({
+      label: "B · no pitch",
+      subject: "",
+      body: `${tone.greeting("{{first_name}}")} enjoyed your recent posts on ${payload.industry}. Would be great to connect.`
+    })
+  },
+  {
+    at: 0.15,
+    touch: "Thank-you DM",
+    body: (context) =>
+      `Thanks for connecting, {{first_name}}. ${sentenceCase(context.payload.productDescription)} — no pitch, just thought it might be relevant to what {{company}} is working on.`
+  },
+  {
+    at: 0.5,
+    touch: "Value DM",
+    body: (context) =>
+      `{{first_name}}, the reason ${context.payload.industry} teams pick ${context.payload.businessName}: ${lowerFirst(secondaryClaim(context))}. ${offer(context)}`
+  },
+  {
+    at: 0.85,
+    touch: "Voice note follow-up",
+    body: (context) =>
+      `Voice note script (30s): quick hello, one line on why {{company}} came to mind, then: "${offer(context)}" Close with: ${context.tone.ctaVerb}`
+  }
+];
+
+const webinars: StepTemplate[] = [
+  {
+    at: 0,
+    touch: "Invite",
+    subject: ({ payload }) => `Live session for ${payload.industry} teams`,
+    body: (context) =>
+      email(
+        context,
+        `We're hosting a 30-minute live session for ${context.payload.industry} teams on getting more ${goalOutcomes[context.primaryGoal]}.`,
+        "Save your seat: {{webinar_link}}"
+      ),
+    variant: (context) => ({
+      label: "B · proof-led",
+      subject: `Live: how ${context.payload.businessName} does it`,
+      body: email(
+        context,
+        `${proofLine(context)} We'll show exactly how, live, in 30 minutes.`.trim(),
+        "Save your seat: {{webinar_link}}"
+      )
+    })
+  },
+  {
+    at: 0.35,
+    touch: "Second invite",
+    subject: () => "Seats are filling up",
+    body: (context) =>
+      email(
+        context,
+        `${proofLine(context)} We'll cover it live, with time for questions.`.trim(),
+        "Register here: {{webinar_link}}"
+      )
+  },
+  {
+    at: 0.6,
+    touch: "Reminder (day before)",
+    subject: () => "Tomorrow: see you there",
+    body: (context) =>
+      email(
+        context,
+        "A quick reminder that we're live tomorrow. Bring your questions.",
+        "Join link: {{webinar_link}}"
+      )
+  },
+  {
+    at: 0.64,
+    touch: "Starting soon",
+    subject: () => "We're live in 1 hour",
+    body: (context) => email(context, "We start in an hour. Join here: {{webinar_link}}")
+  },
+  {
+    at: 0.7,
+    touch: "Replay",
+    subject: () => "Replay + slides inside",
+    body: (context) =>
+      email(
+        context,
+        "Thanks for registering. Here's the replay and slides: {{replay_link}}",
+        `If you'd like to apply it at {{company}}, here's an easy next step: ${offer(context)}`
+      )
+  }
+];
+
+const eventsAndField: StepTemplate[] = [
+  {
+    at: 0,
+    touch: "Invite",
+    subject: ({ payload }) => `A seat for {{company}} at our ${payload.industry} roundtable`,
+    body: (context) =>
+      email(
+        context,
+        `We're hosting a small ${context.payload.industry} roundtable and saving a seat for {{company}}.`,
+        context.tone.ctaVerb
+      )
+  },
+  {
+    at: 0.5,
+    touch: "Reminder",
+    subject: () => "Still saving your seat",
+    body: (context) =>
+      email(context, "A handful of seats are left. Want me to hold one for you? Details: {{event_link}}")
+  },
+  {
+    at: 0.8,
+    touch: "Post-event follow-up",
+    subject: () => "Great to meet you",
+    body: (context) =>
+      email(
+        context,
+        "Thanks for joining us. As promised, here's the summary of what we discussed.",
+        offer(context)
+      )
+  }
+];
+
+const partnerReferrals: StepTemplate[] = [
+  {
+    at: 0,
+    touch: "Intro ask",
+    subject: ({ payload }) => `Intro swap with ${payload.businessName}?`,
+    body: (context) =>
+      [
+        context.tone.greeting("{{partner_name}}"),
+        `A few of your clients look like a great fit for ${context.payload.businessName}. Open to a quick intro swap?`,
+        signature(context)
+      ].join("\n\n")
+  },
+  {
+    at: 0.3,
+    touch: "One-pager follow-up",
+    subject: () => "Co-branded one-pager attached",
+    body: (context) =>
+      [
+        context.tone.greeting("{{partner_name}}"),
+        `Attached is a one-pager you can forward. The offer for your clients: ${offer(context)}`,
+        signature(context)
+      ].join("\n\n")
+  },
+  {
+    at: 0.9,
+    touch: "Referral thank-you",
+    subject: () => "Thank you + an update",
+    body: (context) =>
+      [
+        context.tone.greeting("{{partner_name}}"),
+        "Thanks for the intros. Here's where each one landed, and who we think could be a fit for you in return.",
+        signature(context)
+      ].join("\n\n")
+  }
+];
+
+function inboundNurture(trigger: string, firstTouch: string): StepTemplate[] {
+  return [
+    {
+      at: 0,
+      touch: firstTouch,
+      subject: () => "Here's what you asked for",
+      body: (context) =>
+        email(context, `Thanks for ${trigger}. Here's your copy: {{asset_link}}`, proofLine(context))
+    },
+    {
+      at: 0.3,
+      touch: "Related resource",
+      subject: ({ payload }) => `One more for ${payload.industry} teams`,
+      body: (context) =>
+        email(
+          context,
+          `Since you're looking into this, here's why ${context.payload.industry} teams pick ${context.payload.businessName}: ${lowerFirst(secondaryClaim(context))}.`
+        )
+    },
+    {
+      at: 0.7,
+      touch: "Offer",
+      subject: (context) => context.tone.subjectStyle(topic(context)),
+      body: (context) => email(context, offer(context), context.tone.ctaVerb)
+    }
+  ];
+}
+
+const sequenceTemplates: Record<Channel, StepTemplate[]> = {
+  "Cold email": coldEmail,
+  "LinkedIn outreach": linkedIn,
+  Webinars: webinars,
+  "Content syndication": inboundNurture("downloading the guide", "Download follow-up"),
+  "Paid social": inboundNurture("filling in the lead form", "Lead form thank-you"),
+  "Partner referrals": partnerReferrals,
+  "Events & field": eventsAndField,
+  "SEO / inbound": inboundNurture("grabbing the template", "Welcome email")
+};
+
+function buildSteps(context: RuleContext, templates: StepTemplate[]): SequenceStep[] {
+  const window = sequenceWindow(context);
+  let previousDay = -1;
+
+  return templates.map((template) => {
+    const day = Math.max(Math.round(template.at * window), previousDay + 1);
+    previousDay = day;
+    return {
+      day,
+      touch: template.touch,
+      subject: template.subject?.(context) ?? "",
+      body: template.body(context),
+      variants: template.variant ? [template.variant(context)] : []
+    };
+  });
+}
+
+export function buildOutreachSequences(context: RuleContext): OutreachSequence[] {
+  return context.payload.channels.map((channel) => {
+    const steps = buildSteps(context, sequenceTemplates[channel as Channel]);
+    return {
+      channel,
+      mergeFields: collectMergeFields(sequenceCopy(steps)),
+      steps
+    };
+  });
+}
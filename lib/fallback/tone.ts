@@ -0,0 +1,54 @@
+import type { Tone } from "@/lib/schemas";
+
+export interface ToneProfile {
+  greeting: (name: string) => string;
+  opener: string;
+  ctaVerb: string;
+  signOff: string;
+  subjectStyle: (topic: string) => string;
+}
+
+export const toneProfiles: Record<Tone, ToneProfile> = {
+  "Data-driven": {
+    greeting: (name) => `Hi ${name},`,
+    opener: "A quick number worth a look:",
+    ctaVerb: "Worth 15 minutes to compare against your benchmarks?",
+    signOff: "Best,",
+    subjectStyle: (topic) => `${topic}: the numbers`
+  },
+  Consultative: {
+    greeting: (name) => `Hi ${name},`,
+    opener: "I've been speaking with teams in a similar spot, and one question keeps coming up:",
+    ctaVerb: "Would it help to talk through how others approached it?",
+    signOff: "Kind regards,",
+    subjectStyle: (topic) => `A question about ${topic.toLowerCase()}`
+  },
+  Bold: {
+    greeting: (name) => `${name} —`,
+    opener: "Straight to it:",
+    ctaVerb: "Up for a 15-minute call this week?",
+    signOff: "Cheers,",
+    subjectStyle: (topic) => `You're leaving ${topic.toLowerCase()} on the table`
+  },
+  Friendly: {
+    greeting: (name) => `Hey ${name}!`,
+    opener: "Hope your week is going well.",
+    ctaVerb: "Happy to share more if it's useful — want to grab a quick chat?",
+    signOff: "Thanks!",
+    subjectStyle: (topic) => `Quick idea on ${topic.toLowerCase()}`
+  },
+  Executive: {
+    greeting: (name) => `${name},`,
+    opener: "Briefly:",
+    ctaVerb: "Open to a short conversation?",
+    signOff: "Regards,",
+    subjectStyle: (topic) => `${topic} — executive summary`
+  },
+  Playful: {
+    greeting: (name) => `Hi ${name} 👋`,
+    opener: "Not another boring cold email, promise.",
+    ctaVerb: "Fancy a quick call? Coffee's on us.",
+    signOff: "Cheers,",
+    subjectStyle: (topic) => `${topic} (the fun version)`
+  }
+};
@@ -0,0 +1,170 @@
+import type { Channel, LeadRequest } from "@/lib/schemas";
+import { budgetIntensity, timeframeWeeks } from "@/lib/fallback/context";
+
+export interface ChannelAssumption {
+  channel: Channel;
+  /** Prospects reached per week once the channel is fully ramped. */
+  listSize: number;
+  /** Share of reached prospects who reply, register or convert to a lead. */
+  replyRate: number;
+  /** Share of replies that turn into a booked meeting. */
+  meetingRate: number;
+  /** Weeks before the channel reaches full volume. */
+  rampWeeks: number;
+}
+
+export interface ForecastAssumptions {
+  channels: ChannelAssumption[];
+  /** Share of meetings that become qualified opportunities. */
+  opportunityRate: number;
+  /** Average contract value of a won opportunity, in dollars. */
+  acv: number;
+  weeks: number;
+}
+
+/**
+ * Balanced-budget benchmarks for a mid-market B2B motion. They are starting
+ * points for the user to overwrite, not promises.
+ */
+const channelBenchmarks: Record<Channel, Omit<ChannelAssumption, "channel">> = {
+  "Cold email": { listSize: 150, replyRate: 0.05, meetingRate: 0.3, rampWeeks: 2 },
+  "LinkedIn outreach": { listSize: 80, replyRate: 0.12, meetingRate: 0.2, rampWeeks: 1 },
+  Webinars: { listSize: 300, replyRate: 0.08, meetingRate: 0.1, rampWeeks: 3 },
+  "Content syndication": { listSize: 200, replyRate: 0.1, meetingRate: 0.05, rampWeeks: 2 },
+  "Paid social": { listSize: 1000, replyRate: 0.015, meetingRate: 0.15, rampWeeks: 2 },
+  "Partner referrals": { listSize: 10, replyRate: 0.4, meetingRate: 0.5, rampWeeks: 3 },
+  "Events & field": { listSize: 60, replyRate: 0.25, meetingRate: 0.25, rampWeeks: 1 },
+  "SEO / inbound": { listSize: 500, replyRate: 0.02, meetingRate: 0.2, rampWeeks: 6 }
+};
+
+/** Starting assumptions: benchmarks scaled by budget, with a short-sprint boost like the planner's cadence. */
+export function defaultForecastAssumptions(
+  request: Pick<LeadRequest, "channels" | "budgetLevel" | "timeframe">
+): ForecastAssumptions {
+  const weeks = timeframeWeeks[request.timeframe];
+  const sprintBoost = weeks <= 2 ? 1.25 : 1;
+  return {
+    channels: request.channels.map((channel) => {
+      const benchmark = channelBenchmarks[channel];
+      return {
+        channel,
+        ...benchmark,
+        listSize: Math.round(benchmark.listSize * budgetIntensity[request.budgetLevel] * sprintBoost),
+        rampWeeks: Math.min(benchmark.rampWeeks, weeks)
+      };
+    }),
+    opportunityRate: 0.5,
+    acv: 25000,
+    weeks
+  };
+}
+
+export const forecastScenarios = ["worst", "expected", "best"] as const;
+
+export type ForecastScenario = (typeof forecastScenarios)[number];
+
+/** Multipliers applied to both reply and meeting rates, so conversion compounds. */
+export const scenarioFactors: Record<ForecastScenario, number> = {
+  worst: 0.75,
+  expected: 1,
+  best: 1.25
+};
+
+export interface ForecastWeek {
+  week: number;
+  reached: number;
+  replies: number;
+  meetings: number;
+  opportunities: number;
+  pipeline: number;
+}
+
+export interface ChannelForecast {
+  channel: Channel;
+  reached: number;
+  replies: number;
+  meetings: number;
+  pipeline: number;
+}
+
+export interface ScenarioForecast {
+  scenario: ForecastScenario;
+  weeks: ForecastWeek[];
+  channels: ChannelForecast[];
+  totals: Omit<ForecastWeek, "week">;
+}
+
+/** Linear ramp: a two-week ramp runs at 1/2 then 2/2 of full volume. */
+function rampShare(week: number, rampWeeks: number) {
+  return rampWeeks <= 0 ? 1 : Math.min(1, week / rampWeeks);
+}
+
+function clampRate(rate: number) {
+  return Math.min(1, Math.max(0, rate));
+}
+
+function sum<T>(items: T[], pick: (item: T) => number) {
+  return items.reduce((total, item) => total + pick(item), 0);
+}
+
+export function forecastScenario(
+  assumptions: ForecastAssumptions,
+  scenario: ForecastScenario
+): ScenarioForecast {
+  const factor = scenarioFactors[scenario];
+  const perChannel = assumptions.channels.map((item) =>
+    Array.from({ length: assumptions.weeks }, (_, index) => {
+      const reached = item.listSize * rampShare(index + 1, item.rampWeeks);
+      const replies = reached * clampRate(item.replyRate * factor);
+      const meetings = replies * clampRate(item.meetingRate * factor);
+      const opportunities = meetings * clampRate(assumptions.opportunityRate);
+      return { reached, replies, meetings, opportunities, pipeline: opportunities * assumptions.acv };
+    })
+  );
+
+  const weeks: ForecastWeek[] = Array.from({ length: assumptions.weeks }, (_, index) => {
+    const rows = perChannel.map((channelWeeks) => channelWeeks[index]);
+    return {
+      week: index + 1,
+      reached: sum(rows, (row) => row.reached),
+      replies: sum(rows, (row) => row.replies),
+      meetings: sum(rows, (row) => row.meetings),
+      opportunities: sum(rows, (row) => row.opportunities),
+      pipeline: sum(rows, (row) => row.pipeline)
+    };
+  });
+
+  return {
+    scenario,
+    weeks,
+    channels: assumptions.channels.map((item, index) => ({
+      channel: item.channel,
+      reached: sum(perChannel[index], (row) => row.reached),
+      replies: sum(perChannel[index], (row) => row.replies),
+      meetings: sum(perChannel[index], (row) => row.meetings),
+      pipeline: sum(perChannel[index], (row) => row.pipeline)
+    })),
+    totals: {
+      reached: sum(weeks, (week) => week.reached),
+      replies: sum(weeks, (week) => week.replies),
+      meetings: sum(weeks, (week) => week.meetings),
+      opportunities: sum(weeks, (week) => week.opportunities),
+      pipeline: sum(weeks, (week) => week.pipeline)
+    }
+  };
+}
+
+export function forecastPipeline(assumptions: ForecastAssumptions) {
+  return Object.fromEntries(
+    forecastScenarios.map((scenario) => [scenario, forecastScenario(assumptions, scenario)])
+  ) as Record<ForecastScenario, ScenarioForecast>;
+}
+
+export function formatCurrency(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: value >= 100_000 ? "compact" : "standard",
+    maximumFractionDigits: value >= 100_000 ? 1 : 0
+  }).format(value);
+}
@@ -0,0 +1,250 @@
+import { planJsonSchema, sectionJsonSchema } from "@/lib/jsonSchema";
+import {
+  buildLeadPlanPrompt,
+  buildRepairPrompt,
+  buildSectionPrompt,
+  buildTranslationPrompt,
+  SYSTEM_PROMPT
+} from "@/lib/prompt";
+import type { PlanLocale } from "@/lib/locales";
+import type { CompletionRequest, LLMProvider, TokenUsage } from "@/lib/providers";
+import type { LeadRequest } from "@/lib/schemas";
+import { normalizeBudgetAllocation } from "@/lib/budget";
+import { normalizePlanSequences, normalizeSequence } from "@/lib/sequences";
+import {
+  tryParsePlan,
+  tryParseSection,
+  type BudgetAllocation,
+  type LeadPlan,
+  type PlanSectionKey
+} from "@/lib/types";
+
+export interface AttemptDiagnostic {
+  attempt: number;
+  ok: boolean;
+  durationMs: number;
+  message?: string;
+  issues?: string[];
+}
+
+export interface GenerationResult<T> {
+  value: T | null;
+  raw: string;
+  message?: string;
+  attempts: AttemptDiagnostic[];
+}
+
+interface ParsedAttempt<T> {
+  value: T | null;
+  message?: string;
+  issues?: string[];
+}
+
+interface RepairOptions<T> {
+  provider: LLMProvider;
+  request: CompletionRequest;
+  parse: (text: string) => ParsedAttempt<T>;
+  /** Produces the first response, e.g. by streaming it. Repairs always use `complete`. */
+  firstAttempt?: (request: CompletionRequest) => Promise<string>;
+  maxAttempts?: number;
+}
+
+const REPAIR_TEMPERATURE = 0;
+
+/** Rough tokens-per-character ratio for providers that do not report usage. */
+const CHARS_PER_TOKEN = 4;
+
+function estimateUsage(request: CompletionRequest, text: string): TokenUsage {
+  return {
+    inputTokens: Math.ceil((request.system.length + request.prompt.length) / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+    estimated: true
+  };
+}
+
+type UsageOptions = Pick<CompletionRequest, "onUsage">;
+
+export function maxGenerationAttempts(env: NodeJS.ProcessEnv = process.env) {
+  const parsed = Number(env.LLM_MAX_ATTEMPTS);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : 3;
+}
+
+/**
+ * Calls the provider and validates the response. When validation fails the
+ * issues are fed back to the model for another try, up to `maxAttempts` calls
+ * in total. Provider errors are not retried and propagate to the caller.
+ * Every call's token usage goes to `request.onUsage`, estimated from the text
+ * when the provider does not report it.
+ */
+export async function generateWithRepair<T>({
+  provider,
+  request,
+  parse,
+  firstAttempt,
+  maxAttempts = maxGenerationAttempts()
+}: RepairOptions<T>): Promise<GenerationResult<T>> {
+  const attempts: AttemptDiagnostic[] = [];
+  let current = request;
+  let lastText = "";
+  let lastMessage: string | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const started = Date.now();
+    let reported = false;
+    const call: CompletionRequest = {
+      ...current,
+      onUsage: (usage) => {
+        reported = true;
+        request.onUsage?.(usage);
+      }
+    };
+    lastText =
+      attempt === 1 && firstAttempt
+        ? await firstAttempt(call)
+        : await provider.complete(call);
+    if (!reported) request.onUsage?.(estimateUsage(call, lastText));
+    const parsed = parse(lastText);
+
+    attempts.push({
+      attempt,
+      ok: parsed.value !== null,
+      durationMs: Date.now() - started,
+      message: parsed.message,
+      issues: parsed.issues
+    });
+
+    if (parsed.value !== null) {
+      return { value: parsed.value, raw: lastText, attempts };
+    }
+
+    lastMessage = parsed.message;
+    if (request.signal?.aborted) break;
+
+    current = {
+      ...request,
+      temperature: REPAIR_TEMPERATURE,
+      prompt: buildRepairPrompt(request.prompt, lastText, parsed.issues ?? [])
+    };
+  }
+
+  return { value: null, raw: lastText, message: lastMessage, attempts };
+}
+
+export function generatePlan(
+  provider: LLMProvider,
+  payload: LeadRequest,
+  options: Pick<RepairOptions<LeadPlan>, "firstAttempt"> &
+    UsageOptions & {
+      signal?: AbortSignal;
+    } = {}
+) {
+  return generateWithRepair<LeadPlan>({
+    provider,
+    request: {
+      system: SYSTEM_PROMPT,
+      prompt: buildLeadPlanPrompt(payload),
+      jsonSchema: planJsonSchema,
+      signal: options.signal,
+      onUsage: options.onUsage
+    },
+    parse: (text) => {
+      const { plan, message, issues } = tryParsePlan(text);
+      const value = plan && {
+        ...normalizePlanSequences(plan),
+        budgetAllocation: normalizeBudgetAllocation(plan.budgetAllocation, payload)
+      };
+      return { value, message, issues };
+    },
+    firstAttempt: options.firstAttempt
+  });
+}
+
+export function generateSection<K extends PlanSectionKey>(
+  provider: LLMProvider,
+  payload: LeadRequest,
+  plan: LeadPlan,
+  section: K,
+  instruction?: string,
+  options: UsageOptions = {}
+) {
+  return generateWithRepair<LeadPlan[K]>({
+    provider,
+    request: {
+      system: SYSTEM_PROMPT,
+      prompt: buildSectionPrompt(payload, plan, section, instruction),
+      jsonSchema: sectionJsonSchema(section),
+      temperature: instruction ? 0.3 : 0.7,
+      onUsage: options.onUsage
+    },
+    parse: (text) => {
+      const parsed = tryParseSection(text, section);
+      if (section === "outreachSequences" && parsed.value) {
+        const sequences = parsed.value as LeadPlan["outreachSequences"];
+        return { ...parsed, value: sequences.map(normalizeSequence) as LeadPlan[K] };
+      }
+      if (section === "budgetAllocation" && parsed.value) {
+        const allocation = parsed.value as LeadPlan["budgetAllocation"];
+        return { ...parsed, value: normalizeBudgetAllocation(allocation, payload) as LeadPlan[K] };
+      }
+      return parsed;
+    }
+  });
+}
+
+/**
+ * Takes only the text from a translated budget. Totals, shares, amounts and
+ * hours stay those of the original, so they cannot drift and still add up;
+ * entries the model dropped keep their original wording.
+ */
+function keepBudgetNumbers(original: BudgetAllocation, translated: BudgetAllocation): BudgetAllocation {
+  return {
+    ...original,
+    channels: original.channels.map((channel, index) => {
+      const copy = translated.channels[index];
+      return {
+        ...channel,
+        channel: copy?.channel || channel.channel,
+        lineItems: channel.lineItems.map((item, itemIndex) => ({
+          ...item,
+          description: copy?.lineItems[itemIndex]?.description || item.description
+        }))
+      };
+    }),
+    guardrails: original.guardrails.map((guardrail, index) => translated.guardrails[index] || guardrail)
+  };
+}
+
+/** Translates a finished plan's copy, keeping its structure and numbers. */
+export function translatePlan(
+  provider: LLMProvider,
+  plan: LeadPlan,
+  locale: PlanLocale,
+  options: UsageOptions = {}
+) {
+  return generateWithRepair<LeadPlan>({
+    provider,
+    request: {
+      system: SYSTEM_PROMPT,
+      prompt: buildTranslationPrompt(plan, locale),
+      jsonSchema: planJsonSchema,
+      temperature: 0.2,
+      onUsage: options.onUsage
+    },
+    parse: (text) => {
+      const { plan: translated, message, issues } = tryParsePlan(text);
+      const value = translated && {
+        ...normalizePlanSequences(translated),
+        budgetAllocation: keepBudgetNumbers(plan.budgetAllocation, translated.budgetAllocation)
+      };
+      return { value, message, issues };
+    }
+  });
+}
+
+export function describeAttempts(attempts: AttemptDiagnostic[]) {
+  if (attempts.length <= 1) return null;
+  const succeeded = attempts[attempts.length - 1].ok;
+  return succeeded
+    ? `The first response failed validation; repaired after ${attempts.length} attempts.`
+    : `The model response failed validation after ${attempts.length} attempts.`;
+}
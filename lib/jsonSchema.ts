@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { leadPlanSchema, type PlanSectionKey } from "@/lib/types";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export interface NamedJsonSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Converts the subset of zod used by the plan schemas into JSON Schema. Every
+ * object property is marked required and extra keys are rejected, which is
+ * what strict structured-output modes expect.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description
+    ? { description: schema.description }
+    : {};
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+      required: Object.keys(shape),
+      additionalProperties: false,
+      ...description
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string", ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? "integer" : "number",
+      ...description
+    };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: "null" }] };
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return toJsonSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+
+  throw new Error(`Unsupported zod type for JSON schema: ${schema._def.typeName}`);
+}
+
+export const planJsonSchema: NamedJsonSchema = {
+  name: "lead_plan",
+  schema: toJsonSchema(leadPlanSchema)
+};
+
+export function sectionJsonSchema(section: PlanSectionKey): NamedJsonSchema {
+  return {
+    name: `lead_plan_${section}`,
+    schema: toJsonSchema(z.object({ [section]: leadPlanSchema.shape[section] }))
+  };
+}
@@ -0,0 +1,192 @@
+import type { Tone } from "@/lib/schemas";
+
+export const localeOptions = ["en-US", "en-GB", "de-DE", "fr-FR", "es-MX", "pt-BR"] as const;
+
+export const regionOptions = ["North America", "UK & Ireland", "DACH", "France", "LATAM"] as const;
+
+export type PlanLocale = (typeof localeOptions)[number];
+export type PlanRegion = (typeof regionOptions)[number];
+
+export type Register = "formal" | "casual";
+
+/** Outbound-copy building blocks for one register of a language. */
+export interface Phrasebook {
+  greeting: (name: string) => string;
+  opener: string;
+  ctaVerb: string;
+  signOff: string;
+  optOut: string;
+}
+
+export interface LocaleProfile {
+  label: string;
+  /** Language name used in prompts, in English. */
+  language: string;
+  /** How to address a prospect, for the prompt. */
+  salutations: string;
+  /** Phrases for the rule-based planner; English locales keep the tone profiles. */
+  phrases?: Record<Register, Phrasebook>;
+}
+
+export interface RegionProfile {
+  label: string;
+  defaultLocale: PlanLocale;
+  compliance: string[];
+}
+
+/** Tones that read as casual; the rest use the formal register. */
+const casualTones: Tone[] = ["Friendly", "Playful", "Bold"];
+
+export function toneRegister(tone: Tone): Register {
+  return casualTones.includes(tone) ? "casual" : "formal";
+}
+
+export const localeProfiles: Record<PlanLocale, LocaleProfile> = {
+  "en-US": {
+    label: "English (US)",
+    language: "American English",
+    salutations: "First names are fine in every tone."
+  },
+  "en-GB": {
+    label: "English (UK)",
+    language: "British English",
+    salutations: "First names are fine; keep the tone understated and avoid hype. Use British spelling."
+  },
+  "de-DE": {
+    label: "Deutsch",
+    language: "German",
+    salutations:
+      "Address prospects formally with \"Sie\" and \"Guten Tag {{first_name}} {{last_name}},\" unless the tone is casual, then \"Hallo {{first_name}},\" with \"du\" only for startup audiences. Sign off with \"Mit freundlichen Grüßen\" or \"Viele Grüße\" (no comma).",
+    phrases: {
+      formal: {
+        greeting: (name) => `Guten Tag ${name},`,
+        opener: "Kurz vorab:",
+        ctaVerb: "Hätten Sie nächste Woche 15 Minuten für einen kurzen Austausch?",
+        signOff: "Mit freundlichen Grüßen",
+        optOut: "Kein Interesse? Antworten Sie einfach mit „Nein danke“, dann melde ich mich nicht mehr."
+      },
+      casual: {
+        greeting: (name) => `Hallo ${name},`,
+        opener: "Ganz kurz:",
+        ctaVerb: "Hast du nächste Woche 15 Minuten für einen kurzen Austausch?",
+        signOff: "Viele Grüße",
+        optOut: "Kein Interesse? Antworte einfach mit „Nein danke“, dann melde ich mich nicht mehr."
+      }
+    }
+  },
+  "fr-FR": {
+    label: "Français",
+    language: "French",
+    salutations:
+      "Use \"vous\" in every tone and open with \"Bonjour {{first_name}},\". Sign off with \"Bien cordialement,\" or \"Belle journée,\". Put a non-breaking space before ? ! : ;.",
+    phrases: {
+      formal: {
+        greeting: (name) => `Bonjour ${name},`,
+        opener: "En bref :",
+        ctaVerb: "Auriez-vous 15 minutes la semaine prochaine pour en discuter ?",
+        signOff: "Bien cordialement,",
+        optOut: "Pas le bon moment ? Répondez simplement « non merci » et je ne vous relancerai plus."
+      },
+      casual: {
+        greeting: (name) => `Bonjour ${name},`,
+        opener: "Je vais droit au but :",
+        ctaVerb: "Un échange de 15 minutes la semaine prochaine, ça vous dit ?",
+        signOff: "Belle journée,",
+        optOut: "Pas le bon moment ? Répondez simplement « non merci » et je ne vous relancerai plus."
+      }
+    }
+  },
+  "es-MX": {
+    label: "Español (LATAM)",
+    language: "Latin American Spanish",
+    salutations:
+      "Use \"usted\" for formal tones and \"tú\" for casual ones. Open with \"Buen día, {{first_name}}:\" or \"Hola, {{first_name}}:\" and sign off with \"Saludos cordiales,\" or \"Un saludo,\".",
+    phrases: {
+      formal: {
+        greeting: (name) => `Buen día, ${name}:`,
+        opener: "En breve:",
+        ctaVerb: "¿Tendría 15 minutos la próxima semana para platicarlo?",
+        signOff: "Saludos cordiales,",
+        optOut: "¿No es buen momento? Responda «no, gracias» y no volveré a escribirle."
+      },
+      casual: {
+        greeting: (name) => `Hola, ${name}:`,
+        opener: "Te cuento rápido:",
+        ctaVerb: "¿Tienes 15 minutos la próxima semana para platicarlo?",
+        signOff: "Un saludo,",
+        optOut: "¿No es buen momento? Responde «no, gracias» y no te vuelvo a escribir."
+      }
+    }
+  },
+  "pt-BR": {
+    label: "Português (Brasil)",
+    language: "Brazilian Portuguese",
+    salutations:
+      "Use \"você\" and open with \"Olá, {{first_name}},\" (or \"Oi, {{first_name}},\" for casual tones). Sign off with \"Atenciosamente,\" or \"Abraços,\".",
+    phrases: {
+      formal: {
+        greeting: (name) => `Olá, ${name},`,
+        opener: "Resumindo:",
+        ctaVerb: "Teria 15 minutos na próxima semana para conversarmos?",
+        signOff: "Atenciosamente,",
+        optOut: "Não é o momento? É só responder \"não, obrigado\" que eu não entro mais em contato."
+      },
+      casual: {
+        greeting: (name) => `Oi, ${name},`,
+        opener: "Vou direto ao ponto:",
+        ctaVerb: "Bora marcar 15 minutos na semana que vem?",
+        signOff: "Abraços,",
+        optOut: "Não é o momento? É só responder \"não, obrigado\" que eu não entro mais em contato."
+      }
+    }
+  }
+};
+
+export const regionProfiles: Record<PlanRegion, RegionProfile> = {
+  "North America": {
+    label: "North America",
+    defaultLocale: "en-US",
+    compliance: [
+      "US (CAN-SPAM): every commercial email needs a postal address and a working opt-out, honored within 10 business days.",
+      "Canada (CASL): get express or implied consent before emailing Canadian contacts."
+    ]
+  },
+  "UK & Ireland": {
+    label: "UK & Ireland",
+    defaultLocale: "en-GB",
+    compliance: [
+      "UK GDPR and PECR: B2B email to corporate addresses is allowed with a clear opt-out; sole traders and partnerships need prior consent.",
+      "Record the legitimate-interest assessment behind each outbound list."
+    ]
+  },
+  DACH: {
+    label: "DACH",
+    defaultLocale: "de-DE",
+    compliance: [
+      "Germany (UWG §7) and Austria (TKG §174) require prior consent for promotional email, even B2B. Lead with LinkedIn, events, partner intros or opted-in lists instead of cold email.",
+      "Include company details (Impressum) in every email signature.",
+      "Switzerland (UWG Art. 3): bulk email needs consent and a clear opt-out."
+    ]
+  },
+  France: {
+    label: "France",
+    defaultLocale: "fr-FR",
+    compliance: [
+      "CNIL: B2B prospecting email to professional addresses is allowed when the offer relates to the recipient's role; identify the sender and include an opt-out.",
+      "GDPR: tell contacts where their data came from within one month of first contact."
+    ]
+  },
+  LATAM: {
+    label: "LATAM",
+    defaultLocale: "es-MX",
+    compliance: [
+      "Brazil (LGPD): document the legal basis for each list, usually legitimate interest, and honor opt-outs promptly.",
+      "Mexico (LFPDPPP): link to a privacy notice (aviso de privacidad) in outreach.",
+      "WhatsApp outreach requires prior opt-in."
+    ]
+  }
+};
+
+export function isEnglish(locale: PlanLocale) {
+  return locale.startsWith("en-");
+}
@@ -0,0 +1,168 @@
+import net from "net";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentMail extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: string;
+}
+
+const MAX_RECORDED = 100;
+const SMTP_TIMEOUT_MS = 10_000;
+
+/** Kept on `globalThis` so dev-server reloads do not drop the outbox. */
+function outbox(): SentMail[] {
+  const scope = globalThis as typeof globalThis & { __mockMail?: SentMail[] };
+  scope.__mockMail ??= [];
+  return scope.__mockMail;
+}
+
+export function listMockMail() {
+  return [...outbox()].reverse();
+}
+
+export function resetMockMail() {
+  outbox().splice(0);
+}
+
+function booleanFromEnv(value: string | undefined) {
+  return ["1", "true", "yes", "on"].includes(value?.trim().toLowerCase() ?? "");
+}
+
+/**
+ * The mock outbox holds working sign-in links, so it only runs when
+ * `MAIL_MOCK` is set and never in production.
+ */
+export function isMockMailEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return booleanFromEnv(env.MAIL_MOCK) && env.NODE_ENV !== "production";
+}
+
+/** Whether `sendMail` has an SMTP server or the mock outbox to deliver to. */
+export function canSendMail(env: NodeJS.ProcessEnv = process.env) {
+  return Boolean(env.SMTP_URL?.trim()) || isMockMailEnabled(env);
+}
+
+export function mailFrom(env: NodeJS.ProcessEnv = process.env) {
+  return env.MAIL_FROM ?? "Pipeline Pilot <no-reply@localhost>";
+}
+
+/**
+ * Base URL for links in emails. It comes from `APP_URL`, never from the
+ * request's Host header, which a caller can forge to point sign-in links at
+ * another site. Development falls back to the local server; production has
+ * no fallback and returns null.
+ */
+export function appUrl(env: NodeJS.ProcessEnv = process.env) {
+  const configured = env.APP_URL?.trim().replace(/\/+$/, "");
+  if (configured) return configured;
+  return env.NODE_ENV === "production" ? null : `http://localhost:${env.PORT?.trim() || 3000}`;
+}
+
+function address(from: string) {
+  return from.match(/<([^>]+)>/)?.[1] ?? from;
+}
+
+/** Header values are single lines; a stray line break would start a new header. */
+function headerValue(value: string) {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Speaks just enough SMTP for a local catcher such as Mailpit or MailHog, or
+ * a relay on a private network: no STARTTLS, optional AUTH PLAIN.
+ */
+async function sendSmtp(url: URL, from: string, message: MailMessage) {
+  const socket = net.connect({ host: url.hostname, port: Number(url.port || 25) });
+  socket.setEncoding("utf8");
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+
+  let buffer = "";
+  const waiters: ((reply: string) => void)[] = [];
+  const failures: ((error: Error) => void)[] = [];
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    // A reply ends with a line whose code is followed by a space, not a dash.
+    const match = buffer.match(/(?:^|\r\n)(\d{3}) [^\r\n]*\r\n$/);
+    if (match) {
+      const reply = buffer;
+      buffer = "";
+      waiters.shift()?.(reply);
+    }
+  });
+  socket.on("error", (error) => failures.forEach((fail) => fail(error)));
+
+  const reply = (expected: string) =>
+    new Promise<void>((resolve, reject) => {
+      failures.push(reject);
+      waiters.push((text) => {
+        const code = text.trimEnd().split("\r\n").pop()?.slice(0, 3) ?? "";
+        if (code.startsWith(expected)) resolve();
+        else reject(new Error(`SMTP server replied ${text.trim()}`));
+      });
+    });
+  const command = (line: string, expected: string) => {
+    const next = reply(expected);
+    socket.write(`${line}\r\n`);
+    return next;
+  };
+
+  const body = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${url.hostname}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    // Dot-stuffing, so a line with a lone "." does not end the message early.
+    ...message.text.split(/\r?\n/).map((line) => (line.startsWith(".") ? `.${line}` : line))
+  ].join("\r\n");
+
+  try {
+    await reply("2");
+    await command("EHLO pipeline-pilot", "2");
+    if (url.username) {
+      const credentials = Buffer.from(
+        `\0${decodeURIComponent(url.username)}\0${decodeURIComponent(url.password)}`
+      ).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, "2");
+    }
+    await command(`MAIL FROM:<${headerValue(address(from))}>`, "2");
+    await command(`RCPT TO:<${headerValue(message.to)}>`, "2");
+    await command("DATA", "3");
+    await command(`${body}\r\n.`, "2");
+    await command("QUIT", "2");
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Sends through `SMTP_URL`. With `MAIL_MOCK` on outside production the
+ * message goes to an in-memory outbox instead, readable at `/api/mock-mail`;
+ * with neither, sending fails rather than dropping the message.
+ */
+export async function sendMail(message: MailMessage, env: NodeJS.ProcessEnv = process.env) {
+  const from = mailFrom(env);
+
+  if (env.SMTP_URL?.trim()) {
+    await sendSmtp(new URL(env.SMTP_URL.trim()), from, message);
+    return;
+  }
+  if (!isMockMailEnabled(env)) {
+    throw new Error("Set SMTP_URL to send email, or MAIL_MOCK=1 outside production for the mock outbox.");
+  }
+
+  const mails = outbox();
+  mails.push({ ...message, id: randomUUID(), from, sentAt: new Date().toISOString() });
+  mails.splice(0, Math.max(0, mails.length - MAX_RECORDED));
+  // Only the envelope: the text holds sign-in links, which do not belong in logs.
+  console.info(`[mock mail] To ${message.to}: ${message.subject} (see /api/mock-mail)`);
+}
@@ -0,0 +1,15 @@
+import OpenAI from "openai";
+
+let client: OpenAI | null = null;
+
+export function getOpenAIClient() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not set");
+  }
+
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+
+  return client;
+}
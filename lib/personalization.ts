@@ -0,0 +1,294 @@
+import type { LeadPlan, SequenceStep } from "@/lib/types";
+
+export type MergeFieldScope = "lead" | "campaign";
+
+export interface MergeFieldDefinition {
+  name: string;
+  label: string;
+  /** Lead fields come from each row; campaign fields are set once per send. */
+  scope: MergeFieldScope;
+  /** Used when a lead has no value and the placeholder has no inline default. */
+  fallback?: string;
+}
+
+export const mergeFieldCatalog: MergeFieldDefinition[] = [
+  { name: "first_name", label: "First name", scope: "lead", fallback: "there" },
+  { name: "last_name", label: "Last name", scope: "lead" },
+  { name: "company", label: "Company", scope: "lead", fallback: "your team" },
+  { name: "title", label: "Job title", scope: "lead" },
+  { name: "industry", label: "Industry", scope: "lead" },
+  { name: "city", label: "City", scope: "lead" },
+  { name: "partner_name", label: "Partner contact", scope: "lead", fallback: "there" },
+  { name: "sender_name", label: "Sender name", scope: "campaign" },
+  { name: "calendar_link", label: "Booking link", scope: "campaign" },
+  { name: "webinar_link", label: "Webinar registration link", scope: "campaign" },
+  { name: "replay_link", label: "Webinar replay link", scope: "campaign" },
+  { name: "event_link", label: "Event page link", scope: "campaign" },
+  { name: "asset_link", label: "Content download link", scope: "campaign" }
+];
+
+const catalogByName = new Map(mergeFieldCatalog.map((field) => [field.name, field]));
+
+export function findMergeField(name: string) {
+  return catalogByName.get(name);
+}
+
+/** `{{ name }}` or `{{ name | default }}`. */
+const placeholderPattern = /\{\{\s*([^{}|]+?)\s*(?:\|\s*([^{}]*?)\s*)?\}\}/g;
+
+export interface Placeholder {
+  match: string;
+  field: string;
+  defaultValue?: string;
+  index: number;
+}
+
+export function canonicalField(name: string) {
+  return name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function findPlaceholders(text: string): Placeholder[] {
+  return Array.from(text.matchAll(placeholderPattern), (match) => ({
+    match: match[0],
+    field: canonicalField(match[1]),
+    defaultValue: match[2] || undefined,
+    index: match.index ?? 0
+  })).filter((placeholder) => placeholder.field !== "");
+}
+
+/**
+ * Rewrites `{{ First Name }}`, `{{firstName}}` and similar spellings to the
+ * canonical `{{first_name}}` form, keeping any inline default.
+ */
+export function normalizeMergeFields(text: string) {
+  return text.replace(placeholderPattern, (match, name: string, defaultValue?: string) => {
+    const field = canonicalField(name);
+    if (!field) return match;
+    return defaultValue ? `{{${field}|${defaultValue}}}` : `{{${field}}}`;
+  });
+}
+
+export function collectMergeFields(texts: string[]) {
+  return Array.from(
+    new Set(texts.flatMap((text) => findPlaceholders(text).map((placeholder) => placeholder.field)))
+  );
+}
+
+/** Every subject and body in a sequence, including A/B variants. */
+export function sequenceCopy(steps: SequenceStep[]) {
+  return steps.flatMap((step) => [
+    step.subject,
+    step.body,
+    ...step.variants.flatMap((variant) => [variant.subject, variant.body])
+  ]);
+}
+
+export interface CopyBlock {
+  id: string;
+  channel: string;
+  location: string;
+  subject: string;
+  body: string;
+}
+
+/** Every outbound message in a plan: sample copy, sequence steps and variants. */
+export function planCopyBlocks(plan: LeadPlan): CopyBlock[] {
+  const blocks: CopyBlock[] = plan.channelStrategy.map((item, index) => ({
+    id: `channel-${index}`,
+    channel: item.channel,
+    location: `${item.channel} · Sample copy`,
+    subject: "",
+    body: item.sampleCopy
+  }));
+
+  plan.outreachSequences.forEach((sequence, sequenceIndex) => {
+    sequence.steps.forEach((step, stepIndex) => {
+      const location = `${sequence.channel} · Day ${step.day} · ${step.touch}`;
+      const id = `sequence-${sequenceIndex}-${stepIndex}`;
+      blocks.push({
+        id,
+        channel: sequence.channel,
+        location,
+        subject: step.subject,
+        body: step.body
+      });
+      step.variants.forEach((variant, variantIndex) => {
+        blocks.push({
+          id: `${id}-${variantIndex}`,
+          channel: sequence.channel,
+          location: `${location} · Variant ${variant.label}`,
+          subject: variant.subject,
+          body: variant.body
+        });
+      });
+    });
+  });
+
+  return blocks;
+}
+
+export interface MergeFieldIssue {
+  severity: "error" | "warning";
+  location: string;
+  field?: string;
+  message: string;
+}
+
+const malformedPatterns: { pattern: RegExp; describe: (token: string) => string }[] = [
+  {
+    pattern: /(?<!\{)\{\s*[A-Za-z_ ]+\s*\}(?!\})/g,
+    describe: (token) => `${token} uses single braces; write {{field}}.`
+  },
+  {
+    pattern: /\[\s*(?:first|last|company|your|prospect|contact)[A-Za-z_ ]*\]/gi,
+    describe: (token) => `${token} looks like an unfilled placeholder; use a {{merge_field}}.`
+  }
+];
+
+function lintText(
+  text: string,
+  location: string,
+  known: Set<string>,
+  issues: MergeFieldIssue[]
+) {
+  for (const placeholder of findPlaceholders(text)) {
+    const definition = findMergeField(placeholder.field);
+    if (!known.has(placeholder.field)) {
+      issues.push({
+        severity: "error",
+        location,
+        field: placeholder.field,
+        message: `Unknown merge field {{${placeholder.field}}}.`
+      });
+    } else if (
+      definition?.scope !== "campaign" &&
+      !placeholder.defaultValue &&
+      !definition?.fallback
+    ) {
+      issues.push({
+        severity: "warning",
+        location,
+        field: placeholder.field,
+        message: `{{${placeholder.field}}} has no fallback; add one like {{${placeholder.field}|...}} for leads missing it.`
+      });
+    }
+  }
+
+  const stripped = text.replace(placeholderPattern, "");
+  if (/\{\{|\}\}/.test(stripped)) {
+    issues.push({
+      severity: "error",
+      location,
+      message: "Unbalanced {{ }} braces."
+    });
+  }
+  for (const { pattern, describe } of malformedPatterns) {
+    for (const match of stripped.matchAll(pattern)) {
+      issues.push({ severity: "warning", location, message: describe(match[0]) });
+    }
+  }
+}
+
+/**
+ * Checks every message in the plan for placeholders that are not declared
+ * (in the catalog or `extraFields`, e.g. lead CSV columns), lead fields with
+ * no fallback, malformed placeholders, and sequences whose `mergeFields`
+ * disagree with their copy.
+ */
+export function lintPlanCopy(plan: LeadPlan, extraFields: string[] = []): MergeFieldIssue[] {
+  const known = new Set([
+    ...mergeFieldCatalog.map((field) => field.name),
+    ...extraFields.map(canonicalField)
+  ]);
+  const issues: MergeFieldIssue[] = [];
+
+  for (const block of planCopyBlocks(plan)) {
+    if (block.subject) lintText(block.subject, `${block.location} (subject)`, known, issues);
+    lintText(block.body, block.location, known, issues);
+  }
+
+  for (const sequence of plan.outreachSequences) {
+    const used = collectMergeFields(sequenceCopy(sequence.steps));
+    const declared = sequence.mergeFields.map(canonicalField);
+    for (const field of used.filter((field) => !declared.includes(field))) {
+      issues.push({
+        severity: "warning",
+        location: sequence.channel,
+        field,
+        message: `{{${field}}} is used but missing from mergeFields.`
+      });
+    }
+    for (const field of declared.filter((field) => !used.includes(field))) {
+      issues.push({
+        severity: "warning",
+        location: sequence.channel,
+        field,
+        message: `{{${field}}} is declared in mergeFields but never used.`
+      });
+    }
+  }
+
+  return issues;
+}
+
+export type RenderedSegment =
+  | { kind: "text"; text: string }
+  | { kind: "value"; text: string; field: string }
+  | { kind: "fallback"; text: string; field: string }
+  | { kind: "missing"; text: string; field: string };
+
+export interface RenderedCopy {
+  text: string;
+  segments: RenderedSegment[];
+  /** Fields with no value and no fallback; rendered as the raw placeholder. */
+  missing: string[];
+}
+
+/**
+ * Fills placeholders from `values` (keyed by canonical field name). Empty
+ * values fall back to the inline default, then the catalog fallback.
+ */
+export function renderCopy(text: string, values: Record<string, string>): RenderedCopy {
+  const segments: RenderedSegment[] = [];
+  const missing = new Set<string>();
+  let cursor = 0;
+
+  for (const placeholder of findPlaceholders(text)) {
+    if (placeholder.index > cursor) {
+      segments.push({ kind: "text", text: text.slice(cursor, placeholder.index) });
+    }
+    cursor = placeholder.index + placeholder.match.length;
+
+    const value = values[placeholder.field]?.trim();
+    const fallback = placeholder.defaultValue ?? findMergeField(placeholder.field)?.fallback;
+    if (value) {
+      segments.push({ kind: "value", text: value, field: placeholder.field });
+    } else if (fallback) {
+      segments.push({ kind: "fallback", text: fallback, field: placeholder.field });
+    } else {
+      missing.add(placeholder.field);
+      segments.push({ kind: "missing", text: placeholder.match, field: placeholder.field });
+    }
+  }
+  if (cursor < text.length) {
+    segments.push({ kind: "text", text: text.slice(cursor) });
+  }
+
+  return {
+    text: segments.map((segment) => segment.text).join(""),
+    segments,
+    missing: Array.from(missing)
+  };
+}
+
+/** Keys a lead row by canonical field name so `First Name` maps to `first_name`. */
+export function toMergeValues(row: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [canonicalField(column), value])
+  );
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { leadPlanSchema, type LeadPlan } from "@/lib/types";
+
+export type PlanPath = (string | number)[];
+
+export function pathKey(path: PlanPath) {
+  return path.join(".");
+}
+
+type Container = Record<string | number, unknown>;
+
+export function getIn(value: unknown, path: PlanPath): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (current && typeof current === "object" ? (current as Container)[key] : undefined),
+    value
+  );
+}
+
+/** Immutable write: copies every object and array along the path. */
+export function setIn<T>(value: T, path: PlanPath, next: unknown): T {
+  if (!path.length) return next as T;
+  const [key, ...rest] = path;
+  const current = (value ?? (typeof key === "number" ? [] : {})) as Container;
+  const child = setIn(current[key], rest, next);
+  if (Array.isArray(current)) {
+    const copy = [...current];
+    copy[key as number] = child;
+    return copy as T;
+  }
+  return { ...current, [key]: child } as T;
+}
+
+function updateList<T>(value: T, path: PlanPath, update: (items: unknown[]) => unknown[]): T {
+  const items = getIn(value, path);
+  return setIn(value, path, update(Array.isArray(items) ? [...items] : []));
+}
+
+export function insertItem<T>(value: T, path: PlanPath, item: unknown, index?: number): T {
+  return updateList(value, path, (items) => {
+    items.splice(index ?? items.length, 0, item);
+    return items;
+  });
+}
+
+export function removeItem<T>(value: T, path: PlanPath, index: number): T {
+  return updateList(value, path, (items) => items.filter((_, position) => position !== index));
+}
+
+export function moveItem<T>(value: T, path: PlanPath, from: number, to: number): T {
+  return updateList(value, path, (items) => {
+    if (to < 0 || to >= items.length) return items;
+    const [item] = items.splice(from, 1);
+    items.splice(to, 0, item);
+    return items;
+  });
+}
+
+/** Strips defaults, optionals and refinements down to the structural type. */
+export function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema.innerType());
+  return schema;
+}
+
+/** The plan schema node at `path`, or null when the path leaves the schema. */
+export function schemaAt(path: PlanPath): z.ZodTypeAny | null {
+  let schema: z.ZodTypeAny = leadPlanSchema;
+  for (const key of path) {
+    const node = unwrapSchema(schema);
+    if (node instanceof z.ZodObject && typeof key === "string") {
+      const next = (node.shape as Record<string, z.ZodTypeAny>)[key];
+      if (!next) return null;
+      schema = next;
+    } else if (node instanceof z.ZodArray && typeof key === "number") {
+      schema = node.element;
+    } else {
+      return null;
+    }
+  }
+  return unwrapSchema(schema);
+}
+
+/** A blank value that satisfies the schema's shape, used for newly added list items. */
+export function emptyValue(schema: z.ZodTypeAny): unknown {
+  const node = unwrapSchema(schema);
+  if (node instanceof z.ZodObject) {
+    return Object.fromEntries(
+      Object.entries(node.shape as Record<string, z.ZodTypeAny>).map(([key, value]) => [key, emptyValue(value)])
+    );
+  }
+  if (node instanceof z.ZodArray) return [];
+  if (node instanceof z.ZodNumber) return 0;
+  if (node instanceof z.ZodBoolean) return false;
+  if (node instanceof z.ZodEnum) return node.options[0];
+  return "";
+}
+
+export interface DraftValidation {
+  plan: LeadPlan | null;
+  /** First issue per field, keyed by `pathKey`. */
+  issues: Map<string, string>;
+}
+
+export function validateDraft(draft: unknown): DraftValidation {
+  const result = leadPlanSchema.safeParse(draft);
+  if (result.success) return { plan: result.data, issues: new Map() };
+  const issues = new Map<string, string>();
+  for (const issue of result.error.issues) {
+    const key = pathKey(issue.path);
+    if (!issues.has(key)) issues.set(key, issue.message);
+  }
+  return { plan: null, issues };
+}
+
+/**
+ * Keys of every node that differs between two plans, including its
+ * ancestors, so a section or list item can be flagged as modified. Lists
+ * compare by position, so reordering marks the moved items.
+ */
+export function modifiedPaths(before: unknown, after: unknown, path: PlanPath = [], into = new Set<string>()) {
+  if (Object.is(before, after)) return into;
+  const bothObjects =
+    before !== null && after !== null && typeof before === "object" && typeof after === "object" &&
+    Array.isArray(before) === Array.isArray(after);
+
+  if (!bothObjects) {
+    into.add(pathKey(path));
+    return into;
+  }
+
+  const keys = Array.isArray(after)
+    ? Array.from({ length: Math.max((before as unknown[]).length, after.length) }, (_, index) => index)
+    : Array.from(new Set([...Object.keys(before as object), ...Object.keys(after as object)]));
+  const size = into.size;
+  for (const key of keys) {
+    modifiedPaths((before as Container)[key], (after as Container)[key], [...path, key], into);
+  }
+  if (into.size > size) into.add(pathKey(path));
+  return into;
+}
+
+export interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Key of the last change, so consecutive keystrokes in one field undo together. */
+  lastKey: string | null;
+}
+
+const HISTORY_LIMIT = 100;
+
+export function startHistory<T>(value: T): EditHistory<T> {
+  return { past: [], present: value, future: [], lastKey: null };
+}
+
+export function commitHistory<T>(history: EditHistory<T>, next: T, key: string | null = null): EditHistory<T> {
+  if (key !== null && key === history.lastKey) {
+    return { ...history, present: next, future: [] };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    lastKey: key
+  };
+}
+
+export function undoHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null
+  };
+}
+
+export function redoHistory<T>(history: EditHistory<T>): EditHistory<T> {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null
+  };
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { BrandProfile, BrandProfileInput } from "@/lib/schemas";
+
+const idPattern = /^[a-z0-9-]+$/i;
+
+function profileDir() {
+  return (
+    process.env.PROFILE_STORE_DIR ?? path.join(process.cwd(), "data", "profiles")
+  );
+}
+
+function profilePath(id: string) {
+  if (!idPattern.test(id)) {
+    throw new Error(`Invalid profile id: ${id}`);
+  }
+  return path.join(profileDir(), `${id}.json`);
+}
+
+async function writeProfile(profile: BrandProfile) {
+  await fs.mkdir(profileDir(), { recursive: true });
+  const target = profilePath(profile.id);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(profile, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+function withProductIds(input: BrandProfileInput): BrandProfile["products"] {
+  return input.products.map((product) => ({
+    ...product,
+    id: product.id && idPattern.test(product.id) ? product.id : randomUUID()
+  }));
+}
+
+export async function createProfile(workspaceId: string, input: BrandProfileInput) {
+  const now = new Date().toISOString();
+  const profile: BrandProfile = {
+    ...input,
+    id: randomUUID(),
+    workspaceId,
+    products: withProductIds(input),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await writeProfile(profile);
+  return profile;
+}
+
+/** Reads a profile; with `workspaceId`, profiles of other workspaces count as missing. */
+export async function getProfile(id: string, workspaceId?: string): Promise<BrandProfile | null> {
+  if (!idPattern.test(id)) return null;
+
+  let profile: BrandProfile;
+  try {
+    profile = JSON.parse(await fs.readFile(profilePath(id), "utf8")) as BrandProfile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return workspaceId === undefined || profile.workspaceId === workspaceId ? profile : null;
+}
+
+async function readProfiles(): Promise<BrandProfile[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(profileDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const profiles = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getProfile(file.slice(0, -".json".length)))
+  );
+
+  return profiles.filter((profile): profile is BrandProfile => profile !== null);
+}
+
+export async function listProfiles(workspaceId: string): Promise<BrandProfile[]> {
+  return (await readProfiles())
+    .filter((profile) => profile.workspaceId === workspaceId)
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+}
+
+export async function updateProfile(id: string, workspaceId: string, input: BrandProfileInput) {
+  const existing = await getProfile(id, workspaceId);
+  if (!existing) return null;
+
+  const profile: BrandProfile = {
+    ...input,
+    id,
+    workspaceId,
+    products: withProductIds(input),
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+
+  await writeProfile(profile);
+  return profile;
+}
+
+export async function deleteProfile(id: string, workspaceId: string) {
+  if (!(await getProfile(id, workspaceId))) return false;
+
+  try {
+    await fs.unlink(profilePath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
+
+/** Moves profiles saved before workspaces existed into the given workspace. */
+export async function claimUnscopedProfiles(workspaceId: string) {
+  const unscoped = (await readProfiles()).filter((profile) => !profile.workspaceId);
+  await Promise.all(unscoped.map((profile) => writeProfile({ ...profile, workspaceId })));
+  return unscoped.length;
+}
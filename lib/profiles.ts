@@ -0,0 +1,59 @@
+import type { BrandContext, BrandProfile, BrandProfileInput, LeadRequest } from "@/lib/schemas";
+
+export function findProduct(profile: BrandProfile, productId?: string) {
+  return profile.products.find((product) => product.id === productId) ?? profile.products[0];
+}
+
+/**
+ * Prefills a request from a profile and one of its products. Fields a product
+ * leaves blank (target customer, offer) keep what the form already had.
+ */
+export function applyProfile(
+  request: LeadRequest,
+  profile: BrandProfile,
+  productId?: string
+): LeadRequest {
+  const product = findProduct(profile, productId);
+  const brand: BrandContext = {
+    profileId: profile.id,
+    productId: product.id,
+    caseStudies: profile.caseStudies,
+    approvedClaims: profile.approvedClaims,
+    bannedPhrases: profile.bannedPhrases,
+    competitors: profile.competitors
+  };
+
+  return {
+    ...request,
+    businessName: profile.companyName,
+    industry: profile.industry,
+    productDescription: product.productDescription,
+    uniqueValue: product.uniqueValue,
+    targetCustomer: product.targetCustomer.trim() || request.targetCustomer,
+    offer: product.offer.trim() || request.offer,
+    notes: profile.notes.trim() || undefined,
+    brand
+  };
+}
+
+/** Starts a profile from the current form so a first run can be saved for reuse. */
+export function profileFromRequest(request: LeadRequest): BrandProfileInput {
+  return {
+    companyName: request.businessName,
+    industry: request.industry,
+    notes: request.notes ?? "",
+    caseStudies: request.brand?.caseStudies ?? [],
+    approvedClaims: request.brand?.approvedClaims ?? [],
+    bannedPhrases: request.brand?.bannedPhrases ?? [],
+    competitors: request.brand?.competitors ?? [],
+    products: [
+      {
+        name: "Core product",
+        productDescription: request.productDescription,
+        uniqueValue: request.uniqueValue,
+        targetCustomer: request.targetCustomer,
+        offer: request.offer
+      }
+    ]
+  };
+}
@@ -0,0 +1,199 @@
+import { describeGuardrails, resolveBudgetTotal } from "@/lib/budget";
+import { localeProfiles, regionProfiles, type PlanLocale } from "@/lib/locales";
+import { mergeFieldCatalog } from "@/lib/personalization";
+import type { LeadRequest } from "@/lib/schemas";
+import type { LeadPlan, PlanSectionKey } from "@/lib/types";
+
+export const SYSTEM_PROMPT =
+  "You are Pipeline Pilot, a senior demand generation strategist. Always respond with strictly valid JSON.";
+
+const sectionShapes: Record<PlanSectionKey, string> = {
+  campaignSummary: `{
+    "northStar": string,
+    "successMetrics": string[],
+    "positioningTheme": string
+  }`,
+  idealCustomerProfile: `{
+    "companyTraits": string[],
+    "buyerPersona": string[],
+    "painPoints": string[]
+  }`,
+  messagingPillars: `[{ "title": string, "angle": string, "proofPoints": string[] }]`,
+  channelStrategy: `[{
+    "channel": string,
+    "objective": string,
+    "play": string,
+    "cadence": string,
+    "sampleCopy": string
+  }]`,
+  budgetAllocation: `{
+    "total": number,
+    "currency": "USD",
+    "channels": [{
+      "channel": string,
+      "share": number,
+      "amount": number,
+      "lineItems": [{ "category": "tools" | "ads" | "content" | "headcount", "description": string, "amount": number, "hours": number }]
+    }],
+    "guardrails": string[]
+  }`,
+  outreachSequences: `[{
+    "channel": string,
+    "mergeFields": string[],
+    "steps": [{
+      "day": integer,
+      "touch": string,
+      "subject": string,
+      "body": string,
+      "variants": [{ "label": string, "subject": string, "body": string }]
+    }]
+  }]`,
+  automationWorkflow: `[{ "name": string, "trigger": string, "steps": string[] }]`,
+  experiments: `[{ "hypothesis": string, "experiment": string, "metric": string }]`,
+  nextSteps: `string[]`
+};
+
+const planShape = `{
+${Object.entries(sectionShapes)
+  .map(([key, shape]) => `  "${key}": ${shape}`)
+  .join(",\n")}
+}`;
+
+const mergeFieldList = mergeFieldCatalog
+  .map((field) => `{{${field.name}}}`)
+  .join(", ");
+
+function describeRequest(payload: LeadRequest) {
+  return `Business: ${payload.businessName}
+Industry / segment: ${payload.industry}
+Product: ${payload.productDescription}
+Target customer: ${payload.targetCustomer}
+Differentiators: ${payload.uniqueValue}
+Goals: ${payload.goals.join(", ")}
+Channels: ${payload.channels.join(", ")}
+Tone: ${payload.tone}
+Offer / CTA: ${payload.offer}
+Budget posture: ${payload.budgetLevel}
+Budget: $${resolveBudgetTotal(payload).toLocaleString("en-US")} for the full timeframe${payload.budgetAmount ? "" : " (estimated from the posture)"}
+Timeframe: ${payload.timeframe}
+Market: ${regionProfiles[payload.region].label}
+Language: ${localeProfiles[payload.locale].language} (${payload.locale})
+Additional notes: ${payload.notes?.trim() || "None"}${describeBrand(payload.brand)}`;
+}
+
+function describeBrand(brand: LeadRequest["brand"]) {
+  if (!brand) return "";
+  const lines = [
+    brand.caseStudies.length &&
+      `Case studies: ${brand.caseStudies.map((study) => `${study.customer} (${study.outcome})`).join("; ")}`,
+    brand.approvedClaims.length && `Approved claims: ${brand.approvedClaims.join("; ")}`,
+    brand.bannedPhrases.length && `Banned phrases: ${brand.bannedPhrases.join("; ")}`,
+    brand.competitors.length && `Competitors: ${brand.competitors.join(", ")}`
+  ].filter(Boolean);
+  return lines.length ? `\n${lines.join("\n")}` : "";
+}
+
+function languageRequirements(locale: PlanLocale) {
+  const { language } = localeProfiles[locale];
+  return `- Write every human-readable value in ${language}. Keep JSON keys, merge field names, channel names, "touch" labels and budget categories exactly as in English.`;
+}
+
+function localeRequirements(payload: LeadRequest) {
+  const { salutations } = localeProfiles[payload.locale];
+  const region = regionProfiles[payload.region];
+  return `
+${languageRequirements(payload.locale)}
+- Salutations and sign-offs: ${salutations}
+- Follow the outreach rules for ${region.label}, adjusting channels and cadence where they restrict cold outreach, and list them in "nextSteps": ${region.compliance.join(" ")}`;
+}
+
+function brandRequirements(brand: LeadRequest["brand"]) {
+  if (!brand) return "";
+  const rules = [
+    brand.caseStudies.length &&
+      "- Use the case studies as proof points and name only those customers; do not invent other customer stories.",
+    brand.approvedClaims.length &&
+      "- Any quantified or comparative claim must come from the approved claims, worded as given.",
+    brand.bannedPhrases.length &&
+      "- Never use any of the banned phrases anywhere in the plan, including sample copy and sequences.",
+    brand.competitors.length &&
+      "- Position against the listed competitors where it helps, without disparaging them by name in outbound copy."
+  ].filter(Boolean);
+  return rules.length ? `\n${rules.join("\n")}` : "";
+}
+
+export function buildLeadPlanPrompt(payload: LeadRequest) {
+  return `Design a full-funnel lead generation plan for the business below.
+
+${describeRequest(payload)}
+
+Requirements:
+- Provide one channelStrategy entry for every selected channel, with ready-to-send sampleCopy in the requested tone.
+- Keep cadences realistic for the budget posture and timeframe.
+- Split the budget across every selected channel in budgetAllocation: "share" is the percent of the total, "amount" is share × total, and each channel's lineItems add up to its amount. "hours" is team hours for headcount lines and 0 otherwise.
+- Respect these guardrails and list them in "guardrails": ${describeGuardrails(payload.budgetLevel).join(" ")}
+- Use merge fields where personalization helps, choosing only from: ${mergeFieldList}.
+- Provide one outreachSequences entry per selected channel with the full cadence: e.g. a 5-touch cold email sequence with subject lines, a LinkedIn connection note plus follow-ups, or webinar invite, reminder and replay emails. "day" is the offset from launch, "subject" is "" when the touch has none, and add an A/B variant to at least the first touch.
+- Write merge fields only as lowercase snake_case in double braces (e.g. {{first_name}}) and list every field a sequence uses in its "mergeFields". Give lead fields without a built-in fallback an inline default, e.g. {{title|your role}}.
+- End every email body with a one-line opt-out in the plan's language (e.g. "Not the right time? Reply \"no thanks\" and I won't follow up."). Keep LinkedIn connection notes under 300 characters, avoid spam-trigger wording, all caps and unverifiable superlatives, and only quote numbers that appear in the business details above.
+- Experiments must name a single measurable metric.${localeRequirements(payload)}${brandRequirements(payload.brand)}
+
+Respond with JSON only, matching exactly this shape:
+${planShape}`;
+}
+
+export function buildSectionPrompt(
+  payload: LeadRequest,
+  plan: LeadPlan,
+  section: PlanSectionKey,
+  instruction?: string
+) {
+  const direction = instruction?.trim()
+    ? `Refine the "${section}" section following this instruction: ${instruction.trim()}`
+    : `Regenerate the "${section}" section with fresh, stronger ideas. Do not repeat the current version.`;
+
+  return `You previously designed the lead generation plan below for this business.
+
+${describeRequest(payload)}
+
+Current plan:
+${JSON.stringify(plan, null, 2)}
+
+${direction}
+Keep it consistent with the rest of the plan.
+${languageRequirements(payload.locale)}${brandRequirements(payload.brand)}
+
+Respond with JSON only, matching exactly this shape:
+{ "${section}": ${sectionShapes[section]} }`;
+}
+
+export function buildTranslationPrompt(plan: LeadPlan, locale: PlanLocale) {
+  const { language, salutations } = localeProfiles[locale];
+  return `Translate the lead generation plan below into ${language} (${locale}).
+
+${JSON.stringify(plan, null, 2)}
+
+Requirements:
+- Localize rather than translate word for word: outbound copy should read as if a native ${language} speaker wrote it, in the same tone.
+${languageRequirements(locale)}
+- Keep every number, amount and day offset unchanged, and keep merge fields such as {{first_name}} exactly as written.
+- Salutations and sign-offs: ${salutations}
+
+Respond with JSON only, in exactly the same shape as the plan above.`;
+}
+
+export function buildRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  issues: string[]
+) {
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${previousResponse.slice(0, 12000)}
+
+It failed validation with these issues:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Return the complete corrected JSON only. Fix every issue above and keep all valid content unchanged.`;
+}
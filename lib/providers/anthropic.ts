@@ -0,0 +1,144 @@
+import type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderConfig
+} from "@/lib/providers/types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+  error?: { message?: string };
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  input?: unknown;
+}
+
+/**
+ * Anthropic has no JSON response mode, so schema-constrained output is
+ * requested by forcing a single tool call whose input is the plan.
+ */
+function structuredTool(config: ProviderConfig, request: CompletionRequest) {
+  if (!request.jsonSchema || !config.structuredOutput) return {};
+
+  return {
+    tools: [
+      {
+        name: request.jsonSchema.name,
+        description: "Return the result as structured data.",
+        input_schema: request.jsonSchema.schema
+      }
+    ],
+    tool_choice: { type: "tool", name: request.jsonSchema.name }
+  };
+}
+
+/**
+ * Minimal Messages API client built on `fetch`, so the Anthropic provider
+ * does not need its own SDK.
+ */
+export function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+  const send = async (request: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${config.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: config.maxTokens,
+        temperature: request.temperature ?? config.temperature,
+        system: request.system,
+        stream,
+        messages: [{ role: "user", content: request.prompt }],
+        ...structuredTool(config, request)
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Anthropic request failed (${response.status}): ${await response.text()}`
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    id: config.id,
+    model: config.model,
+    label: `${config.id}/${config.model}`,
+    async complete(request) {
+      const response = await send(request, false);
+      const data = (await response.json()) as {
+        content?: AnthropicContentBlock[];
+        usage?: AnthropicUsage;
+      };
+      if (data.usage) {
+        request.onUsage?.({
+          inputTokens: data.usage.input_tokens ?? 0,
+          outputTokens: data.usage.output_tokens ?? 0
+        });
+      }
+      const blocks = data.content ?? [];
+      const toolUse = blocks.find((block) => block.type === "tool_use");
+      if (toolUse) return JSON.stringify(toolUse.input);
+
+      return blocks
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+    },
+    async *stream(request) {
+      const response = await send(request, true);
+      if (!response.body) return;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = "";
+      // Input tokens arrive with message_start, output tokens with message_delta.
+      let inputTokens = 0;
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const event = JSON.parse(line.slice(5)) as AnthropicStreamEvent;
+
+          if (event.type === "error") {
+            throw new Error(event.error?.message ?? "Anthropic stream error");
+          }
+          if (event.type === "message_start") {
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+          }
+          if (event.type === "message_delta" && event.usage) {
+            request.onUsage?.({ inputTokens, outputTokens: event.usage.output_tokens ?? 0 });
+          }
+          if (event.type !== "content_block_delta") continue;
+          if (event.delta?.text) yield event.delta.text;
+          if (event.delta?.partial_json) yield event.delta.partial_json;
+        }
+      }
+    }
+  };
+}
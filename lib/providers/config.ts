@@ -0,0 +1,86 @@
+import { providerIds, type ProviderConfig, type ProviderId } from "@/lib/providers/types";
+
+const providerDefaults: Record<
+  ProviderId,
+  Pick<ProviderConfig, "model" | "temperature" | "maxTokens">
+> = {
+  openai: { model: "gpt-4o-mini", temperature: 0.4, maxTokens: 4096 },
+  "openai-compatible": { model: "llama3.1", temperature: 0.4, maxTokens: 4096 },
+  anthropic: {
+    model: "claude-3-5-haiku-latest",
+    temperature: 0.4,
+    maxTokens: 4096
+  },
+  mock: { model: "fixtures", temperature: 0, maxTokens: 4096 }
+};
+
+function booleanFromEnv(value: string | undefined, fallback: boolean) {
+  if (value === undefined || value.trim() === "") return fallback;
+  return !["0", "false", "no", "off"].includes(value.trim().toLowerCase());
+}
+
+function numberFromEnv(value: string | undefined, fallback: number) {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Picks the provider from `LLM_PROVIDER`, or infers it from whichever API key
+ * is present. Returns `null` when nothing is configured so callers can fall
+ * back to the heuristic planner.
+ */
+function resolveProviderId(env: NodeJS.ProcessEnv): ProviderId | null {
+  const requested = env.LLM_PROVIDER?.trim().toLowerCase();
+
+  if (requested) {
+    const match = providerIds.find((id) => id === requested);
+    if (!match) {
+      throw new Error(
+        `Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use one of: ${providerIds.join(", ")}`
+      );
+    }
+    return match;
+  }
+
+  if (env.OPENAI_API_KEY) return "openai";
+  if (env.ANTHROPIC_API_KEY) return "anthropic";
+  return null;
+}
+
+export function resolveProviderConfig(
+  env: NodeJS.ProcessEnv = process.env
+): ProviderConfig | null {
+  const id = resolveProviderId(env);
+  if (!id) return null;
+
+  const defaults = providerDefaults[id];
+  const config: ProviderConfig = {
+    id,
+    model: env.LLM_MODEL?.trim() || defaults.model,
+    temperature: numberFromEnv(env.LLM_TEMPERATURE, defaults.temperature),
+    maxTokens: numberFromEnv(env.LLM_MAX_TOKENS, defaults.maxTokens),
+    structuredOutput: booleanFromEnv(env.LLM_STRUCTURED_OUTPUT, true)
+  };
+
+  switch (id) {
+    case "openai":
+      config.apiKey = env.OPENAI_API_KEY;
+      if (!config.apiKey) return null;
+      break;
+    case "openai-compatible":
+      config.baseUrl = env.LLM_BASE_URL ?? "http://localhost:11434/v1";
+      config.apiKey = env.LLM_API_KEY ?? "not-needed";
+      break;
+    case "anthropic":
+      config.apiKey = env.ANTHROPIC_API_KEY;
+      config.baseUrl = env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com";
+      if (!config.apiKey) return null;
+      break;
+    case "mock":
+      config.fixtureDir = env.MOCK_LLM_FIXTURES;
+      break;
+  }
+
+  return config;
+}
@@ -0,0 +1,155 @@
+/**
+ * Recorded model output replayed by the mock provider when no
+ * `MOCK_LLM_FIXTURES` directory is configured.
+ */
+export const defaultFixtures = [
+  `\`\`\`json
+{
+  "campaignSummary": {
+    "northStar": "Book 24 qualified discovery calls with RevOps-led SaaS teams in 30 days.",
+    "successMetrics": ["Discovery calls booked per week", "Positive reply rate", "Pipeline created from audits"],
+    "positioningTheme": "Attribution you can trust by Friday, not next quarter."
+  },
+  "idealCustomerProfile": {
+    "companyTraits": ["Series B-D SaaS", "HubSpot or Salesforce in place", "Running 4+ paid and outbound channels"],
+    "buyerPersona": ["Head of Demand Gen accountable for pipeline", "RevOps lead who owns the data model", "CMO asking for board-ready ROI"],
+    "painPoints": ["Spreadsheet attribution that nobody trusts", "Budget cuts without channel-level evidence", "Slow implementations from legacy BI tools"]
+  },
+  "messagingPillars": [
+    {
+      "title": "Proof over opinions",
+      "angle": "Show which campaigns actually create opportunities, in real time.",
+      "proofPoints": ["Live in under two weeks", "Segment case study: 31% more pipeline per dollar", "Native Gong partnership"]
+    },
+    {
+      "title": "Recommendations, not dashboards",
+      "angle": "AI suggestions surface the tactics that lift opportunity creation.",
+      "proofPoints": ["Weekly prioritized actions", "Benchmarks from similar SaaS teams", "No analyst required"]
+    }
+  ],
+  "channelStrategy": [
+    {
+      "channel": "Cold email",
+      "objective": "Book pipeline efficiency audits with demand gen leaders.",
+      "play": "Three-step sequence anchored on a spend-vs-pipeline teaser for their top channel.",
+      "cadence": "Day 1, 3, 7",
+      "sampleCopy": "Hi {{first_name}}, most teams we audit find one channel eating 30% of spend with no pipeline to show. Want a free look at {{company}}'s numbers?"
+    },
+    {
+      "channel": "LinkedIn outreach",
+      "objective": "Warm up RevOps champions before email touches.",
+      "play": "Connect with a note referencing their stack, then share the Segment story.",
+      "cadence": "2 touches per week",
+      "sampleCopy": "{{first_name}}, saw {{company}} runs HubSpot + Salesforce. We help RevOps teams tie both to pipeline without a six-month project. Open to connecting?"
+    }
+  ],
+  "budgetAllocation": {
+    "total": 12000,
+    "currency": "USD",
+    "channels": [
+      {
+        "channel": "Cold email",
+        "share": 55,
+        "amount": 6600,
+        "lineItems": [
+          { "category": "tools", "description": "Sequencing and inbox warm-up seats", "amount": 1200, "hours": 0 },
+          { "category": "content", "description": "Audit teaser one-pagers per vertical", "amount": 1400, "hours": 0 },
+          { "category": "headcount", "description": "SDR time writing and sending sequences", "amount": 4000, "hours": 80 }
+        ]
+      },
+      {
+        "channel": "LinkedIn outreach",
+        "share": 45,
+        "amount": 5400,
+        "lineItems": [
+          { "category": "tools", "description": "Sales Navigator seats", "amount": 900, "hours": 0 },
+          { "category": "ads", "description": "Sponsored posts promoting the Segment story", "amount": 2500, "hours": 0 },
+          { "category": "headcount", "description": "Founder and SDR connection notes", "amount": 2000, "hours": 40 }
+        ]
+      }
+    ],
+    "guardrails": ["Pause any channel with no booked calls after two weeks", "Keep at least 20% of spend on the best performer"]
+  },
+  "outreachSequences": [
+    {
+      "channel": "Cold email",
+      "mergeFields": ["first_name", "company"],
+      "steps": [
+        {
+          "day": 1,
+          "touch": "Audit teaser",
+          "subject": "{{company}}'s spend vs pipeline",
+          "body": "Hi {{first_name}}, most teams we audit find one channel eating 30% of spend with no pipeline to show. Want a free look at {{company}}'s numbers?",
+          "variants": [
+            {
+              "label": "B",
+              "subject": "30% of spend, 0 pipeline?",
+              "body": "Hi {{first_name}}, quick question: do you know which channel at {{company}} creates the least pipeline per dollar? We can show you in one call."
+            }
+          ]
+        },
+        {
+          "day": 3,
+          "touch": "Case study follow-up",
+          "subject": "How Segment found 31% more pipeline",
+          "body": "{{first_name}}, Segment tied every campaign to opportunities in under two weeks and moved budget to what worked. Happy to share how.",
+          "variants": []
+        },
+        {
+          "day": 7,
+          "touch": "Break-up",
+          "subject": "Close the loop?",
+          "body": "Hi {{first_name}}, I'll stop here. If attribution comes up at {{company}} this quarter, the audit offer stands.",
+          "variants": []
+        }
+      ]
+    },
+    {
+      "channel": "LinkedIn outreach",
+      "mergeFields": ["first_name", "company"],
+      "steps": [
+        {
+          "day": 0,
+          "touch": "Connection note",
+          "subject": "",
+          "body": "{{first_name}}, saw {{company}} runs HubSpot + Salesforce. We help RevOps teams tie both to pipeline without a six-month project. Open to connecting?",
+          "variants": [
+            {
+              "label": "B",
+              "subject": "",
+              "body": "{{first_name}}, always keen to meet RevOps leaders who own the data model. Would be glad to connect."
+            }
+          ]
+        },
+        {
+          "day": 4,
+          "touch": "Share the Segment story",
+          "subject": "",
+          "body": "Thanks for connecting, {{first_name}}. Thought this might be useful: how Segment's RevOps team got attribution live in two weeks.",
+          "variants": []
+        }
+      ]
+    }
+  ],
+  "automationWorkflow": [
+    {
+      "name": "Audit request follow-up",
+      "trigger": "Audit form submitted",
+      "steps": ["Send calendar link within 5 minutes", "Notify owning AE in Slack", "Send prep checklist 24 hours before the call"]
+    }
+  ],
+  "experiments": [
+    {
+      "hypothesis": "Quantified teasers lift reply rate versus generic value props.",
+      "experiment": "A/B subject line: '30% of spend, 0 pipeline?' vs 'Attribution for {{company}}'",
+      "metric": "Positive reply rate"
+    }
+  ],
+  "nextSteps": [
+    "Pull 200 target accounts matching the ICP",
+    "Load sequences into the outreach tool",
+    "Schedule weekly performance review"
+  ]
+}
+\`\`\``
+];
@@ -0,0 +1,45 @@
+import { createAnthropicProvider } from "@/lib/providers/anthropic";
+import { resolveProviderConfig } from "@/lib/providers/config";
+import { createMockProvider } from "@/lib/providers/mock";
+import { createOpenAIProvider } from "@/lib/providers/openai";
+import type { LLMProvider } from "@/lib/providers/types";
+
+export type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderConfig,
+  ProviderId,
+  TokenUsage
+} from "@/lib/providers/types";
+
+/**
+ * Returns the configured LLM provider, or `null` when none is set up and the
+ * heuristic fallback planner should be used instead.
+ */
+export function getProvider(): LLMProvider | null {
+  const config = resolveProviderConfig();
+  if (!config) return null;
+
+  switch (config.id) {
+    case "openai":
+    case "openai-compatible":
+      return createOpenAIProvider(config);
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "mock":
+      return createMockProvider(config);
+  }
+}
+
+/**
+ * Like `getProvider`, but logs configuration errors and treats them as "no
+ * provider" so request handlers can degrade to the fallback planner.
+ */
+export function loadProvider(): LLMProvider | null {
+  try {
+    return getProvider();
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { defaultFixtures } from "@/lib/providers/fixtures";
+import type { LLMProvider, ProviderConfig } from "@/lib/providers/types";
+
+const CHUNK_SIZE = 48;
+
+let cursor = 0;
+
+async function loadFixtures(dir?: string) {
+  if (!dir) return defaultFixtures;
+
+  const files = (await fs.readdir(dir))
+    .filter((file) => /\.(txt|md)$/i.test(file))
+    .sort();
+
+  if (files.length === 0) {
+    throw new Error(`No .txt or .md fixtures found in ${dir}`);
+  }
+
+  return Promise.all(
+    files.map((file) => fs.readFile(path.join(dir, file), "utf8"))
+  );
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Fixtures are replayed
+ * in filename order and wrap around once exhausted.
+ */
+export function createMockProvider(config: ProviderConfig): LLMProvider {
+  const next = async () => {
+    const fixtures = await loadFixtures(config.fixtureDir);
+    const fixture = fixtures[cursor % fixtures.length];
+    cursor += 1;
+    return fixture;
+  };
+
+  return {
+    id: config.id,
+    model: config.model,
+    label: `${config.id}/${config.model}`,
+    complete() {
+      return next();
+    },
+    async *stream(request) {
+      const fixture = await next();
+      for (let index = 0; index < fixture.length; index += CHUNK_SIZE) {
+        if (request.signal?.aborted) return;
+        yield fixture.slice(index, index + CHUNK_SIZE);
+      }
+    }
+  };
+}
+
+export function resetMockProvider() {
+  cursor = 0;
+}
@@ -0,0 +1,90 @@
+import OpenAI from "openai";
+import { getOpenAIClient } from "@/lib/openai";
+import type {
+  CompletionRequest,
+  LLMProvider,
+  ProviderConfig
+} from "@/lib/providers/types";
+
+function messages(request: CompletionRequest) {
+  return [
+    { role: "system" as const, content: request.system },
+    { role: "user" as const, content: request.prompt }
+  ];
+}
+
+function responseFormat(config: ProviderConfig, request: CompletionRequest) {
+  if (!request.jsonSchema || !config.structuredOutput) return undefined;
+
+  return {
+    type: "json_schema" as const,
+    json_schema: {
+      name: request.jsonSchema.name,
+      schema: request.jsonSchema.schema,
+      strict: true
+    }
+  };
+}
+
+/**
+ * Serves both the hosted OpenAI API and any server that speaks the same chat
+ * completions protocol (Ollama, vLLM, LM Studio) via `baseUrl`.
+ */
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const client =
+    config.id === "openai"
+      ? getOpenAIClient()
+      : new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl });
+
+  return {
+    id: config.id,
+    model: config.model,
+    label: `${config.id}/${config.model}`,
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        {
+          model: config.model,
+          temperature: request.temperature ?? config.temperature,
+          max_tokens: config.maxTokens,
+          response_format: responseFormat(config, request),
+          messages: messages(request)
+        },
+        { signal: request.signal }
+      );
+      if (completion.usage) {
+        request.onUsage?.({
+          inputTokens: completion.usage.prompt_tokens,
+          outputTokens: completion.usage.completion_tokens
+        });
+      }
+      return completion.choices?.[0]?.message?.content ?? "";
+    },
+    async *stream(request) {
+      const completion = await client.chat.completions.create(
+        {
+          model: config.model,
+          temperature: request.temperature ?? config.temperature,
+          max_tokens: config.maxTokens,
+          response_format: responseFormat(config, request),
+          stream: true,
+          // Compatible servers do not all accept stream options, so usage is
+          // only requested from OpenAI itself and estimated elsewhere.
+          ...(config.id === "openai" && { stream_options: { include_usage: true } }),
+          messages: messages(request)
+        },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of completion) {
+        if (chunk.usage) {
+          request.onUsage?.({
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          });
+        }
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+}
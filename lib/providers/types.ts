@@ -0,0 +1,50 @@
+import type { NamedJsonSchema } from "@/lib/jsonSchema";
+
+export const providerIds = [
+  "openai",
+  "openai-compatible",
+  "anthropic",
+  "mock"
+] as const;
+
+export type ProviderId = (typeof providerIds)[number];
+
+export interface ProviderConfig {
+  id: ProviderId;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** Whether to request schema-constrained JSON when a call provides one. */
+  structuredOutput: boolean;
+  apiKey?: string;
+  baseUrl?: string;
+  fixtureDir?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** True when counted from text length because the provider reported nothing. */
+  estimated?: boolean;
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  /** Overrides the configured temperature for this call. */
+  temperature?: number;
+  /** Constrains the response to this JSON schema where the provider supports it. */
+  jsonSchema?: NamedJsonSchema;
+  signal?: AbortSignal;
+  /** Receives the token counts the provider reports for this call. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  /** Short `provider/model` label stored alongside generated plans. */
+  label: string;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,135 @@
+const WINDOW_MS = 60_000;
+
+/** Request timestamps per client within the last window. */
+const windows = new Map<string, number[]>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the next request would be allowed; 0 when allowed. */
+  retryAfter: number;
+}
+
+/** Requests per client per minute from `RATE_LIMIT_PER_MINUTE`; 0 disables the limit. */
+export function rateLimitPerMinute(env: NodeJS.ProcessEnv = process.env) {
+  const parsed = Number(env.RATE_LIMIT_PER_MINUTE);
+  return env.RATE_LIMIT_PER_MINUTE?.trim() && Number.isInteger(parsed) && parsed >= 0 ? parsed : 10;
+}
+
+/**
+ * Attempts per minute at sign-in and other credential checks, from
+ * `AUTH_RATE_LIMIT_PER_MINUTE` (default 5). Unlike the generation limit it
+ * cannot be turned off.
+ */
+export function authRateLimitPerMinute(env: NodeJS.ProcessEnv = process.env) {
+  const parsed = Number(env.AUTH_RATE_LIMIT_PER_MINUTE);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 5;
+}
+
+function booleanFromEnv(value: string | undefined) {
+  return ["1", "true", "yes", "on"].includes(value?.trim().toLowerCase() ?? "");
+}
+
+/**
+ * The caller's address as reported by the proxy in front of the app. Clients
+ * can send these headers themselves, so they only count when `TRUST_PROXY` is
+ * set, and only the last forwarded entry, the one the proxy appended.
+ */
+export function clientIp(request: Request, env: NodeJS.ProcessEnv = process.env) {
+  if (!booleanFromEnv(env.TRUST_PROXY)) return null;
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || null;
+}
+
+/**
+ * Identifies the caller by their user id when signed in, else by their
+ * address, falling back to a shared key when no trusted proxy reports one.
+ */
+export function clientKey(request: Request, userId?: string) {
+  if (userId) return `user:${userId}`;
+  const ip = clientIp(request);
+  return ip ? `ip:${ip}` : "local";
+}
+
+let lastSweep = 0;
+
+/** Drops clients whose requests have all left the window, so the map stays bounded. */
+function sweep(now: number) {
+  if (now - lastSweep < WINDOW_MS) return;
+  lastSweep = now;
+  windows.forEach((times, key) => {
+    if (now - times[times.length - 1] >= WINDOW_MS) windows.delete(key);
+  });
+}
+
+function check(key: string, cost: number, limit: number, now: number): RateLimitResult {
+  const recent = (windows.get(key) ?? []).filter((at) => now - at < WINDOW_MS);
+  if (recent.length) windows.set(key, recent);
+  else windows.delete(key);
+
+  if (recent.length + cost > limit) {
+    // Wait until enough of the oldest requests leave the window.
+    const freeAt = recent[Math.max(0, recent.length + cost - limit - 1)] ?? now;
+    return {
+      allowed: false,
+      limit,
+      remaining: Math.max(0, limit - recent.length),
+      retryAfter: Math.max(1, Math.ceil((freeAt + WINDOW_MS - now) / 1000))
+    };
+  }
+  return { allowed: true, limit, remaining: limit - recent.length - cost, retryAfter: 0 };
+}
+
+function record(key: string, cost: number, now: number) {
+  windows.set(key, [...(windows.get(key) ?? []), ...Array<number>(cost).fill(now)]);
+}
+
+/**
+ * Sliding-window limiter kept in memory, so each server instance counts on its
+ * own. `cost` lets one request spend several slots, e.g. a batch of plans; a
+ * cost above `limit` is never allowed, so callers cap it first.
+ */
+export function takeRateLimit(key: string, cost = 1, limit = rateLimitPerMinute(), now = Date.now()): RateLimitResult {
+  if (limit === 0) return { allowed: true, limit, remaining: Infinity, retryAfter: 0 };
+
+  sweep(now);
+  const result = check(key, cost, limit, now);
+  if (result.allowed) record(key, cost, now);
+  return result;
+}
+
+/**
+ * Limits credential checks per account (an email address, or e.g. "admin" for
+ * the admin token) and, when a trusted proxy reports it, per address as well.
+ * Guesses against one account slow down however many addresses they come
+ * from, and one address cannot work through many accounts.
+ */
+export function takeAuthRateLimit(request: Request, account: string, now = Date.now()): RateLimitResult {
+  const limit = authRateLimitPerMinute();
+  const ip = clientIp(request);
+  const keys = [`auth:${account.trim().toLowerCase()}`, ...(ip ? [`auth-ip:${ip}`] : [])];
+
+  sweep(now);
+  const results = keys.map((key) => check(key, 1, limit, now));
+  const denied = results.filter((result) => !result.allowed);
+  if (denied.length) {
+    return denied.reduce((a, b) => (b.retryAfter > a.retryAfter ? b : a));
+  }
+
+  keys.forEach((key) => record(key, 1, now));
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.limit === 0) return {};
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    ...(!result.allowed && { "Retry-After": String(result.retryAfter) })
+  };
+}
+
+export function resetRateLimits() {
+  windows.clear();
+}
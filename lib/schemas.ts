@@ -0,0 +1,378 @@
+import { z } from "zod";
+import { isPlanSectionKey, leadPlanSchema, type PlanSectionKey } from "@/lib/types";
+import { exportFormatOptions } from "@/lib/export";
+import { ownerRoles } from "@/lib/calendar";
+import { crmConnectorIds } from "@/lib/crm/types";
+import { leadFieldOptions } from "@/lib/scoring";
+import { experimentMetricOptions, experimentStatusOptions } from "@/lib/experiments";
+import { localeOptions, regionOptions } from "@/lib/locales";
+import { workspaceRoles } from "@/lib/auth/types";
+
+export const goalOptions = [
+  "Book discovery calls",
+  "Increase demo requests",
+  "Grow newsletter subscribers",
+  "Drive free trial sign-ups",
+  "Re-engage closed-lost deals",
+  "Expand within existing accounts"
+] as const;
+
+export const channelOptions = [
+  "Cold email",
+  "LinkedIn outreach",
+  "Webinars",
+  "Content syndication",
+  "Paid social",
+  "Partner referrals",
+  "Events & field",
+  "SEO / inbound"
+] as const;
+
+export const toneOptions = [
+  "Data-driven",
+  "Consultative",
+  "Bold",
+  "Friendly",
+  "Executive",
+  "Playful"
+] as const;
+
+export const budgetLevelOptions = ["lean", "balanced", "aggressive"] as const;
+
+export const timeframeOptions = ["2 weeks", "30 days", "90 days"] as const;
+
+const brandPhrase = z.string().trim().min(1).max(200, "Keep each entry under 200 characters");
+
+export const caseStudySchema = z.object({
+  customer: z.string().trim().min(1, "Name the customer").max(80, "Keep the customer under 80 characters"),
+  outcome: z.string().trim().min(5, "Describe the result").max(300, "Keep the result under 300 characters")
+});
+
+/** Proof and guardrails shared by a saved brand profile and the requests it prefills. */
+const brandGuidanceSchema = z.object({
+  caseStudies: z.array(caseStudySchema).max(10, "Keep at most 10 case studies").default([]),
+  approvedClaims: z.array(brandPhrase).max(20, "Keep at most 20 approved claims").default([]),
+  bannedPhrases: z.array(brandPhrase).max(50, "Keep at most 50 banned phrases").default([]),
+  competitors: z.array(brandPhrase).max(20, "Keep at most 20 competitors").default([])
+});
+
+export const brandContextSchema = brandGuidanceSchema.extend({
+  profileId: z.string().max(60).optional(),
+  productId: z.string().max(60).optional()
+});
+
+export type BrandContext = z.infer<typeof brandContextSchema>;
+export type CaseStudy = z.infer<typeof caseStudySchema>;
+
+export const leadRequestSchema = z.object({
+  businessName: z.string().min(2, "Add your business name"),
+  industry: z.string().min(2, "Describe your industry or segment"),
+  productDescription: z
+    .string()
+    .min(20, "Give the agent at least a sentence about your product"),
+  targetCustomer: z
+    .string()
+    .min(20, "Describe who you sell to and what they struggle with"),
+  uniqueValue: z.string().min(20, "Explain why customers choose you"),
+  goals: z.array(z.enum(goalOptions)).min(1, "Pick at least one goal"),
+  channels: z.array(z.enum(channelOptions)).min(1, "Pick at least one channel"),
+  tone: z.enum(toneOptions),
+  offer: z.string().min(5, "Add the offer or call-to-action"),
+  notes: z.string().max(1000, "Keep notes under 1000 characters").optional(),
+  budgetLevel: z.enum(budgetLevelOptions),
+  budgetAmount: z
+    .number()
+    .int("Use whole dollars")
+    .min(100, "Budget must be at least $100")
+    .max(100_000_000, "Budget must be under $100M")
+    .optional(),
+  timeframe: z.enum(timeframeOptions),
+  /** Language and conventions for every piece of copy. */
+  locale: z.enum(localeOptions).default("en-US"),
+  /** Market the campaign runs in; drives compliance notes. */
+  region: z.enum(regionOptions).default("North America"),
+  brand: brandContextSchema.optional()
+});
+
+export type LeadRequest = z.infer<typeof leadRequestSchema>;
+export type Channel = (typeof channelOptions)[number];
+export type Goal = (typeof goalOptions)[number];
+export type Tone = (typeof toneOptions)[number];
+
+export const productProfileSchema = z.object({
+  /** Assigned on save when missing. */
+  id: z.string().max(60).optional(),
+  name: z.string().trim().min(1, "Name the product").max(80, "Keep the name under 80 characters"),
+  productDescription: leadRequestSchema.shape.productDescription,
+  uniqueValue: leadRequestSchema.shape.uniqueValue,
+  targetCustomer: z.string().max(1000).default(""),
+  offer: z.string().max(300).default("")
+});
+
+export const brandProfileInputSchema = brandGuidanceSchema.extend({
+  companyName: leadRequestSchema.shape.businessName,
+  industry: leadRequestSchema.shape.industry,
+  notes: z.string().max(1000, "Keep notes under 1000 characters").default(""),
+  products: z
+    .array(productProfileSchema)
+    .min(1, "Add at least one product")
+    .max(20, "Keep at most 20 products per profile")
+});
+
+export type BrandProfileInput = z.infer<typeof brandProfileInputSchema>;
+export type ProductProfile = z.infer<typeof productProfileSchema> & { id: string };
+
+export type BrandProfile = Omit<BrandProfileInput, "products"> & {
+  id: string;
+  /** Absent on profiles saved before workspaces until the first workspace claims them. */
+  workspaceId?: string;
+  products: ProductProfile[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const sectionRequestSchema = z.object({
+  request: leadRequestSchema,
+  plan: leadPlanSchema,
+  section: z.custom<PlanSectionKey>(
+    (value) => typeof value === "string" && isPlanSectionKey(value),
+    "Unknown plan section"
+  ),
+  instruction: z
+    .string()
+    .max(500, "Keep the instruction under 500 characters")
+    .optional(),
+  planId: z.string().optional()
+});
+
+export type SectionRequest = z.infer<typeof sectionRequestSchema>;
+
+export const translateRequestSchema = z.object({
+  plan: leadPlanSchema,
+  locale: z.enum(localeOptions)
+});
+
+export type TranslateRequest = z.infer<typeof translateRequestSchema>;
+
+export const batchOverrideKeys = ["industry", "targetCustomer", "channels", "tone"] as const;
+
+export type BatchOverrideKey = (typeof batchOverrideKeys)[number];
+
+export const batchVariantSchema = leadRequestSchema
+  .pick({ industry: true, targetCustomer: true, channels: true, tone: true })
+  .partial()
+  .extend({
+    label: z.string().trim().max(60, "Keep the label under 60 characters").optional()
+  });
+
+export type BatchVariant = z.infer<typeof batchVariantSchema>;
+
+export const batchRequestSchema = z.object({
+  base: leadRequestSchema,
+  variants: z
+    .array(batchVariantSchema)
+    .min(1, "Add at least one variant")
+    .max(12, "Run at most 12 variants per batch")
+});
+
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+export const updatePlanSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Name cannot be empty")
+      .max(120, "Keep the name under 120 characters")
+      .optional(),
+    plan: leadPlanSchema.optional()
+  })
+  .refine((value) => value.name !== undefined || value.plan !== undefined, {
+    message: "Provide a name or an edited plan",
+    path: ["plan"]
+  });
+
+export const exportRequestSchema = z.object({
+  plan: leadPlanSchema,
+  format: z.enum(exportFormatOptions),
+  title: z.string().trim().max(120).optional(),
+  timeframe: z.enum(timeframeOptions).default("30 days"),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .optional(),
+  owners: z.record(z.enum(ownerRoles), z.string().trim().max(80)).optional()
+});
+
+export const scoreLeadsSchema = z
+  .object({
+    planId: z.string().optional(),
+    profile: leadPlanSchema.shape.idealCustomerProfile.optional(),
+    csv: z
+      .string()
+      .min(1, "Provide a CSV with a header row")
+      .max(5_000_000, "Keep uploads under 5 MB"),
+    mapping: z.record(z.enum(leadFieldOptions), z.string().nullable()).optional()
+  })
+  .refine((value) => value.planId || value.profile, {
+    message: "Provide a planId or an idealCustomerProfile",
+    path: ["profile"]
+  });
+
+export const crmPushSchema = z
+  .object({
+    connector: z.enum(crmConnectorIds),
+    planId: z.string().optional(),
+    plan: leadPlanSchema.optional(),
+    name: z.string().trim().max(120).optional(),
+    dryRun: z.boolean().default(true)
+  })
+  .refine((value) => value.planId || value.plan, {
+    message: "Provide a planId or a plan",
+    path: ["plan"]
+  });
+
+const count = z.number().int().min(0).max(10_000_000);
+
+const experimentVariantSchema = z
+  .object({
+    id: z.string().min(1).max(40),
+    label: z.string().trim().min(1, "Name the variant").max(40),
+    description: z.string().max(300).default(""),
+    sends: count,
+    replies: count,
+    meetings: count
+  })
+  .refine((variant) => variant.replies <= variant.sends, {
+    message: "Replies cannot exceed sends",
+    path: ["replies"]
+  })
+  .refine((variant) => variant.meetings <= variant.replies, {
+    message: "Meetings cannot exceed replies",
+    path: ["meetings"]
+  });
+
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable();
+
+export const trackedExperimentSchema = z
+  .object({
+    id: z.string().min(1).max(60),
+    hypothesis: z.string().max(500),
+    experiment: z.string().max(1000),
+    metric: z.string().max(200),
+    primaryMetric: z.enum(experimentMetricOptions),
+    status: z.enum(experimentStatusOptions),
+    startDate: isoDate,
+    endDate: isoDate,
+    minimumDetectableLift: z.number().min(0.01).max(5),
+    variants: z
+      .array(experimentVariantSchema)
+      .min(2, "Keep a control and at least one challenger")
+      .max(6, "Test at most six variants at once")
+  })
+  .refine(
+    (experiment) =>
+      !experiment.startDate || !experiment.endDate || experiment.endDate >= experiment.startDate,
+    { message: "End date must be on or after the start date", path: ["endDate"] }
+  );
+
+export type TrackedExperiment = z.infer<typeof trackedExperimentSchema>;
+
+export const trackedExperimentsSchema = z.object({
+  experiments: z.array(trackedExperimentSchema).max(30, "Track at most 30 experiments per plan")
+});
+
+export const budgetAllocationUpdateSchema = z.object({
+  budgetAllocation: leadPlanSchema.shape.budgetAllocation.refine(
+    (allocation) => allocation.channels.every((channel) => channel.share >= 0 && channel.amount >= 0),
+    { message: "Shares and amounts cannot be negative" }
+  )
+});
+
+export const createShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null)
+});
+
+export const commentAnchorSchema = z.object({
+  section: z.custom<PlanSectionKey>(
+    (value) => typeof value === "string" && isPlanSectionKey(value),
+    "Unknown plan section"
+  ),
+  /** Index of the item within a list section; null anchors to the whole section. */
+  item: z.number().int().min(0).nullable()
+});
+
+export const newCommentSchema = z.object({
+  anchor: commentAnchorSchema,
+  parentId: z.string().max(60).nullable().default(null),
+  author: z.string().trim().min(1, "Add your name").max(80, "Keep the name under 80 characters"),
+  body: z
+    .string()
+    .trim()
+    .min(1, "Write a comment")
+    .max(2000, "Keep comments under 2,000 characters")
+});
+
+export type CommentAnchor = z.infer<typeof commentAnchorSchema>;
+
+export type PlanComment = z.infer<typeof newCommentSchema> & {
+  id: string;
+  createdAt: string;
+};
+
+const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("Enter a valid email address")
+  .max(200, "Keep the email under 200 characters");
+
+// User and workspace names end up in email headers, so line breaks and other
+// control characters are refused.
+const hasNoControlCharacters = (value: string) => !/\p{Cc}/u.test(value);
+
+export const magicLinkSchema = z.object({
+  email: emailSchema
+});
+
+export const signInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Enter your password").max(200)
+});
+
+export const signUpSchema = signInSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Add your name")
+    .max(80, "Keep the name under 80 characters")
+    .refine(hasNoControlCharacters, "Remove line breaks from the name"),
+  password: z
+    .string()
+    .min(10, "Use at least 10 characters")
+    .max(200, "Keep the password under 200 characters")
+});
+
+export const workspaceInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Name the workspace")
+    .max(80, "Keep the name under 80 characters")
+    .refine(hasNoControlCharacters, "Remove line breaks from the name")
+});
+
+export const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1).max(60)
+});
+
+export const inviteMemberSchema = z.object({
+  email: emailSchema,
+  role: z.enum(workspaceRoles).default("editor")
+});
+
+export const memberRoleSchema = z.object({
+  role: z.enum(workspaceRoles)
+});
@@ -0,0 +1,278 @@
+import { toCsv } from "@/lib/csv";
+import type { LeadPlan } from "@/lib/types";
+
+export type IdealCustomerProfile = LeadPlan["idealCustomerProfile"];
+
+export const leadFieldOptions = [
+  "company",
+  "name",
+  "title",
+  "industry",
+  "companySize",
+  "location",
+  "technologies",
+  "description"
+] as const;
+
+export type LeadField = (typeof leadFieldOptions)[number];
+
+export type ColumnMapping = Partial<Record<LeadField, string | null>>;
+
+export const leadFieldLabels: Record<LeadField, string> = {
+  company: "Company",
+  name: "Contact name",
+  title: "Job title",
+  industry: "Industry",
+  companySize: "Employees",
+  location: "Location",
+  technologies: "Tech stack",
+  description: "Description / notes"
+};
+
+const columnSynonyms: Record<LeadField, string[]> = {
+  company: ["company", "company name", "account", "account name", "organization", "organisation"],
+  name: ["name", "full name", "contact", "contact name", "first name"],
+  title: ["title", "job title", "role", "position", "seniority"],
+  industry: ["industry", "vertical", "sector", "segment"],
+  companySize: ["employees", "employee count", "company size", "headcount", "size", "number of employees"],
+  location: ["location", "country", "region", "city", "hq", "state"],
+  technologies: ["technologies", "tech stack", "stack", "tools", "tech"],
+  description: ["description", "notes", "about", "keywords", "summary", "pain points"]
+};
+
+function normalizeHeader(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/** Maps each lead field to the first CSV column whose header matches a known synonym. */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const normalized = columns.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+
+  for (const field of leadFieldOptions) {
+    const index = normalized.findIndex(
+      (header, position) => !taken.has(position) && columnSynonyms[field].includes(header)
+    );
+    if (index !== -1) {
+      taken.add(index);
+      mapping[field] = columns[index];
+    }
+  }
+
+  return mapping;
+}
+
+const stopwords = new Set(
+  `a an and are as at be by for from in into is it of on or the to with who that this their they
+  our your we via per using use uses running run runs need needs needing operates operate based
+  company companies team teams org level owner problem primary buyer champion influencer executive
+  sponsor stakeholder adjacent lead leads feels feel daily benefits benefit outcome hands practitioner
+  multi threading clear clearer quickly manual work down pressure show results slowing hand pain`.split(/\s+/)
+);
+
+function stem(word: string) {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/** Lowercase word stems with filler words dropped; "HubSpot/Salesforce" yields both names. */
+export function keywords(text: string) {
+  return Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9+#]+/)
+        .map(stem)
+        .filter((word) => word.length > 1 && !stopwords.has(word))
+    )
+  );
+}
+
+const sizeRangePattern =
+  /(\d[\d,]*)\s*(k)?\s*(?:-|–|to)\s*(\d[\d,]*)\s*(k)?\+?\s*(?:employees|people|staff|fte)/i;
+const sizeFloorPattern = /(\d[\d,]*)\s*(k)?\s*\+\s*(?:employees|people|staff|fte)/i;
+
+function toCount(digits: string, thousands?: string) {
+  return Number(digits.replace(/,/g, "")) * (thousands ? 1000 : 1);
+}
+
+/** Reads an employee range such as "50-500 employees" or "1k+ employees" from a trait. */
+export function parseSizeRange(trait: string): [number, number] | null {
+  const range = trait.match(sizeRangePattern);
+  if (range) return [toCount(range[1], range[2]), toCount(range[3], range[4])];
+  const floor = trait.match(sizeFloorPattern);
+  if (floor) return [toCount(floor[1], floor[2]), Infinity];
+  return null;
+}
+
+/** Reads a head count like "250", "1,200", "1k" or a bucket like "201-500" (midpoint). */
+function parseHeadcount(value: string) {
+  const match = value.match(/(\d[\d,]*)\s*(k)?(?:\s*(?:-|–|to)\s*(\d[\d,]*)\s*(k)?)?/i);
+  if (!match) return null;
+  const low = toCount(match[1], match[2]);
+  return match[3] ? (low + toCount(match[3], match[4])) / 2 : low;
+}
+
+export type TraitGroup = keyof IdealCustomerProfile;
+
+export interface TraitMatch {
+  group: TraitGroup;
+  trait: string;
+  /** Lead keywords that matched the trait, or the size check that passed. */
+  evidence: string[];
+  strength: number;
+}
+
+export const fitTiers = [
+  { tier: "A", label: "Strong fit", min: 60 },
+  { tier: "B", label: "Possible fit", min: 35 },
+  { tier: "C", label: "Poor fit", min: 0 }
+] as const;
+
+export type FitTier = (typeof fitTiers)[number]["tier"];
+
+export interface ScoredLead {
+  /** Position of the row in the uploaded file. */
+  index: number;
+  row: Record<string, string>;
+  score: number;
+  tier: FitTier;
+  matches: TraitMatch[];
+  misses: string[];
+  explanation: string;
+}
+
+/**
+ * Share of the 100-point score carried by each ICP section. Company traits
+ * and persona decide fit; pain points add evidence when notes mention them.
+ */
+const groupWeights: Record<TraitGroup, number> = {
+  companyTraits: 45,
+  buyerPersona: 35,
+  painPoints: 20
+};
+
+/** Traits a lead must match in full for a section to earn all of its weight. */
+const traitsForFullCredit = 2;
+
+/** Keywords a lead must share with a trait for it to count as fully matched. */
+const keywordsForFullMatch = 2;
+
+function mappedValue(row: Record<string, string>, mapping: ColumnMapping, field: LeadField) {
+  const column = mapping[field];
+  return column ? row[column] ?? "" : "";
+}
+
+function scoreTrait(
+  group: TraitGroup,
+  trait: string,
+  leadWords: Set<string>,
+  headcount: number | null
+): TraitMatch | null {
+  const range = group === "companyTraits" ? parseSizeRange(trait) : null;
+  if (range && headcount !== null) {
+    const inRange = headcount >= range[0] && headcount <= range[1];
+    return {
+      group,
+      trait,
+      evidence: inRange ? [`${headcount} employees`] : [],
+      strength: inRange ? 1 : 0
+    };
+  }
+
+  const words = keywords(trait);
+  if (words.length === 0) return null;
+  const evidence = words.filter((word) => leadWords.has(word));
+  return {
+    group,
+    trait,
+    evidence,
+    strength: Math.min(1, evidence.length / Math.min(words.length, keywordsForFullMatch))
+  };
+}
+
+function tierFor(score: number): FitTier {
+  return (fitTiers.find((tier) => score >= tier.min) ?? fitTiers[fitTiers.length - 1]).tier;
+}
+
+/**
+ * Deterministic keyword scoring, so leads can be tiered against either an
+ * LLM-generated or a heuristic profile. Persona traits are checked against
+ * the title when one is mapped; everything else against the remaining text.
+ */
+export function scoreLead(
+  profile: IdealCustomerProfile,
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  index = 0
+): ScoredLead {
+  const value = (field: LeadField) => mappedValue(row, mapping, field);
+  const accountText = (["company", "industry", "location", "technologies", "description"] as const)
+    .map(value)
+    .join(" ");
+  const accountWords = new Set(keywords(accountText));
+  const titleWords = mapping.title ? new Set(keywords(value("title"))) : accountWords;
+  const sizeText = value("companySize");
+  const headcount = sizeText ? parseHeadcount(sizeText) : null;
+
+  const matches: TraitMatch[] = [];
+  const misses: string[] = [];
+  let score = 0;
+
+  for (const group of Object.keys(groupWeights) as TraitGroup[]) {
+    const leadWords = group === "buyerPersona" ? titleWords : accountWords;
+    // Traits with no usable keywords ("Champion: hands-on practitioner") are skipped.
+    const results = profile[group]
+      .map((trait) => scoreTrait(group, trait, leadWords, headcount))
+      .filter((result): result is TraitMatch => result !== null);
+    const earned = results.reduce((sum, result) => sum + result.strength, 0);
+    const possible = Math.min(results.length, traitsForFullCredit);
+    if (possible > 0) {
+      score += groupWeights[group] * Math.min(1, earned / possible);
+    }
+    for (const result of results) {
+      if (result.strength >= 0.5) matches.push(result);
+      else misses.push(result.trait);
+    }
+  }
+
+  const rounded = Math.round(score);
+  return {
+    index,
+    row,
+    score: rounded,
+    tier: tierFor(rounded),
+    matches,
+    misses,
+    explanation: matches.length
+      ? `Matched ${matches
+          .map((match) => `${match.trait} (${match.evidence.join(", ")})`)
+          .join("; ")}`
+      : "No ICP traits matched"
+  };
+}
+
+/** Scores every row and sorts best fit first, keeping upload order for ties. */
+export function scoreLeads(
+  profile: IdealCustomerProfile,
+  rows: Record<string, string>[],
+  mapping: ColumnMapping
+) {
+  return rows
+    .map((row, index) => scoreLead(profile, row, mapping, index))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+export function scoredLeadsToCsv(columns: string[], leads: ScoredLead[]) {
+  return toCsv([
+    [...columns, "ICP score", "Tier", "Why"],
+    ...leads.map((lead) => [
+      ...columns.map((column) => lead.row[column] ?? ""),
+      lead.score,
+      lead.tier,
+      lead.explanation
+    ])
+  ]);
+}
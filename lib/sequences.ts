@@ -0,0 +1,39 @@
+import {
+  collectMergeFields,
+  normalizeMergeFields,
+  sequenceCopy
+} from "@/lib/personalization";
+import type { LeadPlan, OutreachSequence } from "@/lib/types";
+
+/**
+ * Normalizes placeholder spelling across every step and variant, and
+ * recomputes `mergeFields` from the copy itself rather than trusting the
+ * model's declaration.
+ */
+export function normalizeSequence(sequence: OutreachSequence): OutreachSequence {
+  const steps = sequence.steps
+    .map((step) => ({
+      ...step,
+      subject: normalizeMergeFields(step.subject),
+      body: normalizeMergeFields(step.body),
+      variants: step.variants.map((variant) => ({
+        ...variant,
+        subject: normalizeMergeFields(variant.subject),
+        body: normalizeMergeFields(variant.body)
+      }))
+    }))
+    .sort((a, b) => a.day - b.day);
+
+  return {
+    ...sequence,
+    steps,
+    mergeFields: collectMergeFields(sequenceCopy(steps))
+  };
+}
+
+export function normalizePlanSequences(plan: LeadPlan): LeadPlan {
+  return {
+    ...plan,
+    outreachSequences: plan.outreachSequences.map(normalizeSequence)
+  };
+}
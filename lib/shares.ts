@@ -0,0 +1,126 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { getPlan, type StoredPlan } from "@/lib/store";
+
+export interface ShareLink {
+  token: string;
+  planId: string;
+  createdAt: string;
+  /** ISO timestamp after which the link stops working; null never expires. */
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+export type ResolvedShare =
+  | { status: "active"; link: ShareLink; stored: StoredPlan }
+  | { status: "expired" | "revoked" | "missing" };
+
+/** Responses for links that cannot be opened; expired and revoked links are "gone" rather than missing. */
+export const shareErrors = {
+  missing: { error: "Shared plan not found", status: 404 },
+  expired: { error: "This share link has expired", status: 410 },
+  revoked: { error: "This share link was revoked", status: 410 }
+} as const;
+
+const tokenPattern = /^[A-Za-z0-9_-]+$/;
+
+function shareDir() {
+  return (
+    process.env.SHARE_STORE_DIR ?? path.join(process.cwd(), "data", "shares")
+  );
+}
+
+function sharePath(token: string) {
+  if (!tokenPattern.test(token)) {
+    throw new Error(`Invalid share token: ${token}`);
+  }
+  return path.join(shareDir(), `${token}.json`);
+}
+
+async function writeShare(link: ShareLink) {
+  await fs.mkdir(shareDir(), { recursive: true });
+  const target = sharePath(link.token);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(link, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+export function shareStatus(link: ShareLink, now = new Date()): ShareStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt && link.expiresAt <= now.toISOString()) return "expired";
+  return "active";
+}
+
+export async function createShare(planId: string, expiresInDays: number | null) {
+  const now = new Date();
+  const link: ShareLink = {
+    // Unguessable, since anyone holding the token can read the plan.
+    token: randomBytes(18).toString("base64url"),
+    planId,
+    createdAt: now.toISOString(),
+    expiresAt: expiresInDays
+      ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    revokedAt: null
+  };
+  await writeShare(link);
+  return link;
+}
+
+export async function getShare(token: string): Promise<ShareLink | null> {
+  if (!tokenPattern.test(token)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(sharePath(token), "utf8")) as ShareLink;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function listShares(planId: string): Promise<ShareLink[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(shareDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const links = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getShare(file.slice(0, -".json".length)))
+  );
+
+  return links
+    .filter((link): link is ShareLink => link !== null && link.planId === planId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeShare(planId: string, token: string) {
+  const link = await getShare(token);
+  if (!link || link.planId !== planId) return null;
+  if (link.revokedAt) return link;
+
+  const revoked = { ...link, revokedAt: new Date().toISOString() };
+  await writeShare(revoked);
+  return revoked;
+}
+
+/** Looks up a link and its plan; links to deleted or unparsed plans count as missing. */
+export async function resolveShare(token: string): Promise<ResolvedShare> {
+  const link = await getShare(token);
+  if (!link) return { status: "missing" };
+
+  const status = shareStatus(link);
+  if (status !== "active") return { status };
+
+  const stored = await getPlan(link.planId);
+  if (!stored?.plan) return { status: "missing" };
+
+  return { status, link, stored };
+}
@@ -0,0 +1,276 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  leadRequestSchema,
+  type LeadRequest,
+  type PlanComment,
+  type TrackedExperiment
+} from "@/lib/schemas";
+import { leadPlanSchema, type LeadPlan, type PlanSectionKey } from "@/lib/types";
+import type { GenerationUsage } from "@/lib/usage";
+
+export interface StoredPlan {
+  id: string;
+  /** Absent on plans saved before workspaces until the first workspace claims them. */
+  workspaceId?: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  model: string;
+  fallback: boolean;
+  request: LeadRequest;
+  plan: LeadPlan | null;
+  raw: string | null;
+  /** The plan as generated, kept once the plan is edited by hand. */
+  generatedPlan?: LeadPlan;
+  /** Experiment tracker state; absent until results are first saved. */
+  trackedExperiments?: TrackedExperiment[];
+  /** Reviewer comments left through share links. */
+  comments?: PlanComment[];
+  /** Tokens and estimated cost of the generation; absent on older plans. */
+  usage?: GenerationUsage;
+}
+
+export type PlanSummary = Pick<
+  StoredPlan,
+  "id" | "name" | "createdAt" | "updatedAt" | "model" | "fallback"
+> & { businessName: string; hasPlan: boolean };
+
+export type NewStoredPlan = Pick<
+  StoredPlan,
+  "model" | "fallback" | "request" | "plan" | "raw" | "usage"
+> & { name?: string; workspaceId: string };
+
+const idPattern = /^[a-z0-9-]+$/i;
+
+function storeDir() {
+  return (
+    process.env.PLAN_STORE_DIR ?? path.join(process.cwd(), "data", "plans")
+  );
+}
+
+function planPath(id: string) {
+  if (!idPattern.test(id)) {
+    throw new Error(`Invalid plan id: ${id}`);
+  }
+  return path.join(storeDir(), `${id}.json`);
+}
+
+function toSummary(stored: StoredPlan): PlanSummary {
+  return {
+    id: stored.id,
+    name: stored.name,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    model: stored.model,
+    fallback: stored.fallback,
+    businessName: stored.request.businessName,
+    hasPlan: stored.plan !== null
+  };
+}
+
+async function writePlan(stored: StoredPlan) {
+  await fs.mkdir(storeDir(), { recursive: true });
+  const target = planPath(stored.id);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(stored, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+export function defaultPlanName(request: LeadRequest) {
+  return `${request.businessName} · ${request.timeframe} · ${request.tone}`;
+}
+
+export async function savePlan(input: NewStoredPlan) {
+  const now = new Date().toISOString();
+  const stored: StoredPlan = {
+    id: randomUUID(),
+    workspaceId: input.workspaceId,
+    name: input.name ?? defaultPlanName(input.request),
+    createdAt: now,
+    updatedAt: now,
+    model: input.model,
+    fallback: input.fallback,
+    request: input.request,
+    plan: input.plan,
+    raw: input.raw,
+    ...(input.usage && { usage: input.usage })
+  };
+
+  await writePlan(stored);
+  return stored;
+}
+
+/**
+ * Fills in sections and request fields added since a plan was saved (e.g.
+ * `outreachSequences`, `locale`) from their schema defaults so older files
+ * keep opening.
+ */
+function upgrade(stored: StoredPlan): StoredPlan {
+  const request = leadRequestSchema.safeParse(stored.request);
+  const parsed = stored.plan && leadPlanSchema.safeParse(stored.plan);
+  const generated = stored.generatedPlan && leadPlanSchema.safeParse(stored.generatedPlan);
+  return {
+    ...stored,
+    ...(request.success && { request: request.data }),
+    ...(parsed?.success && { plan: parsed.data }),
+    ...(generated?.success && { generatedPlan: generated.data })
+  };
+}
+
+/**
+ * Reads a plan; with `workspaceId`, plans of other workspaces count as
+ * missing. Share links read without one, since their token is the access check.
+ */
+export async function getPlan(id: string, workspaceId?: string): Promise<StoredPlan | null> {
+  if (!idPattern.test(id)) return null;
+
+  let stored: StoredPlan;
+  try {
+    const contents = await fs.readFile(planPath(id), "utf8");
+    stored = upgrade(JSON.parse(contents) as StoredPlan);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return workspaceId === undefined || stored.workspaceId === workspaceId ? stored : null;
+}
+
+async function readPlans(): Promise<StoredPlan[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(storeDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const plans = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getPlan(file.slice(0, -".json".length)))
+  );
+
+  return plans.filter((stored): stored is StoredPlan => stored !== null);
+}
+
+export async function listPlans(workspaceId: string): Promise<PlanSummary[]> {
+  return (await readPlans())
+    .filter((stored) => stored.workspaceId === workspaceId)
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Moves plans saved before workspaces existed into the given workspace. */
+export async function claimUnscopedPlans(workspaceId: string) {
+  const unscoped = (await readPlans()).filter((stored) => !stored.workspaceId);
+  await Promise.all(unscoped.map((stored) => writePlan({ ...stored, workspaceId })));
+  return unscoped.length;
+}
+
+type PlanPatch = Partial<
+  Pick<StoredPlan, "name" | "plan" | "generatedPlan" | "raw" | "trackedExperiments" | "comments">
+>;
+
+const planLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs read-modify-write updates of one plan one after another within this
+ * process, so concurrent updates (e.g. two comments) don't drop each other.
+ */
+function withPlanLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const result = (planLocks.get(id) ?? Promise.resolve()).then(update);
+  const settled = result.catch(() => undefined);
+  planLocks.set(id, settled);
+  void settled.then(() => {
+    if (planLocks.get(id) === settled) planLocks.delete(id);
+  });
+  return result;
+}
+
+async function patchPlan(id: string, patch: PlanPatch) {
+  const stored = await getPlan(id);
+  if (!stored) return null;
+
+  const next: StoredPlan = {
+    ...stored,
+    ...patch,
+    updatedAt: new Date().toISOString()
+  };
+  await writePlan(next);
+  return next;
+}
+
+export function updatePlan(id: string, patch: PlanPatch) {
+  return withPlanLock(id, () => patchPlan(id, patch));
+}
+
+/** Saves a hand-edited plan, keeping the version it was generated as. */
+export async function saveEditedPlan(id: string, plan: LeadPlan) {
+  const stored = await getPlan(id);
+  if (!stored?.plan) return null;
+  return updatePlan(id, { plan, generatedPlan: stored.generatedPlan ?? stored.plan });
+}
+
+/** Saves a regenerated section; it also becomes the generated version of that section. */
+export async function saveGeneratedSection(id: string, plan: LeadPlan, section: PlanSectionKey) {
+  const stored = await getPlan(id);
+  if (!stored) return null;
+  return updatePlan(id, {
+    plan,
+    ...(stored.generatedPlan && {
+      generatedPlan: { ...stored.generatedPlan, [section]: plan[section] }
+    })
+  });
+}
+
+export async function deletePlan(id: string) {
+  if (!idPattern.test(id)) return false;
+
+  try {
+    await fs.unlink(planPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
+
+/** Comments a plan keeps in total, and accepts per minute across its share links. */
+const MAX_COMMENTS_PER_PLAN = 500;
+const COMMENTS_PER_MINUTE = 10;
+
+/** Appends a comment; replies take their parent's anchor so a thread stays in one place. */
+export function addPlanComment(id: string, input: Omit<PlanComment, "id" | "createdAt">) {
+  return withPlanLock(id, () => appendComment(id, input));
+}
+
+async function appendComment(id: string, input: Omit<PlanComment, "id" | "createdAt">) {
+  const stored = await getPlan(id);
+  if (!stored) return null;
+
+  const comments = stored.comments ?? [];
+  if (comments.length >= MAX_COMMENTS_PER_PLAN) {
+    return { error: "This plan has reached its comment limit", status: 409 };
+  }
+  const minuteAgo = Date.now() - 60_000;
+  const recent = comments.filter((comment) => Date.parse(comment.createdAt) > minuteAgo);
+  if (recent.length >= COMMENTS_PER_MINUTE) {
+    return { error: "Too many comments. Try again in a minute.", status: 429 };
+  }
+
+  const parent = input.parentId
+    ? comments.find((comment) => comment.id === input.parentId)
+    : undefined;
+  if (input.parentId && !parent) return { error: "Reply target not found", status: 400 };
+
+  const comment: PlanComment = {
+    ...input,
+    anchor: parent?.anchor ?? input.anchor,
+    id: randomUUID(),
+    createdAt: new Date().toISOString()
+  };
+  await patchPlan(id, { comments: [...comments, comment] });
+  return { comment };
+}
@@ -0,0 +1,202 @@
+import {
+  isPlanSectionKey,
+  leadPlanSchema,
+  type LeadPlan,
+  type PartialLeadPlan,
+  type PlanSectionKey
+} from "@/lib/types";
+import type { AttemptDiagnostic } from "@/lib/generate";
+import type { GenerationUsage } from "@/lib/usage";
+
+export type PlanStreamEvent =
+  | { type: "section"; key: PlanSectionKey; value: LeadPlan[PlanSectionKey] }
+  | { type: "section-error"; key: string; message: string }
+  | {
+      type: "done";
+      plan: LeadPlan | null;
+      raw: string | null;
+      notice?: string | null;
+      warning?: string | null;
+      planId?: string | null;
+      attempts?: AttemptDiagnostic[];
+      usage?: GenerationUsage;
+    }
+  | { type: "error"; message: string };
+
+const encoder = new TextEncoder();
+
+export function encodeEvent(event: PlanStreamEvent) {
+  return encoder.encode(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * Incrementally scans streamed model output and reports each top-level key of
+ * the plan object as soon as its value is closed, so sections can be validated
+ * and rendered before the full completion arrives.
+ */
+export function createSectionParser(
+  onSection: (key: string, valueText: string) => void
+) {
+  let buffer = "";
+  let cursor = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey: string | null = null;
+  let pendingKey: string | null = null;
+  let valueStart = -1;
+
+  const flush = (end: number) => {
+    if (pendingKey === null) return;
+    onSection(pendingKey, buffer.slice(valueStart, end).trim());
+    pendingKey = null;
+    lastKey = null;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+
+      for (; cursor < buffer.length; cursor++) {
+        const char = buffer[cursor];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (depth === 1 && pendingKey === null) {
+              try {
+                lastKey = JSON.parse(buffer.slice(stringStart, cursor + 1));
+              } catch {
+                lastKey = null;
+              }
+            }
+          }
+          continue;
+        }
+
+        switch (char) {
+          case '"':
+            if (depth > 0) {
+              inString = true;
+              stringStart = cursor;
+            }
+            break;
+          case "{":
+          case "[":
+            depth += 1;
+            break;
+          case "}":
+          case "]":
+            if (depth === 1) {
+              flush(cursor);
+            }
+            depth -= 1;
+            if (depth === 1) {
+              flush(cursor + 1);
+            }
+            break;
+          case ":":
+            if (depth === 1 && pendingKey === null && lastKey !== null) {
+              pendingKey = lastKey;
+              valueStart = cursor + 1;
+            }
+            break;
+          case ",":
+            if (depth === 1) {
+              flush(cursor);
+            }
+            break;
+        }
+      }
+    },
+    text() {
+      return buffer;
+    }
+  };
+}
+
+/**
+ * Validates a streamed section against the matching slice of the plan schema.
+ */
+export function parseSection(
+  key: string,
+  valueText: string
+): PlanStreamEvent {
+  if (!isPlanSectionKey(key)) {
+    return { type: "section-error", key, message: "Unknown plan section." };
+  }
+
+  try {
+    const result = leadPlanSchema.shape[key].safeParse(JSON.parse(valueText));
+    if (!result.success) {
+      return {
+        type: "section-error",
+        key,
+        message: "Section did not match the expected plan format."
+      };
+    }
+    return { type: "section", key, value: result.data };
+  } catch {
+    return {
+      type: "section-error",
+      key,
+      message: "Could not parse JSON for this section."
+    };
+  }
+}
+
+/**
+ * Reads a newline-delimited JSON response, invoking `onEvent` for every line
+ * in order.
+ */
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void) {
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this response.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as T);
+      }
+    }
+  }
+
+  if (pending.trim()) {
+    onEvent(JSON.parse(pending) as T);
+  }
+}
+
+/**
+ * Reads an NDJSON plan stream from `/api/plan?stream=1`, invoking `onEvent`
+ * for every event in order.
+ */
+export function readPlanStream(
+  response: Response,
+  onEvent: (event: PlanStreamEvent) => void
+) {
+  return readNdjson<PlanStreamEvent>(response, onEvent);
+}
+
+export function applySection(
+  plan: PartialLeadPlan | null,
+  event: Extract<PlanStreamEvent, { type: "section" }>
+): PartialLeadPlan {
+  return { ...(plan ?? {}), [event.key]: event.value };
+}
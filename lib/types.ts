@@ -0,0 +1,233 @@
+import { z } from "zod";
+
+const sequenceVariantSchema = z.object({
+  label: z.string(),
+  subject: z.string(),
+  body: z.string()
+});
+
+const sequenceStepSchema = z.object({
+  day: z.number().int(),
+  touch: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  variants: z.array(sequenceVariantSchema)
+});
+
+export const budgetCategories = ["tools", "ads", "content", "headcount"] as const;
+
+const budgetLineItemSchema = z.object({
+  category: z.enum(budgetCategories),
+  description: z.string(),
+  amount: z.number(),
+  /** Team hours behind a headcount line; 0 for other categories. */
+  hours: z.number()
+});
+
+export const leadPlanSchema = z.object({
+  campaignSummary: z.object({
+    northStar: z.string(),
+    successMetrics: z.array(z.string()),
+    positioningTheme: z.string()
+  }),
+  idealCustomerProfile: z.object({
+    companyTraits: z.array(z.string()),
+    buyerPersona: z.array(z.string()),
+    painPoints: z.array(z.string())
+  }),
+  messagingPillars: z.array(
+    z.object({
+      title: z.string(),
+      angle: z.string(),
+      proofPoints: z.array(z.string())
+    })
+  ),
+  channelStrategy: z.array(
+    z.object({
+      channel: z.string(),
+      objective: z.string(),
+      play: z.string(),
+      cadence: z.string(),
+      sampleCopy: z.string()
+    })
+  ),
+  budgetAllocation: z
+    .object({
+      total: z.number(),
+      currency: z.string(),
+      channels: z.array(
+        z.object({
+          channel: z.string(),
+          /** Percent of the total, 0-100. */
+          share: z.number(),
+          amount: z.number(),
+          lineItems: z.array(budgetLineItemSchema)
+        })
+      ),
+      guardrails: z.array(z.string())
+    })
+    .default({ total: 0, currency: "USD", channels: [], guardrails: [] }),
+  outreachSequences: z
+    .array(
+      z.object({
+        channel: z.string(),
+        mergeFields: z.array(z.string()),
+        steps: z.array(sequenceStepSchema)
+      })
+    )
+    .default([]),
+  automationWorkflow: z.array(
+    z.object({
+      name: z.string(),
+      trigger: z.string(),
+      steps: z.array(z.string())
+    })
+  ),
+  experiments: z.array(
+    z.object({
+      hypothesis: z.string(),
+      experiment: z.string(),
+      metric: z.string()
+    })
+  ),
+  nextSteps: z.array(z.string())
+});
+
+export type LeadPlan = z.infer<typeof leadPlanSchema>;
+
+export type OutreachSequence = LeadPlan["outreachSequences"][number];
+
+export type SequenceStep = OutreachSequence["steps"][number];
+
+export type BudgetAllocation = LeadPlan["budgetAllocation"];
+
+export type ChannelBudget = BudgetAllocation["channels"][number];
+
+export type BudgetLineItem = ChannelBudget["lineItems"][number];
+
+export type BudgetCategory = (typeof budgetCategories)[number];
+
+export type PartialLeadPlan = Partial<LeadPlan>;
+
+export type PlanSectionKey = keyof LeadPlan;
+
+export const planSectionKeys = Object.keys(
+  leadPlanSchema.shape
+) as PlanSectionKey[];
+
+export const planSectionTitles: Record<PlanSectionKey, string> = {
+  campaignSummary: "Campaign Summary",
+  idealCustomerProfile: "Ideal Customer Profile",
+  messagingPillars: "Messaging Pillars",
+  channelStrategy: "Channel Strategy",
+  budgetAllocation: "Budget Allocation",
+  outreachSequences: "Outreach Sequences",
+  automationWorkflow: "Automation Workflow",
+  experiments: "Experiments",
+  nextSteps: "Next Steps"
+};
+
+export function isPlanSectionKey(key: string): key is PlanSectionKey {
+  return (planSectionKeys as string[]).includes(key);
+}
+
+interface ParseResult {
+  plan: LeadPlan | null;
+  raw: string;
+  message?: string;
+  issues?: string[];
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues.map((issue) =>
+    issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+function extractJson(text: string) {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1].trim();
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start !== -1 && end > start) return text.slice(start, end + 1);
+
+  return text.trim();
+}
+
+interface SectionParseResult<K extends PlanSectionKey> {
+  value: LeadPlan[K] | null;
+  raw: string;
+  message?: string;
+  issues?: string[];
+}
+
+/**
+ * Parses a model response of the form `{ "<section>": ... }` (or the bare
+ * section value) and validates it against that section of the plan schema.
+ */
+export function tryParseSection<K extends PlanSectionKey>(
+  text: string,
+  key: K
+): SectionParseResult<K> {
+  try {
+    const json = JSON.parse(extractJson(text));
+    const candidate =
+      json && typeof json === "object" && !Array.isArray(json) && key in json
+        ? json[key]
+        : json;
+    const result = leadPlanSchema.shape[key].safeParse(candidate);
+
+    if (!result.success) {
+      return {
+        value: null,
+        raw: text,
+        message: "The model response did not match the expected section format.",
+        issues: describeIssues(result.error)
+      };
+    }
+
+    return { value: result.data as LeadPlan[K], raw: text };
+  } catch {
+    return {
+      value: null,
+      raw: text,
+      message: "Could not parse JSON from the model response.",
+      issues: ["Response is not valid JSON"]
+    };
+  }
+}
+
+export function tryParsePlan(text: string): ParseResult {
+  if (!text.trim()) {
+    return {
+      plan: null,
+      raw: text,
+      message: "The model returned an empty response.",
+      issues: ["Response is empty"]
+    };
+  }
+
+  try {
+    const json = JSON.parse(extractJson(text));
+    const result = leadPlanSchema.safeParse(json);
+
+    if (!result.success) {
+      return {
+        plan: null,
+        raw: text,
+        message: "The model response did not match the expected plan format.",
+        issues: describeIssues(result.error)
+      };
+    }
+
+    return { plan: result.data, raw: text };
+  } catch {
+    return {
+      plan: null,
+      raw: text,
+      message: "Could not parse JSON from the model response.",
+      issues: ["Response is not valid JSON"]
+    };
+  }
+}
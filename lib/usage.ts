@@ -0,0 +1,325 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { LLMProvider, TokenUsage } from "@/lib/providers";
+
+export const usageRoutes = ["plan", "section", "batch", "translate"] as const;
+
+export type UsageRoute = (typeof usageRoutes)[number];
+
+/**
+ * How a request ended: `ok` and `invalid` reached the model, `error` means the
+ * provider call threw and `cancelled` that the client went away. The rest
+ * never called a model.
+ */
+export const usageStatuses = [
+  "ok",
+  "invalid",
+  "error",
+  "no-provider",
+  "over-quota",
+  "rate-limited",
+  "cancelled"
+] as const;
+
+export type UsageStatus = (typeof usageStatuses)[number];
+
+export interface GenerationUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  estimated: boolean;
+}
+
+export interface UsageEvent extends GenerationUsage {
+  id: string;
+  at: string;
+  route: UsageRoute;
+  /** Hashed client key, so the ledger never stores IP addresses. */
+  client: string;
+  model: string | null;
+  status: UsageStatus;
+  fallback: boolean;
+  durationMs: number;
+  planId?: string | null;
+}
+
+/** USD per million input and output tokens, matched by model-name prefix. */
+const modelPrices: [prefix: string, input: number, output: number][] = [
+  ["gpt-4o-mini", 0.15, 0.6],
+  ["gpt-4o", 2.5, 10],
+  ["gpt-4.1-nano", 0.1, 0.4],
+  ["gpt-4.1-mini", 0.4, 1.6],
+  ["gpt-4.1", 2, 8],
+  ["o4-mini", 1.1, 4.4],
+  ["claude-3-5-haiku", 0.8, 4],
+  ["claude-3-haiku", 0.25, 1.25],
+  ["claude-3-5-sonnet", 3, 15],
+  ["claude-3-7-sonnet", 3, 15],
+  ["claude-sonnet-4", 3, 15],
+  ["claude-opus-4", 15, 75]
+];
+
+function numberFromEnv(value: string | undefined) {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Price for a model per million tokens. `LLM_PRICE_INPUT` and
+ * `LLM_PRICE_OUTPUT` override the table; unknown and local models are free.
+ */
+export function modelPricing(model: string | null, env: NodeJS.ProcessEnv = process.env) {
+  const known = model ? modelPrices.find(([prefix]) => model.startsWith(prefix)) : undefined;
+  return {
+    input: numberFromEnv(env.LLM_PRICE_INPUT) ?? known?.[1] ?? 0,
+    output: numberFromEnv(env.LLM_PRICE_OUTPUT) ?? known?.[2] ?? 0
+  };
+}
+
+export function estimateCost(model: string | null, usage: TokenUsage, env: NodeJS.ProcessEnv = process.env) {
+  const price = modelPricing(model, env);
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function usageQuotas(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    dailyTokens: numberFromEnv(env.DAILY_TOKEN_QUOTA),
+    dailySpendUsd: numberFromEnv(env.DAILY_SPEND_QUOTA_USD)
+  };
+}
+
+export function hashClient(key: string) {
+  return createHash("sha256").update(key).digest("hex").slice(0, 12);
+}
+
+/** Cookie that keeps the admin token for the usage page, so it stays out of URLs. */
+export const ADMIN_COOKIE = "pp_admin";
+
+const ADMIN_COOKIE_HOURS = 8;
+
+/**
+ * Usage reports need the matching `ADMIN_TOKEN`. Without one they are open in
+ * local development only, so a deployment that forgets to set it fails closed.
+ */
+export function isAdminToken(token: string | null | undefined, env: NodeJS.ProcessEnv = process.env) {
+  const expected = env.ADMIN_TOKEN;
+  if (!expected) return env.NODE_ENV === "development";
+  if (!token) return false;
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+/** `Set-Cookie` value that keeps the admin token for a working day. */
+export function adminCookie(token: string) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${ADMIN_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${
+    ADMIN_COOKIE_HOURS * 60 * 60
+  }${secure}`;
+}
+
+function usageDir() {
+  return process.env.USAGE_STORE_DIR ?? path.join(process.cwd(), "data", "usage");
+}
+
+/** UTC calendar day, which is also the ledger file name. */
+export function usageDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+async function appendUsage(event: UsageEvent) {
+  await fs.mkdir(usageDir(), { recursive: true });
+  await fs.appendFile(path.join(usageDir(), `${usageDay(new Date(event.at))}.jsonl`), `${JSON.stringify(event)}\n`, "utf8");
+}
+
+/**
+ * Appends one event to the day's ledger. Accounting must never fail a
+ * request, so write errors are logged and swallowed.
+ */
+export async function recordUsage(event: Omit<UsageEvent, "id" | "at">) {
+  try {
+    await appendUsage({ id: randomUUID(), at: new Date().toISOString(), ...event });
+  } catch (error) {
+    console.error("Failed to record usage", error);
+  }
+}
+
+async function readDay(day: string): Promise<UsageEvent[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(usageDir(), `${day}.jsonl`), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return text.split("\n").flatMap((line) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as UsageEvent];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Ledger events for the last `days` UTC days, oldest first. */
+export async function listUsage(days: number, now = new Date()) {
+  const dates = Array.from({ length: days }, (_, index) =>
+    usageDay(new Date(now.getTime() - (days - 1 - index) * 86_400_000))
+  );
+  return (await Promise.all(dates.map(readDay))).flat();
+}
+
+/**
+ * Collects the token usage of every model call in one request and records it
+ * when the request ends.
+ */
+export function createUsageMeter(route: UsageRoute, clientKey: string, provider: LLMProvider | null) {
+  const started = Date.now();
+  const client = hashClient(clientKey);
+  const model = provider?.model ?? null;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let estimated = false;
+
+  const totals = (): GenerationUsage => ({
+    inputTokens,
+    outputTokens,
+    estimated,
+    costUsd: estimateCost(model, { inputTokens, outputTokens })
+  });
+
+  return {
+    add(usage: TokenUsage) {
+      inputTokens += usage.inputTokens;
+      outputTokens += usage.outputTokens;
+      estimated ||= Boolean(usage.estimated);
+    },
+    totals,
+    record(status: UsageStatus, fallback: boolean, planId?: string | null) {
+      return recordUsage({
+        ...totals(),
+        route,
+        client,
+        model: provider?.label ?? null,
+        status,
+        fallback,
+        durationMs: Date.now() - started,
+        planId
+      });
+    }
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+export function recordRateLimited(route: UsageRoute, clientKey: string) {
+  return recordUsage({
+    route,
+    client: hashClient(clientKey),
+    model: null,
+    status: "rate-limited",
+    fallback: false,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    estimated: false,
+    durationMs: 0
+  });
+}
+
+/**
+ * Checks today's ledger against the configured daily quotas. Returns a
+ * message when a quota is used up and model calls should stop.
+ */
+export async function checkQuota(env: NodeJS.ProcessEnv = process.env, now = new Date()) {
+  const quotas = usageQuotas(env);
+  if (quotas.dailyTokens === null && quotas.dailySpendUsd === null) return null;
+
+  const today = await readDay(usageDay(now));
+  const tokens = today.reduce((sum, event) => sum + event.inputTokens + event.outputTokens, 0);
+  const spend = today.reduce((sum, event) => sum + event.costUsd, 0);
+
+  if (quotas.dailyTokens !== null && tokens >= quotas.dailyTokens) {
+    return `The daily token quota (${quotas.dailyTokens.toLocaleString("en-US")}) is used up.`;
+  }
+  if (quotas.dailySpendUsd !== null && spend >= quotas.dailySpendUsd) {
+    return `The daily spend quota ($${quotas.dailySpendUsd.toFixed(2)}) is used up.`;
+  }
+  return null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  generated: number;
+  fallbacks: number;
+  failures: number;
+  rateLimited: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    generated: 0,
+    fallbacks: 0,
+    failures: 0,
+    rateLimited: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0
+  };
+}
+
+function addEvent(totals: UsageTotals, event: UsageEvent) {
+  totals.requests += 1;
+  if (event.status === "ok") totals.generated += 1;
+  if (event.fallback) totals.fallbacks += 1;
+  if (event.status === "invalid" || event.status === "error") totals.failures += 1;
+  if (event.status === "rate-limited") totals.rateLimited += 1;
+  totals.inputTokens += event.inputTokens;
+  totals.outputTokens += event.outputTokens;
+  totals.costUsd += event.costUsd;
+}
+
+function groupTotals(events: UsageEvent[], key: (event: UsageEvent) => string) {
+  const groups = new Map<string, UsageTotals>();
+  for (const event of events) {
+    const name = key(event);
+    const totals = groups.get(name) ?? emptyTotals();
+    addEvent(totals, event);
+    groups.set(name, totals);
+  }
+  return Array.from(groups, ([name, totals]) => ({ name, ...totals })).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/** Per-day, per-model, per-route and per-client rollups of the ledger. */
+export function summarizeUsage(events: UsageEvent[], days: number, now = new Date()) {
+  const byDay = new Map<string, UsageTotals>();
+  for (let index = days - 1; index >= 0; index--) {
+    byDay.set(usageDay(new Date(now.getTime() - index * 86_400_000)), emptyTotals());
+  }
+
+  const totals = emptyTotals();
+  for (const event of events) {
+    addEvent(totals, event);
+    const day = byDay.get(usageDay(new Date(event.at)));
+    if (day) addEvent(day, event);
+  }
+
+  return {
+    totals,
+    daily: Array.from(byDay, ([date, dayTotals]) => ({ date, ...dayTotals })),
+    models: groupTotals(events, (event) => event.model ?? "heuristic"),
+    routes: groupTotals(events, (event) => event.route),
+    clients: groupTotals(events, (event) => event.client).slice(0, 10)
+  };
+}
+
+export type UsageSummary = ReturnType<typeof summarizeUsage>;
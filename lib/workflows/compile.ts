@@ -0,0 +1,199 @@
+import type {
+  CompiledWorkflow,
+  WorkflowActionType,
+  WorkflowEventType,
+  WorkflowNode,
+  WorkflowSource,
+  WorkflowTrigger
+} from "@/lib/workflows/types";
+
+const durationPattern =
+  /(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?|h|days?|d|weeks?|wks?|months?)\b/i;
+
+const unitMinutes: { pattern: RegExp; minutes: number }[] = [
+  { pattern: /^(minutes?|mins?)$/, minutes: 1 },
+  { pattern: /^(hours?|hrs?|h)$/, minutes: 60 },
+  { pattern: /^(days?|d)$/, minutes: 60 * 24 },
+  { pattern: /^(weeks?|wks?)$/, minutes: 60 * 24 * 7 },
+  { pattern: /^months?$/, minutes: 60 * 24 * 30 }
+];
+
+/** Reads the first "4 hours" / "2 days" / "1 week" style duration in minutes. */
+export function parseDuration(text: string): number | null {
+  const match = text.match(durationPattern);
+  if (!match) return null;
+  const unit = match[2].toLowerCase();
+  const scale = unitMinutes.find((entry) => entry.pattern.test(unit))?.minutes ?? 0;
+  return Math.round(Number(match[1]) * scale);
+}
+
+function durationAfter(text: string, lead: RegExp) {
+  const match = text.match(lead);
+  return match ? parseDuration(match[0]) : null;
+}
+
+const eventPatterns: { event: WorkflowEventType; pattern: RegExp }[] = [
+  { event: "positive_reply", pattern: /positive (?:reply|response)|interested (?:reply|response)/i },
+  { event: "no_reply", pattern: /\bno (?:reply|response)|unresponsive|did(?:n't| not) (?:reply|respond)/i },
+  { event: "offer_requested", pattern: /\b(?:offer|demo|audit|trial|quote) request|requests? (?:a |an |the )?(?:demo|offer|audit|trial|quote)/i },
+  { event: "form_submitted", pattern: /\bform\b|submission|submits|sign[- ]?up/i },
+  { event: "content_downloaded", pattern: /download/i },
+  { event: "webinar_registered", pattern: /registration|registers?\b|registered/i },
+  { event: "webinar_attended", pattern: /\battend/i },
+  { event: "meeting_booked", pattern: /meeting (?:is )?(?:booked|scheduled)|books? (?:a )?(?:meeting|call|demo)/i },
+  { event: "deal_closed_lost", pattern: /closed[- ]lost/i },
+  { event: "email_opened", pattern: /\bopens?\b|\bopened\b/i },
+  { event: "link_clicked", pattern: /\bclick/i }
+];
+
+/** Finds every event a phrase mentions; a bare "reply" counts unless qualified above. */
+export function detectEvents(text: string): WorkflowEventType[] {
+  const events = eventPatterns
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ event }) => event);
+  const unqualified = text
+    .replace(eventPatterns[0].pattern, "")
+    .replace(eventPatterns[1].pattern, "");
+  if (/\brepl(?:y|ies|ied)\b|\brespond/i.test(unqualified)) events.push("reply");
+  return events;
+}
+
+function compileTrigger(text: string, warnings: string[]): WorkflowTrigger {
+  const events = detectEvents(text);
+  if (!events.length) {
+    warnings.push(`Trigger "${text}" did not match a known event; exported as manual enrollment.`);
+  }
+  return {
+    events: events.length ? events : ["manual"],
+    delayMinutes:
+      durationAfter(text, /\bfor \d+(?:\.\d+)?\s*\w+/i) ??
+      durationAfter(text, /\bafter \d+(?:\.\d+)?\s*\w+/i) ??
+      durationAfter(text, /\d+(?:\.\d+)?\s*\w+ after\b/i) ??
+      0,
+    description: text
+  };
+}
+
+const actionPatterns: { action: WorkflowActionType; pattern: RegExp }[] = [
+  { action: "send_reminder", pattern: /\bremind/i },
+  { action: "tag", pattern: /^tag\b|\btag (?:the |them )?(?:contact|lead|account)/i },
+  { action: "add_to_list", pattern: /\badd\b.*\b(?:list|newsletter|audience|nurture)\b/i },
+  { action: "enroll_sequence", pattern: /\benrol|re-enter|\bsequence\b|\bcadence\b/i },
+  { action: "route_to_sales", pattern: /\broute\b|\bassign\b|hand ?off|pass (?:it |them )?to sales/i },
+  { action: "notify", pattern: /\bnotify|\balert\b|\bslack\b|\bping\b/i },
+  { action: "send_email", pattern: /\bsend\b|\bemail\b|follow[- ]?up|\binvite\b|confirmation|\breply to\b/i },
+  { action: "crm_update", pattern: /\bcrm\b|create or update|\bupdate\b|\breopen|\blog\b|\bmark (?:as|the)/i },
+  { action: "create_task", pattern: /\btask\b|\bcall\b/i }
+];
+
+function classifyAction(text: string): WorkflowActionType {
+  return actionPatterns.find(({ pattern }) => pattern.test(text))?.action ?? "custom";
+}
+
+const negativeCondition =
+  /\b(?:if (?:still )?(?:unbooked|not booked|no (?:reply|response)|(?:they|the contact) (?:haven't|hasn't|have not|has not|don't|doesn't|do not|does not) (?:replied|reply|responded|respond|booked|book))|unless (?:they|the contact) (?:replies|responds|books))/i;
+
+const positiveCondition =
+  /\b(?:if|once|when) (?:the contact |they |the lead |it )?(?:engages?|opens?|clicks?|replies|responds|books|attends)|\bafter (?:a |the )?(?:booked meeting|meeting is booked|they book)/i;
+
+const engagementEvents: WorkflowEventType[] = ["email_opened", "link_clicked", "reply", "positive_reply"];
+
+function conditionEvents(text: string): WorkflowEventType[] {
+  if (/book/i.test(text)) return ["meeting_booked"];
+  if (/\battend/i.test(text)) return ["webinar_attended"];
+  if (/\bengage/i.test(text)) return engagementEvents;
+  const events = detectEvents(text);
+  if (/\brepl|\brespond/i.test(text) && !events.includes("reply")) events.push("reply");
+  return events.length ? events : engagementEvents;
+}
+
+/**
+ * Splits a step into clauses ("Send a calendar link; remind after 2 days if
+ * unbooked") and compiles each into waits, gates and one action.
+ */
+function compileStep(step: string, nextId: () => string, warnings: string[]): WorkflowNode[] {
+  const nodes: WorkflowNode[] = [];
+  const clauses = step
+    .split(/;\s*|,?\s+then\s+/i)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+
+  for (const clause of clauses) {
+    const wait =
+      durationAfter(clause, /\bafter \d+(?:\.\d+)?\s*\w+/i) ??
+      durationAfter(clause, /\bwait \d+(?:\.\d+)?\s*\w+/i) ??
+      durationAfter(clause, /\d+(?:\.\d+)?\s*\w+ later\b/i);
+    const within = durationAfter(clause, /\bwithin \d+(?:\.\d+)?\s*\w+/i);
+
+    if (wait) {
+      nodes.push({ id: nextId(), type: "wait", label: clause, minutes: wait });
+    }
+
+    if (negativeCondition.test(clause)) {
+      nodes.push({
+        id: nextId(),
+        type: "condition",
+        label: clause,
+        events: conditionEvents(clause.match(negativeCondition)?.[0] ?? clause),
+        negate: true
+      });
+    } else if (positiveCondition.test(clause)) {
+      nodes.push({
+        id: nextId(),
+        type: "wait_for",
+        label: clause,
+        events: conditionEvents(clause.match(positiveCondition)?.[0] ?? clause),
+        timeoutMinutes: within
+      });
+    } else if (/\battendees\b|\bwho attended\b/i.test(clause)) {
+      nodes.push({
+        id: nextId(),
+        type: "wait_for",
+        label: clause,
+        events: ["webinar_attended"],
+        timeoutMinutes: null
+      });
+    }
+
+    if (/\bbefore\b/i.test(clause) && parseDuration(clause) !== null) {
+      warnings.push(
+        `"${clause}" is timed relative to an event start; it fires when reached in the simulation.`
+      );
+    }
+
+    if (/^wait\b/i.test(clause) && classifyAction(clause.replace(/^wait\b[^,]*,?/i, "")) === "custom") {
+      continue;
+    }
+
+    const action = classifyAction(clause);
+    if (action === "custom") {
+      warnings.push(`"${clause}" did not match a known action; exported as a manual step.`);
+    }
+    nodes.push({
+      id: nextId(),
+      type: "action",
+      label: clause,
+      action,
+      withinMinutes: positiveCondition.test(clause) ? null : within
+    });
+  }
+
+  return nodes;
+}
+
+export function compileWorkflow(source: WorkflowSource): CompiledWorkflow {
+  const warnings: string[] = [];
+  let counter = 0;
+  const nextId = () => `n${++counter}`;
+
+  return {
+    name: source.name,
+    trigger: compileTrigger(source.trigger, warnings),
+    nodes: source.steps.flatMap((step) => compileStep(step, nextId, warnings)),
+    warnings
+  };
+}
+
+export function compileWorkflows(sources: WorkflowSource[]) {
+  return sources.map(compileWorkflow);
+}
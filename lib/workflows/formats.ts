@@ -0,0 +1,195 @@
+import {
+  workflowEventLabels,
+  type CompiledWorkflow,
+  type WorkflowActionType,
+  type WorkflowNode
+} from "@/lib/workflows/types";
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "workflow";
+}
+
+/** n8n's Wait node takes an amount and a unit; pick the largest unit that divides evenly. */
+function waitAmount(minutes: number) {
+  if (minutes % (60 * 24) === 0) return { amount: minutes / (60 * 24), unit: "days" };
+  if (minutes % 60 === 0) return { amount: minutes / 60, unit: "hours" };
+  return { amount: minutes, unit: "minutes" };
+}
+
+const n8nActions: Record<WorkflowActionType, { type: string; parameters: Record<string, unknown> }> = {
+  send_email: { type: "n8n-nodes-base.emailSend", parameters: { toEmail: "={{ $json.email }}" } },
+  send_reminder: { type: "n8n-nodes-base.emailSend", parameters: { toEmail: "={{ $json.email }}" } },
+  crm_update: { type: "n8n-nodes-base.hubspot", parameters: { resource: "contact", operation: "upsert" } },
+  notify: { type: "n8n-nodes-base.slack", parameters: { resource: "message", operation: "post" } },
+  create_task: { type: "n8n-nodes-base.hubspot", parameters: { resource: "engagement", operation: "create" } },
+  tag: { type: "n8n-nodes-base.hubspot", parameters: { resource: "contact", operation: "upsert" } },
+  add_to_list: { type: "n8n-nodes-base.hubspot", parameters: { resource: "contactList", operation: "add" } },
+  enroll_sequence: { type: "n8n-nodes-base.noOp", parameters: {} },
+  route_to_sales: { type: "n8n-nodes-base.hubspot", parameters: { resource: "contact", operation: "upsert" } },
+  custom: { type: "n8n-nodes-base.noOp", parameters: {} }
+};
+
+function n8nNode(node: WorkflowNode) {
+  switch (node.type) {
+    case "wait":
+      return {
+        type: "n8n-nodes-base.wait",
+        typeVersion: 1.1,
+        parameters: { resume: "timeInterval", ...waitAmount(node.minutes) }
+      };
+    case "wait_for": {
+      const limit = node.timeoutMinutes === null ? null : waitAmount(node.timeoutMinutes);
+      return {
+        type: "n8n-nodes-base.wait",
+        typeVersion: 1.1,
+        parameters: {
+          resume: "webhook",
+          httpMethod: "POST",
+          ...(limit && {
+            limitWaitTime: true,
+            limitType: "afterTimeInterval",
+            resumeAmount: limit.amount,
+            resumeUnit: limit.unit
+          })
+        }
+      };
+    }
+    case "condition":
+      return {
+        type: "n8n-nodes-base.if",
+        typeVersion: 2,
+        parameters: {
+          conditions: {
+            combinator: node.negate ? "and" : "or",
+            conditions: node.events.map((event) => ({
+              leftValue: "={{ $json.events }}",
+              rightValue: event,
+              operator: { type: "array", operation: node.negate ? "notContains" : "contains" }
+            }))
+          }
+        }
+      };
+    case "action":
+      return { typeVersion: 1, ...n8nActions[node.action] };
+  }
+}
+
+/**
+ * n8n import format: a webhook trigger followed by one node per compiled
+ * step, wired in order. IF nodes continue on their "true" output. Workflows
+ * are exported inactive so credentials can be attached before anything runs.
+ */
+export function toN8nWorkflow(workflow: CompiledWorkflow) {
+  const trigger = {
+    name: "Trigger",
+    type: "n8n-nodes-base.webhook",
+    typeVersion: 2,
+    position: [0, 300],
+    parameters: { httpMethod: "POST", path: slugify(workflow.name) },
+    notes: `${workflow.trigger.description} (${workflow.trigger.events
+      .map((event) => workflowEventLabels[event])
+      .join(", ")})`
+  };
+  const delay = workflow.trigger.delayMinutes
+    ? [
+        {
+          name: "Trigger delay",
+          type: "n8n-nodes-base.wait",
+          typeVersion: 1.1,
+          position: [250, 300],
+          parameters: { resume: "timeInterval", ...waitAmount(workflow.trigger.delayMinutes) },
+          notes: workflow.trigger.description
+        }
+      ]
+    : [];
+  const offset = 1 + delay.length;
+  const steps = workflow.nodes.map((node, index) => ({
+    name: `${index + 1}. ${node.label}`.slice(0, 60),
+    position: [(index + offset) * 250, 300],
+    notes: node.label,
+    ...n8nNode(node)
+  }));
+  const nodes = [trigger, ...delay, ...steps];
+
+  return {
+    name: workflow.name,
+    active: false,
+    nodes,
+    connections: Object.fromEntries(
+      nodes.slice(0, -1).map((node, index) => [
+        node.name,
+        { main: [[{ node: nodes[index + 1].name, type: "main", index: 0 }]] }
+      ])
+    ),
+    settings: { executionOrder: "v1" }
+  };
+}
+
+const zapierActions: Record<WorkflowActionType, { app: string; event: string }> = {
+  send_email: { app: "Gmail", event: "Send Email" },
+  send_reminder: { app: "Gmail", event: "Send Email" },
+  crm_update: { app: "HubSpot", event: "Create or Update Contact" },
+  notify: { app: "Slack", event: "Send Channel Message" },
+  create_task: { app: "HubSpot", event: "Create Engagement" },
+  tag: { app: "HubSpot", event: "Update Contact" },
+  add_to_list: { app: "HubSpot", event: "Add Contact to List" },
+  enroll_sequence: { app: "HubSpot", event: "Add Contact to Workflow" },
+  route_to_sales: { app: "HubSpot", event: "Update Contact" },
+  custom: { app: "Slack", event: "Send Direct Message" }
+};
+
+function zapierStep(node: WorkflowNode) {
+  switch (node.type) {
+    case "wait":
+      return { app: "Delay by Zapier", event: "Delay For", params: { ...waitAmount(node.minutes) } };
+    case "wait_for":
+      return {
+        app: "Filter by Zapier",
+        event: "Only continue if",
+        params: { any: node.events },
+        note: "Zaps cannot pause for an event; split the remaining steps into a Zap triggered by it."
+      };
+    case "condition":
+      return {
+        app: "Filter by Zapier",
+        event: "Only continue if",
+        params: node.negate ? { none: node.events } : { any: node.events }
+      };
+    case "action":
+      return {
+        ...zapierActions[node.action],
+        params: node.withinMinutes ? { dueWithin: waitAmount(node.withinMinutes) } : {},
+        ...(node.action === "custom" ? { note: "Manual step; review before enabling." } : {})
+      };
+  }
+}
+
+/** Zapier-style step list. Zapier has no import API, so this is a build sheet. */
+export function toZapierWorkflow(workflow: CompiledWorkflow) {
+  const delay = workflow.trigger.delayMinutes
+    ? [
+        {
+          app: "Delay by Zapier",
+          event: "Delay For",
+          params: { ...waitAmount(workflow.trigger.delayMinutes) },
+          label: workflow.trigger.description
+        }
+      ]
+    : [];
+  const steps = [
+    {
+      app: "Webhooks by Zapier",
+      event: "Catch Hook",
+      params: { events: workflow.trigger.events },
+      label: workflow.trigger.description
+    },
+    ...delay,
+    ...workflow.nodes.map((node) => ({ ...zapierStep(node), label: node.label }))
+  ];
+
+  return {
+    title: workflow.name,
+    steps: steps.map((step, index) => ({ position: index + 1, ...step })),
+    warnings: workflow.warnings
+  };
+}
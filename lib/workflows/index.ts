@@ -0,0 +1,16 @@
+export { compileWorkflow, compileWorkflows, parseDuration } from "@/lib/workflows/compile";
+export { toN8nWorkflow, toZapierWorkflow } from "@/lib/workflows/formats";
+export { formatDuration, formatMinutes, simulateWorkflow } from "@/lib/workflows/simulate";
+export { workflowEventLabels, workflowEventTypes } from "@/lib/workflows/types";
+export type {
+  CompiledWorkflow,
+  SimulationEvent,
+  SimulationRun,
+  SimulationStep,
+  SimulationStepStatus,
+  WorkflowActionType,
+  WorkflowEventType,
+  WorkflowNode,
+  WorkflowSource,
+  WorkflowTrigger
+} from "@/lib/workflows/types";
@@ -0,0 +1,132 @@
+import {
+  workflowEventLabels,
+  type CompiledWorkflow,
+  type SimulationEvent,
+  type SimulationRun,
+  type SimulationStep,
+  type WorkflowEventType
+} from "@/lib/workflows/types";
+
+/** Stop after this many runs so a noisy event stream stays readable. */
+const MAX_RUNS = 5;
+
+const MINUTES_PER_DAY = 60 * 24;
+
+/** "35 min", "4h", "Day 2", "Day 2 +4h" — offsets from the start of a simulation. */
+export function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < MINUTES_PER_DAY) return `${Math.round(minutes / 60)}h`;
+  const days = Math.floor(minutes / MINUTES_PER_DAY);
+  const hours = Math.round((minutes % MINUTES_PER_DAY) / 60);
+  return hours ? `Day ${days} +${hours}h` : `Day ${days}`;
+}
+
+/** "45 minutes", "4 hours", "2 days" — lengths of waits and deadlines. */
+export function formatDuration(minutes: number) {
+  const [amount, unit] =
+    minutes >= MINUTES_PER_DAY && minutes % MINUTES_PER_DAY === 0
+      ? [minutes / MINUTES_PER_DAY, "day"]
+      : minutes >= 60 && minutes % 60 === 0
+        ? [minutes / 60, "hour"]
+        : [minutes, "minute"];
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+function describeEvents(events: WorkflowEventType[]) {
+  return events.map((event) => workflowEventLabels[event].toLowerCase()).join(" or ");
+}
+
+function simulateRun(
+  workflow: CompiledWorkflow,
+  trigger: SimulationEvent,
+  events: SimulationEvent[]
+): SimulationRun {
+  const startedAt = trigger.at + workflow.trigger.delayMinutes;
+  const steps: SimulationStep[] = [];
+  let clock = startedAt;
+  let stopped = false;
+
+  const happened = (types: WorkflowEventType[], from: number, until: number) =>
+    events.find((event) => types.includes(event.type) && event.at >= from && event.at <= until);
+
+  for (const node of workflow.nodes) {
+    const base = { nodeId: node.id, label: node.label, type: node.type };
+    if (stopped) {
+      steps.push({ ...base, status: "skipped" });
+      continue;
+    }
+
+    switch (node.type) {
+      case "wait":
+        clock += node.minutes;
+        steps.push({ ...base, status: "waited", at: clock, detail: `Waited ${formatDuration(node.minutes)}` });
+        break;
+      case "wait_for": {
+        const deadline = node.timeoutMinutes === null ? Infinity : clock + node.timeoutMinutes;
+        const match = happened(node.events, clock, deadline);
+        if (match) {
+          clock = Math.max(clock, match.at);
+          steps.push({
+            ...base,
+            status: "passed",
+            at: clock,
+            detail: `${workflowEventLabels[match.type]} at ${formatMinutes(match.at)}`
+          });
+        } else {
+          stopped = true;
+          steps.push({
+            ...base,
+            status: "timed_out",
+            at: Number.isFinite(deadline) ? deadline : undefined,
+            detail: `No ${describeEvents(node.events)} ${
+              Number.isFinite(deadline) ? `within ${formatDuration(node.timeoutMinutes ?? 0)}` : "in this scenario"
+            }`
+          });
+        }
+        break;
+      }
+      case "condition": {
+        const occurred = Boolean(happened(node.events, trigger.at, clock));
+        const passed = node.negate ? !occurred : occurred;
+        stopped = !passed;
+        steps.push({
+          ...base,
+          status: passed ? "passed" : "blocked",
+          at: clock,
+          detail: `${occurred ? "Saw" : "No"} ${describeEvents(node.events)} by ${formatMinutes(clock)}`
+        });
+        break;
+      }
+      case "action":
+        steps.push({
+          ...base,
+          status: "fired",
+          at: clock,
+          detail: node.withinMinutes ? `Due within ${formatDuration(node.withinMinutes)}` : undefined
+        });
+        break;
+    }
+  }
+
+  return {
+    workflow: workflow.name,
+    triggeredBy: trigger.type,
+    startedAt,
+    steps,
+    completed: !stopped
+  };
+}
+
+/**
+ * Replays a mock event stream against a compiled workflow. Every event that
+ * matches the trigger starts a run; waits advance a clock, "wait for" steps
+ * look ahead from that clock, conditions look back to the trigger, and
+ * actions fire at the current clock.
+ */
+export function simulateWorkflow(workflow: CompiledWorkflow, events: SimulationEvent[]) {
+  const ordered = [...events].sort((a, b) => a.at - b.at);
+  return ordered
+    .filter((event) => workflow.trigger.events.includes(event.type))
+    .slice(0, MAX_RUNS)
+    .map((trigger) => simulateRun(workflow, trigger, ordered));
+}
@@ -0,0 +1,112 @@
+import type { LeadPlan } from "@/lib/types";
+
+export type WorkflowSource = LeadPlan["automationWorkflow"][number];
+
+export const workflowEventTypes = [
+  "form_submitted",
+  "offer_requested",
+  "content_downloaded",
+  "positive_reply",
+  "reply",
+  "no_reply",
+  "email_opened",
+  "link_clicked",
+  "meeting_booked",
+  "webinar_registered",
+  "webinar_attended",
+  "deal_closed_lost",
+  "manual"
+] as const;
+
+export type WorkflowEventType = (typeof workflowEventTypes)[number];
+
+export const workflowEventLabels: Record<WorkflowEventType, string> = {
+  form_submitted: "Form submitted",
+  offer_requested: "Offer requested",
+  content_downloaded: "Content downloaded",
+  positive_reply: "Positive reply",
+  reply: "Any reply",
+  no_reply: "No reply",
+  email_opened: "Email opened",
+  link_clicked: "Link clicked",
+  meeting_booked: "Meeting booked",
+  webinar_registered: "Webinar registration",
+  webinar_attended: "Webinar attended",
+  deal_closed_lost: "Deal closed-lost",
+  manual: "Manual enrollment"
+};
+
+export type WorkflowActionType =
+  | "send_email"
+  | "send_reminder"
+  | "crm_update"
+  | "notify"
+  | "create_task"
+  | "tag"
+  | "add_to_list"
+  | "enroll_sequence"
+  | "route_to_sales"
+  | "custom";
+
+export interface WorkflowTrigger {
+  /** Any of these events starts the workflow. */
+  events: WorkflowEventType[];
+  /** Start this long after the event instead of immediately, e.g. "closed-lost for 90 days". */
+  delayMinutes: number;
+  description: string;
+}
+
+interface NodeBase {
+  id: string;
+  /** The original step text this node was compiled from. */
+  label: string;
+}
+
+export type WorkflowNode =
+  | (NodeBase & { type: "wait"; minutes: number })
+  /** Pauses until any of the events happens, or stops the run after `timeoutMinutes`. */
+  | (NodeBase & { type: "wait_for"; events: WorkflowEventType[]; timeoutMinutes: number | null })
+  /** Continues only if the event has (or, when negated, has not) happened since the trigger. */
+  | (NodeBase & { type: "condition"; events: WorkflowEventType[]; negate: boolean })
+  | (NodeBase & {
+      type: "action";
+      action: WorkflowActionType;
+      /** Service-level deadline such as "within 4 hours". */
+      withinMinutes: number | null;
+    });
+
+export type WorkflowNodeType = WorkflowNode["type"];
+
+export interface CompiledWorkflow {
+  name: string;
+  trigger: WorkflowTrigger;
+  nodes: WorkflowNode[];
+  /** Phrases the compiler could not map exactly and approximated. */
+  warnings: string[];
+}
+
+export interface SimulationEvent {
+  type: WorkflowEventType;
+  /** Minutes after the start of the simulation. */
+  at: number;
+}
+
+export type SimulationStepStatus = "fired" | "waited" | "passed" | "blocked" | "timed_out" | "skipped";
+
+export interface SimulationStep {
+  nodeId: string;
+  label: string;
+  type: WorkflowNodeType;
+  status: SimulationStepStatus;
+  /** Minutes after the start of the simulation; absent for skipped steps. */
+  at?: number;
+  detail?: string;
+}
+
+export interface SimulationRun {
+  workflow: string;
+  triggeredBy: WorkflowEventType;
+  startedAt: number;
+  steps: SimulationStep[];
+  completed: boolean;
+}
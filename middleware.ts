@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/types";
+
+/**
+ * Sends visitors without a session cookie to the sign-in page before the
+ * planner loads. Only checks that the cookie exists; pages and API routes
+ * verify it, since the edge runtime cannot read the workspace store.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+  return NextResponse.redirect(new URL("/sign-in", request.url));
+}
+
+export const config = {
+  matcher: ["/", "/compare", "/admin/:path*"]
+};